@@ -0,0 +1,435 @@
+/**
+ * 발주 파일 명령줄 가져오기
+ * 업로드 화면과 같은 파이프라인(src/lib/orderImport.ts)으로 엑셀/CSV/TSV 파일을 파싱하고
+ * import_order_upload RPC로 저장한 뒤 파일별 결과를 JSON으로 출력
+ *
+ * 사용법: npm run import-orders -- [옵션] <파일...>
+ * 접속 정보는 옵션 또는 환경 변수로 지정 (RPC가 관리자 권한을 확인하므로 관리자 계정으로 로그인)
+ *   SUPABASE_URL / VITE_SUPABASE_URL, SUPABASE_ANON_KEY / VITE_SUPABASE_ANON_KEY
+ *   ORDER_IMPORT_EMAIL, ORDER_IMPORT_PASSWORD
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type {
+  Vendor,
+  VendorAlias,
+  Order,
+  OrderInsert,
+  ImportProfile,
+  ProductCodeRule,
+  ImportSkipReason,
+  OrderImportResult,
+  ImportReport,
+} from '@/types/database';
+import { WorkbookSheets, DEFAULT_IMPORT_PROFILE } from '@/lib/importProfile';
+import { TextEncoding, decodeTextBuffer, delimitedTextToSheets } from '@/lib/delimitedText';
+import { buildVendorIndex } from '@/lib/vendorMatching';
+import { DuplicateHandling, ImportOrderUpdate, DEFAULT_DUPLICATE_HANDLING, diffImportRows } from '@/lib/importDiff';
+import { IMPORT_ROW_ISSUE_LABELS, isValidIsoDate } from '@/lib/importValidation';
+import { buildOrderImportPlan } from '@/lib/orderImportPlan';
+import {
+  extractOrderDateFromFileName,
+  readWorkbookSheets,
+  parseWorkbook,
+  findSheetsWithHeader,
+  classifyImportRows,
+  selectResolvedRows,
+  buildImportSubmission,
+  buildAmendmentSubmission,
+  toAmendmentCandidate,
+} from '@/lib/orderImport';
+import { matchAmendmentRows } from '@/lib/importAmendment';
+
+const USAGE = `사용법: npm run import-orders -- [옵션] <파일...>
+
+옵션:
+  --dry-run               저장하지 않고 결과만 출력
+  --order-date <날짜>     발주일 (YYYY-MM-DD, 기본: 파일명에서 추출, --amendment는 원 발주일)
+  --profile <이름>        가져오기 프로필 이름 (기본: 자동 감지)
+  --all-sheets            프로필 헤더가 있는 모든 시트를 가져옴
+  --amendment             수정 발주: 기존 주문을 찾아 수량/납기일 변경 또는 취소 (신규 등록 없음)
+  --strict                오류 행이 있으면 해당 파일을 저장하지 않음 (기본: 오류 행은 건너뜀)
+  --identical <처리>      기존 주문과 동일한 행: skip | insert (기본: skip)
+  --changed <처리>        기존 주문과 수량/품명이 다른 행: update | skip | insert (기본: update)
+  --output <파일>         결과 JSON을 파일로도 저장
+  --url <URL>             Supabase URL
+  --key <키>              Supabase anon key
+  --email <이메일>        관리자 계정 이메일
+  --password <비밀번호>   관리자 계정 비밀번호
+  -h, --help              도움말`;
+
+const IDENTICAL_HANDLING = ['skip', 'insert'] as const;
+const CHANGED_HANDLING = ['update', 'skip', 'insert'] as const;
+
+interface ImportContext {
+  client: SupabaseClient;
+  userId: string;
+  vendors: Vendor[];
+  vendorAliases: VendorAlias[];
+  productCodeRules: ProductCodeRule[];
+  profiles: ImportProfile[];
+}
+
+interface ImportFileOptions {
+  dryRun: boolean;
+  orderDate?: string;
+  profileName?: string;
+  allSheets: boolean;
+  amendment: boolean;
+  strict: boolean;
+  duplicateHandling: DuplicateHandling;
+}
+
+interface ImportFileSummary {
+  file: string;
+  status: 'imported' | 'dry_run' | 'failed';
+  order_date: string | null;
+  profile: string | null;
+  sheets: string[];
+  encoding: TextEncoding | null;
+  total_rows: number;
+  accepted_rows: number;
+  inserted: number;
+  updated: number;
+  cancelled: number;
+  skipped: number;
+  skipped_by_reason: Partial<Record<ImportSkipReason, number>>;
+  invalid_rows: { sheet: string | null; row: number; issues: string[] }[];
+  file_upload_id: string | null;
+  warnings: string[];
+  error: string | null;
+}
+
+const emptySummary = (file: string): ImportFileSummary => ({
+  file,
+  status: 'failed',
+  order_date: null,
+  profile: null,
+  sheets: [],
+  encoding: null,
+  total_rows: 0,
+  accepted_rows: 0,
+  inserted: 0,
+  updated: 0,
+  cancelled: 0,
+  skipped: 0,
+  skipped_by_reason: {},
+  invalid_rows: [],
+  file_upload_id: null,
+  warnings: [],
+  error: null,
+});
+
+// 조회 실패 시 메시지를 붙여 예외로 변환
+const unwrap = <T>(label: string, result: { data: T | null; error: { message: string } | null }): T => {
+  if (result.error) throw new Error(`${label} 조회 실패: ${result.error.message}`);
+  return result.data as T;
+};
+
+const loadContext = async (client: SupabaseClient, email: string, password: string): Promise<ImportContext> => {
+  const { data: auth, error: authError } = await client.auth.signInWithPassword({ email, password });
+  if (authError || !auth.user) {
+    throw new Error(`로그인 실패: ${authError?.message ?? '사용자 정보 없음'}`);
+  }
+
+  const [vendors, vendorAliases, productCodeRules, profiles] = await Promise.all([
+    client.from('vendors').select('*').order('name', { ascending: true })
+      .then(result => unwrap<Vendor[]>('외주처', result)),
+    client.from('vendor_aliases').select('*').order('alias', { ascending: true })
+      .then(result => unwrap<VendorAlias[]>('외주처 별칭', result)),
+    client.from('product_code_rules').select('*').eq('is_active', true).order('priority', { ascending: true })
+      .then(result => unwrap<ProductCodeRule[]>('제품코드 규칙', result)),
+    client.from('import_profiles').select('*').eq('is_active', true).order('name', { ascending: true })
+      .then(result => unwrap<ImportProfile[]>('가져오기 프로필', result)),
+  ]);
+
+  return { client, userId: auth.user.id, vendors, vendorAliases, productCodeRules, profiles };
+};
+
+// 파일 확장자에 따라 엑셀 또는 구분자 텍스트로 읽기
+const readSheets = async (filePath: string): Promise<{ sheets: WorkbookSheets; encoding: TextEncoding | null }> => {
+  const lowerName = filePath.toLowerCase();
+  const buffer = await readFile(filePath);
+  const data = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+
+  if (lowerName.endsWith('.xlsx') || lowerName.endsWith('.xls')) {
+    return { sheets: readWorkbookSheets(data), encoding: null };
+  }
+
+  if (/\.(csv|tsv|txt)$/.test(lowerName)) {
+    const { text, encoding } = decodeTextBuffer(data);
+    const delimiter = lowerName.endsWith('.tsv') || lowerName.endsWith('.txt') ? '\t' : undefined;
+    return { sheets: delimitedTextToSheets(text, path.basename(filePath), delimiter), encoding };
+  }
+
+  throw new Error('엑셀(.xlsx, .xls) 또는 CSV/TSV/TXT 파일만 가져올 수 있습니다. (이미지/메신저 문서 분석은 업로드 화면에서 사용)');
+};
+
+const importFile = async (
+  filePath: string,
+  context: ImportContext,
+  options: ImportFileOptions
+): Promise<ImportFileSummary> => {
+  const fileName = path.basename(filePath);
+  const summary = emptySummary(filePath);
+
+  try {
+    const { sheets, encoding } = await readSheets(filePath);
+    const orderDate = options.orderDate ?? extractOrderDateFromFileName(fileName);
+    summary.encoding = encoding;
+    summary.order_date = orderDate;
+
+    // DB에 등록된 프로필이 없으면 기본 양식 사용 (화면 업로드와 동일)
+    const profiles = context.profiles.length > 0 ? context.profiles : [DEFAULT_IMPORT_PROFILE];
+    const profile = options.profileName ? profiles.find(p => p.name === options.profileName) : undefined;
+    if (options.profileName && !profile) {
+      throw new Error(`'${options.profileName}' 프로필을 찾을 수 없습니다.`);
+    }
+
+    let parsed = parseWorkbook(sheets, profiles, { profile, orderDate });
+    if (options.allSheets) {
+      parsed = parseWorkbook(sheets, profiles, {
+        profile: parsed.profile,
+        sheetNames: findSheetsWithHeader(sheets, parsed.profile),
+        orderDate,
+      });
+    }
+    summary.profile = parsed.profile.name;
+    summary.sheets = parsed.sheetNames;
+
+    const classifyContext = {
+      vendors: context.vendors,
+      vendorIndex: buildVendorIndex(context.vendors, context.vendorAliases),
+      productCodeRules: context.productCodeRules,
+      orderDate,
+      amendment: options.amendment,
+    };
+    const initial = classifyImportRows(parsed.orders, classifyContext);
+    const invalidRows = initial.rows.filter(row => row.issues.length > 0);
+    summary.invalid_rows = invalidRows.map(row => ({
+      sheet: row.sheetName,
+      row: row.rowNumber,
+      issues: row.issues.map(issue => IMPORT_ROW_ISSUE_LABELS[issue]),
+    }));
+
+    if (options.strict && invalidRows.length > 0) {
+      throw new Error(`오류 행 ${invalidRows.length}건이 있어 저장하지 않았습니다. (--strict)`);
+    }
+
+    // 오류 행은 화면의 "오류 행 모두 제외"와 같이 제외 처리 (리포트에 사유와 함께 기록)
+    const classified = classifyImportRows(parsed.orders, {
+      ...classifyContext,
+      excludedRowKeys: new Set(invalidRows.map(row => row.rowKey)),
+    });
+    const resolvedRows = selectResolvedRows(classified.rows);
+
+    // 같은 발주일의 기존 주문과 비교 (중복 처리 방식 적용, 화면과 같이 보관된 주문은 제외)
+    const vendorIds = Array.from(new Set(resolvedRows.map(row => row.vendor.id)));
+    const ordersByDate = vendorIds.length > 0
+      ? unwrap<Order[]>('기존 주문', await context.client
+        .from('orders')
+        .select('*')
+        .eq('is_archived', false)
+        .eq('order_date', orderDate)
+        .in('vendor_id', vendorIds))
+      : [];
+
+    // 수정 발주는 PO 번호로 찾은 주문도 함께 비교
+    const poNumbers = options.amendment
+      ? Array.from(new Set(resolvedRows.map(row => row.poNumber).filter(Boolean)))
+      : [];
+    const ordersByPo = poNumbers.length > 0
+      ? unwrap<Order[]>('PO 번호 주문', await context.client
+        .from('orders')
+        .select('*')
+        .eq('is_archived', false)
+        .in('po_number', poNumbers))
+      : [];
+    const existingOrders = Array.from(new Map(
+      [...ordersByDate, ...ordersByPo].map(order => [order.id, order])
+    ).values());
+
+    let submission: { inserts: OrderInsert[]; updates: ImportOrderUpdate[]; report: ImportReport };
+    if (options.amendment) {
+      // 수정 발주: 기존 주문을 찾은 행만 변경/취소
+      const amendments = matchAmendmentRows(resolvedRows.map(toAmendmentCandidate), existingOrders, orderDate);
+      submission = {
+        inserts: [],
+        ...buildAmendmentSubmission({
+          skippedRows: parsed.skippedRows,
+          excluded: classified.excluded,
+          rows: classified.rows,
+          amendments: new Map(resolvedRows.map((row, index) => [row.rowKey, amendments[index]])),
+        }),
+      };
+    } else {
+      const diffs = diffImportRows(
+        resolvedRows.map(row => ({
+          vendorId: row.vendor.id,
+          productCode: row.productCode,
+          productName: row.productName,
+          quantity: row.quantity,
+          deliveryDate: row.deliveryDate || null,
+        })),
+        existingOrders,
+        orderDate
+      );
+      submission = buildImportSubmission({
+        skippedRows: parsed.skippedRows,
+        excluded: classified.excluded,
+        rows: classified.rows,
+        diffs: new Map(resolvedRows.map((row, index) => [row.rowKey, diffs[index]])),
+        duplicateHandling: options.duplicateHandling,
+        orderDate,
+        userId: context.userId,
+      });
+    }
+    const plan = buildOrderImportPlan(submission.inserts, submission.updates, existingOrders, context.vendors);
+    const report: ImportReport = {
+      ...submission.report,
+      warnings: [...submission.report.warnings, ...plan.warnings],
+    };
+
+    Object.assign(summary, {
+      total_rows: report.total_rows,
+      accepted_rows: report.accepted_rows,
+      inserted: report.inserted,
+      updated: report.updated,
+      cancelled: report.cancelled ?? 0,
+      skipped: report.skipped,
+      skipped_by_reason: report.skipped_by_reason,
+      warnings: report.warnings,
+    });
+
+    if (options.dryRun) {
+      summary.status = 'dry_run';
+      return summary;
+    }
+
+    if (plan.orders.length === 0 && plan.updates.length === 0) {
+      throw new Error('등록하거나 수정할 주문이 없습니다.');
+    }
+
+    const { data, error } = await context.client.rpc('import_order_upload', {
+      p_file_name: fileName,
+      p_order_date: orderDate,
+      p_orders: plan.orders,
+      p_updates: plan.updates,
+      p_report: report,
+    });
+    if (error) throw new Error(error.message);
+
+    const result = data as unknown as OrderImportResult;
+    summary.status = 'imported';
+    summary.file_upload_id = result.file_upload_id;
+    summary.inserted = result.inserted;
+    summary.updated = result.updated;
+    summary.cancelled = result.cancelled;
+    summary.warnings = [...summary.warnings, ...result.warnings];
+    return summary;
+  } catch (error) {
+    summary.status = 'failed';
+    summary.error = error instanceof Error ? error.message : String(error);
+    return summary;
+  }
+};
+
+const main = async (): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      'dry-run': { type: 'boolean', default: false },
+      'order-date': { type: 'string' },
+      profile: { type: 'string' },
+      'all-sheets': { type: 'boolean', default: false },
+      amendment: { type: 'boolean', default: false },
+      strict: { type: 'boolean', default: false },
+      identical: { type: 'string', default: DEFAULT_DUPLICATE_HANDLING.identical },
+      changed: { type: 'string', default: DEFAULT_DUPLICATE_HANDLING.changed },
+      output: { type: 'string' },
+      url: { type: 'string' },
+      key: { type: 'string' },
+      email: { type: 'string' },
+      password: { type: 'string' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help || positionals.length === 0) {
+    console.error(USAGE);
+    return values.help ? 0 : 2;
+  }
+
+  const url = values.url ?? process.env.SUPABASE_URL ?? process.env.VITE_SUPABASE_URL;
+  const key = values.key ?? process.env.SUPABASE_ANON_KEY ?? process.env.VITE_SUPABASE_ANON_KEY;
+  const email = values.email ?? process.env.ORDER_IMPORT_EMAIL;
+  const password = values.password ?? process.env.ORDER_IMPORT_PASSWORD;
+
+  const usageErrors = [
+    !url || !key ? 'Supabase URL/anon key가 필요합니다. (--url, --key 또는 SUPABASE_URL, SUPABASE_ANON_KEY)' : null,
+    !email || !password ? '관리자 계정이 필요합니다. (--email, --password 또는 ORDER_IMPORT_EMAIL, ORDER_IMPORT_PASSWORD)' : null,
+    values['order-date'] && !isValidIsoDate(values['order-date']) ? '--order-date는 YYYY-MM-DD 형식이어야 합니다.' : null,
+    !(IDENTICAL_HANDLING as readonly string[]).includes(values.identical) ? `--identical은 ${IDENTICAL_HANDLING.join(' | ')} 중 하나여야 합니다.` : null,
+    !(CHANGED_HANDLING as readonly string[]).includes(values.changed) ? `--changed는 ${CHANGED_HANDLING.join(' | ')} 중 하나여야 합니다.` : null,
+  ].filter((message): message is string => message !== null);
+
+  if (usageErrors.length > 0) {
+    usageErrors.forEach(message => console.error(message));
+    console.error(`\n${USAGE}`);
+    return 2;
+  }
+
+  const client = createClient(url!, key!, {
+    auth: { autoRefreshToken: false, persistSession: false },
+  });
+  const context = await loadContext(client, email!, password!);
+
+  const options: ImportFileOptions = {
+    dryRun: values['dry-run'],
+    orderDate: values['order-date'],
+    profileName: values.profile,
+    allSheets: values['all-sheets'],
+    amendment: values.amendment,
+    strict: values.strict,
+    duplicateHandling: {
+      identical: values.identical as DuplicateHandling['identical'],
+      changed: values.changed as DuplicateHandling['changed'],
+    },
+  };
+
+  // 앞 파일의 등록 결과가 다음 파일의 중복 판정에 반영되도록 순서대로 처리
+  const files: ImportFileSummary[] = [];
+  for (const filePath of positionals) {
+    const summary = await importFile(filePath, context, options);
+    console.error(summary.error
+      ? `✗ ${filePath}: ${summary.error}`
+      : `✓ ${filePath}: ${summary.inserted}건 등록, ${summary.updated}건 수정, ${summary.cancelled}건 취소, ${summary.skipped}건 건너뜀${options.dryRun ? ' (dry-run)' : ''}`);
+    files.push(summary);
+  }
+
+  await client.auth.signOut();
+
+  const output = JSON.stringify({
+    dry_run: options.dryRun,
+    succeeded: files.filter(file => file.status !== 'failed').length,
+    failed: files.filter(file => file.status === 'failed').length,
+    files,
+  }, null, 2);
+
+  console.log(output);
+  if (values.output) {
+    await writeFile(values.output, `${output}\n`, 'utf-8');
+  }
+
+  return files.some(file => file.status === 'failed') ? 1 : 0;
+};
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
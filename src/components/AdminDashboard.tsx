@@ -4,17 +4,39 @@
  */
 
 import React, { useState, useCallback, useMemo, useEffect } from 'react';
-import type { User as DbUser, OrderInsert, Vendor, FileUploadWithUser, Order } from '@/types/database';
+import type { User as DbUser, Order, OrderWithVendor, OrderInsert, Vendor, FileUploadWithUser, FileUploadRollbackResult, ImportReport } from '@/types/database';
 import { User } from '@/types';
 import { useOrders } from '@/hooks/useOrders';
-import { useVendors, useVendorTargets } from '@/hooks/useVendors';
+import { useOrderSummary } from '@/hooks/useOrderSummary';
+import { useVendors, useVendorTargets, useVendorAliases } from '@/hooks/useVendors';
 import { useProductionSchedules } from '@/hooks/useProductionSchedules';
-import { createFileUpload, getFileUploads } from '@/services/fileUploadService';
+import { useImportProfiles } from '@/hooks/useImportProfiles';
+import { useProductCodeRules } from '@/hooks/useProductCodeRules';
+import { countsTowardTarget } from '@/lib/productCodeRules';
+import { isRowConflictError } from '@/lib/rowVersion';
+import { getFileUploads, importOrderUpload } from '@/services/fileUploadService';
+import { getOrdersByIds } from '@/services/orderService';
+import { buildOrderImportPlan } from '@/lib/orderImportPlan';
 import { FileUpload } from '@/components/FileUpload';
+import type { ImportProfileDraft } from '@/components/ImportProfileEditor';
+import type { ImportOrderUpdate } from '@/lib/importDiff';
 import { VendorCard } from '@/components/VendorCard';
+import { OrderListFilters } from '@/components/OrderListFilters';
+import type { OrderSortKey } from '@/lib/orderListQuery';
 import { UserManagement } from '@/components/UserManagement';
+import { OrderArchive } from '@/components/OrderArchive';
+import { OrderLineOperationModal } from '@/components/OrderLineOperationModal';
+import { OrderCommentDrawer, CommentButton } from '@/components/OrderCommentDrawer';
+import { OrderImageModal } from '@/components/OrderImageModal';
+import { ProductCodeRuleManagement } from '@/components/ProductCodeRuleManagement';
+import { UploadRollbackModal } from '@/components/UploadRollbackModal';
+import { ImportReportModal } from '@/components/ImportReportModal';
 import { ProductionGantt } from '@/components/ProductionGantt';
-import { OutsourcingLayout } from '@/components/outsourcing/OutsourcingLayout';
+import { OutsourcingLayout, type OutsourcingFocus, type OutsourcingMenuId } from '@/components/outsourcing/OutsourcingLayout';
+import { GlobalSearchPalette } from '@/components/GlobalSearchPalette';
+import type { GlobalSearchGroupId, GlobalSearchResult } from '@/lib/globalSearch';
+import { useScrollToRow } from '@/hooks/useScrollToRow';
+import { useCommentSummaries } from '@/hooks/useOrderComments';
 
 interface AdminDashboardProps {
   user: User;
@@ -23,7 +45,15 @@ interface AdminDashboardProps {
   onLogout: () => void;
 }
 
-type TabType = 'input' | 'list' | 'schedule' | 'report' | 'users' | 'outsourcing';
+type TabType = 'input' | 'list' | 'schedule' | 'report' | 'rules' | 'users' | 'archive' | 'outsourcing';
+
+// 통합 검색 결과별로 열 외주임가공 화면 (발주는 전체 발주 표로 이동)
+const SEARCH_RESULT_MENUS: Record<Exclude<GlobalSearchGroupId, 'orders'>, OutsourcingMenuId> = {
+  bom_items: 'bom-status',
+  delivery_items: 'delivery-print',
+  material_settlements: 'material-settlement',
+  material_returns: 'material-return',
+};
 
 export const AdminDashboard: React.FC<AdminDashboardProps> = ({
   user,
@@ -35,16 +65,58 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({
   const [notification, setNotification] = useState<string | null>(null);
   const [fileUploads, setFileUploads] = useState<FileUploadWithUser[]>([]);
   const [fileUploadsLoading, setFileUploadsLoading] = useState(false);
+  const [rollbackTarget, setRollbackTarget] = useState<FileUploadWithUser | null>(null);
+  const [reportTarget, setReportTarget] = useState<FileUploadWithUser | null>(null);
+  const [lineOperationTarget, setLineOperationTarget] = useState<Order | null>(null);
+  const [commentTarget, setCommentTarget] = useState<OrderWithVendor | null>(null);
+  const [imageTarget, setImageTarget] = useState<Order | null>(null);
+  // 통합 검색으로 이동한 발주 / 외주임가공 행
+  const [focusedOrderId, setFocusedOrderId] = useState<string | null>(null);
+  const [outsourcingFocus, setOutsourcingFocus] = useState<OutsourcingFocus | null>(null);
 
-  const { orders, isLoading: ordersLoading, error: ordersError, addOrders, removeAllOrders, refetch: refetchOrders } = useOrders();
-  const { vendors, isLoading: vendorsLoading, error: vendorsError } = useVendors();
+  // 외주처 카드와 리포트는 요약 조회로, 전체 발주 표는 서버 페이지 조회로 불러옴
+  const {
+    summaries: orderSummaries,
+    quantityTotals,
+    isLoading: ordersLoading,
+    error: ordersError,
+    refetch: refetchSummary
+  } = useOrderSummary();
+  const {
+    orders: pagedOrders,
+    total: orderTotal,
+    page: orderPage,
+    pageCount: orderPageCount,
+    query: orderQuery,
+    isLoading: orderPageLoading,
+    error: orderPageError,
+    setQuery: setOrderQuery,
+    goToPage: goToOrderPage,
+    refetch: refetchOrderPage
+  } = useOrders();
+  const { vendors, isLoading: vendorsLoading, error: vendorsError, addVendor } = useVendors();
+  // 전체 발주 표 현재 페이지 주문의 댓글/안 읽은 댓글 수
+  const { summaries: commentSummaries, refetch: refetchCommentSummaries } = useCommentSummaries({
+    orderIds: pagedOrders.map(order => order.id),
+    enabled: activeTab === 'list',
+  });
+  const { aliases: vendorAliases, addAlias } = useVendorAliases();
   const { 
     schedules, 
     isLoading: schedulesLoading, 
     moveSchedule, 
-    generateSchedules,
     refetch: refetchSchedules 
   } = useProductionSchedules();
+  const { profiles: importProfiles, addProfile, editProfile } = useImportProfiles();
+  // 비활성 규칙도 관리 화면에 표시 (판정 시에는 활성 규칙만 사용)
+  const {
+    rules: productCodeRules,
+    isLoading: rulesLoading,
+    error: rulesError,
+    addRule,
+    editRule,
+    removeRule
+  } = useProductCodeRules({ activeOnly: false });
 
   // 리포트용 목표 데이터
   const currentYear = new Date().getFullYear();
@@ -65,6 +137,10 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({
     return map;
   }, [targets]);
 
+  const refetchOrders = useCallback(async () => {
+    await Promise.all([refetchSummary(), refetchOrderPage()]);
+  }, [refetchSummary, refetchOrderPage]);
+
   // 알림 표시
   const showNotification = useCallback((msg: string) => {
     setNotification(msg);
@@ -72,42 +148,84 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({
   }, []);
 
   // 파일 업로드 완료 핸들러
+  // 업로드 이력, 주문 등록/수정, 초기 생산계획은 import_order_upload 한 번으로 저장
   const handleUploadComplete = useCallback(async (
     ordersToInsert: OrderInsert[],
     fileName: string,
-    orderDate: string
+    orderDate: string,
+    ordersToUpdate: ImportOrderUpdate[],
+    report: ImportReport
   ) => {
-    // 주문 저장
-    const { success, error } = await addOrders(ordersToInsert);
+    // 수정 대상 주문의 현재 값은 목록 페이지와 관계없이 ID로 조회
+    const { data: existingOrders, error: existingError } = await getOrdersByIds(ordersToUpdate.map(update => update.id));
+    if (existingError) {
+      throw new Error(existingError.message || '수정할 주문을 불러오지 못했습니다.');
+    }
 
-    if (!success || error) {
+    const plan = buildOrderImportPlan(ordersToInsert, ordersToUpdate, existingOrders || [], vendors);
+    const { data: result, error } = await importOrderUpload(
+      fileName,
+      orderDate,
+      plan.orders,
+      plan.updates,
+      { ...report, warnings: [...report.warnings, ...plan.warnings] }
+    );
+
+    if (error || !result) {
       throw new Error(error?.message || '주문 저장에 실패했습니다.');
     }
 
-    // 업로드 이력 저장
-    await createFileUpload({
-      file_name: fileName,
-      order_count: ordersToInsert.length,
-      order_date: orderDate,
-      uploaded_by: dbUser.id
-    });
-
-    showNotification(`${ordersToInsert.length}건의 발주가 등록되었습니다.`);
+    showNotification(result.updated > 0 || result.cancelled > 0
+      ? `${[
+        result.inserted > 0 ? `${result.inserted}건 등록` : null,
+        result.updated > 0 ? `${result.updated}건 수정` : null,
+        result.cancelled > 0 ? `${result.cancelled}건 취소` : null,
+      ].filter(Boolean).join(', ')}되었습니다.`
+      : `${result.inserted}건의 발주가 등록되었습니다.`);
     setActiveTab('list');
-    
-    setTimeout(async () => {
-      await refetchOrders();
-      const { data: latestOrders } = await import('@/services/orderService').then(m => m.getOrders());
-      if (latestOrders && latestOrders.length > 0 && vendors.length > 0) {
-        const ordersForSchedule = latestOrders.filter(o => 
-          !schedules.some(s => s.order_id === o.id)
-        ) as Order[];
-        if (ordersForSchedule.length > 0) {
-          await generateSchedules(ordersForSchedule, vendors);
-        }
-      }
-    }, 500);
-  }, [addOrders, dbUser.id, showNotification, refetchOrders, vendors, schedules, generateSchedules]);
+
+    await Promise.all([refetchOrders(), refetchSchedules()]);
+
+    return { warnings: [...plan.warnings, ...result.warnings] };
+  }, [vendors, showNotification, refetchOrders, refetchSchedules]);
+
+  // 가져오기 프로필 저장 (id가 있으면 수정, 없으면 생성)
+  const handleSaveImportProfile = useCallback(async (data: ImportProfileDraft, id?: string) => {
+    const result = id
+      ? await editProfile(id, data)
+      : await addProfile({ ...data, is_active: true, created_by: dbUser.id });
+
+    if (result.success) {
+      showNotification(`'${data.name}' 프로필이 저장되었습니다.`);
+    }
+    return result;
+  }, [addProfile, editProfile, dbUser.id, showNotification]);
+
+  // 업로드 파일의 외주처 표기를 기존 외주처 별칭으로 저장
+  const handleLinkVendorAlias = useCallback(async (vendorId: string, alias: string) => {
+    const result = await addAlias({ vendor_id: vendorId, alias, created_by: dbUser.id });
+    if (result.success) {
+      const vendorName = vendors.find(v => v.id === vendorId)?.name;
+      showNotification(`'${alias}'을(를) ${vendorName} 별칭으로 저장했습니다.`);
+    }
+    return result;
+  }, [addAlias, vendors, dbUser.id, showNotification]);
+
+  // 업로드 파일의 외주처 표기로 새 외주처 등록
+  const handleCreateVendor = useCallback(async (name: string, code: string) => {
+    const result = await addVendor({
+      name,
+      code,
+      contact_email: null,
+      is_active: true,
+      daily_capacity: 5000,
+      line_count: 1
+    });
+    if (result.success) {
+      showNotification(`새 외주처 '${name}'이(가) 등록되었습니다.`);
+    }
+    return result;
+  }, [addVendor, showNotification]);
 
   // 파일 업로드 이력 불러오기
   const loadFileUploads = useCallback(async () => {
@@ -123,61 +241,79 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({
     }
   }, []);
 
+  // 업로드 롤백 완료 후 목록 갱신
+  const handleRolledBack = useCallback(async (result: FileUploadRollbackResult) => {
+    setRollbackTarget(null);
+    showNotification(`업로드가 롤백되었습니다. (주문 ${result.orders}건, 생산계획 ${result.schedules}건, 납품서 항목 ${result.delivery_items}건 삭제)`);
+    await Promise.all([loadFileUploads(), refetchOrders(), refetchSchedules()]);
+  }, [showNotification, loadFileUploads, refetchOrders, refetchSchedules]);
+
   // 컴포넌트 마운트 시 파일 업로드 이력 불러오기
   useEffect(() => {
     loadFileUploads();
   }, [loadFileUploads]);
 
-  // 데이터 초기화
-  const handleClear = useCallback(async () => {
-    if (confirm('모든 발주 내역을 초기화하시겠습니까?')) {
-      const { success, error } = await removeAllOrders();
-      if (success) {
-        showNotification('모든 발주 내역이 삭제되었습니다.');
-      } else if (error) {
-        alert(`삭제 중 오류가 발생했습니다: ${error.message}`);
-      }
+  // 통합 검색 결과로 이동 (발주는 전체 발주 표를 해당 발주로 좁혀서 강조)
+  const handleSearchSelect = useCallback((result: GlobalSearchResult) => {
+    if (result.group === 'orders') {
+      setOrderQuery({ search: result.orderSearch ?? '', completion: 'all', dateFrom: undefined, dateTo: undefined });
+      setFocusedOrderId(result.id);
+      setActiveTab('list');
+      return;
     }
-  }, [removeAllOrders, showNotification]);
 
-  // 외주처별 주문 그룹화
+    setOutsourcingFocus({ menu: SEARCH_RESULT_MENUS[result.group], rowId: result.id });
+    setActiveTab('outsourcing');
+  }, [setOrderQuery]);
+
+  useScrollToRow(orderPageLoading ? null : focusedOrderId, pagedOrders);
+
+  // 보관/복원/영구 삭제, 주문 라인 분할/병합/외주처 변경 후 현재 화면 데이터 새로고침
+  const handleOrdersChanged = useCallback(async (message: string) => {
+    showNotification(message);
+    await Promise.all([refetchOrders(), refetchSchedules()]);
+  }, [showNotification, refetchOrders, refetchSchedules]);
+
+  // 외주처별 주문 요약 (외주처명 순)
   const vendorGroups = useMemo(() => {
-    const groups: Record<string, { vendorId: string; vendorName: string; code: string; items: typeof orders }> = {};
-
-    orders.forEach(order => {
-      if (!order.vendor) return;
-
-      const vendorName = order.vendor.name;
-      if (!groups[vendorName]) {
-        groups[vendorName] = {
-          vendorId: order.vendor_id,
-          vendorName,
-          code: order.vendor.code,
-          items: []
-        };
-      }
-      groups[vendorName].items.push(order);
-    });
+    const vendorMap = new Map(vendors.map(vendor => [vendor.id, vendor]));
 
-    return Object.values(groups);
-  }, [orders]);
+    return orderSummaries
+      .filter(summary => vendorMap.has(summary.vendor_id))
+      .map(summary => {
+        const vendor = vendorMap.get(summary.vendor_id)!;
+        return { vendorId: vendor.id, vendorName: vendor.name, summary };
+      })
+      .sort((a, b) => a.vendorName.localeCompare(b.vendorName, 'ko'));
+  }, [orderSummaries, vendors]);
 
   // 리포트 데이터 계산
   const reportData = useMemo(() => {
-    // "9"로 시작하는 제품코드만 필터링
-    const filteredOrders = orders.filter(o => o.product_code?.startsWith('9'));
+    const vendorNames = new Map(vendors.map(vendor => [vendor.id, vendor.name]));
+
+    // 목표 집계 대상 제품코드만 필터링
+    const filteredTotals = quantityTotals.filter(total => countsTowardTarget(total.product_code, productCodeRules));
 
     // 외주처별 수량 합계
     const vendorQuantities: Record<string, number> = {};
 
-    filteredOrders.forEach(order => {
-      if (!order.vendor) return;
-      const vendorName = order.vendor.name;
-      vendorQuantities[vendorName] = (vendorQuantities[vendorName] || 0) + order.quantity;
+    filteredTotals.forEach(total => {
+      const vendorName = vendorNames.get(total.vendor_id);
+      if (!vendorName) return;
+      vendorQuantities[vendorName] = (vendorQuantities[vendorName] || 0) + total.quantity;
     });
 
     return vendorQuantities;
-  }, [orders]);
+  }, [quantityTotals, vendors, productCodeRules]);
+
+  // 전체 발주 표 정렬 (같은 열을 다시 누르면 방향 전환)
+  const handleOrderSort = useCallback((key: OrderSortKey) => {
+    if (orderQuery.sortKey === key) {
+      setOrderQuery({ sortOrder: orderQuery.sortOrder === 'asc' ? 'desc' : 'asc' });
+    } else {
+      setOrderQuery({ sortKey: key, sortOrder: 'asc' });
+    }
+  }, [orderQuery.sortKey, orderQuery.sortOrder, setOrderQuery]);
 
   // 정렬된 리포트 외주처 목록 (달성률 기준 내림차순)
   const sortedReportVendors = useMemo(() => {
@@ -207,11 +343,18 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({
   // admin 여부 확인
   const isAdmin = dbUser.role === 'admin';
 
+  const searchPalette = <GlobalSearchPalette showVendor onSelect={handleSearchSelect} />;
+
   if (activeTab === 'outsourcing') {
     return (
       <OutsourcingLayout
         isAdmin={true}
-        onBack={() => setActiveTab('input')}
+        focus={outsourcingFocus}
+        headerActions={searchPalette}
+        onBack={() => {
+          setOutsourcingFocus(null);
+          setActiveTab('input');
+        }}
       />
     );
   }
@@ -225,14 +368,7 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({
           <p className="text-slate-500 text-xs sm:text-sm truncate max-w-[200px] sm:max-w-none">안녕하세요, {dbUser.name || dbUser.email}님</p>
         </div>
         <div className="flex gap-2 flex-shrink-0">
-          {orders.length > 0 && (
-            <button
-              onClick={handleClear}
-              className="text-slate-500 text-xs sm:text-sm font-medium hover:text-red-600 px-2 sm:px-3 py-1 bg-slate-100 rounded-lg transition-colors"
-            >
-              초기화
-            </button>
-          )}
+          {searchPalette}
           <button
             onClick={onLogout}
             className="text-slate-500 text-xs sm:text-sm font-medium hover:text-slate-900 px-2 sm:px-3 py-1 border border-slate-200 rounded-lg"
@@ -280,6 +416,17 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({
           리포트
           {activeTab === 'report' && <div className="absolute bottom-0 left-0 w-full h-0.5 bg-blue-600 rounded-t-full" />}
         </button>
+        {isAdmin && (
+          <button
+            onClick={() => setActiveTab('rules')}
+            className={`flex-1 min-w-fit pb-3 px-2 text-xs sm:text-sm font-medium transition-colors relative whitespace-nowrap ${
+              activeTab === 'rules' ? 'text-blue-600' : 'text-slate-500 hover:text-slate-800'
+            }`}
+          >
+            코드 규칙
+            {activeTab === 'rules' && <div className="absolute bottom-0 left-0 w-full h-0.5 bg-blue-600 rounded-t-full" />}
+          </button>
+        )}
         {isAdmin && (
           <button
             onClick={() => setActiveTab('users')}
@@ -291,6 +438,17 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({
             {activeTab === 'users' && <div className="absolute bottom-0 left-0 w-full h-0.5 bg-blue-600 rounded-t-full" />}
           </button>
         )}
+        {isAdmin && (
+          <button
+            onClick={() => setActiveTab('archive')}
+            className={`flex-1 min-w-fit pb-3 px-2 text-xs sm:text-sm font-medium transition-colors relative whitespace-nowrap ${
+              activeTab === 'archive' ? 'text-blue-600' : 'text-slate-500 hover:text-slate-800'
+            }`}
+          >
+            보관함
+            {activeTab === 'archive' && <div className="absolute bottom-0 left-0 w-full h-0.5 bg-blue-600 rounded-t-full" />}
+          </button>
+        )}
         <button
           onClick={() => setActiveTab('outsourcing')}
           className={`flex-1 min-w-fit pb-3 px-2 text-xs sm:text-sm font-medium transition-colors relative whitespace-nowrap ${
@@ -337,13 +495,37 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({
           <div className="space-y-6">
             <FileUpload
               vendors={vendors}
+              vendorAliases={vendorAliases}
+              productCodeRules={productCodeRules}
               userId={dbUser.id}
-              onUploadComplete={async (orders, fileName, orderDate) => {
-                await handleUploadComplete(orders, fileName, orderDate);
+              profiles={importProfiles}
+              onSaveProfile={handleSaveImportProfile}
+              onLinkVendorAlias={handleLinkVendorAlias}
+              onCreateVendor={handleCreateVendor}
+              onUploadComplete={async (orders, fileName, orderDate, updates, report) => {
+                const result = await handleUploadComplete(orders, fileName, orderDate, updates, report);
                 loadFileUploads(); // 업로드 후 리스트 갱신
+                return result;
               }}
             />
 
+            {/* 업로드 롤백 확인 */}
+            {rollbackTarget && (
+              <UploadRollbackModal
+                upload={rollbackTarget}
+                onClose={() => setRollbackTarget(null)}
+                onRolledBack={handleRolledBack}
+              />
+            )}
+
+            {/* 업로드 리포트 */}
+            {reportTarget && (
+              <ImportReportModal
+                upload={reportTarget}
+                onClose={() => setReportTarget(null)}
+              />
+            )}
+
             {/* 업로드 파일 리스트 */}
             <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
               <div className="px-5 py-4 border-b border-slate-100">
@@ -384,9 +566,31 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({
                             </div>
                           </div>
                         </div>
-                        <div className="text-right">
-                          <div className="text-sm font-bold text-blue-600">{upload.order_count}건</div>
-                          <div className="text-xs text-slate-400">발주일: {upload.order_date}</div>
+                        <div className="flex items-center gap-3">
+                          <div className="text-right">
+                            <div className="text-sm font-bold text-blue-600">{upload.order_count}건</div>
+                            <div className="text-xs text-slate-400">발주일: {upload.order_date}</div>
+                          </div>
+                          <button
+                            onClick={() => setReportTarget(upload)}
+                            title="업로드 리포트"
+                            className="p-1.5 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                          >
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 17v-2m3 2v-4m3 4v-6m2 10H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                            </svg>
+                          </button>
+                          {isAdmin && (
+                            <button
+                              onClick={() => setRollbackTarget(upload)}
+                              title="업로드 롤백"
+                              className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                            >
+                              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                              </svg>
+                            </button>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -414,25 +618,172 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({
               <div className="flex flex-col gap-3">
                 {vendorGroups.map((group) => (
                   <VendorCard
-                    key={group.vendorName}
-                    group={{
-                      vendorName: group.vendorName,
-                      code: group.code,
-                      items: group.items.map(order => ({
-                        id: order.id,
-                        productName: order.product_name,
-                        productCode: order.product_code || undefined,
-                        quantity: String(order.quantity),
-                        vendorName: group.vendorName,
-                        orderDate: order.order_date,
-                        isCompleted: order.is_completed
-                      }))
-                    }}
+                    key={group.vendorId}
+                    vendorName={group.vendorName}
+                    summary={group.summary}
                     onOpenVendorView={() => onNavigateToVendor(group.vendorId, group.vendorName)}
                   />
                 ))}
               </div>
             )}
+
+            {/* 전체 발주 (서버에서 정렬/필터링한 페이지) */}
+            {vendorGroups.length > 0 && (
+              <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+                <div className="px-5 py-4 border-b border-slate-100">
+                  <h3 className="font-bold text-slate-800">전체 발주</h3>
+                </div>
+                <div className="p-4 space-y-3">
+                  <OrderListFilters query={orderQuery} total={orderTotal} onChange={setOrderQuery} />
+
+                  {orderPageError ? (
+                    <div className="bg-red-50 border border-red-200 rounded-xl p-4 text-sm text-red-700">
+                      발주 목록을 불러오지 못했습니다: {orderPageError.message}
+                    </div>
+                  ) : orderPageLoading ? (
+                    <div className="flex items-center justify-center py-8">
+                      <div className="w-6 h-6 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+                    </div>
+                  ) : pagedOrders.length === 0 ? (
+                    <p className="text-center py-8 text-sm text-slate-400">조건에 맞는 발주가 없습니다.</p>
+                  ) : (
+                    <div className="overflow-x-auto border border-slate-200 rounded-xl">
+                      <table className="w-full text-sm">
+                        <thead className="bg-slate-50 border-b border-slate-200">
+                          <tr>
+                            {([
+                              ['order_date', '발주일'],
+                              [null, '외주처'],
+                              ['product_code', '품목'],
+                              ['product_name', '품명'],
+                              ['quantity', '수량'],
+                              [null, '생산/출고'],
+                              ['delivery_date', '납기일'],
+                              [null, '완료'],
+                              [null, '댓글'],
+                              [null, '작업'],
+                            ] as [OrderSortKey | null, string][]).map(([key, label]) => (
+                              <th
+                                key={label}
+                                onClick={key ? () => handleOrderSort(key) : undefined}
+                                className={`px-3 py-2.5 text-center font-semibold text-slate-600 whitespace-nowrap ${key ? 'cursor-pointer hover:bg-slate-100 select-none' : ''}`}
+                              >
+                                {label}
+                                {key && orderQuery.sortKey === key && (
+                                  <span className="ml-1 text-blue-600">{orderQuery.sortOrder === 'asc' ? '▲' : '▼'}</span>
+                                )}
+                              </th>
+                            ))}
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100">
+                          {pagedOrders.map(order => (
+                            <tr
+                              key={order.id}
+                              data-row-id={order.id}
+                              className={`hover:bg-slate-50 transition-colors ${order.id === focusedOrderId ? 'bg-amber-50' : ''}`}
+                            >
+                              <td className="px-3 py-2.5 text-blue-600 font-medium whitespace-nowrap">{order.order_date || '-'}</td>
+                              <td className="px-3 py-2.5 text-slate-700 whitespace-nowrap">{order.vendor?.name || '-'}</td>
+                              <td className="px-3 py-2.5 text-slate-500 font-mono text-xs">{order.product_code || '-'}</td>
+                              <td className="px-3 py-2.5 text-slate-800">{order.product_name}</td>
+                              <td className="px-3 py-2.5 text-right font-bold text-blue-700">{order.quantity.toLocaleString()}</td>
+                              <td className="px-3 py-2.5 text-right text-xs whitespace-nowrap">
+                                <span className="text-blue-700">{order.produced_quantity.toLocaleString()}</span>
+                                <span className="text-slate-400"> / </span>
+                                <span className="text-emerald-700">{order.shipped_quantity.toLocaleString()}</span>
+                              </td>
+                              <td className="px-3 py-2.5 text-slate-600 whitespace-nowrap">{order.delivery_date || '-'}</td>
+                              <td className="px-3 py-2.5 text-center">
+                                {order.is_completed ? (
+                                  <span className="text-xs font-medium text-emerald-700 bg-emerald-50 px-2 py-0.5 rounded-full">완료</span>
+                                ) : (
+                                  <span className="text-xs text-slate-400">진행 중</span>
+                                )}
+                              </td>
+                              <td className="px-3 py-2.5 text-center">
+                                <CommentButton summary={commentSummaries[order.id]} onClick={() => setCommentTarget(order)} />
+                              </td>
+                              <td className="px-3 py-2.5 text-center">
+                                <button
+                                  onClick={() => setLineOperationTarget(order)}
+                                  className="text-xs font-medium text-blue-600 hover:text-blue-700 whitespace-nowrap"
+                                  title="분할/병합/외주처 변경"
+                                >
+                                  라인 작업
+                                </button>
+                                <button
+                                  onClick={() => setImageTarget(order)}
+                                  className="ml-2 text-xs font-medium text-blue-600 hover:text-blue-700 whitespace-nowrap"
+                                  title="포장/제품 이미지"
+                                >
+                                  이미지
+                                </button>
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+
+                  {/* 페이지 이동 */}
+                  {orderPageCount > 1 && (
+                    <div className="flex items-center justify-center gap-3 text-sm">
+                      <button
+                        onClick={() => goToOrderPage(orderPage - 1)}
+                        disabled={orderPage === 0 || orderPageLoading}
+                        className="px-3 py-1.5 font-medium text-slate-600 bg-slate-100 rounded-lg hover:bg-slate-200 transition-colors disabled:opacity-50"
+                      >
+                        이전
+                      </button>
+                      <span className="text-slate-600 tabular-nums">
+                        {orderPage + 1} / {orderPageCount}
+                      </span>
+                      <button
+                        onClick={() => goToOrderPage(orderPage + 1)}
+                        disabled={orderPage + 1 >= orderPageCount || orderPageLoading}
+                        className="px-3 py-1.5 font-medium text-slate-600 bg-slate-100 rounded-lg hover:bg-slate-200 transition-colors disabled:opacity-50"
+                      >
+                        다음
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* 주문 라인 분할/병합/외주처 변경 */}
+            {lineOperationTarget && (
+              <OrderLineOperationModal
+                order={lineOperationTarget}
+                vendors={vendors}
+                onClose={() => setLineOperationTarget(null)}
+                onChanged={handleOrdersChanged}
+              />
+            )}
+
+            {/* 주문 포장/제품 이미지 */}
+            {imageTarget && (
+              <OrderImageModal
+                order={imageTarget}
+                onClose={() => setImageTarget(null)}
+                onChanged={handleOrdersChanged}
+              />
+            )}
+
+            {/* 주문 댓글 */}
+            {commentTarget && (
+              <OrderCommentDrawer
+                thread={{ orderId: commentTarget.id }}
+                title={commentTarget.product_name}
+                subtitle={commentTarget.vendor?.name}
+                onClose={() => {
+                  setCommentTarget(null);
+                  refetchCommentSummaries();
+                }}
+              />
+            )}
           </div>
         )}
 
@@ -443,7 +794,12 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({
               schedules={schedules}
               vendors={vendors}
               onScheduleMove={async (scheduleId, newStartDate, newEndDate) => {
-                await moveSchedule(scheduleId, newStartDate, newEndDate);
+                const result = await moveSchedule(scheduleId, newStartDate, newEndDate);
+                if (isRowConflictError(result.error)) {
+                  showNotification(result.error.message);
+                  await refetchSchedules();
+                  return;
+                }
                 showNotification('생산계획이 변경되었습니다.');
               }}
               isLoading={schedulesLoading}
@@ -657,9 +1013,24 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({
         )}
 
         {/* 사용자 관리 탭 (admin 전용) */}
+        {activeTab === 'rules' && isAdmin && (
+          <ProductCodeRuleManagement
+            rules={productCodeRules}
+            isLoading={rulesLoading}
+            error={rulesError}
+            onAdd={addRule}
+            onEdit={editRule}
+            onRemove={removeRule}
+          />
+        )}
+
         {activeTab === 'users' && isAdmin && (
           <UserManagement />
         )}
+
+        {activeTab === 'archive' && isAdmin && (
+          <OrderArchive onChanged={handleOrdersChanged} />
+        )}
       </div>
     </div>
   );
@@ -3,30 +3,97 @@
  * 드래그앤드롭 파일 업로드 및 엑셀 파싱/미리보기 기능
  */
 
-import React, { useState, useRef, useCallback } from 'react';
-import * as XLSX from 'xlsx';
-import type { Vendor, OrderInsert } from '@/types/database';
-
-// 유효한 외주처 목록
-const VALID_VENDORS = ['리니어', '그램', '위드맘', '씨엘로', '신세계', '메이코스', '엠큐브'];
-
-interface ParsedOrder {
-  vendorName: string;
-  productName: string;
-  productCode: string;
-  quantity: number;
-  deliveryDate: string;
+import React, { useState, useRef, useCallback, useMemo, useEffect } from 'react';
+import type {
+  Vendor,
+  VendorAlias,
+  Order,
+  OrderInsert,
+  ImportProfile,
+  ProductCodeRule,
+  ImportReport,
+  ImportReportRow,
+} from '@/types/database';
+import { WorkbookSheets, DEFAULT_IMPORT_PROFILE, findHeaderRow, transformQuantity, transformProductCode } from '@/lib/importProfile';
+import { buildVendorIndex } from '@/lib/vendorMatching';
+import { TextEncoding, decodeTextBuffer, delimitedTextToSheets, looksLikeTabularText } from '@/lib/delimitedText';
+import {
+  DuplicateHandling,
+  ImportOrderUpdate,
+  ImportRowDiff,
+  ImportRowStatus,
+  DEFAULT_DUPLICATE_HANDLING,
+  diffImportRows,
+} from '@/lib/importDiff';
+import { parseDeliveryDate } from '@/lib/deliveryDate';
+import { AmendmentAction, AmendmentDiff, findSplitCandidateIds, matchAmendmentRows } from '@/lib/importAmendment';
+import {
+  ParsedImportRow,
+  ResolvedImportRow,
+  ImportRowEdit,
+  extractOrderDateFromFileName,
+  readWorkbookSheets,
+  parseSheetRows,
+  parseWorkbook,
+  classifyImportRows,
+  selectResolvedRows,
+  buildImportSubmission,
+  buildAmendmentSubmission,
+  toAmendmentCandidate,
+} from '@/lib/orderImport';
+import { getOrdersByOrderDate, getOrdersByPoNumbers } from '@/services/orderService';
+import { getSplitSources } from '@/services/orderLineService';
+import { parseOrderDocument } from '@/services/documentParser';
+import { ImportProfileEditor, ImportProfileDraft } from './ImportProfileEditor';
+import { VendorResolvePanel } from './VendorResolvePanel';
+import { OrderPreviewGrid } from './OrderPreviewGrid';
+
+// 신규 발주 등록 / 수정 발주(기존 주문 변경·취소)
+type ImportMode = 'new' | 'amendment';
+
+interface SheetSummary {
+  name: string;
+  hasHeader: boolean;
+  rowCount: number;
 }
 
 interface FileUploadProps {
   vendors: Vendor[];
+  vendorAliases: VendorAlias[];
+  productCodeRules: ProductCodeRule[];
   userId?: string;
-  onUploadComplete: (orders: OrderInsert[], fileName: string, orderDate: string) => Promise<void>;
+  profiles: ImportProfile[];
+  onSaveProfile: (data: ImportProfileDraft, id?: string) => Promise<{ success: boolean; data: ImportProfile | null; error: Error | null }>;
+  onLinkVendorAlias: (vendorId: string, alias: string) => Promise<{ success: boolean; error: Error | null }>;
+  onCreateVendor: (name: string, code: string) => Promise<{ success: boolean; error: Error | null }>;
+  onUploadComplete: (
+    orders: OrderInsert[],
+    fileName: string,
+    orderDate: string,
+    updates: ImportOrderUpdate[],
+    report: ImportReport
+  ) => Promise<{ warnings: string[] }>;
 }
 
+// 이미지 파일을 base64 data URL로 읽기 (Gemini 이미지 입력용)
+const readFileAsDataUrl = (file: File): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(String(reader.result));
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+const today = (): string => new Date().toISOString().split('T')[0];
+
 export const FileUpload: React.FC<FileUploadProps> = ({
   vendors,
+  vendorAliases,
+  productCodeRules,
   userId,
+  profiles,
+  onSaveProfile,
+  onLinkVendorAlias,
+  onCreateVendor,
   onUploadComplete,
 }) => {
   const [isDragOver, setIsDragOver] = useState(false);
@@ -34,170 +101,298 @@ export const FileUpload: React.FC<FileUploadProps> = ({
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [importWarnings, setImportWarnings] = useState<string[]>([]);
 
   // 미리보기 상태
-  const [parsedOrders, setParsedOrders] = useState<ParsedOrder[]>([]);
+  const [parsedOrders, setParsedOrders] = useState<ParsedImportRow[]>([]);
+  const [parseSkippedRows, setParseSkippedRows] = useState<ImportReportRow[]>([]);
   const [fileName, setFileName] = useState<string>('');
   const [orderDate, setOrderDate] = useState<string>('');
   const [showPreview, setShowPreview] = useState(false);
+  const [showExcluded, setShowExcluded] = useState(false);
+
+  // 캡처/텍스트 붙여넣기 상태
+  const [showPasteInput, setShowPasteInput] = useState(false);
+  const [pastedText, setPastedText] = useState('');
+  const [parseWarnings, setParseWarnings] = useState<string[]>([]);
+
+  // 미리보기 편집 상태 (행 키 기준)
+  const [rowEdits, setRowEdits] = useState<Record<string, ImportRowEdit>>({});
+  const [excludedRowKeys, setExcludedRowKeys] = useState<Set<string>>(new Set());
+
+  // 기존 주문 비교 상태
+  const [existingOrders, setExistingOrders] = useState<Order[]>([]);
+  const [splitSources, setSplitSources] = useState<Map<string, string>>(new Map()); // 분할로 만든 라인 ID → 원 라인 ID
+  const [isCheckingDuplicates, setIsCheckingDuplicates] = useState(false);
+  const [duplicateHandling, setDuplicateHandling] = useState<DuplicateHandling>(DEFAULT_DUPLICATE_HANDLING);
+  const [importMode, setImportMode] = useState<ImportMode>('new');
+
+  // 가져오기 프로필 상태
+  const [workbookSheets, setWorkbookSheets] = useState<WorkbookSheets | null>(null);
+  const [appliedProfile, setAppliedProfile] = useState<ImportProfile | null>(null);
+  const [selectedSheetNames, setSelectedSheetNames] = useState<string[]>([]);
+  const [sourceEncoding, setSourceEncoding] = useState<TextEncoding | null>(null);
+  const [showProfileEditor, setShowProfileEditor] = useState(false);
+  const [editingProfile, setEditingProfile] = useState<ImportProfile | null>(null);
+
+  // DB에 등록된 프로필이 없으면 기본 양식 사용
+  const availableProfiles = useMemo(
+    () => (profiles.length > 0 ? profiles : [DEFAULT_IMPORT_PROFILE]),
+    [profiles]
+  );
 
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  // 외주처 이름으로 vendor_id 찾기
-  const getVendorId = useCallback((vendorName: string): string | null => {
-    const vendor = vendors.find(v => v.name === vendorName);
-    return vendor?.id || null;
-  }, [vendors]);
-
-  // 파일명에서 날짜 추출
-  const extractDateFromFileName = useCallback((name: string): string => {
-    // 예: "외주출고 제출자료 25.12.31.xlsx" -> "2025-12-31"
-    const yymmddMatch = name.match(/(\d{2})\.(\d{1,2})\.(\d{1,2})/);
-    if (yymmddMatch) {
-      const year = parseInt(yymmddMatch[1]) + 2000;
-      const month = yymmddMatch[2].padStart(2, '0');
-      const day = yymmddMatch[3].padStart(2, '0');
-      return `${year}-${month}-${day}`;
-    }
+  // 외주처 이름/별칭 색인
+  const vendorIndex = useMemo(() => buildVendorIndex(vendors, vendorAliases), [vendors, vendorAliases]);
 
-    const mmddMatch = name.match(/(\d{1,2})\.(\d{1,2})(?=\.xlsx?$)/i);
-    if (mmddMatch) {
-      const today = new Date();
-      const year = today.getFullYear();
-      const month = mmddMatch[1].padStart(2, '0');
-      const day = mmddMatch[2].padStart(2, '0');
-      return `${year}-${month}-${day}`;
-    }
+  // 제품코드 규칙 적용 후 수정 내용 반영, 외주처 매칭 및 행 검증 (규칙/별칭/수정 시 자동 재계산)
+  const { rows: previewRows, unmatchedVendors, excluded: excludedOrders } = useMemo(() => classifyImportRows(parsedOrders, {
+    vendors,
+    vendorIndex,
+    productCodeRules,
+    orderDate,
+    rowEdits,
+    excludedRowKeys,
+    amendment: importMode === 'amendment',
+  }), [parsedOrders, productCodeRules, vendors, vendorIndex, rowEdits, excludedRowKeys, orderDate, importMode]);
 
-    // 날짜를 못 찾으면 오늘 날짜 사용
-    const today = new Date();
-    return today.toISOString().split('T')[0];
-  }, []);
+  // 등록 대상: 제외하지 않았고 오류가 없는 행
+  const resolvedOrders = useMemo(() => selectResolvedRows(previewRows), [previewRows]);
 
-  // 납기일 값 처리 (날짜 형식이면 YYYY-MM-DD로 변환, 변환 불가 시 빈 문자열)
-  const formatDeliveryDate = useCallback((value: unknown, referenceYear?: number): string => {
-    if (!value) return '';
-    
-    const year = referenceYear || new Date().getFullYear();
-    
-    // 엑셀 날짜 시리얼 넘버인 경우 (숫자)
-    if (typeof value === 'number') {
-      // 엑셀 날짜 시리얼을 JS Date로 변환
-      const excelEpoch = new Date(1899, 11, 30);
-      const date = new Date(excelEpoch.getTime() + value * 24 * 60 * 60 * 1000);
-      const y = date.getFullYear();
-      const month = String(date.getMonth() + 1).padStart(2, '0');
-      const day = String(date.getDate()).padStart(2, '0');
-      return `${y}-${month}-${day}`;
-    }
-    
-    const str = String(value).trim();
-    if (!str) return '';
-    
-    // 이미 YYYY-MM-DD 형식인 경우
-    const isoMatch = str.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
-    if (isoMatch) {
-      return `${isoMatch[1]}-${isoMatch[2].padStart(2, '0')}-${isoMatch[3].padStart(2, '0')}`;
-    }
-    
-    // MM-DD 형식인 경우 (연도 추가)
-    const mmddDashMatch = str.match(/^(\d{1,2})-(\d{1,2})$/);
-    if (mmddDashMatch) {
-      return `${year}-${mmddDashMatch[1].padStart(2, '0')}-${mmddDashMatch[2].padStart(2, '0')}`;
-    }
-    
-    // MM/DD 또는 M/D 형식 (순수 숫자+슬래시만)
-    const slashMatch = str.match(/^(\d{1,2})\/(\d{1,2})$/);
-    if (slashMatch) {
-      return `${year}-${slashMatch[1].padStart(2, '0')}-${slashMatch[2].padStart(2, '0')}`;
-    }
-    
-    // MM.DD 형식
-    const dotMatch = str.match(/^(\d{1,2})\.(\d{1,2})$/);
-    if (dotMatch) {
-      return `${year}-${dotMatch[1].padStart(2, '0')}-${dotMatch[2].padStart(2, '0')}`;
-    }
-    
-    // XX월 XX일 형식 (순수 날짜만)
-    const koreanMatch = str.match(/^(\d{1,2})\s*월\s*(\d{1,2})\s*일$/);
-    if (koreanMatch) {
-      return `${year}-${koreanMatch[1].padStart(2, '0')}-${koreanMatch[2].padStart(2, '0')}`;
+  const invalidRowCount = useMemo(
+    () => previewRows.filter(row => !row.isExcluded && row.issues.length > 0).length,
+    [previewRows]
+  );
+
+  // 미리보기 대상 외주처의 같은 발주일 주문 조회
+  const previewVendorIds = useMemo(
+    () => Array.from(new Set(resolvedOrders.map(order => order.vendor.id))).sort().join(','),
+    [resolvedOrders]
+  );
+
+  // 수정 발주는 발주일이 다르더라도 PO 번호로 찾을 수 있도록 함께 조회
+  const previewPoNumbers = useMemo(() => (
+    importMode === 'amendment'
+      ? Array.from(new Set(resolvedOrders.map(order => order.poNumber).filter(Boolean))).sort().join(',')
+      : ''
+  ), [resolvedOrders, importMode]);
+
+  useEffect(() => {
+    if (!showPreview || !orderDate || !previewVendorIds) {
+      setExistingOrders([]);
+      setSplitSources(new Map());
+      return;
     }
-    
-    // 그 외 (문자 포함, 변환 불가) → 빈 문자열 (DB에 null로 저장됨)
-    return '';
-  }, []);
 
-  // 엑셀 시트 파싱
-  const parseExcelSheet = useCallback((sheet: XLSX.WorkSheet): ParsedOrder[] => {
-    // raw: false로 설정하여 셀의 포맷된 텍스트를 가져옴 (예: "12/26(오후직납)")
-    const jsonData = XLSX.utils.sheet_to_json(sheet, { header: 1, raw: false }) as unknown[][];
-
-    // 헤더 행 찾기 (외주처, 품명, sap코드, 수량, 납기 포함된 행)
-    let headerRowIndex = -1;
-    const colIndexes = { vendor: -1, product: -1, sapCode: -1, quantity: -1, deliveryDate: -1 };
-
-    for (let i = 0; i < jsonData.length; i++) {
-      const row = jsonData[i];
-      if (!row) continue;
-
-      row.forEach((cell, j) => {
-        const cellStr = String(cell || '').trim().toLowerCase();
-        if (cellStr.includes('외주처')) colIndexes.vendor = j;
-        if (cellStr.includes('품명')) colIndexes.product = j;
-        if (cellStr.includes('sap') || cellStr === '코드' || cellStr.includes('제품코드')) colIndexes.sapCode = j;
-        if (cellStr.includes('수량')) colIndexes.quantity = j;
-        if (cellStr.includes('납기') || cellStr.includes('요청일') || cellStr.includes('delivery')) colIndexes.deliveryDate = j;
-      });
+    let cancelled = false;
+    setIsCheckingDuplicates(true);
 
-      if (colIndexes.vendor !== -1 && colIndexes.product !== -1) {
-        headerRowIndex = i;
-        break;
+    Promise.all([
+      getOrdersByOrderDate(orderDate, previewVendorIds.split(',')),
+      getOrdersByPoNumbers(previewPoNumbers ? previewPoNumbers.split(',') : []),
+    ]).then(async ([byDate, byPo]) => {
+      if (cancelled) return;
+      if (byDate.error || byPo.error) {
+        setError('기존 주문 조회에 실패했습니다. 중복 여부를 확인할 수 없습니다.');
       }
-    }
+      const merged = new Map<string, Order>();
+      [...(byDate.data || []), ...(byPo.data || [])].forEach(order => merged.set(order.id, order));
+      const orders = Array.from(merged.values());
 
-    if (headerRowIndex === -1) {
-      throw new Error('헤더 행을 찾을 수 없습니다. (외주처, 품명 열이 필요합니다)');
-    }
+      // 수정 발주: 분할로 만든 라인은 원 라인에 묶어 대응
+      const sources = new Map<string, string>();
+      if (importMode === 'amendment') {
+        const { data: lineage, error: lineageError } = await getSplitSources(findSplitCandidateIds(orders));
+        if (cancelled) return;
+        if (lineageError) {
+          setError('분할 라인 조회에 실패했습니다. 분할된 주문의 변경 판정이 정확하지 않을 수 있습니다.');
+        }
+        lineage?.forEach(row => sources.set(row.result_order_id, row.source_order_id));
+      }
 
-    // 데이터 행 파싱 및 필터링
-    const orders: ParsedOrder[] = [];
+      setExistingOrders(orders);
+      setSplitSources(sources);
+      setIsCheckingDuplicates(false);
+    });
 
-    for (let i = headerRowIndex + 1; i < jsonData.length; i++) {
-      const row = jsonData[i];
-      if (!row) continue;
+    return () => {
+      cancelled = true;
+    };
+  }, [showPreview, orderDate, previewVendorIds, previewPoNumbers, importMode]);
 
-      const vendorName = String(row[colIndexes.vendor] || '').trim();
-      if (!VALID_VENDORS.includes(vendorName)) continue;
+  // 행별 신규/동일/변경 판정
+  const rowDiffs = useMemo(() => diffImportRows(
+    resolvedOrders.map(order => ({
+      vendorId: order.vendor.id,
+      productCode: order.productCode,
+      productName: order.productName,
+      quantity: order.quantity,
+      deliveryDate: order.deliveryDate || null,
+    })),
+    existingOrders,
+    orderDate
+  ), [resolvedOrders, existingOrders, orderDate]);
 
-      const productName = String(row[colIndexes.product] || '').trim();
-      if (!productName) continue;
+  const rowDiffsByRowKey = useMemo(() => new Map<string, ImportRowDiff>(
+    resolvedOrders.map((order, index) => [order.rowKey, rowDiffs[index]])
+  ), [resolvedOrders, rowDiffs]);
 
-      // 제품코드(F열)가 1, 9, 3으로 시작하는 것만 필터링
-      const productCode = colIndexes.sapCode !== -1 ? String(row[colIndexes.sapCode] || '').trim() : '';
-      if (!productCode.startsWith('1') && !productCode.startsWith('9') && !productCode.startsWith('3')) {
-        continue;
-      }
+  const statusCounts = useMemo(() => rowDiffs.reduce((acc, diff) => {
+    acc[diff.status] += 1;
+    return acc;
+  }, { new: 0, identical: 0, changed: 0 } as Record<ImportRowStatus, number>), [rowDiffs]);
+
+  // 수정 발주: 행별 기존 주문 대응과 변경/취소 판정
+  const amendmentDiffsByRowKey = useMemo(() => {
+    if (importMode !== 'amendment') return null;
+    const diffs = matchAmendmentRows(resolvedOrders.map(toAmendmentCandidate), existingOrders, orderDate, splitSources);
+    return new Map<string, AmendmentDiff>(resolvedOrders.map((order, index) => [order.rowKey, diffs[index]]));
+  }, [importMode, resolvedOrders, existingOrders, orderDate, splitSources]);
+
+  const amendmentCounts = useMemo(() => {
+    const counts: Record<AmendmentAction, number> = { change: 0, cancel: 0, unchanged: 0, unmatched: 0, split_conflict: 0 };
+    amendmentDiffsByRowKey?.forEach(diff => {
+      counts[diff.action] += 1;
+    });
+    return counts;
+  }, [amendmentDiffsByRowKey]);
 
-      // 수량 파싱
-      const quantityStr = String(row[colIndexes.quantity] || '').replace(/[^\d]/g, '');
-      const quantity = parseInt(quantityStr) || 0;
+  // 프로필 적용 (프로필을 지정하지 않으면 자동 감지)
+  // 시트를 지정하지 않으면 프로필이 가리키는 시트 하나만 가져옴
+  const applyProfile = useCallback((
+    sheets: WorkbookSheets,
+    profile?: ImportProfile,
+    options: { sheetNames?: string[]; preserveEdits?: boolean; orderDate?: string } = {}
+  ) => {
+    const result = parseWorkbook(sheets, availableProfiles, {
+      profile,
+      sheetNames: profile ? options.sheetNames : undefined,
+      orderDate: options.orderDate ?? orderDate,
+    });
+
+    setParsedOrders(result.orders);
+    setParseSkippedRows(result.skippedRows);
+    setParseWarnings([]);
+    if (!options.preserveEdits) {
+      setRowEdits({});
+      setExcludedRowKeys(new Set());
+    }
+    setAppliedProfile(result.profile);
+    setSelectedSheetNames(result.sheetNames);
+    setShowPreview(true);
+  }, [availableProfiles, orderDate]);
+
+  // 현재 프로필 기준 시트별 헤더 감지 결과와 발주 행 수
+  const sheetSummaries = useMemo((): SheetSummary[] => {
+    if (!workbookSheets || !appliedProfile) return [];
+
+    return workbookSheets.names.map(name => {
+      const rows = workbookSheets.rows[name] ?? [];
+      const header = findHeaderRow(rows, appliedProfile);
+      return {
+        name,
+        hasHeader: header !== null,
+        rowCount: header ? parseSheetRows(rows, header, appliedProfile, name, orderDate).orders.length : 0,
+      };
+    });
+  }, [workbookSheets, appliedProfile, orderDate]);
+
+  // 캡처 이미지/텍스트를 분석해 엑셀 업로드와 같은 미리보기로 전달
+  const ingestDocument = useCallback(async (input: string, isImage: boolean, sourceName: string) => {
+    setError(null);
+    setSuccessMessage(null);
+    setIsParsing(true);
+    setFileName(sourceName);
+    const extractedDate = extractOrderDateFromFileName(sourceName);
+    setOrderDate(extractedDate);
 
-      // 납기일 파싱 (날짜 형식이면 YYYY-MM-DD로 변환, 변환 불가 시 빈 문자열)
-      const deliveryDateRaw = colIndexes.deliveryDate !== -1 ? row[colIndexes.deliveryDate] : '';
-      const deliveryDate = formatDeliveryDate(deliveryDateRaw);
+    try {
+      const result = await parseOrderDocument({ kind: isImage ? 'image' : 'text', data: input });
+      const transforms = DEFAULT_IMPORT_PROFILE.value_transforms;
 
-      orders.push({
-        vendorName,
-        productName,
-        productCode,
-        quantity,
-        deliveryDate,
+      // 스키마 검증을 통과한 행만 전달됨 (외주처/품명/수량 필수)
+      const orders: ParsedImportRow[] = result.rows.map((item, index) => {
+        const delivery = parseDeliveryDate(item.deliveryDate, {
+          orderDate: extractedDate,
+          dateOrder: transforms.date_order,
+        });
+        return {
+          rowKey: String(index + 1),
+          sheetName: null,
+          rowNumber: index + 1,
+          vendorName: item.vendorName,
+          productName: item.productName,
+          productCode: transformProductCode(item.productCode, transforms),
+          quantity: transformQuantity(item.quantity, transforms),
+          deliveryDate: delivery.date,
+          deliveryDateRaw: delivery.raw,
+          poNumber: '',
+          itemNumber: '',
+          changeType: '',
+          notes: [item.notes, delivery.annotation].filter(Boolean).join(' / ') || undefined,
+          confidence: item.confidence,
+          warnings: item.warnings,
+        };
       });
+
+      if (orders.length === 0) {
+        throw new Error('발주 내역을 찾을 수 없습니다. 캡처 범위나 붙여넣은 내용을 확인해주세요.');
+      }
+
+      // 표 형식이 아니므로 가져오기 프로필은 적용하지 않음
+      setWorkbookSheets(null);
+      setSourceEncoding(null);
+      setAppliedProfile(null);
+      setSelectedSheetNames([]);
+      setParsedOrders(orders);
+      setParseSkippedRows([]);
+      setParseWarnings(result.warnings);
+      setRowEdits({});
+      setExcludedRowKeys(new Set());
+      setShowPasteInput(false);
+      setPastedText('');
+      setShowPreview(true);
+    } catch (err) {
+      console.error('문서 분석 오류:', err);
+      setError(err instanceof Error ? err.message : '발주 내역 분석 중 오류가 발생했습니다.');
+      setParsedOrders([]);
+      setShowPreview(false);
+    } finally {
+      setIsParsing(false);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
     }
+  }, []);
 
-    return orders;
-  }, [formatDeliveryDate]);
+  // 표 형태 입력(엑셀/CSV/TSV/붙여넣은 표)을 가져오기 프로필로 파싱해 미리보기
+  const ingestSheets = useCallback((sheets: WorkbookSheets, sourceName: string, encoding: TextEncoding | null) => {
+    const extractedDate = extractOrderDateFromFileName(sourceName);
+    setFileName(sourceName);
+    setOrderDate(extractedDate);
+    setSourceEncoding(encoding);
+    setWorkbookSheets(sheets);
+
+    applyProfile(sheets, undefined, { orderDate: extractedDate });
+  }, [applyProfile]);
+
+  // 엑셀에서 복사해 붙여넣은 표 (탭 구분)
+  const ingestPastedTable = useCallback((text: string) => {
+    setError(null);
+    setSuccessMessage(null);
+
+    try {
+      ingestSheets(delimitedTextToSheets(text, '붙여넣은 표', '\t'), `붙여넣은 표 ${today()}`, null);
+      setShowPasteInput(false);
+      setPastedText('');
+    } catch (err) {
+      console.error('붙여넣은 표 파싱 오류:', err);
+      setError(err instanceof Error ? err.message : '붙여넣은 표 처리 중 오류가 발생했습니다.');
+      setParsedOrders([]);
+      setShowPreview(false);
+    }
+  }, [ingestSheets]);
 
   // 파일 처리
   const processFile = useCallback(async (file: File) => {
@@ -205,41 +400,45 @@ export const FileUpload: React.FC<FileUploadProps> = ({
     setSuccessMessage(null);
 
     // 파일 확장자 확인
-    const isExcel = file.name.endsWith('.xlsx') || file.name.endsWith('.xls');
-    if (!isExcel) {
-      setError('엑셀 파일(.xlsx, .xls)만 업로드 가능합니다.');
+    const isImage = file.type.startsWith('image/');
+    const lowerName = file.name.toLowerCase();
+    const isExcel = lowerName.endsWith('.xlsx') || lowerName.endsWith('.xls');
+    const isDelimited = /\.(csv|tsv|txt)$/.test(lowerName);
+    if (!isImage && !isExcel && !isDelimited) {
+      setError('엑셀(.xlsx, .xls), CSV/TSV, 텍스트 또는 이미지 파일만 업로드 가능합니다.');
       return;
     }
 
     setIsParsing(true);
-    setFileName(file.name);
-    const extractedDate = extractDateFromFileName(file.name);
-    setOrderDate(extractedDate);
 
     try {
-      const data = await file.arrayBuffer();
-      const workbook = XLSX.read(data, { type: 'array' });
+      // 이미지 파일은 문서 분석으로 처리
+      if (isImage) {
+        await ingestDocument(await readFileAsDataUrl(file), true, file.name);
+        return;
+      }
 
-      // 두 번째 시트 사용 (인덱스 1), 시트가 1개면 첫 번째 시트
-      const sheetIndex = workbook.SheetNames.length > 1 ? 1 : 0;
-      const sheetName = workbook.SheetNames[sheetIndex];
-      const sheet = workbook.Sheets[sheetName];
+      const data = await file.arrayBuffer();
 
-      if (!sheet) {
-        throw new Error(`시트를 찾을 수 없습니다.\n사용 가능한 시트: ${workbook.SheetNames.join(', ')}`);
+      if (isExcel) {
+        ingestSheets(readWorkbookSheets(data), file.name, null);
+        return;
       }
 
-      const orders = parseExcelSheet(sheet);
+      // CSV/TSV는 UTF-8/CP949 자동 판별 후 같은 헤더 감지로 처리
+      const { text, encoding } = decodeTextBuffer(data);
 
-      if (orders.length === 0) {
-        throw new Error('유효한 발주 데이터를 찾을 수 없습니다.');
+      // 표 형식이 아닌 텍스트 파일은 문서 분석으로 처리
+      if (lowerName.endsWith('.txt') && !looksLikeTabularText(text)) {
+        await ingestDocument(text, false, file.name);
+        return;
       }
 
-      setParsedOrders(orders);
-      setShowPreview(true);
+      const delimiter = lowerName.endsWith('.tsv') || lowerName.endsWith('.txt') ? '\t' : undefined;
+      ingestSheets(delimitedTextToSheets(text, file.name, delimiter), file.name, encoding);
     } catch (err) {
-      console.error('엑셀 파싱 오류:', err);
-      setError(err instanceof Error ? err.message : '엑셀 파일 처리 중 오류가 발생했습니다.');
+      console.error('파일 파싱 오류:', err);
+      setError(err instanceof Error ? err.message : '파일 처리 중 오류가 발생했습니다.');
       setParsedOrders([]);
       setShowPreview(false);
     } finally {
@@ -248,7 +447,54 @@ export const FileUpload: React.FC<FileUploadProps> = ({
         fileInputRef.current.value = '';
       }
     }
-  }, [extractDateFromFileName, parseExcelSheet]);
+  }, [ingestSheets, ingestDocument]);
+
+  // 클립보드 붙여넣기 (입력창 밖에서 붙여넣은 이미지는 바로 분석, 텍스트는 입력창으로 옮김)
+  useEffect(() => {
+    if (showPreview || isParsing) return;
+
+    const handlePaste = (e: ClipboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA')) return;
+
+      const imageFile = Array.from(e.clipboardData?.files || []).find(file => file.type.startsWith('image/'));
+      if (imageFile) {
+        e.preventDefault();
+        readFileAsDataUrl(imageFile)
+          .then(dataUrl => ingestDocument(dataUrl, true, `붙여넣은 이미지 ${today()}`))
+          .catch(err => {
+            console.error('붙여넣은 이미지 읽기 오류:', err);
+            setError('붙여넣은 이미지를 읽지 못했습니다.');
+          });
+        return;
+      }
+
+      const text = e.clipboardData?.getData('text/plain') || '';
+      if (looksLikeTabularText(text)) {
+        e.preventDefault();
+        ingestPastedTable(text);
+        return;
+      }
+      if (text.trim()) {
+        e.preventDefault();
+        setPastedText(text);
+        setShowPasteInput(true);
+      }
+    };
+
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [showPreview, isParsing, ingestDocument, ingestPastedTable]);
+
+  // 붙여넣은 텍스트 분석
+  const handleAnalyzeText = useCallback(async () => {
+    if (!pastedText.trim()) return;
+    if (looksLikeTabularText(pastedText)) {
+      ingestPastedTable(pastedText);
+      return;
+    }
+    await ingestDocument(pastedText, false, `붙여넣은 텍스트 ${today()}`);
+  }, [pastedText, ingestDocument, ingestPastedTable]);
 
   // 드래그 이벤트 핸들러
   const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -282,46 +528,90 @@ export const FileUpload: React.FC<FileUploadProps> = ({
     }
   }, [processFile]);
 
+  // 취소 버튼 클릭
+  const handleCancel = useCallback(() => {
+    setParsedOrders([]);
+    setParseSkippedRows([]);
+    setParseWarnings([]);
+    setRowEdits({});
+    setExcludedRowKeys(new Set());
+    setShowPreview(false);
+    setFileName('');
+    setOrderDate('');
+    setError(null);
+    setWorkbookSheets(null);
+    setAppliedProfile(null);
+    setSourceEncoding(null);
+    setShowExcluded(false);
+    setDuplicateHandling(DEFAULT_DUPLICATE_HANDLING);
+    setImportMode('new');
+  }, []);
+
   // 등록 버튼 클릭
   const handleSubmit = useCallback(async () => {
-    if (parsedOrders.length === 0) return;
+    if (parsedOrders.length === 0 || invalidRowCount > 0) return;
 
     setIsSaving(true);
     setError(null);
+    setImportWarnings([]);
 
     try {
-      // ParsedOrder를 OrderInsert로 변환
-      const ordersToInsert: OrderInsert[] = parsedOrders
-        .map(order => {
-          const vendorId = getVendorId(order.vendorName);
-          if (!vendorId) {
-            console.warn(`외주처를 찾을 수 없습니다: ${order.vendorName}`);
-            return null;
-          }
-
-          return {
-            vendor_id: vendorId,
-            product_name: order.productName,
-            product_code: order.productCode,
-            quantity: order.quantity,
-            order_date: orderDate,
-            delivery_date: order.deliveryDate || null,
-            uploaded_by: userId || null,
-          };
-        })
-        .filter((order): order is OrderInsert => order !== null);
-
-      if (ordersToInsert.length === 0) {
-        throw new Error('등록할 수 있는 주문이 없습니다. 외주처 정보를 확인해주세요.');
+      // 수정 발주: 기존 주문을 찾은 행만 변경/취소 (신규 등록 없음)
+      if (amendmentDiffsByRowKey) {
+        const { updates: amendments, report } = buildAmendmentSubmission({
+          skippedRows: parseSkippedRows,
+          excluded: excludedOrders,
+          rows: previewRows,
+          amendments: amendmentDiffsByRowKey,
+          warnings: parseWarnings,
+        });
+
+        if (amendments.length === 0) {
+          throw new Error('변경하거나 취소할 기존 주문이 없습니다. 원 발주일과 PO 번호를 확인해주세요.');
+        }
+
+        const { warnings } = await onUploadComplete([], fileName, orderDate, amendments, report);
+        setImportWarnings(warnings);
+
+        const summary = [
+          `${report.updated}건 변경`,
+          (report.cancelled ?? 0) > 0 ? `${report.cancelled}건 취소` : null,
+          report.skipped > 0 ? `${report.skipped}건 건너뜀` : null,
+        ].filter(Boolean).join(', ');
+        setSuccessMessage(`수정 발주 반영 완료: ${summary} (업로드 이력에서 리포트 확인)`);
+        handleCancel();
+        setTimeout(() => setSuccessMessage(null), 3000);
+        return;
       }
 
-      await onUploadComplete(ordersToInsert, fileName, orderDate);
+      // 검증을 통과한 행만 처리 (제외한 행은 건너뜀), 중복 처리 방식에 따라 등록/수정/건너뛰기
+      const { inserts: ordersToInsert, updates: ordersToUpdate, duplicateCount, report } = buildImportSubmission({
+        skippedRows: parseSkippedRows,
+        excluded: excludedOrders,
+        rows: previewRows,
+        diffs: rowDiffsByRowKey,
+        duplicateHandling,
+        orderDate,
+        userId: userId || null,
+        warnings: parseWarnings,
+      });
 
-      setSuccessMessage(`${ordersToInsert.length}건의 발주가 등록되었습니다.`);
-      setParsedOrders([]);
-      setShowPreview(false);
-      setFileName('');
-      setOrderDate('');
+      if (ordersToInsert.length === 0 && ordersToUpdate.length === 0) {
+        throw new Error(duplicateCount > 0
+          ? '모든 행이 기존 주문과 동일하여 등록할 내용이 없습니다.'
+          : '등록할 수 있는 주문이 없습니다. 제외하지 않은 행이 있는지 확인해주세요.');
+      }
+
+      const { warnings } = await onUploadComplete(ordersToInsert, fileName, orderDate, ordersToUpdate, report);
+      setImportWarnings(warnings);
+
+      const summary = [
+        `${ordersToInsert.length}건 등록`,
+        ordersToUpdate.length > 0 ? `${ordersToUpdate.length}건 수정` : null,
+        report.skipped > 0 ? `${report.skipped}건 건너뜀` : null,
+      ].filter(Boolean).join(', ');
+      setSuccessMessage(`발주 업로드 완료: ${summary} (업로드 이력에서 리포트 확인)`);
+      handleCancel();
 
       // 3초 후 성공 메시지 제거
       setTimeout(() => setSuccessMessage(null), 3000);
@@ -331,25 +621,128 @@ export const FileUpload: React.FC<FileUploadProps> = ({
     } finally {
       setIsSaving(false);
     }
-  }, [parsedOrders, orderDate, fileName, userId, getVendorId, onUploadComplete]);
+  }, [
+    parsedOrders,
+    parseSkippedRows,
+    parseWarnings,
+    excludedOrders,
+    previewRows,
+    invalidRowCount,
+    rowDiffsByRowKey,
+    amendmentDiffsByRowKey,
+    duplicateHandling,
+    orderDate,
+    fileName,
+    userId,
+    onUploadComplete,
+    handleCancel,
+  ]);
+
+  // 미리보기 행 수정
+  const handleEditRow = useCallback((rowKey: string, edit: ImportRowEdit) => {
+    setRowEdits(prev => ({ ...prev, [rowKey]: { ...prev[rowKey], ...edit } }));
+  }, []);
+
+  const handleResetRow = useCallback((rowKey: string) => {
+    setRowEdits(prev => {
+      const next = { ...prev };
+      delete next[rowKey];
+      return next;
+    });
+  }, []);
+
+  const handleToggleExcludeRow = useCallback((rowKey: string) => {
+    setExcludedRowKeys(prev => {
+      const next = new Set(prev);
+      if (next.has(rowKey)) {
+        next.delete(rowKey);
+      } else {
+        next.add(rowKey);
+      }
+      return next;
+    });
+  }, []);
+
+  // 오류가 남아 있는 행을 한 번에 제외
+  const handleExcludeInvalidRows = useCallback(() => {
+    setExcludedRowKeys(prev => {
+      const next = new Set(prev);
+      previewRows.forEach(row => {
+        if (row.issues.length > 0) next.add(row.rowKey);
+      });
+      return next;
+    });
+  }, [previewRows]);
+
+  // 가져올 시트 변경 (행 키가 시트별로 구분되므로 기존 수정 내용은 유지)
+  const handleSelectSheets = useCallback((sheetNames: string[]) => {
+    if (!workbookSheets || !appliedProfile) return;
+    if (sheetNames.length === 0) {
+      setError('가져올 시트를 하나 이상 선택해주세요.');
+      return;
+    }
+
+    // 통합문서의 시트 순서 유지
+    const ordered = workbookSheets.names.filter(name => sheetNames.includes(name));
 
-  // 취소 버튼 클릭
-  const handleCancel = useCallback(() => {
-    setParsedOrders([]);
-    setShowPreview(false);
-    setFileName('');
-    setOrderDate('');
     setError(null);
+    try {
+      applyProfile(workbookSheets, appliedProfile, { sheetNames: ordered, preserveEdits: true });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '시트 적용 중 오류가 발생했습니다.');
+    }
+  }, [workbookSheets, appliedProfile, applyProfile]);
+
+  const handleToggleSheet = useCallback((sheetName: string) => {
+    handleSelectSheets(selectedSheetNames.includes(sheetName)
+      ? selectedSheetNames.filter(name => name !== sheetName)
+      : [...selectedSheetNames, sheetName]);
+  }, [selectedSheetNames, handleSelectSheets]);
+
+  // 미리보기에서 다른 프로필 선택 시 다시 파싱
+  const handleProfileChange = useCallback((profileId: string) => {
+    if (!workbookSheets) return;
+    const profile = availableProfiles.find(p => p.id === profileId);
+    if (!profile) return;
+
+    setError(null);
+    try {
+      applyProfile(workbookSheets, profile);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '프로필 적용 중 오류가 발생했습니다.');
+    }
+  }, [workbookSheets, availableProfiles, applyProfile]);
+
+  // 프로필 편집기 열기 (profile이 null이면 새 프로필)
+  const openProfileEditor = useCallback((profile: ImportProfile | null) => {
+    setEditingProfile(profile);
+    setShowProfileEditor(true);
   }, []);
 
+  // 프로필 저장 후 현재 파일에 바로 적용
+  const handleSaveProfile = useCallback(async (data: ImportProfileDraft, id?: string) => {
+    const result = await onSaveProfile(data, id);
+
+    if (result.success && result.data && workbookSheets) {
+      setError(null);
+      try {
+        applyProfile(workbookSheets, result.data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : '프로필 적용 중 오류가 발생했습니다.');
+      }
+    }
+
+    return result;
+  }, [onSaveProfile, workbookSheets, applyProfile]);
+
   // 외주처별 그룹화
-  const groupedOrders = parsedOrders.reduce((acc, order) => {
-    if (!acc[order.vendorName]) {
-      acc[order.vendorName] = [];
+  const groupedOrders = resolvedOrders.reduce((acc, order) => {
+    if (!acc[order.vendor.name]) {
+      acc[order.vendor.name] = [];
     }
-    acc[order.vendorName].push(order);
+    acc[order.vendor.name].push(order);
     return acc;
-  }, {} as Record<string, ParsedOrder[]>);
+  }, {} as Record<string, ResolvedImportRow[]>);
 
   return (
     <div className="space-y-6">
@@ -363,13 +756,41 @@ export const FileUpload: React.FC<FileUploadProps> = ({
         </div>
       )}
 
+      {/* 업로드 경고 (생산계획 미배정 등) */}
+      {importWarnings.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-xl p-4">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-semibold text-amber-800">업로드 경고 {importWarnings.length}건</span>
+            <button
+              onClick={() => setImportWarnings([])}
+              className="text-xs text-amber-700 hover:text-amber-900"
+            >
+              닫기
+            </button>
+          </div>
+          <ul className="mt-2 text-xs text-amber-700 list-disc list-inside space-y-0.5 max-h-32 overflow-auto">
+            {importWarnings.map((warning, index) => (
+              <li key={index}>{warning}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* 에러 메시지 */}
       {error && (
         <div className="bg-red-50 border border-red-200 rounded-xl p-4 flex items-center gap-3">
           <svg className="w-5 h-5 text-red-500 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"/>
           </svg>
-          <span className="text-red-700">{error}</span>
+          <span className="text-red-700 flex-1">{error}</span>
+          {workbookSheets && !showPreview && (
+            <button
+              onClick={() => openProfileEditor(null)}
+              className="px-3 py-1.5 text-sm font-medium text-blue-600 bg-white border border-blue-200 rounded-lg hover:bg-blue-50 whitespace-nowrap"
+            >
+              이 파일로 프로필 만들기
+            </button>
+          )}
         </div>
       )}
 
@@ -411,15 +832,15 @@ export const FileUpload: React.FC<FileUploadProps> = ({
                 '여기에 파일을 놓으세요'
               ) : (
                 <>
-                  발주서 엑셀 파일을 여기로 드래그하거나 클릭해서 선택하세요.<br/>
-                  <span className="text-xs text-slate-400">.xlsx, .xls 파일만 가능</span>
+                  발주서 엑셀/CSV 파일이나 캡처 이미지를 여기로 드래그하거나 클릭해서 선택하세요.<br/>
+                  <span className="text-xs text-slate-400">.xlsx, .xls, .csv, .tsv, .txt, 이미지 파일 가능 · Ctrl+V로 엑셀 범위/캡처/텍스트 붙여넣기</span>
                 </>
               )}
             </p>
 
             <input
               type="file"
-              accept=".xlsx,.xls"
+              accept=".xlsx,.xls,.csv,.tsv,.txt,image/*"
               onChange={handleFileChange}
               className="hidden"
               ref={fileInputRef}
@@ -429,6 +850,45 @@ export const FileUpload: React.FC<FileUploadProps> = ({
         </div>
       )}
 
+      {/* 텍스트 붙여넣기 */}
+      {!showPreview && (
+        <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-4">
+          <button
+            onClick={() => setShowPasteInput(prev => !prev)}
+            className="text-sm font-semibold text-slate-600 hover:text-slate-800 flex items-center gap-1"
+          >
+            <svg
+              className={`w-4 h-4 transition-transform ${showPasteInput ? 'rotate-90' : ''}`}
+              fill="none" stroke="currentColor" viewBox="0 0 24 24"
+            >
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 5l7 7-7 7"/>
+            </svg>
+            메신저/메일 텍스트로 발주 입력
+          </button>
+          {showPasteInput && (
+            <div className="mt-3 space-y-2">
+              <textarea
+                value={pastedText}
+                onChange={(e) => setPastedText(e.target.value)}
+                rows={6}
+                placeholder="발주 내용을 붙여넣으세요. (예: 위드맘 / 제품A 9001234 / 500개 / 12월 28일)"
+                disabled={isParsing}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <div className="flex justify-end">
+                <button
+                  onClick={handleAnalyzeText}
+                  disabled={isParsing || !pastedText.trim()}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {isParsing ? '분석 중...' : '분석하기'}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* 미리보기 */}
       {showPreview && parsedOrders.length > 0 && (
         <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
@@ -440,21 +900,284 @@ export const FileUpload: React.FC<FileUploadProps> = ({
                 <p className="text-sm text-slate-500 mt-1">
                   파일: <span className="font-medium text-slate-700">{fileName}</span>
                   <span className="mx-2">|</span>
-                  발주일: <span className="font-medium text-blue-600">{orderDate}</span>
+                  {importMode === 'amendment' ? '원 발주일' : '발주일'}: <span className="font-medium text-blue-600">{orderDate}</span>
+                  {selectedSheetNames.length > 0 && (
+                    <>
+                      <span className="mx-2">|</span>
+                      시트: <span className="font-medium text-slate-700">{selectedSheetNames.join(', ')}</span>
+                    </>
+                  )}
+                  {sourceEncoding && (
+                    <>
+                      <span className="mx-2">|</span>
+                      인코딩: <span className="font-medium text-slate-700">{sourceEncoding === 'cp949' ? 'CP949' : 'UTF-8'}</span>
+                    </>
+                  )}
                 </p>
               </div>
               <div className="text-right">
-                <div className="text-2xl font-bold text-blue-600">{parsedOrders.length}</div>
-                <div className="text-xs text-slate-500">총 발주 건수</div>
+                <div className="text-2xl font-bold text-blue-600">
+                  {resolvedOrders.length}
+                  <span className="text-sm font-medium text-slate-400"> / {previewRows.length}</span>
+                </div>
+                <div className="text-xs text-slate-500">
+                  {importMode === 'amendment' ? '반영 대상' : '등록 대상'} / 전체 발주
+                </div>
               </div>
             </div>
           </div>
 
+          {/* 가져오기 방식 (신규 발주 / 수정 발주) */}
+          <div className="px-6 py-3 border-b border-slate-100 flex flex-wrap items-center gap-2">
+            <span className="text-sm font-semibold text-slate-600">가져오기 방식</span>
+            <div className="flex rounded-lg border border-slate-300 overflow-hidden text-sm">
+              {([['new', '신규 발주'], ['amendment', '수정 발주 (변경/취소)']] as [ImportMode, string][]).map(([mode, label]) => (
+                <button
+                  key={mode}
+                  onClick={() => setImportMode(mode)}
+                  disabled={isSaving}
+                  className={`px-3 py-1.5 disabled:opacity-50 ${
+                    importMode === mode ? 'bg-blue-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {importMode === 'amendment' && (
+              <>
+                <label className="flex items-center gap-1 text-xs text-slate-600 ml-2">
+                  원 발주일
+                  <input
+                    type="date"
+                    value={orderDate}
+                    onChange={(e) => setOrderDate(e.target.value)}
+                    disabled={isSaving}
+                    className="px-2 py-1 border border-slate-300 rounded-lg text-xs"
+                  />
+                </label>
+                <span className="text-xs text-slate-400">
+                  PO 번호(+항번)로 기존 주문을 찾고, 없으면 외주처 + 제품코드 + 원 발주일로 찾습니다. 수량 0 또는 변경구분 '취소'는 주문 취소
+                </span>
+              </>
+            )}
+          </div>
+
+          {/* 가져오기 프로필 (엑셀 업로드일 때만) */}
+          {workbookSheets && (
+            <div className="px-6 py-3 border-b border-slate-100 flex flex-wrap items-center gap-2">
+              <span className="text-sm font-semibold text-slate-600">가져오기 프로필</span>
+              <select
+                value={appliedProfile?.id || ''}
+                onChange={(e) => handleProfileChange(e.target.value)}
+                disabled={isSaving}
+                className="px-3 py-1.5 border border-slate-300 rounded-lg text-sm"
+              >
+                {availableProfiles.map(profile => (
+                  <option key={profile.id} value={profile.id}>{profile.name}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => openProfileEditor(appliedProfile)}
+                disabled={isSaving}
+                className="px-3 py-1.5 text-sm text-slate-600 bg-slate-100 rounded-lg hover:bg-slate-200 disabled:opacity-50"
+              >
+                프로필 수정
+              </button>
+              <button
+                onClick={() => openProfileEditor(null)}
+                disabled={isSaving}
+                className="px-3 py-1.5 text-sm text-blue-600 bg-blue-50 rounded-lg hover:bg-blue-100 disabled:opacity-50"
+              >
+                + 새 프로필
+              </button>
+            </div>
+          )}
+
+          {/* 시트 선택 (시트가 여러 개인 통합문서) */}
+          {workbookSheets && sheetSummaries.length > 1 && (
+            <div className="px-6 py-3 border-b border-slate-100">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-semibold text-slate-600">가져올 시트</span>
+                <button
+                  onClick={() => handleSelectSheets(sheetSummaries.filter(sheet => sheet.rowCount > 0).map(sheet => sheet.name))}
+                  disabled={isSaving}
+                  className="px-2 py-0.5 text-xs text-blue-600 bg-blue-50 rounded hover:bg-blue-100 disabled:opacity-50"
+                >
+                  발주 있는 시트 모두 선택
+                </button>
+              </div>
+              <div className="flex flex-wrap gap-2 mt-2">
+                {sheetSummaries.map(sheet => {
+                  const isSelected = selectedSheetNames.includes(sheet.name);
+                  return (
+                    <label
+                      key={sheet.name}
+                      className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border text-sm ${
+                        sheet.rowCount === 0
+                          ? 'border-slate-100 text-slate-400'
+                          : isSelected
+                            ? 'border-blue-300 bg-blue-50 text-blue-800 cursor-pointer'
+                            : 'border-slate-200 text-slate-700 cursor-pointer hover:bg-slate-50'
+                      }`}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={isSelected}
+                        onChange={() => handleToggleSheet(sheet.name)}
+                        disabled={isSaving || sheet.rowCount === 0}
+                        className="w-4 h-4 rounded border-slate-300"
+                      />
+                      <span className="font-medium">{sheet.name}</span>
+                      <span className="text-xs">
+                        {sheet.hasHeader ? `${sheet.rowCount}행` : '헤더 없음'}
+                      </span>
+                    </label>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {/* 분석 경고 (캡처/텍스트 입력) */}
+          {parseWarnings.length > 0 && (
+            <div className="px-6 py-3 border-b border-amber-100 bg-amber-50/50">
+              <h4 className="text-sm font-semibold text-amber-800">분석 경고 {parseWarnings.length}건</h4>
+              <ul className="mt-1 text-xs text-amber-700 list-disc list-inside space-y-0.5">
+                {parseWarnings.map((warning, index) => (
+                  <li key={index}>{warning}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* 미매칭 외주처 확인 */}
+          <VendorResolvePanel
+            unmatched={unmatchedVendors}
+            vendors={vendors}
+            disabled={isSaving}
+            onLinkAlias={onLinkVendorAlias}
+            onCreateVendor={onCreateVendor}
+          />
+
+          {/* 제품코드 규칙으로 제외된 행 */}
+          {excludedOrders.length > 0 && (
+            <div className="px-6 py-3 border-b border-slate-100">
+              <button
+                onClick={() => setShowExcluded(prev => !prev)}
+                className="text-sm font-semibold text-slate-600 hover:text-slate-800 flex items-center gap-1"
+              >
+                <svg
+                  className={`w-4 h-4 transition-transform ${showExcluded ? 'rotate-90' : ''}`}
+                  fill="none" stroke="currentColor" viewBox="0 0 24 24"
+                >
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 5l7 7-7 7"/>
+                </svg>
+                제품코드 규칙으로 제외된 행 ({excludedOrders.length}건)
+              </button>
+              {showExcluded && (
+                <div className="mt-2 max-h-48 overflow-auto border border-slate-200 rounded-lg">
+                  <table className="w-full text-xs">
+                    <thead className="bg-slate-50 sticky top-0">
+                      <tr>
+                        <th className="px-3 py-2 text-center font-semibold text-slate-500 whitespace-nowrap">행</th>
+                        <th className="px-3 py-2 text-center font-semibold text-slate-500 whitespace-nowrap">외주처</th>
+                        <th className="px-3 py-2 text-center font-semibold text-slate-500 whitespace-nowrap">제품코드</th>
+                        <th className="px-3 py-2 text-center font-semibold text-slate-500 whitespace-nowrap">품명</th>
+                        <th className="px-3 py-2 text-center font-semibold text-slate-500 whitespace-nowrap">제외 사유</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                      {excludedOrders.map(order => (
+                        <tr key={order.rowKey} className="text-slate-500">
+                          <td className="px-3 py-2 text-center whitespace-nowrap">
+                            {selectedSheetNames.length > 1 && order.sheetName ? `${order.sheetName} ` : ''}{order.rowNumber}
+                          </td>
+                          <td className="px-3 py-2 whitespace-nowrap">{order.vendorName}</td>
+                          <td className="px-3 py-2 font-mono whitespace-nowrap">{order.productCode || '-'}</td>
+                          <td className="px-3 py-2 whitespace-nowrap">{order.productName}</td>
+                          <td className="px-3 py-2 whitespace-nowrap text-amber-700">{order.reason}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* 수정 발주 판정 결과 */}
+          {amendmentDiffsByRowKey && resolvedOrders.length > 0 && (
+            <div className="px-6 py-3 border-b border-slate-100 flex flex-wrap items-center gap-x-4 gap-y-2 text-sm">
+              <span className="font-semibold text-slate-600">기존 주문 대응</span>
+              {isCheckingDuplicates ? (
+                <span className="text-xs text-slate-400">확인 중...</span>
+              ) : (
+                <>
+                  <span className="text-amber-700">변경 {amendmentCounts.change}</span>
+                  <span className="text-rose-700">취소 {amendmentCounts.cancel}</span>
+                  <span className="text-slate-500">변경 없음 {amendmentCounts.unchanged}</span>
+                  <span className="text-orange-700">기존 주문 없음 {amendmentCounts.unmatched} (건너뜀)</span>
+                  {amendmentCounts.split_conflict > 0 && (
+                    <span className="text-violet-700" title="파일 수량이 분할된 라인 합계 이하입니다. 분할 라인을 먼저 병합하거나 직접 수정하세요.">
+                      분할 라인 확인 {amendmentCounts.split_conflict} (건너뜀)
+                    </span>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+
+          {/* 기존 주문과 비교 */}
+          {!amendmentDiffsByRowKey && resolvedOrders.length > 0 && (
+            <div className="px-6 py-3 border-b border-slate-100 flex flex-wrap items-center gap-x-4 gap-y-2 text-sm">
+              <span className="font-semibold text-slate-600">기존 주문 비교</span>
+              {isCheckingDuplicates ? (
+                <span className="text-xs text-slate-400">확인 중...</span>
+              ) : (
+                <>
+                  <span className="text-green-700">신규 {statusCounts.new}</span>
+                  <span className="text-slate-500">동일 {statusCounts.identical}</span>
+                  <span className="text-amber-700">변경 {statusCounts.changed}</span>
+                </>
+              )}
+              {statusCounts.identical > 0 && (
+                <label className="flex items-center gap-1 text-xs text-slate-600">
+                  동일 행
+                  <select
+                    value={duplicateHandling.identical}
+                    onChange={(e) => setDuplicateHandling(prev => ({ ...prev, identical: e.target.value as DuplicateHandling['identical'] }))}
+                    disabled={isSaving}
+                    className="px-2 py-1 border border-slate-300 rounded-lg text-xs"
+                  >
+                    <option value="skip">건너뛰기</option>
+                    <option value="insert">강제 등록</option>
+                  </select>
+                </label>
+              )}
+              {statusCounts.changed > 0 && (
+                <label className="flex items-center gap-1 text-xs text-slate-600">
+                  변경 행
+                  <select
+                    value={duplicateHandling.changed}
+                    onChange={(e) => setDuplicateHandling(prev => ({ ...prev, changed: e.target.value as DuplicateHandling['changed'] }))}
+                    disabled={isSaving}
+                    className="px-2 py-1 border border-slate-300 rounded-lg text-xs"
+                  >
+                    <option value="update">기존 주문 수정</option>
+                    <option value="skip">건너뛰기</option>
+                    <option value="insert">강제 등록</option>
+                  </select>
+                </label>
+              )}
+            </div>
+          )}
+
           {/* 외주처별 요약 */}
           <div className="px-6 py-4 border-b border-slate-100">
             <h4 className="text-sm font-semibold text-slate-600 mb-3">외주처별 발주 현황</h4>
             <div className="flex flex-wrap gap-2">
-              {Object.entries(groupedOrders).map(([vendorName, orders]: [string, ParsedOrder[]]) => (
+              {Object.entries(groupedOrders).map(([vendorName, orders]: [string, ResolvedImportRow[]]) => (
                 <div
                   key={vendorName}
                   className="px-3 py-2 bg-slate-100 rounded-lg text-sm"
@@ -466,30 +1189,35 @@ export const FileUpload: React.FC<FileUploadProps> = ({
             </div>
           </div>
 
-          {/* 상세 목록 */}
-          <div className="max-h-80 overflow-auto">
-            <table className="w-full text-sm min-w-[600px]">
-              <thead className="bg-slate-50 sticky top-0">
-                <tr>
-                  <th className="px-4 py-3 text-center font-semibold text-slate-600 whitespace-nowrap">외주처</th>
-                  <th className="px-4 py-3 text-center font-semibold text-slate-600 whitespace-nowrap">제품코드</th>
-                  <th className="px-4 py-3 text-center font-semibold text-slate-600 whitespace-nowrap">품명</th>
-                  <th className="px-4 py-3 text-center font-semibold text-slate-600 whitespace-nowrap">수량</th>
-                  <th className="px-4 py-3 text-center font-semibold text-slate-600 whitespace-nowrap">납기일</th>
-                </tr>
-              </thead>
-              <tbody className="divide-y divide-slate-100">
-                {parsedOrders.map((order, index) => (
-                  <tr key={index} className="hover:bg-slate-50">
-                    <td className="px-4 py-3 text-slate-700 font-medium whitespace-nowrap">{order.vendorName}</td>
-                    <td className="px-4 py-3 text-slate-500 font-mono text-xs whitespace-nowrap">{order.productCode}</td>
-                    <td className="px-4 py-3 text-slate-800 whitespace-nowrap">{order.productName}</td>
-                    <td className="px-4 py-3 text-right text-blue-700 font-bold whitespace-nowrap">{order.quantity.toLocaleString()}</td>
-                    <td className="px-4 py-3 text-center text-slate-600 whitespace-nowrap">{order.deliveryDate ? order.deliveryDate.slice(5) : '-'}</td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
+          {/* 행 검증 결과 */}
+          {invalidRowCount > 0 && (
+            <div className="px-6 py-3 border-b border-red-100 bg-red-50/60 flex flex-wrap items-center gap-3 text-sm">
+              <span className="text-red-700">
+                오류가 있는 행 <span className="font-bold">{invalidRowCount}건</span> — 값을 수정하거나 제외해야 등록할 수 있습니다.
+              </span>
+              <button
+                onClick={handleExcludeInvalidRows}
+                disabled={isSaving}
+                className="px-3 py-1 text-xs font-medium text-red-700 bg-white border border-red-200 rounded-lg hover:bg-red-50 disabled:opacity-50"
+              >
+                오류 행 모두 제외
+              </button>
+            </div>
+          )}
+
+          {/* 상세 목록 (직접 수정 가능) */}
+          <div className="max-h-96 overflow-auto">
+            <OrderPreviewGrid
+              rows={previewRows}
+              diffs={rowDiffsByRowKey}
+              amendments={amendmentDiffsByRowKey ?? undefined}
+              vendors={vendors}
+              disabled={isSaving}
+              onEdit={handleEditRow}
+              onResetRow={handleResetRow}
+              onToggleExclude={handleToggleExcludeRow}
+              showSheet={selectedSheetNames.length > 1}
+            />
           </div>
 
           {/* 액션 버튼 */}
@@ -503,7 +1231,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({
             </button>
             <button
               onClick={handleSubmit}
-              disabled={isSaving}
+              disabled={isSaving || isCheckingDuplicates || invalidRowCount > 0 || resolvedOrders.length === 0}
               className="px-6 py-2.5 rounded-xl bg-blue-600 text-white font-semibold hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center gap-2"
             >
               {isSaving ? (
@@ -516,13 +1244,23 @@ export const FileUpload: React.FC<FileUploadProps> = ({
                   <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5 13l4 4L19 7"/>
                   </svg>
-                  등록하기
+                  {importMode === 'amendment' ? '변경 반영하기' : '등록하기'}
                 </>
               )}
             </button>
           </div>
         </div>
       )}
+
+      {/* 가져오기 프로필 편집기 */}
+      {showProfileEditor && workbookSheets && (
+        <ImportProfileEditor
+          sheets={workbookSheets}
+          profile={editingProfile}
+          onSave={handleSaveProfile}
+          onClose={() => setShowProfileEditor(false)}
+        />
+      )}
     </div>
   );
 };
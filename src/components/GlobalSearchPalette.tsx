@@ -0,0 +1,181 @@
+/**
+ * GlobalSearchPalette 컴포넌트
+ * 발주/BOM/납품/자재를 한 번에 검색하는 팔레트 (Ctrl+K 또는 ⌘K로 열기)
+ * 결과를 고르면 화면이 해당 행으로 이동하도록 onSelect로 알림
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useGlobalSearch } from '@/hooks/useGlobalSearch';
+import {
+  GLOBAL_SEARCH_GROUP_LABELS,
+  GLOBAL_SEARCH_MIN_LENGTH,
+  isSearchableTerm,
+  type GlobalSearchGroupId,
+  type GlobalSearchResult,
+} from '@/lib/globalSearch';
+
+interface GlobalSearchPaletteProps {
+  vendorId?: string; // 외주처 포털에서는 해당 외주처 데이터만 검색
+  groups?: GlobalSearchGroupId[]; // 검색할 그룹 (기본 전체)
+  showVendor?: boolean; // 결과에 외주처명 표시
+  canSelect?: (result: GlobalSearchResult) => boolean; // 이동할 화면이 없는 결과는 선택 불가로 표시
+  onSelect: (result: GlobalSearchResult) => void;
+}
+
+export const GlobalSearchPalette: React.FC<GlobalSearchPaletteProps> = ({
+  vendorId,
+  groups: groupIds,
+  showVendor = false,
+  canSelect,
+  onSelect,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { search, setSearch, results, groups, isLoading, error } = useGlobalSearch({ vendorId, groups: groupIds });
+
+  // Ctrl+K / ⌘K로 열기
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setIsOpen(true);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) inputRef.current?.focus();
+  }, [isOpen]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [results]);
+
+  const close = () => {
+    setIsOpen(false);
+    setSearch('');
+  };
+
+  const isSelectable = (result: GlobalSearchResult): boolean => (canSelect ? canSelect(result) : true);
+
+  const select = (result: GlobalSearchResult) => {
+    if (!isSelectable(result)) return;
+    onSelect(result);
+    close();
+  };
+
+  const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      close();
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(prev => Math.max(Math.min(prev + 1, results.length - 1), 0));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(prev => Math.max(prev - 1, 0));
+    } else if (e.key === 'Enter' && results[activeIndex]) {
+      e.preventDefault();
+      select(results[activeIndex]);
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        className="text-slate-500 text-xs sm:text-sm font-medium hover:text-slate-900 px-2 sm:px-3 py-1 border border-slate-200 rounded-lg inline-flex items-center gap-1.5"
+        title="통합 검색 (Ctrl+K)"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-4.35-4.35M17 11A6 6 0 1 1 5 11a6 6 0 0 1 12 0z" />
+        </svg>
+        검색
+        <kbd className="hidden sm:inline text-[10px] text-slate-400 font-sans">Ctrl K</kbd>
+      </button>
+
+      {isOpen && (
+        <div className="fixed inset-0 bg-black/40 flex items-start justify-center z-50 p-4 pt-[10vh]" onClick={close}>
+          <div
+            className="bg-white rounded-2xl shadow-xl max-w-xl w-full max-h-[75vh] flex flex-col animate-fade-in"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="px-4 py-3 border-b border-slate-200 flex items-center gap-2">
+              <svg className="w-5 h-5 text-slate-400 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-4.35-4.35M17 11A6 6 0 1 1 5 11a6 6 0 0 1 12 0z" />
+              </svg>
+              <input
+                ref={inputRef}
+                type="search"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                onKeyDown={handleInputKeyDown}
+                placeholder="제품코드, 품목명, PO번호, 납품번호, LOT번호, 자재코드"
+                className="flex-1 min-w-0 py-1 text-sm focus:outline-none"
+              />
+              {isLoading && (
+                <div className="w-4 h-4 border-2 border-blue-500 border-t-transparent rounded-full animate-spin flex-shrink-0"></div>
+              )}
+            </div>
+
+            <div className="flex-1 overflow-y-auto py-2">
+              {error ? (
+                <p className="px-4 py-6 text-center text-sm text-red-600">검색하지 못했습니다: {error.message}</p>
+              ) : !isSearchableTerm(search) ? (
+                <p className="px-4 py-6 text-center text-sm text-slate-400">
+                  {GLOBAL_SEARCH_MIN_LENGTH}글자 이상 입력하세요.
+                </p>
+              ) : !isLoading && groups.length === 0 ? (
+                <p className="px-4 py-6 text-center text-sm text-slate-400">검색 결과가 없습니다.</p>
+              ) : (
+                groups.map(group => (
+                  <div key={group.id} className="mb-2">
+                    <p className="px-4 py-1 text-xs font-semibold text-slate-400">
+                      {GLOBAL_SEARCH_GROUP_LABELS[group.id]} <span className="font-normal">{group.results.length}</span>
+                    </p>
+                    {group.results.map(result => {
+                      const index = results.indexOf(result);
+                      const selectable = isSelectable(result);
+                      return (
+                        <button
+                          key={`${result.group}:${result.id}`}
+                          onClick={() => select(result)}
+                          onMouseEnter={() => setActiveIndex(index)}
+                          disabled={!selectable}
+                          className={`w-full text-left px-4 py-2 flex items-start gap-3 ${
+                            index === activeIndex && selectable ? 'bg-blue-50' : ''
+                          } ${selectable ? '' : 'opacity-50 cursor-default'}`}
+                        >
+                          <div className="flex-1 min-w-0">
+                            <p className="text-sm text-slate-800 truncate">{result.title}</p>
+                            <p className="text-xs text-slate-500 truncate">
+                              {showVendor && result.vendorName && <span className="mr-1">{result.vendorName} ·</span>}
+                              {result.subtitle}
+                            </p>
+                          </div>
+                          {result.matchedField && (
+                            <span className="text-[11px] text-amber-700 bg-amber-50 px-2 py-0.5 rounded-full whitespace-nowrap max-w-[45%] truncate">
+                              {result.matchedField} {result.matchedValue}
+                            </span>
+                          )}
+                        </button>
+                      );
+                    })}
+                  </div>
+                ))
+              )}
+            </div>
+
+            <div className="px-4 py-2 border-t border-slate-100 text-[11px] text-slate-400 flex gap-3">
+              <span>↑↓ 이동</span>
+              <span>Enter 열기</span>
+              <span>Esc 닫기</span>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,367 @@
+/**
+ * ImportProfileEditor 컴포넌트
+ * 샘플 파일을 보면서 가져오기 프로필(시트, 헤더 행, 열 매핑, 값 변환)을 만들고 수정하는 모달
+ */
+
+import React, { useState, useMemo } from 'react';
+import type { ImportField, ImportProfile, ImportProfileInsert, ImportValueTransforms } from '@/types/database';
+import {
+  WorkbookSheets,
+  IMPORT_FIELDS,
+  IMPORT_FIELD_LABELS,
+  REQUIRED_IMPORT_FIELDS,
+  DEFAULT_IMPORT_PROFILE,
+  resolveSheetName,
+  evaluateProfile,
+  columnLetter,
+} from '@/lib/importProfile';
+
+const PREVIEW_ROW_LIMIT = 20;
+
+// 편집기에서 입력받는 프로필 값 (활성 여부, 작성자는 저장 시 채움)
+export type ImportProfileDraft = Omit<ImportProfileInsert, 'is_active' | 'created_by'>;
+
+interface ImportProfileEditorProps {
+  sheets: WorkbookSheets;
+  profile: ImportProfile | null;
+  onSave: (data: ImportProfileDraft, id?: string) => Promise<{ success: boolean; error: Error | null }>;
+  onClose: () => void;
+}
+
+const toKeywordText = (keywords?: string[]): string => (keywords ?? []).join(', ');
+
+const parseKeywordText = (text: string): string[] =>
+  text.split(',').map(kw => kw.trim()).filter(Boolean);
+
+export const ImportProfileEditor: React.FC<ImportProfileEditorProps> = ({
+  sheets,
+  profile,
+  onSave,
+  onClose,
+}) => {
+  // 기본 프로필은 DB에 없는 값이므로 새 프로필로 저장
+  const isEditing = profile !== null && profile.id !== DEFAULT_IMPORT_PROFILE.id;
+  const baseProfile = profile ?? DEFAULT_IMPORT_PROFILE;
+
+  const [name, setName] = useState(isEditing ? baseProfile.name : '');
+  const [description, setDescription] = useState(isEditing ? baseProfile.description || '' : '');
+  const [sheetName, setSheetName] = useState<string>(
+    () => resolveSheetName(sheets.names, baseProfile) ?? sheets.names[0] ?? ''
+  );
+  const [headerRow, setHeaderRow] = useState<number | null>(baseProfile.header_row);
+  const [keywordTexts, setKeywordTexts] = useState<Record<ImportField, string>>(() =>
+    IMPORT_FIELDS.reduce((acc, field) => {
+      acc[field] = toKeywordText(baseProfile.column_mapping[field]);
+      return acc;
+    }, {} as Record<ImportField, string>)
+  );
+  const [quantityMultiplier, setQuantityMultiplier] = useState<number>(
+    baseProfile.value_transforms.quantity_multiplier ?? 1
+  );
+  const [codeRemovePattern, setCodeRemovePattern] = useState(
+    baseProfile.value_transforms.product_code_remove_pattern ?? ''
+  );
+  const [dateOrder, setDateOrder] = useState<NonNullable<ImportValueTransforms['date_order']>>(
+    baseProfile.value_transforms.date_order ?? 'month_first'
+  );
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const sheetRows = useMemo(() => sheets.rows[sheetName] ?? [], [sheets, sheetName]);
+  const previewRows = sheetRows.slice(0, PREVIEW_ROW_LIMIT);
+  const columnCount = previewRows.reduce((max, row) => Math.max(max, row?.length ?? 0), 0);
+
+  // 현재 입력값으로 구성한 임시 프로필
+  const draftProfile = useMemo<ImportProfile>(() => ({
+    ...baseProfile,
+    sheet_name: sheetName || null,
+    sheet_index: Math.max(sheets.names.indexOf(sheetName), 0),
+    header_row: headerRow,
+    column_mapping: IMPORT_FIELDS.reduce((acc, field) => {
+      const keywords = parseKeywordText(keywordTexts[field]);
+      if (keywords.length > 0) acc[field] = keywords;
+      return acc;
+    }, {} as Partial<Record<ImportField, string[]>>),
+    value_transforms: {
+      quantity_multiplier: quantityMultiplier || 1,
+      product_code_remove_pattern: codeRemovePattern || undefined,
+      date_order: dateOrder,
+    },
+  }), [baseProfile, sheets.names, sheetName, headerRow, keywordTexts, quantityMultiplier, codeRemovePattern, dateOrder]);
+
+  // 샘플 파일에 적용한 결과
+  const detection = useMemo(() => evaluateProfile(sheets, draftProfile), [sheets, draftProfile]);
+  const activeHeaderRow = headerRow ?? detection?.header.headerRowIndex ?? null;
+  const headerCells = activeHeaderRow !== null ? sheetRows[activeHeaderRow] ?? [] : [];
+
+  // 열 선택 시 해당 헤더 텍스트를 정확히 일치 키워드로 설정
+  const handleColumnSelect = (field: ImportField, colIdx: string) => {
+    if (colIdx === '') {
+      setKeywordTexts(prev => ({ ...prev, [field]: '' }));
+      return;
+    }
+    const headerText = String(headerCells[Number(colIdx)] ?? '').trim();
+    if (!headerText) return;
+    setKeywordTexts(prev => ({ ...prev, [field]: `=${headerText}` }));
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      setError('프로필 이름을 입력해주세요.');
+      return;
+    }
+    if (!detection) {
+      setError('샘플 파일에서 필수 열(외주처, 품명)을 찾을 수 없습니다. 열 매핑을 확인해주세요.');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+
+    const data: ImportProfileDraft = {
+      name: name.trim(),
+      description: description.trim() || null,
+      sheet_name: draftProfile.sheet_name,
+      sheet_index: draftProfile.sheet_index,
+      header_row: draftProfile.header_row,
+      column_mapping: draftProfile.column_mapping,
+      value_transforms: draftProfile.value_transforms,
+    };
+
+    const result = await onSave(data, isEditing ? baseProfile.id : undefined);
+    setIsSaving(false);
+
+    if (result.success) {
+      onClose();
+    } else {
+      setError(result.error?.message || '프로필 저장 중 오류가 발생했습니다.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl max-w-5xl w-full max-h-[90vh] flex flex-col animate-fade-in">
+        {/* 헤더 */}
+        <div className="px-6 py-4 border-b border-slate-200 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-bold text-slate-900">
+              {isEditing ? '가져오기 프로필 수정' : '새 가져오기 프로필'}
+            </h3>
+            <p className="text-sm text-slate-500 mt-1">샘플 파일을 보면서 시트, 헤더 행, 열 매핑을 지정하세요.</p>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={isSaving}
+            className="p-2 text-slate-400 hover:text-slate-600 rounded-lg hover:bg-slate-100"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/>
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>
+          )}
+
+          {/* 기본 정보 */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">프로필 이름 *</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="예: 신세계 발주서"
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">설명</label>
+              <input
+                type="text"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          </div>
+
+          {/* 시트 / 헤더 행 */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">시트</label>
+              <select
+                value={sheetName}
+                onChange={(e) => { setSheetName(e.target.value); setHeaderRow(null); }}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm"
+              >
+                {sheets.names.map((sheet, idx) => (
+                  <option key={sheet} value={sheet}>{idx + 1}. {sheet}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">헤더 행</label>
+              <select
+                value={headerRow === null ? '' : String(headerRow)}
+                onChange={(e) => setHeaderRow(e.target.value === '' ? null : Number(e.target.value))}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm"
+              >
+                <option value="">자동 탐색 (열 매핑 키워드 기준)</option>
+                {previewRows.map((_, idx) => (
+                  <option key={idx} value={idx}>{idx + 1}행</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* 샘플 미리보기 */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-sm font-semibold text-slate-600">샘플 미리보기 (행을 클릭하면 헤더 행으로 지정)</h4>
+              {detection ? (
+                <span className="text-xs text-green-600 font-medium">
+                  {detection.header.headerRowIndex + 1}행에서 헤더 인식 · {Object.keys(detection.header.columns).length}개 열 매칭
+                </span>
+              ) : (
+                <span className="text-xs text-red-500 font-medium">필수 열을 찾지 못했습니다</span>
+              )}
+            </div>
+            <div className="border border-slate-200 rounded-lg overflow-auto max-h-64">
+              <table className="text-xs min-w-full">
+                <thead className="bg-slate-50 sticky top-0">
+                  <tr>
+                    <th className="px-2 py-1.5 text-slate-400 font-medium w-10">#</th>
+                    {Array.from({ length: columnCount }, (_, colIdx) => (
+                      <th key={colIdx} className="px-2 py-1.5 text-slate-400 font-medium">{columnLetter(colIdx)}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {previewRows.map((row, rowIdx) => (
+                    <tr
+                      key={rowIdx}
+                      onClick={() => setHeaderRow(rowIdx)}
+                      className={`cursor-pointer ${
+                        rowIdx === activeHeaderRow ? 'bg-blue-50 font-semibold text-blue-800' : 'hover:bg-slate-50 text-slate-600'
+                      }`}
+                    >
+                      <td className="px-2 py-1.5 text-center text-slate-400">{rowIdx + 1}</td>
+                      {Array.from({ length: columnCount }, (_, colIdx) => (
+                        <td key={colIdx} className="px-2 py-1.5 whitespace-nowrap max-w-[160px] truncate">
+                          {String(row?.[colIdx] ?? '')}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* 열 매핑 */}
+          <div>
+            <h4 className="text-sm font-semibold text-slate-600 mb-2">열 매핑</h4>
+            <p className="text-xs text-slate-400 mb-3">
+              키워드는 쉼표로 구분합니다. 헤더 셀에 포함되면 일치하며, "="로 시작하면 정확히 일치해야 합니다.
+            </p>
+            <div className="space-y-2">
+              {IMPORT_FIELDS.map(field => {
+                const matchedCol = detection?.header.columns[field];
+                return (
+                  <div key={field} className="grid grid-cols-12 gap-2 items-center">
+                    <div className="col-span-2 text-sm text-slate-700 font-medium">
+                      {IMPORT_FIELD_LABELS[field]}
+                      {REQUIRED_IMPORT_FIELDS.includes(field) && <span className="text-red-500"> *</span>}
+                    </div>
+                    <select
+                      value={matchedCol !== undefined ? String(matchedCol) : ''}
+                      onChange={(e) => handleColumnSelect(field, e.target.value)}
+                      disabled={headerCells.length === 0}
+                      className="col-span-4 px-2 py-1.5 border border-slate-300 rounded-lg text-sm disabled:bg-slate-50"
+                    >
+                      <option value="">(선택 안 함)</option>
+                      {headerCells.map((cell, colIdx) => {
+                        const text = String(cell ?? '').trim();
+                        if (!text) return null;
+                        return (
+                          <option key={colIdx} value={colIdx}>{columnLetter(colIdx)}열: {text}</option>
+                        );
+                      })}
+                    </select>
+                    <input
+                      type="text"
+                      value={keywordTexts[field]}
+                      onChange={(e) => setKeywordTexts(prev => ({ ...prev, [field]: e.target.value }))}
+                      placeholder="키워드"
+                      className="col-span-6 px-2 py-1.5 border border-slate-300 rounded-lg text-sm font-mono"
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* 값 변환 */}
+          <div>
+            <h4 className="text-sm font-semibold text-slate-600 mb-2">값 변환</h4>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-xs text-slate-500 mb-1">수량 배수</label>
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={quantityMultiplier}
+                  onChange={(e) => setQuantityMultiplier(Number(e.target.value))}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-slate-500 mb-1">제품코드 제거 패턴 (정규식)</label>
+                <input
+                  type="text"
+                  value={codeRemovePattern}
+                  onChange={(e) => setCodeRemovePattern(e.target.value)}
+                  placeholder="예: -"
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm font-mono"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-slate-500 mb-1">날짜 순서 (슬래시/점 형식)</label>
+                <select
+                  value={dateOrder}
+                  onChange={(e) => setDateOrder(e.target.value as NonNullable<ImportValueTransforms['date_order']>)}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm"
+                >
+                  <option value="month_first">월/일 (12/26)</option>
+                  <option value="day_first">일/월 (26/12)</option>
+                </select>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* 액션 버튼 */}
+        <div className="px-6 py-4 border-t border-slate-200 flex gap-3 justify-end">
+          <button
+            onClick={onClose}
+            disabled={isSaving}
+            className="px-4 py-2 text-sm font-medium text-slate-600 bg-slate-100 rounded-lg hover:bg-slate-200 transition-colors disabled:opacity-50"
+          >
+            취소
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {isSaving ? '저장 중...' : '프로필 저장'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,184 @@
+/**
+ * ImportReportModal 컴포넌트
+ * 업로드 이력에 저장된 리포트(읽은 행/등록된 행/사유별 건너뛴 행)를 보여주고 엑셀로 다운로드
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import type { FileUploadWithUser, ImportReport, ImportSkipReason } from '@/types/database';
+import { getFileUploadReport } from '@/services/fileUploadService';
+import {
+  IMPORT_SKIP_REASON_LABELS,
+  IMPORT_REPORT_EXCEL_COLUMNS,
+  importReportToExcelRows,
+} from '@/lib/importReport';
+import { exportToExcel } from '@/components/outsourcing/shared/ExcelDownload';
+
+interface ImportReportModalProps {
+  upload: FileUploadWithUser;
+  onClose: () => void;
+}
+
+export const ImportReportModal: React.FC<ImportReportModalProps> = ({
+  upload,
+  onClose,
+}) => {
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // 리포트 조회
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadReport = async () => {
+      setIsLoading(true);
+      const { data, error: reportError } = await getFileUploadReport(upload.id);
+      if (cancelled) return;
+
+      if (reportError) {
+        setError('업로드 리포트를 불러오지 못했습니다.');
+      }
+      setReport(data);
+      setIsLoading(false);
+    };
+
+    loadReport();
+    return () => {
+      cancelled = true;
+    };
+  }, [upload.id]);
+
+  const skippedRows = useMemo(() => report?.rows.filter(row => row.result === 'skipped') ?? [], [report]);
+
+  const reasonCounts = useMemo(() => (
+    report
+      ? (Object.entries(report.skipped_by_reason) as [ImportSkipReason, number][]).filter(([, count]) => count > 0)
+      : []
+  ), [report]);
+
+  const handleDownload = () => {
+    if (!report) return;
+    const baseName = upload.file_name.replace(/\.[^.]+$/, '');
+    exportToExcel(importReportToExcelRows(report), IMPORT_REPORT_EXCEL_COLUMNS, `업로드리포트_${baseName}.xlsx`);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl max-w-3xl w-full max-h-[85vh] flex flex-col animate-fade-in">
+        <div className="px-6 py-4 border-b border-slate-200">
+          <h3 className="text-lg font-bold text-slate-900">업로드 리포트</h3>
+          <p className="text-sm text-slate-500 mt-1 truncate">
+            {upload.file_name} · 발주일 {upload.order_date}
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-auto px-6 py-4 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>
+          )}
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="w-6 h-6 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          ) : !report ? (
+            !error && (
+              <p className="text-sm text-slate-500">
+                이 업로드에는 저장된 리포트가 없습니다. (리포트 기능 도입 이전 업로드)
+              </p>
+            )
+          ) : (
+            <>
+              <div className="grid grid-cols-3 gap-2 text-center">
+                <div className="bg-slate-50 rounded-lg py-3">
+                  <div className="text-xl font-bold text-slate-700">{report.total_rows}</div>
+                  <div className="text-xs text-slate-500">읽은 행</div>
+                </div>
+                <div className="bg-green-50 rounded-lg py-3">
+                  <div className="text-xl font-bold text-green-600">{report.accepted_rows}</div>
+                  <div className="text-xs text-slate-500">
+                    반영 (등록 {report.inserted} · 수정 {report.updated}
+                    {(report.cancelled ?? 0) > 0 && ` · 취소 ${report.cancelled}`})
+                  </div>
+                </div>
+                <div className="bg-amber-50 rounded-lg py-3">
+                  <div className="text-xl font-bold text-amber-600">{report.skipped}</div>
+                  <div className="text-xs text-slate-500">건너뜀</div>
+                </div>
+              </div>
+
+              {reasonCounts.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {reasonCounts.map(([reason, count]) => (
+                    <span key={reason} className="px-2 py-1 rounded-full text-xs font-medium bg-amber-100 text-amber-700">
+                      {IMPORT_SKIP_REASON_LABELS[reason]} {count}건
+                    </span>
+                  ))}
+                </div>
+              )}
+
+              {skippedRows.length > 0 && (
+                <div className="border border-slate-200 rounded-lg overflow-hidden">
+                  <table className="w-full text-xs">
+                    <thead className="bg-slate-50">
+                      <tr>
+                        <th className="px-3 py-2 text-left font-semibold text-slate-500">시트</th>
+                        <th className="px-3 py-2 text-right font-semibold text-slate-500">행</th>
+                        <th className="px-3 py-2 text-left font-semibold text-slate-500">사유</th>
+                        <th className="px-3 py-2 text-left font-semibold text-slate-500">외주처</th>
+                        <th className="px-3 py-2 text-left font-semibold text-slate-500">품명</th>
+                        <th className="px-3 py-2 text-right font-semibold text-slate-500">수량</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                      {skippedRows.map(row => (
+                        <tr key={`${row.sheet_name ?? ''}!${row.row_number}`}>
+                          <td className="px-3 py-2 text-slate-500 whitespace-nowrap">{row.sheet_name ?? '-'}</td>
+                          <td className="px-3 py-2 text-right text-slate-500">{row.row_number}</td>
+                          <td className="px-3 py-2 text-slate-700">
+                            {row.reason ? IMPORT_SKIP_REASON_LABELS[row.reason] : '-'}
+                            {row.detail && <div className="text-slate-400">{row.detail}</div>}
+                          </td>
+                          <td className="px-3 py-2 text-slate-700 whitespace-nowrap">{row.vendor_name || '-'}</td>
+                          <td className="px-3 py-2 text-slate-700">{row.product_name || '-'}</td>
+                          <td className="px-3 py-2 text-right text-slate-700">{row.quantity?.toLocaleString() ?? '-'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {report.warnings.length > 0 && (
+                <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
+                  <div className="text-xs font-semibold text-amber-800 mb-1">저장 경고</div>
+                  <ul className="text-xs text-amber-700 space-y-0.5 list-disc list-inside">
+                    {report.warnings.map((warning, index) => (
+                      <li key={index}>{warning}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-200 flex gap-3 justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-slate-600 bg-slate-100 rounded-lg hover:bg-slate-200 transition-colors"
+          >
+            닫기
+          </button>
+          <button
+            onClick={handleDownload}
+            disabled={!report}
+            className="px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+          >
+            엑셀 다운로드
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
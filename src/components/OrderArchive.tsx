@@ -0,0 +1,365 @@
+/**
+ * OrderArchive 컴포넌트
+ * 발주일 기간별로 주문을 보관하고, 보관된 주문을 복원하거나 관리자가 확인 후 영구 삭제하는 보관함
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import type { OrderPurgeResult } from '@/types/database';
+import { useOrderArchive } from '@/hooks/useOrderArchive';
+import { countActiveOrdersInRange } from '@/services/orderService';
+
+// 영구 삭제 확인 시 입력해야 하는 문구
+const PURGE_CONFIRM_TEXT = '영구 삭제';
+
+interface OrderArchiveProps {
+  // 보관/복원/삭제 후 현재 화면(목록, 생산계획, 리포트)을 다시 불러오도록 알림
+  onChanged: (message: string) => void;
+}
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+const toDateInput = (date: Date): string => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// 기본 보관 기간: 지난달 1일 ~ 말일
+const previousMonthRange = (): { from: string; to: string } => {
+  const now = new Date();
+  return {
+    from: toDateInput(new Date(now.getFullYear(), now.getMonth() - 1, 1)),
+    to: toDateInput(new Date(now.getFullYear(), now.getMonth(), 0)),
+  };
+};
+
+// 영구 삭제 확인 모달
+interface PurgeConfirmModalProps {
+  count: number;
+  onConfirm: () => Promise<void>;
+  onClose: () => void;
+}
+
+const PurgeConfirmModal: React.FC<PurgeConfirmModalProps> = ({ count, onConfirm, onClose }) => {
+  const [confirmText, setConfirmText] = useState('');
+  const [isPurging, setIsPurging] = useState(false);
+
+  const handleConfirm = async () => {
+    setIsPurging(true);
+    await onConfirm();
+    setIsPurging(false);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl max-w-md w-full p-6 animate-fade-in">
+        <h3 className="text-lg font-bold text-red-700 mb-2">보관 주문 영구 삭제</h3>
+        <p className="text-sm text-slate-600">
+          선택한 보관 주문 <span className="font-semibold">{count.toLocaleString()}건</span>과 연결된 생산계획, 납품서 항목,
+          생산/출고 기록, 변경 이력이 모두 삭제되며 되돌릴 수 없습니다.
+        </p>
+        <label className="block text-sm text-slate-700 mt-4">
+          계속하려면 <span className="font-mono font-semibold text-red-700">{PURGE_CONFIRM_TEXT}</span>를 입력하세요.
+          <input
+            type="text"
+            value={confirmText}
+            onChange={(e) => setConfirmText(e.target.value)}
+            disabled={isPurging}
+            className="mt-2 w-full px-3 py-2 border border-slate-300 rounded-lg text-sm"
+          />
+        </label>
+
+        <div className="flex gap-3 justify-end mt-6">
+          <button
+            onClick={onClose}
+            disabled={isPurging}
+            className="px-4 py-2 text-sm font-medium text-slate-600 bg-slate-100 rounded-lg hover:bg-slate-200 transition-colors disabled:opacity-50"
+          >
+            취소
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={isPurging || confirmText.trim() !== PURGE_CONFIRM_TEXT}
+            className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+          >
+            {isPurging ? '삭제 중...' : '영구 삭제'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// 메인 컴포넌트
+export const OrderArchive: React.FC<OrderArchiveProps> = ({ onChanged }) => {
+  const { archivedOrders, isLoading, error, fetchArchived, archivePeriod, restore, purge } = useOrderArchive();
+
+  // 기간별 보관
+  const [archiveRange, setArchiveRange] = useState(previousMonthRange);
+  const [archiveCount, setArchiveCount] = useState<number | null>(null);
+  const [isArchiving, setIsArchiving] = useState(false);
+
+  // 보관함 조회
+  const [filterFrom, setFilterFrom] = useState('');
+  const [filterTo, setFilterTo] = useState('');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [showPurgeConfirm, setShowPurgeConfirm] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const isRangeValid = Boolean(archiveRange.from && archiveRange.to && archiveRange.from <= archiveRange.to);
+
+  // 보관 대상 건수 미리보기
+  useEffect(() => {
+    if (!isRangeValid) {
+      setArchiveCount(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadCount = async () => {
+      const { data } = await countActiveOrdersInRange(archiveRange.from, archiveRange.to);
+      if (cancelled) return;
+      setArchiveCount(data);
+    };
+
+    loadCount();
+    return () => {
+      cancelled = true;
+    };
+  }, [archiveRange.from, archiveRange.to, isRangeValid]);
+
+  useEffect(() => {
+    fetchArchived();
+  }, [fetchArchived]);
+
+  const allSelected = archivedOrders.length > 0 && selectedIds.length === archivedOrders.length;
+  const selectedQuantity = useMemo(() => archivedOrders
+    .filter(order => selectedIds.includes(order.id))
+    .reduce((sum, order) => sum + order.quantity, 0), [archivedOrders, selectedIds]);
+
+  const handleSearch = async () => {
+    setSelectedIds([]);
+    await fetchArchived(filterFrom || undefined, filterTo || undefined);
+  };
+
+  const handleArchive = async () => {
+    if (!isRangeValid || !archiveCount) return;
+    if (!confirm(`발주일 ${archiveRange.from} ~ ${archiveRange.to} 주문 ${archiveCount.toLocaleString()}건을 보관하시겠습니까?`)) return;
+
+    setIsArchiving(true);
+    setActionError(null);
+    const { success, error: archiveError, count } = await archivePeriod(archiveRange.from, archiveRange.to);
+    setIsArchiving(false);
+
+    if (!success) {
+      setActionError(archiveError?.message || '보관에 실패했습니다.');
+      return;
+    }
+
+    setArchiveCount(0);
+    onChanged(`주문 ${count.toLocaleString()}건을 보관했습니다.`);
+    await handleSearch();
+  };
+
+  const handleRestore = async () => {
+    if (selectedIds.length === 0) return;
+
+    setIsRestoring(true);
+    setActionError(null);
+    const { success, error: restoreError, count } = await restore(selectedIds);
+    setIsRestoring(false);
+
+    if (!success) {
+      setActionError(restoreError?.message || '복원에 실패했습니다.');
+      return;
+    }
+
+    setSelectedIds([]);
+    onChanged(`주문 ${count.toLocaleString()}건을 복원했습니다.`);
+  };
+
+  const handlePurge = async () => {
+    setActionError(null);
+    const { success, error: purgeError, result } = await purge(selectedIds);
+    setShowPurgeConfirm(false);
+
+    if (!success) {
+      setActionError(purgeError?.message || '영구 삭제에 실패했습니다.');
+      return;
+    }
+
+    const { orders, schedules, delivery_items } = result as OrderPurgeResult;
+    setSelectedIds([]);
+    onChanged(`주문 ${orders}건, 생산계획 ${schedules}건, 납품서 항목 ${delivery_items}건을 영구 삭제했습니다.`);
+  };
+
+  const toggleSelect = (id: string) => {
+    setSelectedIds(prev => (prev.includes(id) ? prev.filter(selected => selected !== id) : [...prev, id]));
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedIds(allSelected ? [] : archivedOrders.map(order => order.id));
+  };
+
+  return (
+    <div className="space-y-4">
+      {showPurgeConfirm && (
+        <PurgeConfirmModal
+          count={selectedIds.length}
+          onConfirm={handlePurge}
+          onClose={() => setShowPurgeConfirm(false)}
+        />
+      )}
+
+      {actionError && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{actionError}</div>
+      )}
+
+      {/* 기간별 보관 */}
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-5 py-4 border-b border-slate-100">
+          <h3 className="text-base font-bold text-slate-800">기간별 보관</h3>
+          <p className="text-xs text-slate-500 mt-1">
+            발주일 기준으로 주문을 보관합니다. 보관된 주문은 목록, 생산계획, 리포트, 외주처 화면에서 숨겨지며 아래 보관함에서 복원할 수 있습니다.
+          </p>
+        </div>
+        <div className="px-5 py-4 flex flex-wrap items-end gap-3">
+          <label className="text-xs text-slate-600">
+            발주일 시작
+            <input
+              type="date"
+              value={archiveRange.from}
+              onChange={(e) => setArchiveRange(prev => ({ ...prev, from: e.target.value }))}
+              className="mt-1 block px-3 py-2 border border-slate-300 rounded-lg text-sm"
+            />
+          </label>
+          <label className="text-xs text-slate-600">
+            발주일 종료
+            <input
+              type="date"
+              value={archiveRange.to}
+              onChange={(e) => setArchiveRange(prev => ({ ...prev, to: e.target.value }))}
+              className="mt-1 block px-3 py-2 border border-slate-300 rounded-lg text-sm"
+            />
+          </label>
+          <div className="text-sm text-slate-600 pb-2">
+            {isRangeValid
+              ? `대상 ${archiveCount === null ? '...' : archiveCount.toLocaleString()}건`
+              : '기간을 확인해주세요.'}
+          </div>
+          <button
+            onClick={handleArchive}
+            disabled={isArchiving || !isRangeValid || !archiveCount}
+            className="ml-auto px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {isArchiving ? '보관 중...' : '보관하기'}
+          </button>
+        </div>
+      </div>
+
+      {/* 보관함 */}
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-5 py-4 border-b border-slate-100 flex flex-wrap items-end gap-3">
+          <div className="mr-auto">
+            <h3 className="text-base font-bold text-slate-800">보관함 ({archivedOrders.length.toLocaleString()})</h3>
+            <p className="text-xs text-slate-500 mt-1">복원하면 주문과 생산계획이 다시 현재 화면에 표시됩니다.</p>
+          </div>
+          <input
+            type="date"
+            value={filterFrom}
+            onChange={(e) => setFilterFrom(e.target.value)}
+            className="px-2 py-1.5 border border-slate-300 rounded-lg text-sm"
+          />
+          <span className="text-slate-400 pb-1.5">~</span>
+          <input
+            type="date"
+            value={filterTo}
+            onChange={(e) => setFilterTo(e.target.value)}
+            className="px-2 py-1.5 border border-slate-300 rounded-lg text-sm"
+          />
+          <button
+            onClick={handleSearch}
+            className="px-3 py-1.5 text-sm font-medium text-slate-600 bg-slate-100 rounded-lg hover:bg-slate-200"
+          >
+            조회
+          </button>
+        </div>
+
+        {error && (
+          <div className="px-5 py-3 text-sm text-red-700">보관된 주문을 불러오지 못했습니다.</div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : archivedOrders.length === 0 ? (
+          <p className="px-5 py-8 text-sm text-slate-400 text-center">보관된 주문이 없습니다.</p>
+        ) : (
+          <div className="max-h-[480px] overflow-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 sticky top-0">
+                <tr className="text-xs text-slate-500">
+                  <th className="px-3 py-2 w-8">
+                    <input type="checkbox" checked={allSelected} onChange={toggleSelectAll} className="rounded border-slate-300" />
+                  </th>
+                  <th className="px-3 py-2 text-left font-semibold">발주일</th>
+                  <th className="px-3 py-2 text-left font-semibold">외주처</th>
+                  <th className="px-3 py-2 text-left font-semibold">품명</th>
+                  <th className="px-3 py-2 text-right font-semibold">수량</th>
+                  <th className="px-3 py-2 text-left font-semibold">보관일</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {archivedOrders.map(order => (
+                  <tr
+                    key={order.id}
+                    onClick={() => toggleSelect(order.id)}
+                    className={`cursor-pointer ${selectedIds.includes(order.id) ? 'bg-blue-50' : 'hover:bg-slate-50'}`}
+                  >
+                    <td className="px-3 py-2 text-center">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.includes(order.id)}
+                        onChange={() => toggleSelect(order.id)}
+                        onClick={(e) => e.stopPropagation()}
+                        className="rounded border-slate-300"
+                      />
+                    </td>
+                    <td className="px-3 py-2 text-slate-600 whitespace-nowrap">{order.order_date}</td>
+                    <td className="px-3 py-2 text-slate-700 whitespace-nowrap">{order.vendor?.name ?? '-'}</td>
+                    <td className="px-3 py-2 text-slate-800">
+                      {order.product_name}
+                      {order.product_code && <span className="font-mono text-xs text-slate-400 ml-1">({order.product_code})</span>}
+                    </td>
+                    <td className="px-3 py-2 text-right text-slate-700">{order.quantity.toLocaleString()}</td>
+                    <td className="px-3 py-2 text-slate-500 whitespace-nowrap">
+                      {order.archived_at ? new Date(order.archived_at).toLocaleDateString('ko-KR') : '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="px-5 py-3 border-t border-slate-100 flex items-center gap-3">
+          <span className="text-xs text-slate-500 mr-auto">
+            선택 {selectedIds.length.toLocaleString()}건 · 수량 {selectedQuantity.toLocaleString()}
+          </span>
+          <button
+            onClick={() => setShowPurgeConfirm(true)}
+            disabled={selectedIds.length === 0 || isRestoring}
+            className="px-3 py-1.5 text-sm font-medium text-red-600 bg-red-50 rounded-lg hover:bg-red-100 disabled:opacity-50"
+          >
+            영구 삭제
+          </button>
+          <button
+            onClick={handleRestore}
+            disabled={selectedIds.length === 0 || isRestoring}
+            className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isRestoring ? '복원 중...' : '복원'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
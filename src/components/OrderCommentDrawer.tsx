@@ -0,0 +1,294 @@
+/**
+ * OrderCommentDrawer 컴포넌트
+ * 주문(PO 라인)/납품 항목 댓글 스레드를 보여주고 답글과 첨부파일을 작성하는 사이드 패널
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import type { CommentThreadSummary, OrderCommentAttachment, OrderCommentWithAuthor } from '@/types/database';
+import { useOrderComments } from '@/hooks/useOrderComments';
+import { getCommentAttachmentUrl } from '@/services/orderCommentService';
+import {
+  COMMENT_ATTACHMENT_MAX_FILES,
+  formatFileSize,
+  getCommentAuthorLabel,
+  validateCommentAttachments,
+  type CommentThreadRef,
+} from '@/lib/orderComments';
+
+interface OrderCommentDrawerProps {
+  thread: CommentThreadRef;
+  title: string; // 품목명 등 스레드 대상
+  subtitle?: string | null;
+  vendorId?: string; // 외주처 포털에서는 해당 외주처 주문의 스레드만
+  authorVendorId?: string | null; // 외주처 포털에서 작성하면 외주처로 표시
+  onClose: () => void;
+}
+
+const formatDateTime = (value: string): string => new Date(value).toLocaleString('ko-KR', {
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+});
+
+/**
+ * 댓글 버튼 (댓글 수, 안 읽은 댓글이 있으면 빨간 배지)
+ * 행 클릭으로 체크되지 않도록 이벤트 전파 중단
+ */
+export const CommentButton: React.FC<{ summary?: CommentThreadSummary; onClick: () => void }> = ({ summary, onClick }) => {
+  const unread = summary?.unread_count ?? 0;
+  return (
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        onClick();
+      }}
+      className={`relative inline-flex items-center gap-1 text-xs font-medium px-2 py-1 rounded-lg ${
+        unread > 0 ? 'text-red-600 bg-red-50 hover:bg-red-100' : 'text-slate-500 hover:text-blue-600 hover:bg-blue-50'
+      }`}
+      title={unread > 0 ? `안 읽은 댓글 ${unread}개` : '댓글'}
+    >
+      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h8M8 14h5m-9 6l3-3h9a2 2 0 002-2V6a2 2 0 00-2-2H5a2 2 0 00-2 2v14z" />
+      </svg>
+      {summary ? summary.comment_count : ''}
+      {unread > 0 && (
+        <span className="absolute -top-1.5 -right-1.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-white text-[10px] leading-[18px] text-center">
+          {unread}
+        </span>
+      )}
+    </button>
+  );
+};
+
+const AttachmentLink: React.FC<{ attachment: OrderCommentAttachment }> = ({ attachment }) => {
+  const [isOpening, setIsOpening] = useState(false);
+
+  const handleOpen = async () => {
+    setIsOpening(true);
+    const { data, error } = await getCommentAttachmentUrl(attachment);
+    setIsOpening(false);
+    if (error || !data) {
+      alert('첨부파일을 열지 못했습니다.');
+      return;
+    }
+    window.open(data, '_blank', 'noopener');
+  };
+
+  return (
+    <button
+      onClick={handleOpen}
+      disabled={isOpening}
+      className="inline-flex items-center gap-1 text-xs text-blue-700 bg-blue-50 hover:bg-blue-100 px-2 py-1 rounded-lg max-w-full disabled:opacity-50"
+    >
+      <svg className="w-3.5 h-3.5 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13" />
+      </svg>
+      <span className="truncate">{attachment.name}</span>
+      <span className="text-blue-400 flex-shrink-0">{formatFileSize(attachment.size)}</span>
+    </button>
+  );
+};
+
+const CommentItem: React.FC<{ comment: OrderCommentWithAuthor; onReply?: () => void }> = ({ comment, onReply }) => (
+  <div>
+    <div className="flex items-center gap-2 text-xs">
+      <span className={`font-semibold ${comment.author_vendor ? 'text-emerald-700' : 'text-slate-800'}`}>
+        {getCommentAuthorLabel(comment)}
+      </span>
+      <span className="text-slate-400">{formatDateTime(comment.created_at)}</span>
+      {onReply && (
+        <button onClick={onReply} className="ml-auto text-slate-400 hover:text-blue-600">답글</button>
+      )}
+    </div>
+    {comment.body && (
+      <p className="text-sm text-slate-700 mt-1 whitespace-pre-wrap break-words">{comment.body}</p>
+    )}
+    {comment.attachments.length > 0 && (
+      <div className="flex flex-wrap gap-1.5 mt-1.5">
+        {comment.attachments.map(attachment => (
+          <AttachmentLink key={attachment.path} attachment={attachment} />
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+export const OrderCommentDrawer: React.FC<OrderCommentDrawerProps> = ({
+  thread,
+  title,
+  subtitle,
+  vendorId,
+  authorVendorId = null,
+  onClose,
+}) => {
+  const { threads, isLoading, error, addComment } = useOrderComments(thread, { vendorId, authorVendorId });
+  const [body, setBody] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+  const [replyTo, setReplyTo] = useState<OrderCommentWithAuthor | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // 새 댓글이 오면 맨 아래로
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [threads]);
+
+  const handleFilesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const next = [...files, ...Array.from(e.target.files || [])];
+    e.target.value = '';
+    setSubmitError(validateCommentAttachments(next));
+    setFiles(next);
+  };
+
+  const handleSubmit = async () => {
+    if (!body.trim() && files.length === 0) return;
+
+    setIsSubmitting(true);
+    setSubmitError(null);
+    const { success, error: createError } = await addComment(body, files, replyTo?.id ?? null);
+    setIsSubmitting(false);
+
+    if (!success) {
+      setSubmitError(createError?.message || '댓글을 등록하지 못했습니다.');
+      return;
+    }
+    setBody('');
+    setFiles([]);
+    setReplyTo(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      handleSubmit();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/30 flex justify-end z-50" onClick={onClose}>
+      <div
+        className="bg-white w-full max-w-md h-full shadow-xl flex flex-col animate-fade-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 py-4 border-b border-slate-200 flex items-start justify-between gap-3">
+          <div className="min-w-0">
+            <h3 className="text-lg font-bold text-slate-900">
+              {thread.deliveryItemId ? '납품 항목 댓글' : '주문 댓글'}
+            </h3>
+            <p className="text-sm text-slate-500 mt-1 truncate">
+              {title}
+              {subtitle && <span className="font-mono text-xs ml-1">({subtitle})</span>}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 text-slate-400 hover:text-slate-600 rounded-lg hover:bg-slate-100"
+            title="닫기"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/>
+            </svg>
+          </button>
+        </div>
+
+        <div ref={listRef} className="flex-1 overflow-auto px-6 py-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700 mb-4">
+              댓글을 불러오지 못했습니다. {error.message}
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="w-6 h-6 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          ) : threads.length === 0 ? (
+            !error && <p className="text-sm text-slate-400 text-center py-8">아직 댓글이 없습니다.</p>
+          ) : (
+            <ul className="space-y-5">
+              {threads.map(node => (
+                <li key={node.comment.id}>
+                  <CommentItem comment={node.comment} onReply={() => setReplyTo(node.comment)} />
+                  {node.replies.length > 0 && (
+                    <ul className="mt-3 ml-3 pl-4 border-l-2 border-slate-100 space-y-3">
+                      {node.replies.map(reply => (
+                        <li key={reply.id}>
+                          <CommentItem comment={reply} />
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-200 space-y-2">
+          {replyTo && (
+            <div className="flex items-center justify-between text-xs text-slate-500 bg-slate-50 rounded-lg px-3 py-1.5">
+              <span className="truncate">
+                <span className="font-medium">{getCommentAuthorLabel(replyTo)}</span>님에게 답글
+              </span>
+              <button onClick={() => setReplyTo(null)} className="text-slate-400 hover:text-slate-600 ml-2">취소</button>
+            </div>
+          )}
+
+          <textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            onKeyDown={handleKeyDown}
+            rows={3}
+            placeholder="댓글을 입력하세요 (Ctrl+Enter로 등록)"
+            className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm resize-none focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+
+          {files.length > 0 && (
+            <div className="flex flex-wrap gap-1.5">
+              {files.map((file, index) => (
+                <span key={`${file.name}-${index}`} className="inline-flex items-center gap-1 text-xs bg-slate-100 text-slate-600 px-2 py-1 rounded-lg max-w-full">
+                  <span className="truncate">{file.name}</span>
+                  <span className="text-slate-400">{formatFileSize(file.size)}</span>
+                  <button
+                    onClick={() => {
+                      const next = files.filter((_, i) => i !== index);
+                      setFiles(next);
+                      setSubmitError(validateCommentAttachments(next));
+                    }}
+                    className="text-slate-400 hover:text-red-600"
+                    title="첨부 취소"
+                  >
+                    ×
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+
+          {submitError && <p className="text-xs text-red-600">{submitError}</p>}
+
+          <div className="flex items-center justify-between">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={files.length >= COMMENT_ATTACHMENT_MAX_FILES}
+              className="text-xs text-slate-500 hover:text-blue-600 disabled:opacity-50"
+            >
+              파일 첨부
+            </button>
+            <input ref={fileInputRef} type="file" multiple onChange={handleFilesChange} className="hidden" />
+            <button
+              onClick={handleSubmit}
+              disabled={isSubmitting || (!body.trim() && files.length === 0) || !!validateCommentAttachments(files)}
+              className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSubmitting ? '등록 중...' : '등록'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
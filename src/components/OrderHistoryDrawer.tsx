@@ -0,0 +1,145 @@
+/**
+ * OrderHistoryDrawer 컴포넌트
+ * 주문 필드 변경 이력(누가, 언제, 무엇을 바꿨는지)을 시간순 타임라인으로 보여주는 사이드 패널
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import type { Order, OrderHistoryEntryWithUser, Vendor } from '@/types/database';
+import { getOrderHistory } from '@/services/orderService';
+import { groupOrderHistory, ORDER_CREATED_FIELD } from '@/lib/orderHistory';
+
+interface OrderHistoryDrawerProps {
+  order: Pick<Order, 'id' | 'product_name' | 'product_code' | 'order_date' | 'created_at'>;
+  vendors?: Vendor[];
+  onClose: () => void;
+}
+
+const formatDateTime = (value: string): string => new Date(value).toLocaleString('ko-KR', {
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+});
+
+export const OrderHistoryDrawer: React.FC<OrderHistoryDrawerProps> = ({
+  order,
+  vendors = [],
+  onClose,
+}) => {
+  const [entries, setEntries] = useState<OrderHistoryEntryWithUser[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // 이력 조회
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadHistory = async () => {
+      setIsLoading(true);
+      setError(null);
+      const { data, error: historyError } = await getOrderHistory(order.id);
+      if (cancelled) return;
+
+      if (historyError) {
+        setError('변경 이력을 불러오지 못했습니다.');
+      }
+      setEntries(data || []);
+      setIsLoading(false);
+    };
+
+    loadHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, [order.id]);
+
+  const events = useMemo(() => groupOrderHistory(
+    entries,
+    Object.fromEntries(vendors.map(vendor => [vendor.id, vendor.name]))
+  ), [entries, vendors]);
+
+  // 등록 기록이 없는 주문(이력 기록 전에 만든 주문)은 created_at으로 등록 시점을 표시
+  const hasCreatedEntry = entries.some(entry => entry.field_name === ORDER_CREATED_FIELD);
+  const hasChanges = entries.some(entry => entry.field_name !== ORDER_CREATED_FIELD);
+
+  return (
+    <div className="fixed inset-0 bg-black/30 flex justify-end z-50" onClick={onClose}>
+      <div
+        className="bg-white w-full max-w-md h-full shadow-xl flex flex-col animate-fade-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 py-4 border-b border-slate-200 flex items-start justify-between gap-3">
+          <div className="min-w-0">
+            <h3 className="text-lg font-bold text-slate-900">변경 이력</h3>
+            <p className="text-sm text-slate-500 mt-1 truncate">
+              {order.product_name}
+              {order.product_code && <span className="font-mono text-xs ml-1">({order.product_code})</span>}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 text-slate-400 hover:text-slate-600 rounded-lg hover:bg-slate-100"
+            title="닫기"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/>
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto px-6 py-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700 mb-4">{error}</div>
+          )}
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="w-6 h-6 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          ) : (
+            <ol className="relative border-l-2 border-slate-100 ml-2 space-y-5">
+              {events.map(event => (
+                <li key={event.key} className="pl-5 relative">
+                  <span className="absolute -left-[7px] top-1.5 w-3 h-3 rounded-full bg-blue-500 ring-4 ring-white" />
+                  <div className="text-xs text-slate-400">
+                    {formatDateTime(event.changedAt)} · {event.user?.name || event.user?.email || '시스템'}
+                  </div>
+                  <ul className="mt-1 space-y-1">
+                    {event.changes.map(change => (
+                      <li key={change.field} className="text-sm text-slate-700">
+                        <span className="font-medium">{change.label}</span>{' '}
+                        {change.snapshot !== undefined ? (
+                          change.snapshot && <span className="text-slate-500">({change.snapshot})</span>
+                        ) : (
+                          <>
+                            <span className="text-slate-400 line-through">{change.from}</span>
+                            <span className="text-slate-400"> → </span>
+                            <span className="font-semibold text-blue-700">{change.to}</span>
+                          </>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </li>
+              ))}
+
+              {/* 최초 등록 */}
+              {!hasCreatedEntry && (
+                <li className="pl-5 relative">
+                  <span className="absolute -left-[7px] top-1.5 w-3 h-3 rounded-full bg-slate-300 ring-4 ring-white" />
+                  <div className="text-xs text-slate-400">{formatDateTime(order.created_at)}</div>
+                  <div className="text-sm text-slate-700 mt-1">주문 등록 (발주일 {order.order_date})</div>
+                </li>
+              )}
+            </ol>
+          )}
+
+          {!isLoading && !error && !hasChanges && (
+            <p className="text-xs text-slate-400 mt-4">등록 이후 변경된 내용이 없습니다.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,194 @@
+/**
+ * OrderImageModal 컴포넌트
+ * 주문 포장/제품 이미지를 올리거나 해제하고, 제품코드 기본 이미지로 지정해 이후 주문에도 쓰게 하는 관리자 모달
+ */
+
+import React, { useRef, useState } from 'react';
+import type { Order, OrderImageType } from '@/types/database';
+import { useOrderImages } from '@/hooks/useOrderImages';
+import {
+  ORDER_IMAGE_ACCEPT,
+  ORDER_IMAGE_COLUMNS,
+  ORDER_IMAGE_TYPES,
+  ORDER_IMAGE_TYPE_LABELS,
+} from '@/lib/orderImages';
+
+interface OrderImageModalProps {
+  order: Order;
+  onClose: () => void;
+  onChanged: (message: string) => void;
+}
+
+export const OrderImageModal: React.FC<OrderImageModalProps> = ({ order: initialOrder, onClose, onChanged }) => {
+  const { order, productImages, attachImage, removeImage, removeProductImage } = useOrderImages(initialOrder);
+  const [reuseForProductCode, setReuseForProductCode] = useState(false);
+  const [pendingType, setPendingType] = useState<OrderImageType | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRefs = useRef<Partial<Record<OrderImageType, HTMLInputElement | null>>>({});
+
+  const runAction = async (
+    type: OrderImageType,
+    action: () => Promise<{ success: boolean; error: Error | null }>,
+    message: string
+  ) => {
+    setPendingType(type);
+    setError(null);
+    const result = await action();
+    setPendingType(null);
+
+    if (!result.success) {
+      setError(result.error?.message || '이미지를 저장하지 못했습니다.');
+      return;
+    }
+    onChanged(message);
+  };
+
+  const handleFileChange = (type: OrderImageType, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const label = ORDER_IMAGE_TYPE_LABELS[type];
+    runAction(
+      type,
+      () => attachImage(type, file, reuseForProductCode),
+      reuseForProductCode && order.product_code
+        ? `'${order.product_code}' ${label} 이미지를 지정했습니다. 이후 같은 제품코드 주문에도 붙습니다.`
+        : `'${order.product_name}' ${label} 이미지를 지정했습니다.`
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-xl max-w-2xl w-full max-h-[90vh] flex flex-col animate-fade-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 py-4 border-b border-slate-200 flex items-start justify-between gap-3">
+          <div className="min-w-0">
+            <h3 className="text-lg font-bold text-slate-900">포장/제품 이미지</h3>
+            <p className="text-sm text-slate-500 mt-1 truncate">
+              {order.product_name}
+              {order.product_code && <span className="font-mono text-xs ml-1">({order.product_code})</span>}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 text-slate-400 hover:text-slate-600 rounded-lg hover:bg-slate-100"
+            title="닫기"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-xl p-3 text-sm text-red-700">{error}</div>
+          )}
+
+          <label className={`flex items-start gap-2 text-sm ${order.product_code ? 'text-slate-700' : 'text-slate-400'}`}>
+            <input
+              type="checkbox"
+              checked={reuseForProductCode && !!order.product_code}
+              onChange={(e) => setReuseForProductCode(e.target.checked)}
+              disabled={!order.product_code}
+              className="mt-0.5"
+            />
+            <span>
+              새로 올리는 이미지를 제품코드 기본 이미지로 지정
+              <span className="block text-xs text-slate-400">
+                {order.product_code
+                  ? `이후 등록되는 '${order.product_code}' 주문에 자동으로 붙습니다. 이미 등록된 다른 주문은 바뀌지 않습니다.`
+                  : '제품코드가 없는 주문은 이 주문에만 지정할 수 있습니다.'}
+              </span>
+            </span>
+          </label>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {ORDER_IMAGE_TYPES.map(type => {
+              const label = ORDER_IMAGE_TYPE_LABELS[type];
+              const url = order[ORDER_IMAGE_COLUMNS[type]];
+              const productImage = productImages.find(image => image.image_type === type);
+              const isPending = pendingType === type;
+
+              return (
+                <div key={type} className="border border-slate-200 rounded-xl p-3 space-y-3">
+                  <p className="text-sm font-semibold text-slate-700">{label} 이미지</p>
+
+                  <div className="aspect-square bg-slate-50 rounded-lg border border-dashed border-slate-200 flex items-center justify-center overflow-hidden">
+                    {isPending ? (
+                      <div className="w-6 h-6 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+                    ) : url ? (
+                      <img src={url} alt={`${order.product_name} ${label} 이미지`} className="w-full h-full object-contain" />
+                    ) : (
+                      <span className="text-xs text-slate-400">이미지 없음</span>
+                    )}
+                  </div>
+
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => fileInputRefs.current[type]?.click()}
+                      disabled={pendingType !== null}
+                      className="flex-1 px-3 py-1.5 text-sm font-medium text-blue-600 bg-blue-50 rounded-lg hover:bg-blue-100 disabled:opacity-50"
+                    >
+                      {url ? '교체' : '올리기'}
+                    </button>
+                    {url && (
+                      <button
+                        onClick={() => runAction(type, () => removeImage(type), `'${order.product_name}' ${label} 이미지를 뺐습니다.`)}
+                        disabled={pendingType !== null}
+                        className="px-3 py-1.5 text-sm font-medium text-red-600 bg-red-50 rounded-lg hover:bg-red-100 disabled:opacity-50"
+                      >
+                        빼기
+                      </button>
+                    )}
+                    <input
+                      ref={(element) => {
+                        fileInputRefs.current[type] = element;
+                      }}
+                      type="file"
+                      accept={ORDER_IMAGE_ACCEPT}
+                      onChange={(e) => handleFileChange(type, e)}
+                      className="hidden"
+                    />
+                  </div>
+
+                  {productImage && (
+                    <div className="flex items-center justify-between gap-2 text-xs text-slate-500 bg-slate-50 rounded-lg px-2 py-1.5">
+                      <span className="truncate">
+                        제품코드 기본 이미지 지정됨
+                        {productImage.image_url === url && ' (이 주문과 같음)'}
+                      </span>
+                      <button
+                        onClick={() => runAction(
+                          type,
+                          () => removeProductImage(type),
+                          `'${order.product_code}' ${label} 기본 이미지를 해제했습니다.`
+                        )}
+                        disabled={pendingType !== null}
+                        className="text-red-600 hover:underline whitespace-nowrap disabled:opacity-50"
+                      >
+                        기본 해제
+                      </button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-200 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-slate-600 bg-slate-100 rounded-lg hover:bg-slate-200"
+          >
+            닫기
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,96 @@
+/**
+ * OrderImageThumbnails 컴포넌트
+ * 주문 포장/제품 이미지 썸네일, 누르면 크게 보는 라이트박스 (←/→로 이미지 이동, Esc로 닫기)
+ */
+
+import React, { useEffect, useState } from 'react';
+import type { Order } from '@/types/database';
+import { getOrderImages } from '@/lib/orderImages';
+
+interface OrderImageThumbnailsProps {
+  order: Pick<Order, 'product_name' | 'packaging_image_url' | 'product_image_url'>;
+  size?: 'sm' | 'md';
+  className?: string;
+}
+
+const SIZE_CLASSES = {
+  sm: 'w-8 h-8',
+  md: 'w-12 h-12',
+};
+
+export const OrderImageThumbnails: React.FC<OrderImageThumbnailsProps> = ({ order, size = 'sm', className = '' }) => {
+  const images = getOrderImages(order);
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (openIndex === null) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setOpenIndex(null);
+      else if (e.key === 'ArrowRight') setOpenIndex(prev => prev === null ? prev : (prev + 1) % images.length);
+      else if (e.key === 'ArrowLeft') setOpenIndex(prev => prev === null ? prev : (prev - 1 + images.length) % images.length);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [openIndex, images.length]);
+
+  if (images.length === 0) return null;
+
+  const openImage = openIndex !== null ? images[openIndex] : null;
+
+  return (
+    <>
+      {/* 행 클릭으로 체크/입력 창이 열리지 않도록 이벤트 전파 중단 */}
+      <span className={`inline-flex gap-1 flex-shrink-0 ${className}`} onClick={(e) => e.stopPropagation()}>
+        {images.map((image, index) => (
+          <button
+            key={image.type}
+            onClick={() => setOpenIndex(index)}
+            className={`${SIZE_CLASSES[size]} rounded-md border border-slate-200 overflow-hidden bg-slate-50 hover:ring-2 hover:ring-blue-400 transition`}
+            title={`${image.label} 이미지`}
+          >
+            <img src={image.url} alt={`${order.product_name} ${image.label} 이미지`} loading="lazy" className="w-full h-full object-cover" />
+          </button>
+        ))}
+      </span>
+
+      {openImage && (
+        <div
+          className="fixed inset-0 bg-black/80 flex flex-col items-center justify-center z-50 p-4"
+          onClick={(e) => {
+            e.stopPropagation();
+            setOpenIndex(null);
+          }}
+        >
+          <img
+            src={openImage.url}
+            alt={`${order.product_name} ${openImage.label} 이미지`}
+            className="max-w-full max-h-[80vh] rounded-lg shadow-2xl bg-white animate-fade-in"
+            onClick={(e) => e.stopPropagation()}
+          />
+          <div className="mt-4 flex items-center gap-4 text-white text-sm" onClick={(e) => e.stopPropagation()}>
+            {images.map((image, index) => (
+              <button
+                key={image.type}
+                onClick={() => setOpenIndex(index)}
+                className={`px-3 py-1 rounded-full ${index === openIndex ? 'bg-white text-slate-900 font-semibold' : 'bg-white/10 hover:bg-white/20'}`}
+              >
+                {image.label}
+              </button>
+            ))}
+            <span className="text-white/70 truncate max-w-[40vw]">{order.product_name}</span>
+          </div>
+          <button
+            onClick={() => setOpenIndex(null)}
+            className="absolute top-4 right-4 p-2 text-white/80 hover:text-white"
+            title="닫기"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/>
+            </svg>
+          </button>
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,393 @@
+/**
+ * OrderLineOperationModal 컴포넌트
+ * 주문 라인을 수량/납기일로 나누거나, 중복 라인을 합치거나, 다른 외주처로 옮기고 계보를 확인하는 모달
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import type { Order, OrderLineageWithUser, Vendor } from '@/types/database';
+import { useOrderLineOperations } from '@/hooks/useOrderLineOperations';
+import { getOrderLineage, getMergeCandidates } from '@/services/orderLineService';
+import { ORDER_LINEAGE_OPERATION_LABELS, type OrderSplitDraft } from '@/lib/orderLineOperations';
+
+type OperationTab = 'split' | 'merge' | 'reassign' | 'lineage';
+
+const TABS: { id: OperationTab; label: string }[] = [
+  { id: 'split', label: '분할' },
+  { id: 'merge', label: '병합' },
+  { id: 'reassign', label: '외주처 변경' },
+  { id: 'lineage', label: '계보' },
+];
+
+interface OrderLineOperationModalProps {
+  order: Order;
+  vendors: Vendor[];
+  onClose: () => void;
+  // 작업 후 목록과 생산계획을 다시 불러오도록 알림
+  onChanged: (message: string) => void;
+}
+
+const formatDateTime = (value: string): string => new Date(value).toLocaleString('ko-KR', {
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+});
+
+const withWarnings = (message: string, warnings: string[]): string =>
+  warnings.length > 0 ? `${message} (생산계획 확인 필요: ${warnings.join(', ')})` : message;
+
+export const OrderLineOperationModal: React.FC<OrderLineOperationModalProps> = ({
+  order,
+  vendors,
+  onClose,
+  onChanged,
+}) => {
+  const { split, merge, reassign } = useOrderLineOperations(vendors);
+  const [activeTab, setActiveTab] = useState<OperationTab>('split');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 분할
+  const [drafts, setDrafts] = useState<OrderSplitDraft[]>([
+    { quantity: 0, deliveryDate: order.delivery_date, vendorId: order.vendor_id },
+  ]);
+  const remainingQuantity = order.quantity - drafts.reduce((sum, draft) => sum + (draft.quantity || 0), 0);
+
+  // 병합
+  const [candidates, setCandidates] = useState<Order[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [candidatesLoading, setCandidatesLoading] = useState(true);
+
+  // 외주처 변경
+  const [targetVendorId, setTargetVendorId] = useState('');
+
+  // 계보
+  const [lineage, setLineage] = useState<OrderLineageWithUser[]>([]);
+  const [lineageLoading, setLineageLoading] = useState(true);
+
+  const vendorNames = useMemo(
+    () => Object.fromEntries(vendors.map(vendor => [vendor.id, vendor.name])) as Record<string, string>,
+    [vendors]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadRelated = async () => {
+      setCandidatesLoading(true);
+      setLineageLoading(true);
+      const [candidateResult, lineageResult] = await Promise.all([
+        getMergeCandidates({ id: order.id, vendor_id: order.vendor_id, product_code: order.product_code }),
+        getOrderLineage(order.id),
+      ]);
+      if (cancelled) return;
+
+      setCandidates(candidateResult.data || []);
+      setLineage(lineageResult.data || []);
+      setCandidatesLoading(false);
+      setLineageLoading(false);
+    };
+
+    loadRelated();
+    return () => {
+      cancelled = true;
+    };
+  }, [order.id, order.vendor_id, order.product_code]);
+
+  const selectedCandidates = candidates.filter(candidate => selectedIds.has(candidate.id));
+  const mergedQuantity = selectedCandidates.reduce((sum, candidate) => sum + candidate.quantity, order.quantity);
+
+  const updateDraft = (index: number, patch: Partial<OrderSplitDraft>) => {
+    setDrafts(prev => prev.map((draft, i) => (i === index ? { ...draft, ...patch } : draft)));
+  };
+
+  const toggleCandidate = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const runOperation = async (
+    operation: () => Promise<{ success: boolean; error: Error | null; warnings: string[] }>,
+    message: string
+  ) => {
+    setIsSubmitting(true);
+    setError(null);
+    const result = await operation();
+    setIsSubmitting(false);
+
+    if (!result.success) {
+      setError(result.error?.message || '작업에 실패했습니다.');
+      return;
+    }
+    onChanged(withWarnings(message, result.warnings));
+    onClose();
+  };
+
+  const handleSplit = () => runOperation(
+    () => split(order, drafts),
+    `'${order.product_name}' 라인을 ${drafts.length + 1}개로 나눴습니다.`
+  );
+
+  const handleMerge = () => runOperation(
+    () => merge(order, selectedCandidates),
+    `'${order.product_name}' 라인에 ${selectedCandidates.length}개 라인을 합쳤습니다.`
+  );
+
+  const handleReassign = () => runOperation(
+    () => reassign(order, targetVendorId),
+    `'${order.product_name}' 라인을 ${vendorNames[targetVendorId] || '선택한 외주처'}(으)로 옮겼습니다.`
+  );
+
+  const describeLineage = (entry: OrderLineageWithUser): string => {
+    const from = entry.from_vendor_id ? vendorNames[entry.from_vendor_id] || '알 수 없음' : '-';
+    const to = entry.to_vendor_id ? vendorNames[entry.to_vendor_id] || '알 수 없음' : '-';
+    const snapshot = entry.source_snapshot as { order_date?: string; po_number?: string | null } | null;
+    const source = entry.source_order_id === order.id
+      ? '이 라인'
+      : `발주일 ${snapshot?.order_date ?? '-'}${snapshot?.po_number ? ` · ${snapshot.po_number}` : ''} 라인`;
+
+    switch (entry.operation) {
+      case 'split':
+        return entry.source_order_id === order.id && entry.result_order_id !== order.id
+          ? `이 라인에서 ${entry.quantity.toLocaleString()}개를 나눔 (${to})`
+          : `${source}에서 ${entry.quantity.toLocaleString()}개를 나눠 생성 (${from} → ${to})`;
+      case 'merge':
+        return `${source}의 ${entry.quantity.toLocaleString()}개를 합침`;
+      case 'reassign':
+        return `외주처 변경: ${from} → ${to} (${entry.quantity.toLocaleString()}개)`;
+      default:
+        return '';
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-xl max-w-2xl w-full max-h-[90vh] flex flex-col animate-fade-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 py-4 border-b border-slate-200 flex items-start justify-between gap-3">
+          <div className="min-w-0">
+            <h3 className="text-lg font-bold text-slate-900">주문 라인 작업</h3>
+            <p className="text-sm text-slate-500 mt-1 truncate">
+              {order.product_name}
+              {order.product_code && <span className="font-mono text-xs ml-1">({order.product_code})</span>}
+              <span className="ml-2">
+                {vendorNames[order.vendor_id] || '-'} · {order.quantity.toLocaleString()}개 · 납기 {order.delivery_date || '-'}
+              </span>
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 text-slate-400 hover:text-slate-600 rounded-lg hover:bg-slate-100"
+            title="닫기"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="px-6 pt-3 border-b border-slate-200 flex gap-1">
+          {TABS.map(tab => (
+            <button
+              key={tab.id}
+              onClick={() => {
+                setActiveTab(tab.id);
+                setError(null);
+              }}
+              className={`px-3 py-2 text-sm font-medium border-b-2 -mb-px transition-colors ${
+                activeTab === tab.id
+                  ? 'border-blue-600 text-blue-700'
+                  : 'border-transparent text-slate-500 hover:text-slate-700'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-xl p-3 text-sm text-red-700">{error}</div>
+          )}
+
+          {activeTab === 'split' && (
+            <>
+              <p className="text-sm text-slate-600">
+                나눈 수량만큼 원 라인 수량이 줄어들며, 생산/출고 기록은 원 라인에 남습니다.
+                납기일이나 외주처를 바꾸면 새 라인 기준으로 생산계획을 다시 만듭니다.
+              </p>
+              <div className="space-y-2">
+                {drafts.map((draft, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <input
+                      type="number"
+                      min={1}
+                      value={draft.quantity || ''}
+                      onChange={(e) => updateDraft(index, { quantity: Number(e.target.value) })}
+                      placeholder="수량"
+                      className="w-28 px-3 py-2 text-sm border border-slate-300 rounded-lg text-right focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <input
+                      type="date"
+                      value={draft.deliveryDate ?? ''}
+                      onChange={(e) => updateDraft(index, { deliveryDate: e.target.value || null })}
+                      className="px-3 py-2 text-sm border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <select
+                      value={draft.vendorId}
+                      onChange={(e) => updateDraft(index, { vendorId: e.target.value })}
+                      className="flex-1 min-w-0 px-3 py-2 text-sm border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {vendors.map(vendor => (
+                        <option key={vendor.id} value={vendor.id}>{vendor.name}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => setDrafts(prev => prev.filter((_, i) => i !== index))}
+                      disabled={drafts.length === 1}
+                      className="p-2 text-slate-400 hover:text-red-600 rounded-lg hover:bg-red-50 disabled:opacity-30"
+                      title="삭제"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <div className="flex items-center justify-between text-sm">
+                <button
+                  onClick={() => setDrafts(prev => [...prev, { quantity: 0, deliveryDate: order.delivery_date, vendorId: order.vendor_id }])}
+                  className="font-medium text-blue-600 hover:text-blue-700"
+                >
+                  + 라인 추가
+                </button>
+                <span className={remainingQuantity > 0 ? 'text-slate-600' : 'text-red-600 font-medium'}>
+                  원 라인 남은 수량: {remainingQuantity.toLocaleString()}개
+                </span>
+              </div>
+            </>
+          )}
+
+          {activeTab === 'merge' && (
+            <>
+              <p className="text-sm text-slate-600">
+                같은 외주처와 제품코드의 라인을 이 라인으로 합칩니다. 합친 라인은 삭제되고 납품서 항목과 생산/출고 기록은 이 라인으로 옮겨집니다.
+              </p>
+              {candidatesLoading ? (
+                <div className="flex items-center justify-center py-6">
+                  <div className="w-6 h-6 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+                </div>
+              ) : candidates.length === 0 ? (
+                <p className="text-center py-6 text-sm text-slate-400">합칠 수 있는 라인이 없습니다.</p>
+              ) : (
+                <div className="border border-slate-200 rounded-xl divide-y divide-slate-100">
+                  {candidates.map(candidate => (
+                    <label key={candidate.id} className="flex items-center gap-3 px-3 py-2.5 text-sm hover:bg-slate-50 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(candidate.id)}
+                        onChange={() => toggleCandidate(candidate.id)}
+                        className="w-4 h-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      <span className="text-blue-600 font-medium whitespace-nowrap">{candidate.order_date}</span>
+                      <span className="flex-1 min-w-0 truncate text-slate-700">
+                        {candidate.product_name}
+                        {candidate.po_number && <span className="text-xs text-slate-400 ml-1">{candidate.po_number}</span>}
+                      </span>
+                      <span className="text-slate-500 whitespace-nowrap">납기 {candidate.delivery_date || '-'}</span>
+                      <span className="font-bold text-blue-700 whitespace-nowrap">{candidate.quantity.toLocaleString()}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+              {selectedCandidates.length > 0 && (
+                <p className="text-sm text-slate-600 text-right">
+                  합친 후 수량: <span className="font-semibold">{mergedQuantity.toLocaleString()}개</span>
+                </p>
+              )}
+            </>
+          )}
+
+          {activeTab === 'reassign' && (
+            <>
+              <p className="text-sm text-slate-600">
+                라인 전체를 다른 외주처로 옮기고 새 외주처 기준으로 생산계획을 다시 만듭니다.
+                일부 수량만 옮기려면 분할에서 외주처를 지정하세요.
+              </p>
+              <select
+                value={targetVendorId}
+                onChange={(e) => setTargetVendorId(e.target.value)}
+                className="w-full px-3 py-2 text-sm border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">외주처 선택</option>
+                {vendors.filter(vendor => vendor.id !== order.vendor_id).map(vendor => (
+                  <option key={vendor.id} value={vendor.id}>{vendor.name}</option>
+                ))}
+              </select>
+            </>
+          )}
+
+          {activeTab === 'lineage' && (
+            lineageLoading ? (
+              <div className="flex items-center justify-center py-6">
+                <div className="w-6 h-6 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+              </div>
+            ) : lineage.length === 0 ? (
+              <p className="text-center py-6 text-sm text-slate-400">분할/병합/외주처 변경 기록이 없습니다.</p>
+            ) : (
+              <ol className="space-y-3">
+                {lineage.map(entry => (
+                  <li key={entry.id} className="border border-slate-200 rounded-xl px-4 py-3">
+                    <div className="flex items-center justify-between gap-2 text-xs text-slate-500">
+                      <span className="font-medium text-amber-700 bg-amber-50 px-2 py-0.5 rounded-full">
+                        {ORDER_LINEAGE_OPERATION_LABELS[entry.operation]}
+                      </span>
+                      <span>
+                        {entry.user?.name || '알 수 없음'} · {formatDateTime(entry.created_at)}
+                      </span>
+                    </div>
+                    <p className="text-sm text-slate-700 mt-2">{describeLineage(entry)}</p>
+                  </li>
+                ))}
+              </ol>
+            )
+          )}
+        </div>
+
+        {activeTab !== 'lineage' && (
+          <div className="px-6 py-4 border-t border-slate-200 flex justify-end gap-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-slate-600 bg-slate-100 rounded-lg hover:bg-slate-200 transition-colors"
+            >
+              취소
+            </button>
+            <button
+              onClick={activeTab === 'split' ? handleSplit : activeTab === 'merge' ? handleMerge : handleReassign}
+              disabled={
+                isSubmitting
+                || (activeTab === 'split' && remainingQuantity <= 0)
+                || (activeTab === 'merge' && selectedCandidates.length === 0)
+                || (activeTab === 'reassign' && !targetVendorId)
+              }
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {isSubmitting ? '처리 중...' : TABS.find(tab => tab.id === activeTab)?.label}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,88 @@
+/**
+ * OrderListFilters 컴포넌트
+ * 주문 목록의 검색어, 완료 여부, 발주일 기간 필터 (검색어는 입력이 멈춘 뒤 반영)
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  ORDER_COMPLETION_FILTER_LABELS,
+  type OrderCompletionFilter,
+  type OrderListQuery,
+} from '@/lib/orderListQuery';
+
+type FilterFields = Pick<OrderListQuery, 'search' | 'completion' | 'dateFrom' | 'dateTo'>;
+
+interface OrderListFiltersProps {
+  query: FilterFields;
+  total: number;
+  onChange: (changes: Partial<FilterFields>) => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+export const OrderListFilters: React.FC<OrderListFiltersProps> = ({ query, total, onChange }) => {
+  const [searchText, setSearchText] = useState<string>(query.search);
+
+  // 조건이 밖에서 초기화되면 입력칸도 맞춤
+  useEffect(() => {
+    setSearchText(query.search);
+  }, [query.search]);
+
+  useEffect(() => {
+    if (searchText === query.search) return;
+    const timer = setTimeout(() => onChange({ search: searchText }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchText, query.search, onChange]);
+
+  const hasFilter = query.search !== '' || query.completion !== 'all' || !!query.dateFrom || !!query.dateTo;
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-3 space-y-2">
+      <div className="flex flex-wrap gap-2">
+        <input
+          type="search"
+          value={searchText}
+          onChange={(e) => setSearchText(e.target.value)}
+          placeholder="품목명, 제품코드, PO 번호 검색"
+          className="flex-1 min-w-[180px] px-3 py-2 text-sm border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <select
+          value={query.completion}
+          onChange={(e) => onChange({ completion: e.target.value as OrderCompletionFilter })}
+          className="px-3 py-2 text-sm border border-slate-200 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {(Object.keys(ORDER_COMPLETION_FILTER_LABELS) as OrderCompletionFilter[]).map(key => (
+            <option key={key} value={key}>{ORDER_COMPLETION_FILTER_LABELS[key]}</option>
+          ))}
+        </select>
+      </div>
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-slate-500">발주일</span>
+        <input
+          type="date"
+          value={query.dateFrom ?? ''}
+          max={query.dateTo || undefined}
+          onChange={(e) => onChange({ dateFrom: e.target.value || undefined })}
+          className="px-2 py-1.5 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <span className="text-slate-400">~</span>
+        <input
+          type="date"
+          value={query.dateTo ?? ''}
+          min={query.dateFrom || undefined}
+          onChange={(e) => onChange({ dateTo: e.target.value || undefined })}
+          className="px-2 py-1.5 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <span className="ml-auto text-xs text-slate-500">{total.toLocaleString()}건</span>
+        {hasFilter && (
+          <button
+            onClick={() => onChange({ search: '', completion: 'all', dateFrom: undefined, dateTo: undefined })}
+            className="text-xs text-slate-500 hover:text-slate-800 underline"
+          >
+            필터 초기화
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
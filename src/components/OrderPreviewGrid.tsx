@@ -0,0 +1,218 @@
+/**
+ * OrderPreviewGrid 컴포넌트
+ * 업로드 미리보기 행을 직접 수정하고 검증 결과를 확인하는 편집 그리드
+ */
+
+import React from 'react';
+import type { Vendor } from '@/types/database';
+import { ImportRowDiff, IMPORT_ROW_STATUS_LABELS } from '@/lib/importDiff';
+import { AmendmentAction, AmendmentDiff, AMENDMENT_ACTION_LABELS } from '@/lib/importAmendment';
+import { IMPORT_ROW_ISSUE_LABELS } from '@/lib/importValidation';
+import type { ImportPreviewRow, ImportRowEdit } from '@/lib/orderImport';
+
+// 이 값 미만의 분석 신뢰도는 확인 필요로 표시
+const LOW_CONFIDENCE = 0.8;
+
+const AMENDMENT_BADGE_STYLES: Record<AmendmentAction, string> = {
+  change: 'bg-amber-100 text-amber-700',
+  cancel: 'bg-rose-100 text-rose-700',
+  unchanged: 'bg-slate-100 text-slate-500',
+  unmatched: 'bg-orange-100 text-orange-700',
+  split_conflict: 'bg-violet-100 text-violet-700',
+};
+
+interface OrderPreviewGridProps {
+  rows: ImportPreviewRow[];
+  diffs: Map<string, ImportRowDiff>;
+  amendments?: Map<string, AmendmentDiff>; // 수정 발주 모드: 있으면 신규/동일/변경 대신 변경/취소 판정 표시
+  vendors: Vendor[];
+  disabled?: boolean;
+  showSheet?: boolean;
+  onEdit: (rowKey: string, edit: ImportRowEdit) => void;
+  onResetRow: (rowKey: string) => void;
+  onToggleExclude: (rowKey: string) => void;
+}
+
+export const OrderPreviewGrid: React.FC<OrderPreviewGridProps> = ({
+  rows,
+  diffs,
+  amendments,
+  vendors,
+  disabled,
+  showSheet,
+  onEdit,
+  onResetRow,
+  onToggleExclude,
+}) => {
+  return (
+    <table className="w-full text-sm min-w-[900px]">
+      <thead className="bg-slate-50 sticky top-0 z-10">
+        <tr>
+          <th className="px-3 py-3 text-center font-semibold text-slate-600 whitespace-nowrap">제외</th>
+          {showSheet && (
+            <th className="px-3 py-3 text-center font-semibold text-slate-600 whitespace-nowrap">시트</th>
+          )}
+          <th className="px-3 py-3 text-center font-semibold text-slate-600 whitespace-nowrap">행</th>
+          <th className="px-3 py-3 text-center font-semibold text-slate-600 whitespace-nowrap">상태</th>
+          <th className="px-3 py-3 text-center font-semibold text-slate-600 whitespace-nowrap">외주처</th>
+          <th className="px-3 py-3 text-center font-semibold text-slate-600 whitespace-nowrap">제품코드</th>
+          <th className="px-3 py-3 text-center font-semibold text-slate-600 whitespace-nowrap">품명</th>
+          <th className="px-3 py-3 text-center font-semibold text-slate-600 whitespace-nowrap">수량</th>
+          <th className="px-3 py-3 text-center font-semibold text-slate-600 whitespace-nowrap">납기일</th>
+          <th className="px-3 py-3 text-center font-semibold text-slate-600 whitespace-nowrap">확인 사항</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-slate-100">
+        {rows.map(row => {
+          const diff = diffs.get(row.rowKey);
+          const amendment = amendments?.get(row.rowKey);
+          const existing = amendments ? amendment?.existing : diff?.status === 'changed' ? diff.existing : null;
+          const hasIssues = row.issues.length > 0;
+          const inputDisabled = disabled || row.isExcluded;
+
+          return (
+            <tr
+              key={row.rowKey}
+              className={row.isExcluded ? 'bg-slate-50 opacity-50' : hasIssues ? 'bg-red-50/60' : 'hover:bg-slate-50'}
+            >
+              <td className="px-3 py-2 text-center">
+                <input
+                  type="checkbox"
+                  checked={row.isExcluded}
+                  onChange={() => onToggleExclude(row.rowKey)}
+                  disabled={disabled}
+                  className="w-4 h-4 rounded border-slate-300"
+                />
+              </td>
+              {showSheet && (
+                <td className="px-3 py-2 text-center text-xs text-slate-600 whitespace-nowrap">{row.sheetName}</td>
+              )}
+              <td className="px-3 py-2 text-center text-xs text-slate-500 whitespace-nowrap">
+                {row.rowNumber}
+                {row.isEdited && (
+                  <button
+                    onClick={() => onResetRow(row.rowKey)}
+                    disabled={disabled}
+                    title="파일 값으로 되돌리기"
+                    className="block mx-auto mt-0.5 text-[10px] text-blue-600 hover:underline disabled:opacity-50"
+                  >
+                    수정됨 ↺
+                  </button>
+                )}
+              </td>
+              <td
+                className="px-3 py-2 text-center whitespace-nowrap"
+                title={(amendments ? amendment?.changes : diff?.changes)?.join('\n')}
+              >
+                {row.isExcluded ? (
+                  <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-slate-200 text-slate-500">제외</span>
+                ) : hasIssues ? (
+                  <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-700">오류</span>
+                ) : amendments ? amendment && (
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${AMENDMENT_BADGE_STYLES[amendment.action]}`}>
+                    {AMENDMENT_ACTION_LABELS[amendment.action]}
+                  </span>
+                ) : diff && (
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                    diff.status === 'new'
+                      ? 'bg-green-100 text-green-700'
+                      : diff.status === 'changed'
+                        ? 'bg-amber-100 text-amber-700'
+                        : 'bg-slate-100 text-slate-500'
+                  }`}>
+                    {IMPORT_ROW_STATUS_LABELS[diff.status]}
+                  </span>
+                )}
+              </td>
+              <td className="px-3 py-2 whitespace-nowrap">
+                <select
+                  value={row.vendor?.id || ''}
+                  onChange={(e) => onEdit(row.rowKey, { vendorId: e.target.value || undefined })}
+                  disabled={inputDisabled}
+                  className={`w-36 px-2 py-1 border rounded-lg text-sm ${
+                    row.issues.includes('unknown_vendor') ? 'border-red-300 text-red-700' : 'border-slate-300 text-slate-700'
+                  }`}
+                >
+                  <option value="">{row.vendorName} (미매칭)</option>
+                  {vendors.map(vendor => (
+                    <option key={vendor.id} value={vendor.id}>{vendor.name}</option>
+                  ))}
+                </select>
+                {row.vendor && row.vendor.name !== row.vendorName && (
+                  <div className="text-xs text-slate-400 mt-0.5">파일: {row.vendorName}</div>
+                )}
+              </td>
+              <td className="px-3 py-2 whitespace-nowrap">
+                <input
+                  type="text"
+                  value={row.productCode}
+                  onChange={(e) => onEdit(row.rowKey, { productCode: e.target.value.trim() })}
+                  disabled={inputDisabled}
+                  className={`w-32 px-2 py-1 border rounded-lg text-xs font-mono ${
+                    row.issues.includes('excluded_product_code') ? 'border-red-300 text-red-700' : 'border-slate-300 text-slate-600'
+                  }`}
+                />
+              </td>
+              <td className="px-3 py-2 text-slate-800 whitespace-nowrap">{row.productName}</td>
+              <td className="px-3 py-2 text-right whitespace-nowrap">
+                <input
+                  type="number"
+                  value={row.quantity}
+                  onChange={(e) => onEdit(row.rowKey, { quantity: Number(e.target.value) || 0 })}
+                  disabled={inputDisabled}
+                  className={`w-24 px-2 py-1 border rounded-lg text-sm text-right font-bold ${
+                    row.issues.includes('invalid_quantity') ? 'border-red-300 text-red-700' : 'border-slate-300 text-blue-700'
+                  }`}
+                />
+                {existing && !row.isCancellation && existing.quantity !== row.quantity && (
+                  <div className="text-xs text-slate-400 font-normal line-through">{existing.quantity.toLocaleString()}</div>
+                )}
+              </td>
+              <td className="px-3 py-2 whitespace-nowrap">
+                <input
+                  type="date"
+                  value={row.deliveryDate}
+                  onChange={(e) => onEdit(row.rowKey, { deliveryDate: e.target.value })}
+                  disabled={inputDisabled}
+                  className={`px-2 py-1 border rounded-lg text-sm ${
+                    row.issues.includes('invalid_delivery_date') || row.issues.includes('delivery_before_order')
+                      ? 'border-red-300 text-red-700'
+                      : 'border-slate-300 text-slate-600'
+                  }`}
+                />
+                {amendments && existing && !row.isCancellation && (existing.delivery_date ?? '') !== row.deliveryDate && (
+                  <div className="text-xs text-slate-400 line-through">{existing.delivery_date ?? '없음'}</div>
+                )}
+                {row.deliveryDateRaw && row.deliveryDateRaw !== row.deliveryDate && (
+                  <div className="text-xs text-slate-400 mt-0.5">원본: {row.deliveryDateRaw}</div>
+                )}
+                {row.notes && (
+                  <div className="text-xs text-blue-600 mt-0.5">특이사항: {row.notes}</div>
+                )}
+              </td>
+              <td className="px-3 py-2">
+                <div className="flex flex-wrap gap-1">
+                  {row.issues.map(issue => (
+                    <span key={issue} className="px-1.5 py-0.5 rounded text-[11px] font-medium bg-red-100 text-red-700 whitespace-nowrap">
+                      {IMPORT_ROW_ISSUE_LABELS[issue]}
+                    </span>
+                  ))}
+                  {row.confidence !== null && row.confidence < LOW_CONFIDENCE && (
+                    <span className="px-1.5 py-0.5 rounded text-[11px] font-medium bg-amber-100 text-amber-700 whitespace-nowrap">
+                      신뢰도 {Math.round(row.confidence * 100)}%
+                    </span>
+                  )}
+                  {row.warnings.map(warning => (
+                    <span key={warning} className="px-1.5 py-0.5 rounded text-[11px] bg-amber-50 text-amber-700 whitespace-nowrap">
+                      {warning}
+                    </span>
+                  ))}
+                </div>
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+};
@@ -0,0 +1,257 @@
+/**
+ * OrderProgressModal 컴포넌트
+ * 주문별 일별 생산/출고 수량 입력 (같은 작업일을 다시 입력하면 덮어씀)
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import type { Order, OrderProgress, OrderProgressInsert } from '@/types/database';
+import { getOrderProgress } from '@/services/orderProgressService';
+import { validateProgressEntry } from '@/lib/orderProgress';
+
+interface OrderProgressModalProps {
+  order: Order;
+  onSave: (entry: OrderProgressInsert) => Promise<{ success: boolean; error: Error | null }>;
+  onDelete: (orderId: string, progressId: string) => Promise<{ success: boolean; error: Error | null }>;
+  onClose: () => void;
+}
+
+const today = (): string => new Date().toISOString().split('T')[0];
+
+export const OrderProgressModal: React.FC<OrderProgressModalProps> = ({
+  order,
+  onSave,
+  onDelete,
+  onClose,
+}) => {
+  const [entries, setEntries] = useState<OrderProgress[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 입력 폼
+  const [workDate, setWorkDate] = useState(today());
+  const [produced, setProduced] = useState('');
+  const [shipped, setShipped] = useState('');
+  const [notes, setNotes] = useState('');
+
+  const loadEntries = useCallback(async () => {
+    const { data, error: fetchError } = await getOrderProgress(order.id);
+    if (fetchError) {
+      setError('생산/출고 기록을 불러오지 못했습니다.');
+    }
+    setEntries(data || []);
+    setIsLoading(false);
+  }, [order.id]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  // 이미 기록이 있는 작업일을 고르면 기존 값으로 채움
+  useEffect(() => {
+    const existing = entries.find(entry => entry.work_date === workDate);
+    setProduced(existing ? String(existing.produced_quantity) : '');
+    setShipped(existing ? String(existing.shipped_quantity) : '');
+    setNotes(existing?.notes ?? '');
+  }, [workDate, entries]);
+
+  const isEditing = entries.some(entry => entry.work_date === workDate);
+  const remaining = Math.max(order.quantity - order.produced_quantity, 0);
+  const ratio = order.quantity > 0 ? Math.min(order.produced_quantity / order.quantity, 1) : 0;
+
+  const handleSave = async () => {
+    const draft = { workDate, produced: Number(produced || 0), shipped: Number(shipped || 0) };
+    const validationError = validateProgressEntry(entries, draft);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    const result = await onSave({
+      order_id: order.id,
+      work_date: draft.workDate,
+      produced_quantity: draft.produced,
+      shipped_quantity: draft.shipped,
+      notes: notes.trim() || null,
+    });
+    setIsSaving(false);
+
+    if (!result.success) {
+      setError(result.error?.message || '저장에 실패했습니다.');
+      return;
+    }
+    await loadEntries();
+  };
+
+  const handleDelete = async (entry: OrderProgress) => {
+    if (!confirm(`${entry.work_date} 기록을 삭제하시겠습니까?`)) return;
+
+    setIsSaving(true);
+    setError(null);
+    const result = await onDelete(order.id, entry.id);
+    setIsSaving(false);
+
+    if (!result.success) {
+      setError(result.error?.message || '삭제에 실패했습니다.');
+      return;
+    }
+    await loadEntries();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl max-w-lg w-full max-h-[85vh] flex flex-col animate-fade-in">
+        <div className="px-6 py-4 border-b border-slate-200">
+          <h3 className="text-lg font-bold text-slate-900">생산/출고 입력</h3>
+          <p className="text-sm text-slate-500 mt-1 truncate">
+            {order.product_name}
+            {order.product_code && <span className="font-mono text-xs ml-1">({order.product_code})</span>}
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-auto px-6 py-4 space-y-4">
+          {/* 누적 현황 */}
+          <div>
+            <div className="grid grid-cols-4 gap-2 text-center">
+              <div className="bg-slate-50 rounded-lg py-2">
+                <div className="text-base font-bold text-slate-700">{order.quantity.toLocaleString()}</div>
+                <div className="text-xs text-slate-500">발주</div>
+              </div>
+              <div className="bg-blue-50 rounded-lg py-2">
+                <div className="text-base font-bold text-blue-600">{order.produced_quantity.toLocaleString()}</div>
+                <div className="text-xs text-slate-500">생산</div>
+              </div>
+              <div className="bg-emerald-50 rounded-lg py-2">
+                <div className="text-base font-bold text-emerald-600">{order.shipped_quantity.toLocaleString()}</div>
+                <div className="text-xs text-slate-500">출고</div>
+              </div>
+              <div className="bg-amber-50 rounded-lg py-2">
+                <div className="text-base font-bold text-amber-600">{remaining.toLocaleString()}</div>
+                <div className="text-xs text-slate-500">남은 생산</div>
+              </div>
+            </div>
+            <div className="w-full bg-slate-100 h-2 mt-3 rounded-full overflow-hidden">
+              <div className="bg-blue-600 h-full transition-all duration-500" style={{ width: `${ratio * 100}%` }} />
+            </div>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>
+          )}
+
+          {/* 입력 폼 */}
+          <div className="grid grid-cols-3 gap-2">
+            <label className="text-xs text-slate-600">
+              작업일
+              <input
+                type="date"
+                value={workDate}
+                onChange={(e) => setWorkDate(e.target.value)}
+                disabled={isSaving}
+                className="mt-1 w-full px-2 py-1.5 border border-slate-300 rounded-lg text-sm"
+              />
+            </label>
+            <label className="text-xs text-slate-600">
+              생산 수량
+              <input
+                type="number"
+                min={0}
+                value={produced}
+                onChange={(e) => setProduced(e.target.value)}
+                disabled={isSaving}
+                className="mt-1 w-full px-2 py-1.5 border border-slate-300 rounded-lg text-sm text-right"
+              />
+            </label>
+            <label className="text-xs text-slate-600">
+              출고 수량
+              <input
+                type="number"
+                min={0}
+                value={shipped}
+                onChange={(e) => setShipped(e.target.value)}
+                disabled={isSaving}
+                className="mt-1 w-full px-2 py-1.5 border border-slate-300 rounded-lg text-sm text-right"
+              />
+            </label>
+            <input
+              type="text"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="메모 (선택)"
+              disabled={isSaving}
+              className="col-span-3 px-2 py-1.5 border border-slate-300 rounded-lg text-sm"
+            />
+          </div>
+
+          {/* 일별 기록 */}
+          {isLoading ? (
+            <div className="flex items-center justify-center py-4">
+              <div className="w-6 h-6 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-xs text-slate-400">아직 기록이 없습니다.</p>
+          ) : (
+            <div className="border border-slate-200 rounded-lg overflow-hidden">
+              <table className="w-full text-xs">
+                <thead className="bg-slate-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-semibold text-slate-500">작업일</th>
+                    <th className="px-3 py-2 text-right font-semibold text-slate-500">생산</th>
+                    <th className="px-3 py-2 text-right font-semibold text-slate-500">출고</th>
+                    <th className="px-3 py-2 text-left font-semibold text-slate-500">메모</th>
+                    <th className="px-3 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {entries.map(entry => (
+                    <tr
+                      key={entry.id}
+                      onClick={() => setWorkDate(entry.work_date)}
+                      className={`cursor-pointer ${entry.work_date === workDate ? 'bg-blue-50' : 'hover:bg-slate-50'}`}
+                    >
+                      <td className="px-3 py-2 text-slate-700">{entry.work_date}</td>
+                      <td className="px-3 py-2 text-right text-blue-700 font-medium">{entry.produced_quantity.toLocaleString()}</td>
+                      <td className="px-3 py-2 text-right text-emerald-700 font-medium">{entry.shipped_quantity.toLocaleString()}</td>
+                      <td className="px-3 py-2 text-slate-500">{entry.notes || '-'}</td>
+                      <td className="px-3 py-2 text-right">
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleDelete(entry);
+                          }}
+                          disabled={isSaving}
+                          className="text-red-500 hover:text-red-700 disabled:opacity-50"
+                        >
+                          삭제
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-200 flex gap-3 justify-end">
+          <button
+            onClick={onClose}
+            disabled={isSaving}
+            className="px-4 py-2 text-sm font-medium text-slate-600 bg-slate-100 rounded-lg hover:bg-slate-200 transition-colors disabled:opacity-50"
+          >
+            닫기
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {isSaving ? '저장 중...' : isEditing ? '수정' : '기록'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
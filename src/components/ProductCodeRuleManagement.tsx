@@ -0,0 +1,346 @@
+/**
+ * ProductCodeRuleManagement 컴포넌트
+ * 업로드/리포트에 공통으로 적용되는 제품코드 포함 규칙 관리
+ */
+
+import React, { useState } from 'react';
+import type {
+  ProductCodeRule,
+  ProductCodeRuleInsert,
+  ProductCodeRuleUpdate,
+  ProductCodeMatchType,
+  ProductCodeRuleAction,
+} from '@/types/database';
+import { classifyProductCode, describeProductCodeRule } from '@/lib/productCodeRules';
+
+type RuleResult = Promise<{ success: boolean; error: Error | null }>;
+
+interface ProductCodeRuleManagementProps {
+  rules: ProductCodeRule[];
+  isLoading: boolean;
+  error: Error | null;
+  onAdd: (data: ProductCodeRuleInsert) => RuleResult;
+  onEdit: (id: string, data: ProductCodeRuleUpdate) => RuleResult;
+  onRemove: (id: string) => RuleResult;
+}
+
+interface RuleFormState {
+  category: string;
+  match_type: ProductCodeMatchType;
+  pattern: string;
+  action: ProductCodeRuleAction;
+  counts_toward_target: boolean;
+  priority: number;
+}
+
+const EMPTY_FORM: RuleFormState = {
+  category: '',
+  match_type: 'prefix',
+  pattern: '',
+  action: 'include',
+  counts_toward_target: false,
+  priority: 100,
+};
+
+// 규칙 추가/수정 모달
+interface RuleFormModalProps {
+  initial: RuleFormState;
+  isEditing: boolean;
+  onSubmit: (form: RuleFormState) => RuleResult;
+  onClose: () => void;
+}
+
+const RuleFormModal: React.FC<RuleFormModalProps> = ({ initial, isEditing, onSubmit, onClose }) => {
+  const [form, setForm] = useState<RuleFormState>(initial);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async () => {
+    if (!form.category.trim() || !form.pattern.trim()) {
+      setError('분류명과 패턴을 입력해주세요.');
+      return;
+    }
+    if (form.match_type === 'regex') {
+      try {
+        new RegExp(form.pattern);
+      } catch {
+        setError('올바른 정규식이 아닙니다.');
+        return;
+      }
+    }
+
+    setIsSaving(true);
+    setError(null);
+    const result = await onSubmit({ ...form, category: form.category.trim(), pattern: form.pattern.trim() });
+    setIsSaving(false);
+
+    if (result.success) {
+      onClose();
+    } else {
+      setError(result.error?.message || '저장 중 오류가 발생했습니다.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl max-w-md w-full p-6 animate-fade-in">
+        <h3 className="text-lg font-bold text-slate-900 mb-4">{isEditing ? '규칙 수정' : '규칙 추가'}</h3>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700 mb-4">{error}</div>
+        )}
+
+        <div className="space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">분류명</label>
+            <input
+              type="text"
+              value={form.category}
+              onChange={(e) => setForm(prev => ({ ...prev, category: e.target.value }))}
+              placeholder="예: 완제품"
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm"
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">방식</label>
+              <select
+                value={form.match_type}
+                onChange={(e) => setForm(prev => ({ ...prev, match_type: e.target.value as ProductCodeMatchType }))}
+                className="w-full px-2 py-2 border border-slate-300 rounded-lg text-sm"
+              >
+                <option value="prefix">접두사</option>
+                <option value="regex">정규식</option>
+              </select>
+            </div>
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-slate-700 mb-1">패턴</label>
+              <input
+                type="text"
+                value={form.pattern}
+                onChange={(e) => setForm(prev => ({ ...prev, pattern: e.target.value }))}
+                placeholder={form.match_type === 'prefix' ? '예: 9' : '예: ^9\\d{7}$'}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm font-mono"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">처리</label>
+              <select
+                value={form.action}
+                onChange={(e) => setForm(prev => ({ ...prev, action: e.target.value as ProductCodeRuleAction }))}
+                className="w-full px-2 py-2 border border-slate-300 rounded-lg text-sm"
+              >
+                <option value="include">포함</option>
+                <option value="exclude">제외</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">우선순위</label>
+              <input
+                type="number"
+                value={form.priority}
+                onChange={(e) => setForm(prev => ({ ...prev, priority: Number(e.target.value) }))}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm"
+              />
+            </div>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={form.counts_toward_target}
+              disabled={form.action === 'exclude'}
+              onChange={(e) => setForm(prev => ({ ...prev, counts_toward_target: e.target.checked }))}
+              className="rounded border-slate-300"
+            />
+            목표 달성률 집계에 포함
+          </label>
+        </div>
+
+        <div className="flex gap-3 justify-end mt-6">
+          <button
+            onClick={onClose}
+            disabled={isSaving}
+            className="px-4 py-2 text-sm font-medium text-slate-600 bg-slate-100 rounded-lg hover:bg-slate-200 transition-colors disabled:opacity-50"
+          >
+            취소
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={isSaving}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {isSaving ? '저장 중...' : '저장'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// 메인 컴포넌트
+export const ProductCodeRuleManagement: React.FC<ProductCodeRuleManagementProps> = ({
+  rules,
+  isLoading,
+  error,
+  onAdd,
+  onEdit,
+  onRemove,
+}) => {
+  const [editingRule, setEditingRule] = useState<ProductCodeRule | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [testCode, setTestCode] = useState('');
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const testResult = testCode.trim() ? classifyProductCode(testCode, rules) : null;
+
+  const openForm = (rule: ProductCodeRule | null) => {
+    setEditingRule(rule);
+    setShowForm(true);
+  };
+
+  const handleSubmit = (form: RuleFormState) => {
+    const data = { ...form, counts_toward_target: form.action === 'include' && form.counts_toward_target };
+    return editingRule
+      ? onEdit(editingRule.id, data)
+      : onAdd({ ...data, is_active: true });
+  };
+
+  const handleToggleActive = async (rule: ProductCodeRule) => {
+    setActionError(null);
+    const { success, error: toggleError } = await onEdit(rule.id, { is_active: !rule.is_active });
+    if (!success) setActionError(toggleError?.message || '상태 변경에 실패했습니다.');
+  };
+
+  const handleRemove = async (rule: ProductCodeRule) => {
+    if (!confirm(`'${rule.category}' 규칙을 삭제하시겠습니까?`)) return;
+    setActionError(null);
+    const { success, error: removeError } = await onRemove(rule.id);
+    if (!success) setActionError(removeError?.message || '삭제에 실패했습니다.');
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {showForm && (
+        <RuleFormModal
+          initial={editingRule ? {
+            category: editingRule.category,
+            match_type: editingRule.match_type,
+            pattern: editingRule.pattern,
+            action: editingRule.action,
+            counts_toward_target: editingRule.counts_toward_target,
+            priority: editingRule.priority,
+          } : EMPTY_FORM}
+          isEditing={editingRule !== null}
+          onSubmit={handleSubmit}
+          onClose={() => setShowForm(false)}
+        />
+      )}
+
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-5 py-4 border-b border-slate-100 flex items-center justify-between">
+          <div>
+            <h3 className="text-base font-bold text-slate-800">제품코드 규칙</h3>
+            <p className="text-xs text-slate-500 mt-1">
+              업로드 포함 여부와 리포트 목표 집계에 사용됩니다. 우선순위가 낮은 규칙부터 검사하며 처음 일치한 규칙이 적용됩니다.
+            </p>
+          </div>
+          <button
+            onClick={() => openForm(null)}
+            className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 whitespace-nowrap"
+          >
+            + 규칙 추가
+          </button>
+        </div>
+
+        {(error || actionError) && (
+          <div className="mx-5 mt-4 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+            {actionError || error?.message}
+          </div>
+        )}
+
+        {rules.length === 0 ? (
+          <div className="p-8 text-center text-sm text-slate-400">
+            등록된 규칙이 없습니다. 기본 규칙(1, 9, 3 포함 / 9 집계)이 적용됩니다.
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-4 py-3 text-center font-semibold text-slate-600 whitespace-nowrap">순위</th>
+                  <th className="px-4 py-3 text-center font-semibold text-slate-600 whitespace-nowrap">분류</th>
+                  <th className="px-4 py-3 text-center font-semibold text-slate-600 whitespace-nowrap">패턴</th>
+                  <th className="px-4 py-3 text-center font-semibold text-slate-600 whitespace-nowrap">처리</th>
+                  <th className="px-4 py-3 text-center font-semibold text-slate-600 whitespace-nowrap">목표 집계</th>
+                  <th className="px-4 py-3 text-center font-semibold text-slate-600 whitespace-nowrap">사용</th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {rules.map(rule => (
+                  <tr key={rule.id} className={rule.is_active ? 'hover:bg-slate-50' : 'bg-slate-50 text-slate-400'}>
+                    <td className="px-4 py-3 text-center">{rule.priority}</td>
+                    <td className="px-4 py-3 font-medium whitespace-nowrap">{rule.category}</td>
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      <span className="text-xs text-slate-400 mr-1">{rule.match_type === 'regex' ? '정규식' : '접두사'}</span>
+                      <span className="font-mono">{rule.pattern}</span>
+                    </td>
+                    <td className="px-4 py-3 text-center">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                        rule.action === 'include' ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
+                      }`}>
+                        {rule.action === 'include' ? '포함' : '제외'}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-center">{rule.counts_toward_target ? '✓' : '-'}</td>
+                    <td className="px-4 py-3 text-center">
+                      <input
+                        type="checkbox"
+                        checked={rule.is_active}
+                        onChange={() => handleToggleActive(rule)}
+                        className="rounded border-slate-300"
+                      />
+                    </td>
+                    <td className="px-4 py-3 text-right whitespace-nowrap">
+                      <button onClick={() => openForm(rule)} className="text-xs text-blue-600 hover:underline mr-3">수정</button>
+                      <button onClick={() => handleRemove(rule)} className="text-xs text-red-500 hover:underline">삭제</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* 규칙 테스트 */}
+        <div className="px-5 py-4 border-t border-slate-100 bg-slate-50 flex flex-wrap items-center gap-3">
+          <span className="text-sm font-medium text-slate-600">규칙 테스트</span>
+          <input
+            type="text"
+            value={testCode}
+            onChange={(e) => setTestCode(e.target.value)}
+            placeholder="제품코드 입력"
+            className="px-3 py-1.5 border border-slate-300 rounded-lg text-sm font-mono w-40"
+          />
+          {testResult && (
+            <span className={`text-sm ${testResult.included ? 'text-green-700' : 'text-red-600'}`}>
+              {testResult.included ? '포함' : '제외'}
+              {testResult.countsTowardTarget && ' · 목표 집계'}
+              <span className="text-slate-500"> — {describeProductCodeRule(testResult.rule)}</span>
+            </span>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
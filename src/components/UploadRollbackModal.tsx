@@ -0,0 +1,159 @@
+/**
+ * UploadRollbackModal 컴포넌트
+ * 업로드 이력 삭제 시 함께 삭제될 주문/생산계획/납품서 항목을 보여주고 업로드 전체를 롤백
+ */
+
+import React, { useEffect, useState } from 'react';
+import type { FileUploadWithUser, FileUploadRollbackPreview, FileUploadRollbackResult } from '@/types/database';
+import { getFileUploadRollbackPreview, rollbackFileUpload } from '@/services/fileUploadService';
+
+const PREVIEW_ORDER_LIMIT = 50;
+
+interface UploadRollbackModalProps {
+  upload: FileUploadWithUser;
+  onClose: () => void;
+  onRolledBack: (result: FileUploadRollbackResult) => void;
+}
+
+export const UploadRollbackModal: React.FC<UploadRollbackModalProps> = ({
+  upload,
+  onClose,
+  onRolledBack,
+}) => {
+  const [preview, setPreview] = useState<FileUploadRollbackPreview | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRollingBack, setIsRollingBack] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 삭제 대상 조회
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadPreview = async () => {
+      setIsLoading(true);
+      const { data, error: previewError } = await getFileUploadRollbackPreview(upload.id);
+      if (cancelled) return;
+
+      if (previewError) {
+        setError('삭제 대상을 불러오지 못했습니다.');
+      }
+      setPreview(data);
+      setIsLoading(false);
+    };
+
+    loadPreview();
+    return () => {
+      cancelled = true;
+    };
+  }, [upload.id]);
+
+  const handleRollback = async () => {
+    setIsRollingBack(true);
+    setError(null);
+
+    const { data, error: rollbackError } = await rollbackFileUpload(upload.id);
+    setIsRollingBack(false);
+
+    if (rollbackError || !data) {
+      setError(rollbackError?.message || '업로드 롤백에 실패했습니다.');
+      return;
+    }
+
+    onRolledBack(data);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl max-w-lg w-full max-h-[85vh] flex flex-col animate-fade-in">
+        <div className="px-6 py-4 border-b border-slate-200">
+          <h3 className="text-lg font-bold text-slate-900">업로드 롤백</h3>
+          <p className="text-sm text-slate-500 mt-1 truncate">
+            {upload.file_name} · 발주일 {upload.order_date}
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-auto px-6 py-4 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>
+          )}
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="w-6 h-6 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          ) : preview && (
+            <>
+              <div className="grid grid-cols-3 gap-2 text-center">
+                <div className="bg-red-50 rounded-lg py-3">
+                  <div className="text-xl font-bold text-red-600">{preview.orders.length}</div>
+                  <div className="text-xs text-slate-500">주문</div>
+                </div>
+                <div className="bg-red-50 rounded-lg py-3">
+                  <div className="text-xl font-bold text-red-600">{preview.scheduleCount}</div>
+                  <div className="text-xs text-slate-500">생산계획</div>
+                </div>
+                <div className="bg-red-50 rounded-lg py-3">
+                  <div className="text-xl font-bold text-red-600">{preview.deliveryItemCount}</div>
+                  <div className="text-xs text-slate-500">납품서 항목</div>
+                </div>
+              </div>
+
+              {preview.orders.length === 0 ? (
+                <p className="text-sm text-slate-500">
+                  이 업로드에 연결된 주문이 없습니다. 업로드 이력만 삭제됩니다.
+                </p>
+              ) : (
+                <div className="border border-slate-200 rounded-lg overflow-hidden">
+                  <table className="w-full text-xs">
+                    <thead className="bg-slate-50">
+                      <tr>
+                        <th className="px-3 py-2 text-left font-semibold text-slate-500">외주처</th>
+                        <th className="px-3 py-2 text-left font-semibold text-slate-500">품명</th>
+                        <th className="px-3 py-2 text-right font-semibold text-slate-500">수량</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                      {preview.orders.slice(0, PREVIEW_ORDER_LIMIT).map(order => (
+                        <tr key={order.id}>
+                          <td className="px-3 py-2 text-slate-700 whitespace-nowrap">{order.vendor?.name}</td>
+                          <td className="px-3 py-2 text-slate-700">{order.product_name}</td>
+                          <td className="px-3 py-2 text-right text-slate-700">{order.quantity.toLocaleString()}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {preview.orders.length > PREVIEW_ORDER_LIMIT && (
+                    <div className="px-3 py-2 text-xs text-slate-400 bg-slate-50">
+                      외 {preview.orders.length - PREVIEW_ORDER_LIMIT}건
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <p className="text-xs text-red-600">
+                롤백하면 위 데이터와 업로드 이력이 함께 삭제되며 되돌릴 수 없습니다.
+              </p>
+            </>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-200 flex gap-3 justify-end">
+          <button
+            onClick={onClose}
+            disabled={isRollingBack}
+            className="px-4 py-2 text-sm font-medium text-slate-600 bg-slate-100 rounded-lg hover:bg-slate-200 transition-colors disabled:opacity-50"
+          >
+            취소
+          </button>
+          <button
+            onClick={handleRollback}
+            disabled={isLoading || isRollingBack || !preview}
+            className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+          >
+            {isRollingBack ? '롤백 중...' : '업로드 롤백'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -3,9 +3,10 @@
  * 사용자 관리를 위한 컴포넌트
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useUsers } from '@/hooks/useUsers';
-import type { User, UserRole } from '@/types/database';
+import { useVendors } from '@/hooks/useVendors';
+import type { User, UserRole, Vendor } from '@/types/database';
 
 // 확인 모달 컴포넌트
 interface ConfirmModalProps {
@@ -143,15 +144,46 @@ const RoleBadge: React.FC<RoleBadgeProps> = ({ role }) => {
   );
 };
 
+// 연결 외주처 선택 (외주처 포털 사용자는 연결된 외주처 주문의 댓글만 볼 수 있음, 관리자는 전체)
+interface VendorLinkSelectProps {
+  user: User;
+  vendors: Vendor[];
+  onChange: (vendorId: string | null) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const VendorLinkSelect: React.FC<VendorLinkSelectProps> = ({ user, vendors, onChange, disabled = false, className = '' }) => {
+  if (user.role === 'admin') {
+    return <span className="text-xs text-slate-400">전체 외주처</span>;
+  }
+
+  return (
+    <select
+      value={user.vendor_id ?? ''}
+      onChange={(e) => onChange(e.target.value || null)}
+      disabled={disabled}
+      title="외주처 포털에서 이 외주처 주문의 댓글을 볼 수 있습니다"
+      className={`border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed ${className}`}
+    >
+      <option value="">연결 안 함</option>
+      {vendors.map(vendor => (
+        <option key={vendor.id} value={vendor.id}>{vendor.name}</option>
+      ))}
+    </select>
+  );
+};
+
 // 메인 컴포넌트
 export const UserManagement: React.FC = () => {
-  const { users, isLoading, error, toggleActive, changeRole, checkAdminCount } = useUsers();
+  const { users, isLoading, error, editUser, toggleActive, changeRole, checkAdminCount } = useUsers();
+  const { vendors } = useVendors();
   const [adminCount, setAdminCount] = useState<number>(0);
   const [confirmModal, setConfirmModal] = useState<{
     isOpen: boolean;
-    type: 'role' | 'active';
+    type: 'role' | 'active' | 'vendor';
     user: User | null;
-    newValue: UserRole | boolean | null;
+    newValue: UserRole | boolean | string | null; // vendor: 연결할 외주처 ID (null이면 연결 해제)
   }>({
     isOpen: false,
     type: 'role',
@@ -172,6 +204,11 @@ export const UserManagement: React.FC = () => {
     fetchAdminCount();
   }, [checkAdminCount, users]);
 
+  const vendorNames = useMemo(
+    () => new Map(vendors.map(vendor => [vendor.id, vendor.name])),
+    [vendors]
+  );
+
   // 알림 표시
   const showNotification = (type: 'success' | 'error', message: string) => {
     setNotification({ type, message });
@@ -227,6 +264,18 @@ export const UserManagement: React.FC = () => {
     });
   };
 
+  // 외주처 연결 변경 핸들러
+  const handleVendorChange = (user: User, vendorId: string | null) => {
+    if (vendorId === user.vendor_id) return;
+
+    setConfirmModal({
+      isOpen: true,
+      type: 'vendor',
+      user,
+      newValue: vendorId
+    });
+  };
+
   // 확인 모달 처리
   const handleConfirm = async () => {
     if (!confirmModal.user) return;
@@ -248,6 +297,14 @@ export const UserManagement: React.FC = () => {
         } else if (toggleError) {
           showNotification('error', toggleError.message);
         }
+      } else if (confirmModal.type === 'vendor') {
+        const vendorId = typeof confirmModal.newValue === 'string' ? confirmModal.newValue : null;
+        const { success, error: vendorError } = await editUser(confirmModal.user.id, { vendor_id: vendorId });
+        if (success) {
+          showNotification('success', vendorId ? '외주처가 연결되었습니다.' : '외주처 연결이 해제되었습니다.');
+        } else if (vendorError) {
+          showNotification('error', vendorError.message);
+        }
       }
     } finally {
       setActionLoading(null);
@@ -333,11 +390,15 @@ export const UserManagement: React.FC = () => {
       {/* 확인 모달 */}
       <ConfirmModal
         isOpen={confirmModal.isOpen}
-        title={confirmModal.type === 'role' ? '권한 변경' : '상태 변경'}
+        title={confirmModal.type === 'role' ? '권한 변경' : confirmModal.type === 'vendor' ? '외주처 연결' : '상태 변경'}
         message={
           confirmModal.type === 'role'
             ? `"${confirmModal.user?.name || confirmModal.user?.email}"님의 권한을 "${confirmModal.newValue === 'admin' ? '관리자' : '일반 사용자'}"로 변경하시겠습니까?`
-            : `"${confirmModal.user?.name || confirmModal.user?.email}"님을 ${confirmModal.newValue ? '활성화' : '비활성화'}하시겠습니까?`
+            : confirmModal.type === 'vendor'
+              ? typeof confirmModal.newValue === 'string'
+                ? `"${confirmModal.user?.name || confirmModal.user?.email}"님을 "${vendorNames.get(confirmModal.newValue) ?? '외주처'}"에 연결하시겠습니까? 외주처 포털에서 이 외주처 주문의 댓글만 볼 수 있습니다.`
+                : `"${confirmModal.user?.name || confirmModal.user?.email}"님의 외주처 연결을 해제하시겠습니까? 외주처 포털에서 댓글을 볼 수 없게 됩니다.`
+              : `"${confirmModal.user?.name || confirmModal.user?.email}"님을 ${confirmModal.newValue ? '활성화' : '비활성화'}하시겠습니까?`
         }
         confirmText="확인"
         cancelText="취소"
@@ -370,6 +431,9 @@ export const UserManagement: React.FC = () => {
                 <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
                   권한
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  외주처
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
                   활성 상태
                 </th>
@@ -404,6 +468,15 @@ export const UserManagement: React.FC = () => {
                     <td className="px-6 py-4 whitespace-nowrap">
                       <RoleBadge role={user.role} />
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <VendorLinkSelect
+                        user={user}
+                        vendors={vendors}
+                        onChange={(vendorId) => handleVendorChange(user, vendorId)}
+                        disabled={actionLoading === user.id}
+                        className="text-sm px-3 py-1.5 max-w-[12rem]"
+                      />
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <span
                         className={`inline-flex items-center gap-1.5 ${
@@ -497,6 +570,16 @@ export const UserManagement: React.FC = () => {
                         </select>
                       </div>
                     </div>
+                    <div className="mt-2 flex items-center justify-between gap-2">
+                      <span className="text-xs text-slate-500">외주처</span>
+                      <VendorLinkSelect
+                        user={user}
+                        vendors={vendors}
+                        onChange={(vendorId) => handleVendorChange(user, vendorId)}
+                        disabled={actionLoading === user.id}
+                        className="text-xs px-2 py-1 max-w-[60%]"
+                      />
+                    </div>
                   </div>
                 </div>
               </div>
@@ -1,16 +1,20 @@
 import React from 'react';
-import { VendorGroup } from '@/types';
+import type { OrderVendorSummary } from '@/types/database';
 import { Button } from '@/components/Button';
+import { summarizeVendorProgress } from '@/lib/orderProgress';
 
 interface VendorCardProps {
-  group: VendorGroup;
+  vendorName: string;
+  summary: OrderVendorSummary;
   onOpenVendorView: () => void;
 }
 
-export const VendorCard: React.FC<VendorCardProps> = ({ group, onOpenVendorView }) => {
-  const completedCount = group.items.filter(i => i.isCompleted).length;
-  const totalCount = group.items.length;
-  const progress = totalCount > 0 ? (completedCount / totalCount) * 100 : 0;
+export const VendorCard: React.FC<VendorCardProps> = ({ vendorName, summary, onOpenVendorView }) => {
+  const completedCount = summary.completed_count;
+  const totalCount = summary.order_count;
+
+  // 수량 기준 진행률 (품목별 발주 수량을 넘는 생산분은 제외)
+  const progress = summarizeVendorProgress([summary]).ratio * 100;
 
   return (
     <div className="bg-white px-4 py-3 rounded-xl shadow-sm border border-slate-100 hover:shadow-md transition-shadow">
@@ -18,10 +22,10 @@ export const VendorCard: React.FC<VendorCardProps> = ({ group, onOpenVendorView
       <div className="sm:hidden">
         <div className="flex items-center gap-3 mb-3">
           <div className="h-10 w-10 bg-slate-50 rounded-full flex items-center justify-center text-slate-600 font-bold text-lg flex-shrink-0">
-            {group.vendorName.charAt(0).toUpperCase()}
+            {vendorName.charAt(0).toUpperCase()}
           </div>
           <div className="flex-1 min-w-0">
-            <h3 className="text-base font-bold text-slate-800 truncate">{group.vendorName}</h3>
+            <h3 className="text-base font-bold text-slate-800 truncate">{vendorName}</h3>
             <p className="text-xs text-slate-500">{totalCount}개 품목 · {completedCount}개 완료</p>
           </div>
           <Button
@@ -43,10 +47,10 @@ export const VendorCard: React.FC<VendorCardProps> = ({ group, onOpenVendorView
       {/* 데스크톱: 가로 레이아웃 */}
       <div className="hidden sm:flex items-center gap-4">
         <div className="h-10 w-10 bg-slate-50 rounded-full flex items-center justify-center text-slate-600 font-bold text-lg flex-shrink-0">
-          {group.vendorName.charAt(0).toUpperCase()}
+          {vendorName.charAt(0).toUpperCase()}
         </div>
         <div className="flex-shrink-0 min-w-[100px]">
-          <h3 className="text-base font-bold text-slate-800">{group.vendorName}</h3>
+          <h3 className="text-base font-bold text-slate-800">{vendorName}</h3>
           <p className="text-xs text-slate-500">{totalCount}개 품목</p>
         </div>
         <div className="flex-1 min-w-[80px]">
@@ -3,12 +3,30 @@
  * 외주처 포털 - Supabase 연동
  */
 
-import React, { useMemo, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useOrders } from '@/hooks/useOrders';
+import { useOrderSummary } from '@/hooks/useOrderSummary';
 import { useVendors, useVendorTargets } from '@/hooks/useVendors';
 import { useProductionSchedules } from '@/hooks/useProductionSchedules';
+import { useProductCodeRules } from '@/hooks/useProductCodeRules';
+import { countsTowardTarget } from '@/lib/productCodeRules';
+import { summarizeVendorProgress } from '@/lib/orderProgress';
+import { isRowConflictError } from '@/lib/rowVersion';
 import { ProductionGantt } from '@/components/ProductionGantt';
-import type { OrderWithVendor } from '@/types/database';
+import { OrderHistoryDrawer } from '@/components/OrderHistoryDrawer';
+import { OrderCommentDrawer, CommentButton } from '@/components/OrderCommentDrawer';
+import { OrderImageThumbnails } from '@/components/OrderImageThumbnails';
+import { OrderProgressModal } from '@/components/OrderProgressModal';
+import { OrderListFilters } from '@/components/OrderListFilters';
+import { GlobalSearchPalette } from '@/components/GlobalSearchPalette';
+import type { GlobalSearchGroupId, GlobalSearchResult } from '@/lib/globalSearch';
+import { useScrollToRow } from '@/hooks/useScrollToRow';
+import { useCommentSummaries } from '@/hooks/useOrderComments';
+import type { OrderSortKey, OrderSortOrder } from '@/lib/orderListQuery';
+import type { OrderWithVendor, OrderProgressInsert } from '@/types/database';
+
+// 외주처 포털에는 발주 목록만 있으므로 발주로 연결되는 결과만 검색
+const SEARCH_GROUPS: GlobalSearchGroupId[] = ['orders', 'delivery_items', 'bom_items'];
 
 interface VendorPortalProps {
   vendorId: string;
@@ -17,12 +35,8 @@ interface VendorPortalProps {
   onLogout?: () => void; // 외주처 로그인 시 로그아웃 버튼
 }
 
-// 정렬 키 타입
-type SortKey = 'order_date' | 'product_code' | 'product_name' | 'quantity' | 'delivery_date';
-type SortOrder = 'asc' | 'desc';
-
 // 정렬 아이콘 컴포넌트
-const SortIcon: React.FC<{ active: boolean; order: SortOrder }> = ({ active, order }) => (
+const SortIcon: React.FC<{ active: boolean; order: OrderSortOrder }> = ({ active, order }) => (
   <span className={`ml-1 inline-flex ${active ? 'text-blue-600' : 'text-slate-300'}`}>
     {order === 'asc' ? (
       <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20">
@@ -36,6 +50,70 @@ const SortIcon: React.FC<{ active: boolean; order: SortOrder }> = ({ active, ord
   </span>
 );
 
+// 변경 이력 버튼 (행 클릭으로 체크되지 않도록 이벤트 전파 중단)
+const HistoryButton: React.FC<{ onClick: () => void }> = ({ onClick }) => (
+  <button
+    onClick={(e) => {
+      e.stopPropagation();
+      onClick();
+    }}
+    title="변경 이력"
+    className="p-1.5 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+  >
+    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"/>
+    </svg>
+  </button>
+);
+
+// 목록 끝에 닿으면 다음 페이지를 불러옴 (자동 로드가 안 되는 환경을 위해 버튼도 표시)
+const LoadMoreSentinel: React.FC<{ isLoading: boolean; onLoadMore: () => void }> = ({ isLoading, onLoadMore }) => {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const element = sentinelRef.current;
+    if (!element || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) onLoadMore();
+    }, { rootMargin: '200px' });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [onLoadMore]);
+
+  return (
+    <div ref={sentinelRef} className="flex justify-center py-4">
+      {isLoading ? (
+        <div className="w-6 h-6 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+      ) : (
+        <button
+          onClick={onLoadMore}
+          className="px-4 py-2 text-sm font-medium text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors"
+        >
+          더 보기
+        </button>
+      )}
+    </div>
+  );
+};
+
+// 누적 생산/출고 수량과 생산 진행 막대
+const ProducedShipped: React.FC<{ order: OrderWithVendor }> = ({ order }) => (
+  <div className="inline-flex flex-col items-end gap-1">
+    <span>
+      <span className="text-blue-700 font-semibold">{order.produced_quantity.toLocaleString()}</span>
+      <span className="text-slate-400"> / </span>
+      <span className="text-emerald-700 font-semibold">{order.shipped_quantity.toLocaleString()}</span>
+    </span>
+    <span className="w-16 h-1 bg-slate-100 rounded-full overflow-hidden">
+      <span
+        className="block h-full bg-blue-500"
+        style={{ width: `${order.quantity > 0 ? Math.min(order.produced_quantity / order.quantity, 1) * 100 : 0}%` }}
+      />
+    </span>
+  </div>
+);
+
 // 달성율 상태 계산 함수
 const getProgressStatus = (currentQty: number, targetQty: number, workingDays: number = 20) => {
   if (targetQty === 0) return null;
@@ -88,16 +166,51 @@ export const VendorPortal: React.FC<VendorPortalProps> = ({
 }) => {
   const [activeTab, setActiveTab] = useState<'list' | 'schedule' | 'report'>('list');
   
-  // 정렬 상태
-  const [sortKey, setSortKey] = useState<SortKey>('order_date');
-  const [sortOrder, setSortOrder] = useState<SortOrder>('desc');
-
-  const { orders, isLoading, error, toggleComplete, refetch } = useOrders({ vendorId });
+  // 변경 이력을 볼 주문
+  const [historyTarget, setHistoryTarget] = useState<OrderWithVendor | null>(null);
+
+  // 댓글 스레드를 열 주문
+  const [commentTarget, setCommentTarget] = useState<OrderWithVendor | null>(null);
+
+  // 생산/출고를 입력할 주문 (저장 후 갱신된 누적 수량을 보여주도록 ID로 보관)
+  const [progressTargetId, setProgressTargetId] = useState<string | null>(null);
+
+  // 통합 검색으로 이동한 발주
+  const [focusedOrderId, setFocusedOrderId] = useState<string | null>(null);
+
+  // 목록은 서버에서 정렬/필터링한 페이지를 이어 붙이고, 진행률과 리포트는 요약 조회로 계산
+  const {
+    orders,
+    total,
+    query,
+    hasMore,
+    isLoading: ordersLoading,
+    isLoadingMore,
+    error: ordersError,
+    setQuery,
+    loadMore,
+    recordProgress,
+    removeProgress,
+    refetch
+  } = useOrders({ vendorId });
+  const {
+    summaries,
+    quantityTotals,
+    isLoading,
+    error,
+    refetch: refetchSummary
+  } = useOrderSummary({ vendorId });
   const { vendors } = useVendors();
+  // 불러온 주문의 댓글/안 읽은 댓글 수 (해당 외주처 주문의 스레드만)
+  const { summaries: commentSummaries, refetch: refetchCommentSummaries } = useCommentSummaries({
+    orderIds: orders.map(order => order.id),
+    vendorId,
+  });
   const { 
     schedules, 
     isLoading: schedulesLoading, 
-    moveSchedule 
+    moveSchedule,
+    refetch: refetchSchedules
   } = useProductionSchedules({ vendorId });
 
   // 목표 데이터 조회
@@ -107,6 +220,7 @@ export const VendorPortal: React.FC<VendorPortalProps> = ({
     year: currentYear,
     month: currentMonth
   });
+  const { rules: productCodeRules } = useProductCodeRules();
 
   // 현재 외주처의 목표 수량
   const vendorTarget = useMemo(() => {
@@ -114,71 +228,57 @@ export const VendorPortal: React.FC<VendorPortalProps> = ({
     return target?.target_quantity || 0;
   }, [targets, vendorId]);
 
-  // 정렬된 주문 목록
-  const sortedOrders = useMemo(() => {
-    return [...orders].sort((a, b) => {
-      let aVal: string | number = '';
-      let bVal: string | number = '';
-      
-      switch (sortKey) {
-        case 'order_date':
-          aVal = a.order_date || '';
-          bVal = b.order_date || '';
-          break;
-        case 'product_code':
-          aVal = a.product_code || '';
-          bVal = b.product_code || '';
-          break;
-        case 'product_name':
-          aVal = a.product_name || '';
-          bVal = b.product_name || '';
-          break;
-        case 'quantity':
-          aVal = a.quantity;
-          bVal = b.quantity;
-          break;
-        case 'delivery_date':
-          aVal = a.delivery_date || '';
-          bVal = b.delivery_date || '';
-          break;
-      }
-      
-      if (typeof aVal === 'number' && typeof bVal === 'number') {
-        return sortOrder === 'asc' ? aVal - bVal : bVal - aVal;
-      }
-      
-      const comparison = String(aVal).localeCompare(String(bVal));
-      return sortOrder === 'asc' ? comparison : -comparison;
-    });
-  }, [orders, sortKey, sortOrder]);
-
-  // 완료 상태 계산
-  const completedCount = orders.filter(o => o.is_completed).length;
-  const progress = orders.length > 0 ? (completedCount / orders.length) * 100 : 0;
+  // 수량 기준 진행률 (누적 생산 수량 / 발주 수량)
+  const quantityProgress = useMemo(() => summarizeVendorProgress(summaries), [summaries]);
+  const progress = quantityProgress.ratio * 100;
+  const progressTarget = orders.find(o => o.id === progressTargetId) ?? null;
+
+  // 생산/출고 기록 후 헤더 진행률도 갱신
+  const handleRecordProgress = useCallback(async (entry: OrderProgressInsert) => {
+    const result = await recordProgress(entry);
+    if (result.success) await refetchSummary();
+    return result;
+  }, [recordProgress, refetchSummary]);
+
+  const handleRemoveProgress = useCallback(async (orderId: string, progressId: string) => {
+    const result = await removeProgress(orderId, progressId);
+    if (result.success) await refetchSummary();
+    return result;
+  }, [removeProgress, refetchSummary]);
+
+  // 통합 검색 결과의 발주로 목록을 좁혀서 강조
+  const handleSearchSelect = useCallback((result: GlobalSearchResult) => {
+    if (!result.orderId) return;
+    setQuery({ search: result.orderSearch ?? '', completion: 'all', dateFrom: undefined, dateTo: undefined });
+    setFocusedOrderId(result.orderId);
+    setActiveTab('list');
+  }, [setQuery]);
+
+  useScrollToRow(ordersLoading ? null : focusedOrderId, orders);
+
+  const handleRetry = useCallback(async () => {
+    await Promise.all([refetch(), refetchSummary()]);
+  }, [refetch, refetchSummary]);
 
   // 관리자 모드(미리보기)인지 외주처 모드(실제 접속)인지 확인
   const isVendorMode = !onBack;
 
-  // 발주 리포트용 데이터 (제품코드 "9"로 시작하는 것만)
+  // 발주 리포트용 데이터 (목표 집계 대상 제품코드만)
   const reportData = useMemo(() => {
-    const filtered = orders.filter(o => o.product_code?.startsWith('9'));
-    const totalQty = filtered.reduce((sum, o) => sum + o.quantity, 0);
+    const filtered = quantityTotals.filter(total => countsTowardTarget(total.product_code, productCodeRules));
+    const totalQty = filtered.reduce((sum, total) => sum + total.quantity, 0);
     const achievementRate = vendorTarget > 0 ? (totalQty / vendorTarget) * 100 : 0;
     const progressStatus = getProgressStatus(totalQty, vendorTarget);
     return { totalQty, target: vendorTarget, achievementRate, progressStatus };
-  }, [orders, vendorTarget]);
+  }, [quantityTotals, vendorTarget, productCodeRules]);
 
   // 월별 발주 수량 데이터 (최근 12개월)
   const monthlyData = useMemo(() => {
-    const filtered = orders.filter(o => o.product_code?.startsWith('9'));
+    const filtered = quantityTotals.filter(total => countsTowardTarget(total.product_code, productCodeRules));
     const monthMap: Record<string, number> = {};
     
-    filtered.forEach(order => {
-      if (order.order_date) {
-        const date = new Date(order.order_date);
-        const key = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-        monthMap[key] = (monthMap[key] || 0) + order.quantity;
-      }
+    filtered.forEach(total => {
+      monthMap[total.order_month] = (monthMap[total.order_month] || 0) + total.quantity;
     });
 
     // 최근 12개월 기준으로 정렬
@@ -195,39 +295,22 @@ export const VendorPortal: React.FC<VendorPortalProps> = ({
         percentage: (monthMap[key] / maxQty) * 100
       };
     });
-  }, [orders]);
+  }, [quantityTotals, productCodeRules]);
 
-  // 정렬 핸들러
-  const handleSort = (key: SortKey) => {
+  // 정렬 핸들러 (정렬은 서버에서 적용되며 첫 페이지부터 다시 불러옴)
+  const { sortKey, sortOrder } = query;
+  const handleSort = (key: OrderSortKey) => {
     if (sortKey === key) {
-      setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
+      setQuery({ sortOrder: sortOrder === 'asc' ? 'desc' : 'asc' });
     } else {
-      setSortKey(key);
-      setSortOrder('asc');
-    }
-  };
-
-  // 체크 토글 핸들러
-  const handleToggleItem = async (orderId: string) => {
-    await toggleComplete(orderId);
-  };
-
-  // 전체 체크/해제
-  const handleToggleAll = async () => {
-    const allCompleted = orders.every(item => item.is_completed);
-    const itemsToToggle = allCompleted
-      ? orders.filter(item => item.is_completed)
-      : orders.filter(item => !item.is_completed);
-
-    for (const item of itemsToToggle) {
-      await toggleComplete(item.id);
+      setQuery({ sortKey: key, sortOrder: 'asc' });
     }
   };
 
   // 정렬 가능한 테이블 헤더 컴포넌트
   const SortableHeader: React.FC<{ 
     label: string; 
-    sortKeyName: SortKey; 
+    sortKeyName: OrderSortKey; 
     align?: 'left' | 'right' | 'center';
     className?: string;
   }> = ({ label, sortKeyName, align = 'center', className = '' }) => (
@@ -286,6 +369,16 @@ export const VendorPortal: React.FC<VendorPortalProps> = ({
                 문의
               </a>
             )}
+
+            {/* 통합 검색 */}
+            <div className="ml-2 flex-shrink-0">
+              <GlobalSearchPalette
+                vendorId={vendorId}
+                groups={SEARCH_GROUPS}
+                canSelect={(result) => !!result.orderId}
+                onSelect={handleSearchSelect}
+              />
+            </div>
           </div>
 
           {/* 외주처명 및 진행 상태 */}
@@ -295,10 +388,12 @@ export const VendorPortal: React.FC<VendorPortalProps> = ({
             </div>
             <div className="text-right">
               <div className="flex items-baseline justify-end gap-1">
-                <span className="text-3xl font-bold text-blue-600 tabular-nums">{completedCount}</span>
-                <span className="text-slate-400 text-lg tabular-nums">/{orders.length}</span>
+                <span className="text-3xl font-bold text-blue-600 tabular-nums">{quantityProgress.produced.toLocaleString()}</span>
+                <span className="text-slate-400 text-lg tabular-nums">/{quantityProgress.ordered.toLocaleString()}</span>
               </div>
-              <span className="text-xs text-slate-400 font-medium">체크 완료</span>
+              <span className="text-xs text-slate-400 font-medium">
+                생산 수량 · 출고 {quantityProgress.shipped.toLocaleString()}
+              </span>
             </div>
           </div>
 
@@ -360,7 +455,7 @@ export const VendorPortal: React.FC<VendorPortalProps> = ({
             <p className="font-medium">데이터를 불러오는 중 오류가 발생했습니다.</p>
             <p className="text-sm mt-1">{error.message}</p>
             <button
-              onClick={refetch}
+              onClick={handleRetry}
               className="mt-3 px-4 py-2 bg-red-100 hover:bg-red-200 rounded-lg text-sm font-medium transition-colors"
             >
               다시 시도
@@ -375,7 +470,11 @@ export const VendorPortal: React.FC<VendorPortalProps> = ({
               schedules={schedules}
               vendors={vendors}
               onScheduleMove={async (scheduleId, newStartDate, newEndDate) => {
-                await moveSchedule(scheduleId, newStartDate, newEndDate);
+                const result = await moveSchedule(scheduleId, newStartDate, newEndDate);
+                if (isRowConflictError(result.error)) {
+                  alert(result.error.message);
+                  await refetchSchedules();
+                }
               }}
               isLoading={schedulesLoading}
             />
@@ -569,54 +668,48 @@ export const VendorPortal: React.FC<VendorPortalProps> = ({
 
         {/* 발주 목록 */}
         {(activeTab === 'list' || !isVendorMode) && !isLoading && !error && (
-          <div>
-            {orders.length === 0 ? (
+          <div className="space-y-3">
+            <OrderListFilters query={query} total={total} onChange={setQuery} />
+
+            {ordersError ? (
+              <div className="bg-red-50 border border-red-200 rounded-xl p-4 text-red-700">
+                <p className="font-medium">발주 목록을 불러오는 중 오류가 발생했습니다.</p>
+                <p className="text-sm mt-1">{ordersError.message}</p>
+                <button
+                  onClick={refetch}
+                  className="mt-3 px-4 py-2 bg-red-100 hover:bg-red-200 rounded-lg text-sm font-medium transition-colors"
+                >
+                  다시 시도
+                </button>
+              </div>
+            ) : ordersLoading ? (
+              <div className="flex items-center justify-center py-12">
+                <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+              </div>
+            ) : orders.length === 0 ? (
               <div className="flex flex-col items-center justify-center py-20 text-slate-400">
                 <svg className="w-12 h-12 mb-3 opacity-20" fill="currentColor" viewBox="0 0 24 24">
                   <path d="M19 3H5c-1.1 0-2 .9-2 2v14c0 1.1.9 2 2 2h14c1.1 0 2-.9 2-2V5c0-1.1-.9-2-2-2zm0 16H5V5h14v14zm-8-2h2v-4h4v-2h-4V7h-2v4H7v2h4z"/>
                 </svg>
-                <p>배정된 발주 내역이 없습니다.</p>
+                <p>{quantityProgress.ordered > 0 ? '조건에 맞는 발주가 없습니다.' : '배정된 발주 내역이 없습니다.'}</p>
               </div>
             ) : isVendorMode ? (
               /* 외주처 모드 - 모바일: 카드 형식, 데스크톱: 표 형식 */
               <div className="space-y-3">
-                {/* 전체 체크 버튼 */}
-                <div className="flex justify-end">
-                  <button
-                    onClick={handleToggleAll}
-                    className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold transition-all ${
-                      orders.every(item => item.is_completed)
-                        ? 'bg-slate-200 text-slate-600 hover:bg-slate-300'
-                        : 'bg-blue-600 text-white hover:bg-blue-700'
-                    }`}
-                  >
-                    {orders.every(item => item.is_completed) ? (
-                      <>
-                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/>
-                        </svg>
-                        전체 해제
-                      </>
-                    ) : (
-                      <>
-                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5 13l4 4L19 7"/>
-                        </svg>
-                        전체 체크
-                      </>
-                    )}
-                  </button>
-                </div>
+                <p className="text-xs text-slate-500 text-right">
+                  품목을 눌러 일별 생산/출고 수량을 입력하세요. 생산 수량이 발주 수량에 도달하면 완료로 표시됩니다.
+                </p>
 
                 {/* 모바일: 카드 형식 */}
                 <div className="md:hidden space-y-3">
-                  {sortedOrders.map((item) => (
+                  {orders.map((item) => (
                     <div
                       key={item.id}
-                      onClick={() => handleToggleItem(item.id)}
+                      data-row-id={item.id}
+                      onClick={() => setProgressTargetId(item.id)}
                       className={`bg-white rounded-xl border border-slate-200 shadow-sm p-4 cursor-pointer transition-colors ${
                         item.is_completed ? 'bg-slate-50' : 'active:bg-blue-50'
-                      }`}
+                      } ${item.id === focusedOrderId ? 'ring-2 ring-amber-400' : ''}`}
                     >
                       <div className="flex items-start gap-3">
                         <div className={`h-6 w-6 rounded-full border-2 flex items-center justify-center flex-shrink-0 mt-0.5 transition-all duration-200
@@ -638,6 +731,7 @@ export const VendorPortal: React.FC<VendorPortalProps> = ({
                           <div className={`text-xs font-mono mt-1 ${item.is_completed ? 'text-slate-400' : 'text-slate-500'}`}>
                             {item.product_code || '-'}
                           </div>
+                          <OrderImageThumbnails order={item} size="md" className="mt-2" />
                           <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs">
                             <span className={item.is_completed ? 'text-slate-400' : 'text-blue-600'}>
                               발주: {item.order_date || '-'}
@@ -645,11 +739,18 @@ export const VendorPortal: React.FC<VendorPortalProps> = ({
                             <span className={item.is_completed ? 'text-slate-400' : 'text-slate-600'}>
                               납기: {item.delivery_date || '-'}
                             </span>
+                            <span className={item.is_completed ? 'text-slate-400' : 'text-emerald-700'}>
+                              생산 {item.produced_quantity.toLocaleString()} · 출고 {item.shipped_quantity.toLocaleString()}
+                            </span>
                           </div>
                         </div>
                         <div className={`text-right flex-shrink-0 ${item.is_completed ? 'text-slate-400' : 'text-blue-700'}`}>
                           <div className="text-lg font-bold">{item.quantity.toLocaleString()}</div>
                           <div className="text-xs text-slate-400">수량</div>
+                          <div className="flex items-center justify-end gap-1">
+                            <CommentButton summary={commentSummaries[item.id]} onClick={() => setCommentTarget(item)} />
+                            <HistoryButton onClick={() => setHistoryTarget(item)} />
+                          </div>
                         </div>
                       </div>
                     </div>
@@ -661,21 +762,25 @@ export const VendorPortal: React.FC<VendorPortalProps> = ({
                   <table className="w-full text-sm">
                     <thead className="bg-slate-50 border-b border-slate-200">
                       <tr>
-                        <th className="px-3 py-3 text-center font-semibold text-slate-600 w-14">확인</th>
+                        <th className="px-3 py-3 text-center font-semibold text-slate-600 w-14">완료</th>
                         <SortableHeader label="발주일" sortKeyName="order_date" />
                         <SortableHeader label="품목" sortKeyName="product_code" />
                         <SortableHeader label="품명" sortKeyName="product_name" />
                         <SortableHeader label="수량" sortKeyName="quantity" align="right" />
+                        <th className="px-3 py-3 text-center font-semibold text-slate-600 whitespace-nowrap">생산/출고</th>
                         <SortableHeader label="납기일" sortKeyName="delivery_date" />
+                        <th className="px-3 py-3 text-center font-semibold text-slate-600 w-14">이력</th>
+                        <th className="px-3 py-3 text-center font-semibold text-slate-600 w-16">댓글</th>
                       </tr>
                     </thead>
                     <tbody className="divide-y divide-slate-100">
-                      {sortedOrders.map((item) => (
+                      {orders.map((item) => (
                         <tr
                           key={item.id}
-                          onClick={() => handleToggleItem(item.id)}
+                          data-row-id={item.id}
+                          onClick={() => setProgressTargetId(item.id)}
                           className={`cursor-pointer transition-colors ${
-                            item.is_completed ? 'bg-slate-50' : 'hover:bg-blue-50'
+                            item.id === focusedOrderId ? 'bg-amber-50' : item.is_completed ? 'bg-slate-50' : 'hover:bg-blue-50'
                           }`}
                         >
                           <td className="px-3 py-3">
@@ -705,18 +810,30 @@ export const VendorPortal: React.FC<VendorPortalProps> = ({
                           <td className={`px-3 py-3 font-medium ${
                             item.is_completed ? 'text-slate-400 line-through' : 'text-slate-800'
                           }`}>
-                            {item.product_name}
+                            <div className="flex items-center gap-2">
+                              <OrderImageThumbnails order={item} />
+                              <span>{item.product_name}</span>
+                            </div>
                           </td>
                           <td className={`px-3 py-3 text-right font-bold ${
                             item.is_completed ? 'text-slate-400' : 'text-blue-700'
                           }`}>
                             {item.quantity.toLocaleString()}
                           </td>
+                          <td className="px-3 py-3 text-right text-xs whitespace-nowrap">
+                            <ProducedShipped order={item} />
+                          </td>
                           <td className={`px-3 py-3 ${
                             item.is_completed ? 'text-slate-400' : 'text-slate-600'
                           }`}>
                             {item.delivery_date || '-'}
                           </td>
+                          <td className="px-3 py-3 text-center">
+                            <HistoryButton onClick={() => setHistoryTarget(item)} />
+                          </td>
+                          <td className="px-3 py-3 text-center">
+                            <CommentButton summary={commentSummaries[item.id]} onClick={() => setCommentTarget(item)} />
+                          </td>
                         </tr>
                       ))}
                     </tbody>
@@ -728,10 +845,11 @@ export const VendorPortal: React.FC<VendorPortalProps> = ({
               <>
                 {/* 모바일: 카드 형식 */}
                 <div className="md:hidden space-y-3">
-                  {sortedOrders.map((item) => (
+                  {orders.map((item) => (
                     <div
                       key={item.id}
-                      className="bg-white rounded-xl border border-slate-200 shadow-sm p-4"
+                      data-row-id={item.id}
+                      className={`bg-white rounded-xl border border-slate-200 shadow-sm p-4 ${item.id === focusedOrderId ? 'ring-2 ring-amber-400' : ''}`}
                     >
                       <div className="flex items-start gap-3">
                         <div className="flex-1 min-w-0">
@@ -741,6 +859,7 @@ export const VendorPortal: React.FC<VendorPortalProps> = ({
                           <div className="text-xs font-mono mt-1 text-slate-500">
                             {item.product_code || '-'}
                           </div>
+                          <OrderImageThumbnails order={item} size="md" className="mt-2" />
                           <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs">
                             <span className="text-blue-600">
                               발주: {item.order_date || '-'}
@@ -748,11 +867,18 @@ export const VendorPortal: React.FC<VendorPortalProps> = ({
                             <span className="text-slate-600">
                               납기: {item.delivery_date || '-'}
                             </span>
+                            <span className="text-emerald-700">
+                              생산 {item.produced_quantity.toLocaleString()} · 출고 {item.shipped_quantity.toLocaleString()}
+                            </span>
                           </div>
                         </div>
                         <div className="text-right flex-shrink-0 text-blue-700">
                           <div className="text-lg font-bold">{item.quantity.toLocaleString()}</div>
                           <div className="text-xs text-slate-400">수량</div>
+                          <div className="flex items-center justify-end gap-1">
+                            <CommentButton summary={commentSummaries[item.id]} onClick={() => setCommentTarget(item)} />
+                            <HistoryButton onClick={() => setHistoryTarget(item)} />
+                          </div>
                         </div>
                       </div>
                     </div>
@@ -768,12 +894,19 @@ export const VendorPortal: React.FC<VendorPortalProps> = ({
                         <SortableHeader label="품목" sortKeyName="product_code" className="px-4" />
                         <SortableHeader label="품명" sortKeyName="product_name" className="px-4" />
                         <SortableHeader label="수량" sortKeyName="quantity" align="right" className="px-4" />
+                        <th className="px-4 py-3 text-center font-semibold text-slate-600 whitespace-nowrap">생산/출고</th>
                         <SortableHeader label="납기일" sortKeyName="delivery_date" className="px-4" />
+                        <th className="px-4 py-3 text-center font-semibold text-slate-600 w-14">이력</th>
+                        <th className="px-4 py-3 text-center font-semibold text-slate-600 w-16">댓글</th>
                       </tr>
                     </thead>
                     <tbody className="divide-y divide-slate-100">
-                      {sortedOrders.map((item) => (
-                        <tr key={item.id} className="hover:bg-slate-50 transition-colors">
+                      {orders.map((item) => (
+                        <tr
+                          key={item.id}
+                          data-row-id={item.id}
+                          className={`hover:bg-slate-50 transition-colors ${item.id === focusedOrderId ? 'bg-amber-50' : ''}`}
+                        >
                           <td className="px-4 py-3 text-blue-600 font-medium">
                             {item.order_date || '-'}
                           </td>
@@ -781,14 +914,26 @@ export const VendorPortal: React.FC<VendorPortalProps> = ({
                             {item.product_code || '-'}
                           </td>
                           <td className="px-4 py-3 text-slate-800 font-medium">
-                            {item.product_name}
+                            <div className="flex items-center gap-2">
+                              <OrderImageThumbnails order={item} />
+                              <span>{item.product_name}</span>
+                            </div>
                           </td>
                           <td className="px-4 py-3 text-right text-blue-700 font-bold">
                             {item.quantity.toLocaleString()}
                           </td>
+                          <td className="px-4 py-3 text-right text-xs whitespace-nowrap">
+                            <ProducedShipped order={item} />
+                          </td>
                           <td className="px-4 py-3 text-slate-600">
                             {item.delivery_date || '-'}
                           </td>
+                          <td className="px-4 py-3 text-center">
+                            <HistoryButton onClick={() => setHistoryTarget(item)} />
+                          </td>
+                          <td className="px-4 py-3 text-center">
+                            <CommentButton summary={commentSummaries[item.id]} onClick={() => setCommentTarget(item)} />
+                          </td>
                         </tr>
                       ))}
                     </tbody>
@@ -796,12 +941,50 @@ export const VendorPortal: React.FC<VendorPortalProps> = ({
                 </div>
               </>
             )}
+
+            {!ordersLoading && !ordersError && hasMore && (
+              <LoadMoreSentinel isLoading={isLoadingMore} onLoadMore={loadMore} />
+            )}
           </div>
         )}
       </div>
 
+      {/* 생산/출고 입력 */}
+      {progressTarget && (
+        <OrderProgressModal
+          order={progressTarget}
+          onSave={handleRecordProgress}
+          onDelete={handleRemoveProgress}
+          onClose={() => setProgressTargetId(null)}
+        />
+      )}
+
+      {/* 주문 변경 이력 */}
+      {historyTarget && (
+        <OrderHistoryDrawer
+          order={historyTarget}
+          vendors={vendors}
+          onClose={() => setHistoryTarget(null)}
+        />
+      )}
+
+      {/* 주문 댓글 (외주처 모드에서 쓴 댓글은 외주처로 표시) */}
+      {commentTarget && (
+        <OrderCommentDrawer
+          thread={{ orderId: commentTarget.id }}
+          title={commentTarget.product_name}
+          subtitle={commentTarget.product_code}
+          vendorId={vendorId}
+          authorVendorId={isVendorMode ? vendorId : null}
+          onClose={() => {
+            setCommentTarget(null);
+            refetchCommentSummaries();
+          }}
+        />
+      )}
+
       {/* Completion Toast */}
-      {progress === 100 && orders.length > 0 && (
+      {progress === 100 && quantityProgress.ordered > 0 && (
         <div className="fixed bottom-8 left-0 right-0 px-6 flex justify-center z-50 pointer-events-none">
           <div className="bg-emerald-600 text-white px-6 py-4 rounded-2xl shadow-2xl font-bold flex items-center gap-3 animate-bounce-in pointer-events-auto shadow-emerald-600/30">
             <div className="bg-white/20 p-1 rounded-full">
@@ -810,8 +993,8 @@ export const VendorPortal: React.FC<VendorPortalProps> = ({
               </svg>
             </div>
             <div>
-              <div className="text-sm font-medium opacity-90">확인 완료</div>
-              <div className="text-base">모든 물품을 확인했습니다</div>
+              <div className="text-sm font-medium opacity-90">생산 완료</div>
+              <div className="text-base">모든 발주 수량을 생산했습니다</div>
             </div>
           </div>
         </div>
@@ -0,0 +1,145 @@
+/**
+ * VendorResolvePanel 컴포넌트
+ * 업로드 미리보기에서 매칭되지 않은 외주처 표기를 기존 외주처에 연결하거나 새 외주처로 등록
+ */
+
+import React, { useState } from 'react';
+import type { Vendor } from '@/types/database';
+import type { UnmatchedVendor } from '@/lib/orderImport';
+
+interface VendorResolvePanelProps {
+  unmatched: UnmatchedVendor[];
+  vendors: Vendor[];
+  disabled?: boolean;
+  onLinkAlias: (vendorId: string, alias: string) => Promise<{ success: boolean; error: Error | null }>;
+  onCreateVendor: (name: string, code: string) => Promise<{ success: boolean; error: Error | null }>;
+}
+
+interface ResolveRowProps {
+  item: UnmatchedVendor;
+  vendors: Vendor[];
+  disabled?: boolean;
+  onLinkAlias: VendorResolvePanelProps['onLinkAlias'];
+  onCreateVendor: VendorResolvePanelProps['onCreateVendor'];
+}
+
+const ResolveRow: React.FC<ResolveRowProps> = ({ item, vendors, disabled, onLinkAlias, onCreateVendor }) => {
+  const [mode, setMode] = useState<'link' | 'create'>('link');
+  const [vendorId, setVendorId] = useState('');
+  const [code, setCode] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleApply = async () => {
+    setError(null);
+
+    if (mode === 'link' && !vendorId) {
+      setError('연결할 외주처를 선택해주세요.');
+      return;
+    }
+    if (mode === 'create' && !/^\d{6}$/.test(code)) {
+      setError('외주처 코드는 6자리 숫자입니다.');
+      return;
+    }
+
+    setIsSaving(true);
+    const result = mode === 'link'
+      ? await onLinkAlias(vendorId, item.name)
+      : await onCreateVendor(item.name, code);
+    setIsSaving(false);
+
+    if (!result.success) {
+      setError(result.error?.message || '저장 중 오류가 발생했습니다.');
+    }
+  };
+
+  return (
+    <div className="py-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="min-w-[140px]">
+          <span className="font-medium text-slate-800">{item.name}</span>
+          <span className="ml-2 text-xs text-slate-500">{item.rowCount}건</span>
+        </div>
+
+        <select
+          value={mode}
+          onChange={(e) => setMode(e.target.value as 'link' | 'create')}
+          disabled={disabled || isSaving}
+          className="px-2 py-1.5 border border-slate-300 rounded-lg text-sm"
+        >
+          <option value="link">기존 외주처에 연결</option>
+          <option value="create">새 외주처로 등록</option>
+        </select>
+
+        {mode === 'link' ? (
+          <select
+            value={vendorId}
+            onChange={(e) => setVendorId(e.target.value)}
+            disabled={disabled || isSaving}
+            className="px-2 py-1.5 border border-slate-300 rounded-lg text-sm"
+          >
+            <option value="">외주처 선택</option>
+            {vendors.map(vendor => (
+              <option key={vendor.id} value={vendor.id}>{vendor.name}</option>
+            ))}
+          </select>
+        ) : (
+          <input
+            type="text"
+            inputMode="numeric"
+            maxLength={6}
+            value={code}
+            onChange={(e) => setCode(e.target.value.replace(/[^\d]/g, ''))}
+            placeholder="6자리 코드"
+            disabled={disabled || isSaving}
+            className="w-28 px-2 py-1.5 border border-slate-300 rounded-lg text-sm font-mono"
+          />
+        )}
+
+        <button
+          onClick={handleApply}
+          disabled={disabled || isSaving}
+          className="px-3 py-1.5 text-sm font-medium text-white bg-amber-600 rounded-lg hover:bg-amber-700 disabled:opacity-50"
+        >
+          {isSaving ? '저장 중...' : mode === 'link' ? '연결' : '등록'}
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+    </div>
+  );
+};
+
+export const VendorResolvePanel: React.FC<VendorResolvePanelProps> = ({
+  unmatched,
+  vendors,
+  disabled,
+  onLinkAlias,
+  onCreateVendor,
+}) => {
+  if (unmatched.length === 0) return null;
+
+  const totalRows = unmatched.reduce((sum, item) => sum + item.rowCount, 0);
+
+  return (
+    <div className="px-6 py-4 border-b border-amber-100 bg-amber-50/50">
+      <h4 className="text-sm font-semibold text-amber-800">
+        미매칭 외주처 {unmatched.length}곳 ({totalRows}건)
+      </h4>
+      <p className="text-xs text-amber-700 mt-1">
+        연결하거나 등록하지 않은 외주처의 행은 오류로 표시되며, 아래 목록에서 행별로 외주처를 지정하거나 제외할 수 있습니다. 연결한 표기는 별칭으로 저장되어 다음 업로드부터 자동으로 인식됩니다.
+      </p>
+      <div className="divide-y divide-amber-100 mt-2">
+        {unmatched.map(item => (
+          <ResolveRow
+            key={item.name}
+            item={item}
+            vendors={vendors}
+            disabled={disabled}
+            onLinkAlias={onLinkAlias}
+            onCreateVendor={onCreateVendor}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { POConfirmation } from './pages/POConfirmation';
 import { BOMStatus } from './pages/BOMStatus';
 import { DeliveryCreate } from './pages/DeliveryCreate';
@@ -29,10 +29,18 @@ const MENU_ITEMS: MenuItem[] = [
   { id: 'material-return', label: '자재환입', shortLabel: '자재환입' },
 ];
 
+// 통합 검색 결과로 열 화면과 행
+export interface OutsourcingFocus {
+  menu: OutsourcingMenuId;
+  rowId: string;
+}
+
 interface OutsourcingLayoutProps {
   vendorId?: string;
   vendorCode?: string;
   isAdmin?: boolean;
+  focus?: OutsourcingFocus | null;
+  headerActions?: React.ReactNode; // 헤더 오른쪽에 추가할 버튼 (통합 검색 등)
   onBack: () => void;
 }
 
@@ -40,17 +48,25 @@ export const OutsourcingLayout: React.FC<OutsourcingLayoutProps> = ({
   vendorId,
   vendorCode,
   isAdmin = false,
+  focus,
+  headerActions,
   onBack,
 }) => {
-  const [activeMenu, setActiveMenu] = useState<OutsourcingMenuId>('po-confirmation');
+  const [activeMenu, setActiveMenu] = useState<OutsourcingMenuId>(focus?.menu ?? 'po-confirmation');
+
+  // 화면이 열려 있는 동안 다른 결과로 이동해도 해당 메뉴로 전환
+  useEffect(() => {
+    if (focus) setActiveMenu(focus.menu);
+  }, [focus]);
 
   const activeItem = MENU_ITEMS.find(m => m.id === activeMenu)!;
 
   const renderContent = () => {
-    const props = { vendorId, vendorCode, isAdmin };
+    const focusId = focus?.menu === activeMenu ? focus.rowId : undefined;
+    const props = { vendorId, vendorCode, isAdmin, focusId };
     switch (activeMenu) {
       case 'po-confirmation':
-        return <POConfirmation vendorId={vendorId} vendorCode={vendorCode} />;
+        return <POConfirmation vendorId={vendorId} vendorCode={vendorCode} focusId={focusId} />;
       case 'bom-status':
         return <BOMStatus {...props} />;
       case 'delivery-create':
@@ -79,11 +95,14 @@ export const OutsourcingLayout: React.FC<OutsourcingLayoutProps> = ({
             <h1 className="text-lg font-bold text-[#8B1A1A]">외주임가공</h1>
           </div>
         </div>
-        {vendorCode && (
-          <span className="text-xs text-slate-500">
-            협력사: <span className="font-mono font-semibold text-slate-700">{vendorCode}</span>
-          </span>
-        )}
+        <div className="flex items-center gap-2">
+          {vendorCode && (
+            <span className="text-xs text-slate-500">
+              협력사: <span className="font-mono font-semibold text-slate-700">{vendorCode}</span>
+            </span>
+          )}
+          {headerActions}
+        </div>
       </div>
 
       {/* 메뉴 탭 - 가로 스크롤 */}
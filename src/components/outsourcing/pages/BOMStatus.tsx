@@ -2,13 +2,15 @@ import React, { useState, useCallback, useMemo, useRef, useEffect } from 'react'
 import * as XLSX from 'xlsx';
 import { FilterBar, FilterConfig, ActionButton } from '../shared/FilterBar';
 import { exportToExcel } from '../shared/ExcelDownload';
-import { getBomItems, createBomItems } from '@/services/outsourcing/bomService';
+import { getBomItems, getBomItemsByIds, createBomItems } from '@/services/outsourcing/bomService';
+import { useScrollToRow } from '@/hooks/useScrollToRow';
 import type { BomItem, BomItemInsert } from '@/types/database';
 
 interface Props {
   vendorId?: string;
   vendorCode?: string;
   isAdmin?: boolean;
+  focusId?: string; // 통합 검색으로 이동한 행
 }
 
 interface RowGroup {
@@ -99,7 +101,7 @@ const StatusDot: React.FC<{ status: string }> = ({ status }) => {
   );
 };
 
-export const BOMStatus: React.FC<Props> = ({ vendorId, vendorCode, isAdmin = false }) => {
+export const BOMStatus: React.FC<Props> = ({ vendorId, vendorCode, isAdmin = false, focusId }) => {
   const [data, setData] = useState<BomItem[]>([]);
   const [isLoading, setIsLoading] = useState(false);
 
@@ -142,6 +144,24 @@ export const BOMStatus: React.FC<Props> = ({ vendorId, vendorCode, isAdmin = fal
     return () => ro.disconnect();
   }, [data]);
 
+  // 통합 검색으로 이동하면 해당 행만 불러와 강조
+  useEffect(() => {
+    if (!focusId) return;
+    let cancelled = false;
+
+    setIsLoading(true);
+    getBomItemsByIds([focusId]).then(({ data: result }) => {
+      if (cancelled) return;
+      setData(result ?? []);
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [focusId]);
+
+  useScrollToRow(isLoading ? null : focusId, data);
+
   const handleSearch = useCallback(async (filters: Record<string, unknown>) => {
     latestFiltersRef.current = filters;
     setIsLoading(true);
@@ -688,7 +708,8 @@ export const BOMStatus: React.FC<Props> = ({ vendorId, vendorCode, isAdmin = fal
                 return (
                   <tr
                     key={row.id ?? globalIdx}
-                    className="border-b border-slate-100 hover:bg-blue-50/50 transition-colors"
+                    data-row-id={row.id}
+                    className={`border-b border-slate-100 hover:bg-blue-50/50 transition-colors ${row.id === focusId ? 'bg-amber-50' : ''}`}
                   >
                     {isFirst && (
                       <>
@@ -2,8 +2,12 @@ import React, { useState, useCallback } from 'react';
 import { DataGrid, Column } from '../shared/DataGrid';
 import { FilterBar, FilterConfig, ActionButton } from '../shared/FilterBar';
 import { exportToExcel } from '../shared/ExcelDownload';
-import { getDeliveryItemsByFilters, createDeliveryItems, updateDeliveryItem } from '@/services/outsourcing/deliveryService';
+import { ConflictDialog } from '../shared/ConflictDialog';
+import { RemoteChangeBadge } from '../shared/RemoteChangeBadge';
+import { getDeliveryItemsByFilters, getDeliveryItemsByIds, createDeliveryItems, updateDeliveryItem } from '@/services/outsourcing/deliveryService';
 import type { DeliveryItemWithNote, DeliveryItemUpdate } from '@/types/database';
+import { useVersionedSave } from '@/hooks/useVersionedSave';
+import { useRealtimeRows } from '@/hooks/useRealtimeRows';
 
 interface Props {
   vendorId?: string;
@@ -20,6 +24,10 @@ const progressLabels: Record<string, string> = {
   rejected: '반려',
 };
 
+// 불러올 때의 version으로 저장 (그 사이 다른 사용자가 수정했으면 충돌)
+const saveDeliveryItem = (id: string, changes: Partial<DeliveryItemWithNote>, expectedVersion: number) =>
+  updateDeliveryItem(id, changes as DeliveryItemUpdate, expectedVersion);
+
 export const DeliveryCreate: React.FC<Props> = ({ vendorId, vendorCode }) => {
   const [data, setData] = useState<DeliveryItemWithNote[]>([]);
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
@@ -27,6 +35,14 @@ export const DeliveryCreate: React.FC<Props> = ({ vendorId, vendorCode }) => {
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
   const [isLoading, setIsLoading] = useState(false);
   const [editedRows, setEditedRows] = useState<Record<string, Partial<DeliveryItemWithNote>>>({});
+  const { conflicts, isSaving, saveEdits, mergeConflicts, dismissConflicts } = useVersionedSave(saveDeliveryItem, getDeliveryItemsByIds);
+
+  // 다른 사용자의 수정은 바로 반영하되, 편집 중인 행은 입력을 덮어쓰지 않도록 보류하고 건수만 표시
+  const { pendingCount, applyPending } = useRealtimeRows({
+    table: 'delivery_items',
+    setRows: setData,
+    editingIds: Object.keys(editedRows),
+  });
 
   const handleSearch = useCallback(async (filters: Record<string, unknown>) => {
     setIsLoading(true);
@@ -71,14 +87,22 @@ export const DeliveryCreate: React.FC<Props> = ({ vendorId, vendorCode }) => {
   };
 
   const handleSave = useCallback(async () => {
-    const entries = Object.entries(editedRows);
-    if (entries.length === 0) return;
-    for (const [id, changes] of entries) {
-      await updateDeliveryItem(id, changes as DeliveryItemUpdate);
-    }
+    if (Object.keys(editedRows).length === 0) return;
+    await saveEdits(data, editedRows);
     setEditedRows({});
     handleSearch({});
-  }, [editedRows, handleSearch]);
+  }, [data, editedRows, saveEdits, handleSearch]);
+
+  // 충돌: 최신 내용 위에 내 입력을 다시 저장하거나, 내 입력을 버리고 다시 조회
+  const handleMergeConflicts = useCallback(async () => {
+    await mergeConflicts();
+    handleSearch({});
+  }, [mergeConflicts, handleSearch]);
+
+  const handleReloadConflicts = useCallback(() => {
+    dismissConflicts();
+    handleSearch({});
+  }, [dismissConflicts, handleSearch]);
 
   const handleExcel = useCallback(() => {
     exportToExcel(
@@ -177,6 +201,7 @@ export const DeliveryCreate: React.FC<Props> = ({ vendorId, vendorCode }) => {
   return (
     <div>
       <FilterBar filters={filters} onSearch={handleSearch} actions={actions} rightActions={rightActions} />
+      <RemoteChangeBadge count={pendingCount} onApply={applyPending} />
       <DataGrid
         columns={columns}
         data={data}
@@ -187,6 +212,16 @@ export const DeliveryCreate: React.FC<Props> = ({ vendorId, vendorCode }) => {
         onSort={handleSort}
         isLoading={isLoading}
       />
+      {conflicts.length > 0 && (
+        <ConflictDialog
+          conflicts={conflicts}
+          fieldLabels={Object.fromEntries(columns.map(c => [c.key, c.label]))}
+          rowLabel={(row) => `${row.product_code ?? ''} ${row.product_name}`.trim()}
+          isSaving={isSaving}
+          onMerge={handleMergeConflicts}
+          onReload={handleReloadConflicts}
+        />
+      )}
     </div>
   );
 };
@@ -1,13 +1,17 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import { DataGrid, Column } from '../shared/DataGrid';
 import { FilterBar, FilterConfig, ActionButton } from '../shared/FilterBar';
 import { exportToExcel } from '../shared/ExcelDownload';
-import { getDeliveryItemsByFilters, deleteDeliveryItem } from '@/services/outsourcing/deliveryService';
+import { OrderCommentDrawer, CommentButton } from '@/components/OrderCommentDrawer';
+import { getDeliveryItemsByFilters, getDeliveryItemsByIds, deleteDeliveryItem } from '@/services/outsourcing/deliveryService';
 import type { DeliveryItemWithNote } from '@/types/database';
+import { useRealtimeRows } from '@/hooks/useRealtimeRows';
+import { useCommentSummaries } from '@/hooks/useOrderComments';
 
 interface Props {
   vendorId?: string;
   vendorCode?: string;
+  focusId?: string; // 통합 검색으로 이동한 행
 }
 
 const today = new Date().toISOString().split('T')[0];
@@ -20,12 +24,41 @@ const progressLabels: Record<string, string> = {
   rejected: '반려',
 };
 
-export const DeliveryPrint: React.FC<Props> = ({ vendorId, vendorCode }) => {
+export const DeliveryPrint: React.FC<Props> = ({ vendorId, vendorCode, focusId }) => {
   const [data, setData] = useState<DeliveryItemWithNote[]>([]);
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const [sortKey, setSortKey] = useState('delivery_note.delivery_date');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
   const [isLoading, setIsLoading] = useState(false);
+  const [commentTarget, setCommentTarget] = useState<DeliveryItemWithNote | null>(null);
+
+  // 납품 항목별 댓글 스레드 (주문에 연결된 항목만)
+  const { summaries: commentSummaries, refetch: refetchCommentSummaries } = useCommentSummaries({
+    deliveryItemIds: data.filter(row => row.order_id).map(row => row.id),
+    vendorId,
+  });
+
+  // 조회한 행에 다른 사용자의 수정/삭제를 바로 반영
+  useRealtimeRows({
+    table: 'delivery_items',
+    setRows: setData,
+  });
+
+  // 통합 검색으로 이동하면 해당 행만 불러와 강조
+  useEffect(() => {
+    if (!focusId) return;
+    let cancelled = false;
+
+    setIsLoading(true);
+    getDeliveryItemsByIds([focusId]).then(({ data: result }) => {
+      if (cancelled) return;
+      setData(result ?? []);
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [focusId]);
 
   const handleSearch = useCallback(async (filters: Record<string, unknown>) => {
     setIsLoading(true);
@@ -61,7 +94,7 @@ export const DeliveryPrint: React.FC<Props> = ({ vendorId, vendorCode }) => {
   const handleExcel = useCallback(() => {
     exportToExcel(
       data as unknown as Record<string, unknown>[],
-      columns.map(c => ({ key: c.key, label: c.label })),
+      columns.filter(c => c.key !== 'comments').map(c => ({ key: c.key, label: c.label })),
       `납품서출력_${today}.xlsx`,
     );
   }, [data]);
@@ -107,6 +140,9 @@ export const DeliveryPrint: React.FC<Props> = ({ vendorId, vendorCode }) => {
     { key: 'received_quantity', label: '입고수량', width: '80px', align: 'right', render: (row) => (
       <span className="font-semibold">{row.received_quantity.toLocaleString()}</span>
     )},
+    { key: 'comments', label: '댓글', width: '60px', align: 'center', render: (row) => row.order_id ? (
+      <CommentButton summary={commentSummaries[row.id]} onClick={() => setCommentTarget(row)} />
+    ) : '-' },
   ];
 
   return (
@@ -121,7 +157,20 @@ export const DeliveryPrint: React.FC<Props> = ({ vendorId, vendorCode }) => {
         sortOrder={sortOrder}
         onSort={handleSort}
         isLoading={isLoading}
+        highlightedId={focusId}
       />
+      {commentTarget?.order_id && (
+        <OrderCommentDrawer
+          thread={{ orderId: commentTarget.order_id, deliveryItemId: commentTarget.id }}
+          title={commentTarget.product_name}
+          subtitle={commentTarget.delivery_note?.delivery_number}
+          vendorId={vendorId}
+          onClose={() => {
+            setCommentTarget(null);
+            refetchCommentSummaries();
+          }}
+        />
+      )}
     </div>
   );
 };
@@ -1,22 +1,56 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import { DataGrid, Column } from '../shared/DataGrid';
 import { FilterBar, FilterConfig, ActionButton } from '../shared/FilterBar';
 import { exportToExcel } from '../shared/ExcelDownload';
-import { getSettlements, updateSettlement } from '@/services/outsourcing/materialService';
+import { ConflictDialog } from '../shared/ConflictDialog';
+import { RemoteChangeBadge } from '../shared/RemoteChangeBadge';
+import { getSettlements, getSettlementsByIds, updateSettlement } from '@/services/outsourcing/materialService';
 import type { MaterialSettlementWithVendor, MaterialSettlementUpdate } from '@/types/database';
+import { useVersionedSave } from '@/hooks/useVersionedSave';
+import { useRealtimeRows } from '@/hooks/useRealtimeRows';
 
 interface Props {
   vendorId?: string;
   vendorCode?: string;
+  focusId?: string; // 통합 검색으로 이동한 행
 }
 
-export const MaterialSettlement: React.FC<Props> = ({ vendorId, vendorCode }) => {
+// 불러올 때의 version으로 저장 (그 사이 다른 사용자가 수정했으면 충돌)
+const saveSettlement = (id: string, changes: Partial<MaterialSettlementWithVendor>, expectedVersion: number) =>
+  updateSettlement(id, changes as MaterialSettlementUpdate, expectedVersion);
+
+export const MaterialSettlement: React.FC<Props> = ({ vendorId, vendorCode, focusId }) => {
   const [data, setData] = useState<MaterialSettlementWithVendor[]>([]);
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const [sortKey, setSortKey] = useState('po_number');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
   const [isLoading, setIsLoading] = useState(false);
   const [editedRows, setEditedRows] = useState<Record<string, Partial<MaterialSettlementWithVendor>>>({});
+  const { conflicts, isSaving, saveEdits, mergeConflicts, dismissConflicts } = useVersionedSave(saveSettlement, getSettlementsByIds);
+
+  // 다른 사용자의 수정은 바로 반영하되, 편집 중인 행은 입력을 덮어쓰지 않도록 보류하고 건수만 표시
+  const { pendingCount, applyPending } = useRealtimeRows({
+    table: 'material_settlements',
+    setRows: setData,
+    editingIds: Object.keys(editedRows),
+    filter: vendorId ? `vendor_id=eq.${vendorId}` : undefined,
+  });
+
+  // 통합 검색으로 이동하면 해당 행만 불러와 강조
+  useEffect(() => {
+    if (!focusId) return;
+    let cancelled = false;
+
+    setIsLoading(true);
+    getSettlementsByIds([focusId]).then(({ data: result }) => {
+      if (cancelled) return;
+      setData(result ?? []);
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [focusId]);
 
   const handleSearch = useCallback(async (filters: Record<string, unknown>) => {
     setIsLoading(true);
@@ -66,14 +100,22 @@ export const MaterialSettlement: React.FC<Props> = ({ vendorId, vendorCode }) =>
   };
 
   const handleSave = useCallback(async () => {
-    const entries = Object.entries(editedRows);
-    if (entries.length === 0) return;
-    for (const [id, changes] of entries) {
-      await updateSettlement(id, changes as MaterialSettlementUpdate);
-    }
+    if (Object.keys(editedRows).length === 0) return;
+    await saveEdits(data, editedRows);
     setEditedRows({});
     handleSearch({});
-  }, [editedRows, handleSearch]);
+  }, [data, editedRows, saveEdits, handleSearch]);
+
+  // 충돌: 최신 내용 위에 내 입력을 다시 저장하거나, 내 입력을 버리고 다시 조회
+  const handleMergeConflicts = useCallback(async () => {
+    await mergeConflicts();
+    handleSearch({});
+  }, [mergeConflicts, handleSearch]);
+
+  const handleReloadConflicts = useCallback(() => {
+    dismissConflicts();
+    handleSearch({});
+  }, [dismissConflicts, handleSearch]);
 
   const handleExcel = useCallback(() => {
     exportToExcel(
@@ -145,6 +187,7 @@ export const MaterialSettlement: React.FC<Props> = ({ vendorId, vendorCode }) =>
   return (
     <div>
       <FilterBar filters={filters} onSearch={handleSearch} actions={actions} rightActions={rightActions} />
+      <RemoteChangeBadge count={pendingCount} onApply={applyPending} />
       <DataGrid
         columns={columns}
         data={data}
@@ -154,7 +197,18 @@ export const MaterialSettlement: React.FC<Props> = ({ vendorId, vendorCode }) =>
         sortOrder={sortOrder}
         onSort={handleSort}
         isLoading={isLoading}
+        highlightedId={focusId}
       />
+      {conflicts.length > 0 && (
+        <ConflictDialog
+          conflicts={conflicts}
+          fieldLabels={Object.fromEntries(columns.map(c => [c.key, c.label]))}
+          rowLabel={(row) => `${row.po_number ?? ''} ${row.material_code ?? ''} ${row.material_name ?? ''}`.trim()}
+          isSaving={isSaving}
+          onMerge={handleMergeConflicts}
+          onReload={handleReloadConflicts}
+        />
+      )}
     </div>
   );
 };
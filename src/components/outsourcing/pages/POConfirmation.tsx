@@ -1,13 +1,20 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import { DataGrid, Column } from '../shared/DataGrid';
 import { FilterBar, FilterConfig, ActionButton } from '../shared/FilterBar';
 import { exportToExcel } from '../shared/ExcelDownload';
+import { OrderHistoryDrawer } from '@/components/OrderHistoryDrawer';
+import { OrderCommentDrawer, CommentButton } from '@/components/OrderCommentDrawer';
+import { OrderImageThumbnails } from '@/components/OrderImageThumbnails';
 import { getPurchaseOrders } from '@/services/outsourcing/purchaseOrderService';
+import { getOrdersByIds } from '@/services/orderService';
 import type { OrderWithVendor, PurchaseOrderStatus, ApprovalStatus } from '@/types/database';
+import { useRealtimeRows } from '@/hooks/useRealtimeRows';
+import { useCommentSummaries } from '@/hooks/useOrderComments';
 
 interface Props {
   vendorId?: string;
   vendorCode?: string;
+  focusId?: string; // 통합 검색으로 이동한 행
 }
 
 const today = new Date().toISOString().split('T')[0];
@@ -35,12 +42,43 @@ const approvalLabels: Record<ApprovalStatus, string> = {
   rejected: '반려',
 };
 
-export const POConfirmation: React.FC<Props> = ({ vendorId, vendorCode }) => {
+export const POConfirmation: React.FC<Props> = ({ vendorId, vendorCode, focusId }) => {
   const [data, setData] = useState<OrderWithVendor[]>([]);
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const [sortKey, setSortKey] = useState('order_date');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
   const [isLoading, setIsLoading] = useState(false);
+  const [historyTarget, setHistoryTarget] = useState<OrderWithVendor | null>(null);
+  const [commentTarget, setCommentTarget] = useState<OrderWithVendor | null>(null);
+
+  // PO 라인은 주문 행이므로 주문 댓글 스레드를 그대로 사용
+  const { summaries: commentSummaries, refetch: refetchCommentSummaries } = useCommentSummaries({
+    orderIds: data.map(row => row.id),
+    vendorId,
+  });
+
+  // 조회한 행에 다른 사용자의 수정/삭제를 바로 반영
+  useRealtimeRows({
+    table: 'orders',
+    setRows: setData,
+    filter: vendorId ? `vendor_id=eq.${vendorId}` : undefined,
+  });
+
+  // 통합 검색으로 이동하면 해당 행만 불러와 강조
+  useEffect(() => {
+    if (!focusId) return;
+    let cancelled = false;
+
+    setIsLoading(true);
+    getOrdersByIds([focusId]).then(({ data: result }) => {
+      if (cancelled) return;
+      setData(result ?? []);
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [focusId]);
 
   const handleSearch = useCallback(async (filters: Record<string, unknown>) => {
     setIsLoading(true);
@@ -69,7 +107,7 @@ export const POConfirmation: React.FC<Props> = ({ vendorId, vendorCode }) => {
   const handleExcel = useCallback(() => {
     exportToExcel(
       data as unknown as Record<string, unknown>[],
-      columns.map(c => ({ key: c.key, label: c.label })),
+      columns.filter(c => !['images', 'history', 'comments'].includes(c.key)).map(c => ({ key: c.key, label: c.label })),
       `발주서확인_${today}.xlsx`,
     );
   }, [data]);
@@ -105,6 +143,7 @@ export const POConfirmation: React.FC<Props> = ({ vendorId, vendorCode }) => {
     { key: 'po_number', label: 'PO번호', width: '100px', sortable: true, render: (row) => row.po_number ?? '-' },
     { key: 'product_code', label: '품목코드', width: '100px', sortable: true },
     { key: 'product_name', label: '품목명', width: '200px', sortable: true },
+    { key: 'images', label: '이미지', width: '80px', align: 'center', render: (row) => <OrderImageThumbnails order={row} /> },
     { key: 'order_date', label: '발주일', width: '100px', sortable: true },
     { key: 'quantity', label: '수량', width: '80px', align: 'right', sortable: true, render: (row) => (row.quantity ?? 0).toLocaleString() },
     { key: 'unit', label: '단위', width: '50px', align: 'center', render: (row) => row.unit ?? 'EA' },
@@ -120,6 +159,17 @@ export const POConfirmation: React.FC<Props> = ({ vendorId, vendorCode }) => {
         </span>
       );
     }},
+    { key: 'history', label: '이력', width: '50px', align: 'center', render: (row) => (
+      <button
+        onClick={() => setHistoryTarget(row)}
+        className="text-[10px] text-blue-600 hover:underline"
+      >
+        보기
+      </button>
+    )},
+    { key: 'comments', label: '댓글', width: '60px', align: 'center', render: (row) => (
+      <CommentButton summary={commentSummaries[row.id]} onClick={() => setCommentTarget(row)} />
+    )},
   ];
 
   return (
@@ -134,7 +184,23 @@ export const POConfirmation: React.FC<Props> = ({ vendorId, vendorCode }) => {
         sortOrder={sortOrder}
         onSort={handleSort}
         isLoading={isLoading}
+        highlightedId={focusId}
       />
+      {historyTarget && (
+        <OrderHistoryDrawer order={historyTarget} onClose={() => setHistoryTarget(null)} />
+      )}
+      {commentTarget && (
+        <OrderCommentDrawer
+          thread={{ orderId: commentTarget.id }}
+          title={commentTarget.product_name}
+          subtitle={commentTarget.po_number}
+          vendorId={vendorId}
+          onClose={() => {
+            setCommentTarget(null);
+            refetchCommentSummaries();
+          }}
+        />
+      )}
     </div>
   );
 };
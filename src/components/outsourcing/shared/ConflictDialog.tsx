@@ -0,0 +1,96 @@
+import React from 'react';
+import type { RowConflict } from '@/lib/rowVersion';
+
+interface ConflictDialogProps<T> {
+  conflicts: RowConflict<T>[];
+  fieldLabels: Record<string, string>;
+  rowLabel: (row: T) => string;
+  isSaving: boolean;
+  onMerge: () => void;
+  onReload: () => void;
+}
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '-';
+  if (typeof value === 'boolean') return value ? 'Y' : 'N';
+  if (typeof value === 'number') return value.toLocaleString();
+  return String(value);
+};
+
+export const ConflictDialog = <T,>({
+  conflicts,
+  fieldLabels,
+  rowLabel,
+  isSaving,
+  onMerge,
+  onReload,
+}: ConflictDialogProps<T>) => {
+  const mergeableCount = conflicts.filter(conflict => conflict.latest !== null).length;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl max-w-2xl w-full max-h-[85vh] flex flex-col animate-fade-in">
+        <div className="px-6 py-4 border-b border-slate-200">
+          <h3 className="text-lg font-bold text-slate-900">저장 충돌</h3>
+          <p className="text-sm text-slate-500 mt-1">
+            {conflicts.length}건은 불러온 뒤 다른 사용자가 먼저 수정했습니다.
+            병합하면 내가 고친 항목만 최신 내용 위에 다시 저장하고, 새로고침하면 내 입력을 버립니다.
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-auto px-6 py-4 space-y-4">
+          {conflicts.map(conflict => (
+            <div key={conflict.id} className="border border-slate-200 rounded-lg overflow-hidden">
+              <div className="px-3 py-2 bg-slate-50 text-sm font-semibold text-slate-700 flex items-center justify-between">
+                <span className="truncate">{rowLabel(conflict.latest ?? conflict.loaded)}</span>
+                {conflict.latest === null && (
+                  <span className="text-xs font-medium text-red-600">삭제됨</span>
+                )}
+              </div>
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-slate-500">
+                    <th className="px-3 py-1.5 text-left font-semibold">항목</th>
+                    <th className="px-3 py-1.5 text-right font-semibold">불러온 값</th>
+                    <th className="px-3 py-1.5 text-right font-semibold">최신 값</th>
+                    <th className="px-3 py-1.5 text-right font-semibold">내 입력</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {conflict.fields.map(field => (
+                    <tr key={field.field} className={field.overlaps ? 'bg-amber-50' : ''}>
+                      <td className="px-3 py-1.5 text-slate-700">{fieldLabels[field.field] ?? field.field}</td>
+                      <td className="px-3 py-1.5 text-right text-slate-400">{formatValue(field.loaded)}</td>
+                      <td className={`px-3 py-1.5 text-right ${field.overlaps ? 'font-semibold text-amber-700' : 'text-slate-600'}`}>
+                        {conflict.latest === null ? '-' : formatValue(field.latest)}
+                      </td>
+                      <td className="px-3 py-1.5 text-right font-semibold text-blue-700">{formatValue(field.mine)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))}
+          <p className="text-xs text-slate-400">노란색 항목은 다른 사용자도 바꾼 값이며, 병합하면 내 입력으로 덮어씁니다.</p>
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-200 flex gap-3 justify-end">
+          <button
+            onClick={onReload}
+            disabled={isSaving}
+            className="px-4 py-2 text-sm font-medium text-slate-600 bg-slate-100 rounded-lg hover:bg-slate-200 transition-colors disabled:opacity-50"
+          >
+            새로고침 (내 입력 버림)
+          </button>
+          <button
+            onClick={onMerge}
+            disabled={isSaving || mergeableCount === 0}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {isSaving ? '저장 중...' : `병합 후 저장 (${mergeableCount}건)`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,4 +1,5 @@
 import React, { useMemo } from 'react';
+import { useScrollToRow } from '@/hooks/useScrollToRow';
 
 export interface Column<T> {
   key: string;
@@ -21,6 +22,7 @@ interface DataGridProps<T> {
   isLoading?: boolean;
   emptyMessage?: string;
   totalCount?: number;
+  highlightedId?: string; // 통합 검색으로 이동한 행 (강조 후 스크롤)
 }
 
 const SortArrow: React.FC<{ active: boolean; order: 'asc' | 'desc' }> = ({ active, order }) => (
@@ -42,12 +44,15 @@ function DataGridInner<T extends object>(
     isLoading = false,
     emptyMessage = '데이터가 없습니다.',
     totalCount,
+    highlightedId,
   }: DataGridProps<T>,
 ) {
   const getRowId = useMemo(() => {
     return rowKey ?? ((row: T) => (row as Record<string, unknown>).id as string);
   }, [rowKey]);
 
+  useScrollToRow(isLoading ? null : highlightedId, data);
+
   const allSelected = data.length > 0 && data.every(row => selectedIds.includes(getRowId(row)));
 
   const handleSelectAll = () => {
@@ -142,7 +147,8 @@ function DataGridInner<T extends object>(
                   return (
                     <tr
                       key={id ?? idx}
-                      className={`hover:bg-blue-50/50 transition-colors ${isSelected ? 'bg-blue-50' : ''}`}
+                      data-row-id={id}
+                      className={`hover:bg-blue-50/50 transition-colors ${isSelected ? 'bg-blue-50' : ''} ${id === highlightedId ? 'bg-amber-50 outline outline-2 outline-amber-400 -outline-offset-2' : ''}`}
                     >
                       {onRowSelect && (
                         <td className="px-2 py-2 border-r border-slate-100">
@@ -0,0 +1,27 @@
+import React from 'react';
+
+interface RemoteChangeBadgeProps {
+  count: number;
+  onApply: () => void;
+}
+
+// 편집 중인 행을 다른 사용자가 바꿨을 때 표시 (반영해도 내 입력은 유지)
+export const RemoteChangeBadge: React.FC<RemoteChangeBadgeProps> = ({ count, onApply }) => {
+  if (count === 0) return null;
+
+  return (
+    <div className="flex items-center justify-end gap-2 px-4 py-2 bg-amber-50 border-b border-amber-200 text-xs">
+      <span className="inline-flex items-center gap-1.5 px-2 py-0.5 rounded-full bg-amber-100 text-amber-800 font-semibold">
+        <span className="w-1.5 h-1.5 rounded-full bg-amber-500 animate-pulse" />
+        {count}건 변경됨
+      </span>
+      <span className="text-amber-700">편집 중인 행을 다른 사용자가 수정했습니다.</span>
+      <button
+        onClick={onApply}
+        className="px-2 py-1 font-medium text-amber-800 bg-white border border-amber-300 rounded hover:bg-amber-100 transition-colors"
+      >
+        최신 내용 반영
+      </button>
+    </div>
+  );
+};
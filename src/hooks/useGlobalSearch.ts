@@ -0,0 +1,81 @@
+/**
+ * useGlobalSearch Hook
+ * 입력이 멈춘 뒤 통합 검색을 실행하고 결과를 그룹별로 묶어 돌려주는 훅
+ */
+
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { searchAll } from '@/services/searchService';
+import {
+  groupSearchResults,
+  isSearchableTerm,
+  type GlobalSearchGroup,
+  type GlobalSearchGroupId,
+  type GlobalSearchResult,
+} from '@/lib/globalSearch';
+
+interface UseGlobalSearchOptions {
+  vendorId?: string;
+  groups?: GlobalSearchGroupId[];
+}
+
+interface UseGlobalSearchReturn {
+  search: string;
+  setSearch: (search: string) => void;
+  results: GlobalSearchResult[]; // 그룹 순서대로 펼친 결과 (키보드 이동용)
+  groups: GlobalSearchGroup[];
+  isLoading: boolean;
+  error: Error | null;
+}
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+export const useGlobalSearch = (options: UseGlobalSearchOptions = {}): UseGlobalSearchReturn => {
+  const { vendorId, groups: groupIds } = options;
+
+  const [search, setSearch] = useState('');
+  const [rawResults, setRawResults] = useState<GlobalSearchResult[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  // 늦게 도착한 이전 검색 결과는 무시
+  const requestIdRef = useRef(0);
+  const groupKey = groupIds?.join(',');
+
+  useEffect(() => {
+    const requestId = ++requestIdRef.current;
+
+    if (!isSearchableTerm(search)) {
+      setRawResults([]);
+      setIsLoading(false);
+      setError(null);
+      return;
+    }
+
+    setIsLoading(true);
+    const timer = setTimeout(async () => {
+      const { data, error: searchError } = await searchAll(search, {
+        vendorId,
+        groups: groupKey ? groupKey.split(',') as GlobalSearchGroupId[] : undefined,
+      });
+      if (requestId !== requestIdRef.current) return;
+
+      setError(searchError);
+      setRawResults(data || []);
+      setIsLoading(false);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [search, vendorId, groupKey]);
+
+  const groups = useMemo(() => groupSearchResults(rawResults), [rawResults]);
+  const results = useMemo(() => groups.flatMap(group => group.results), [groups]);
+
+  return {
+    search,
+    setSearch,
+    results,
+    groups,
+    isLoading,
+    error
+  };
+};
@@ -0,0 +1,118 @@
+/**
+ * useImportProfiles Hook
+ * 발주 업로드 가져오기 프로필 관리를 위한 커스텀 훅
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import type { ImportProfile, ImportProfileInsert, ImportProfileUpdate } from '@/types/database';
+import {
+  getImportProfiles,
+  createImportProfile,
+  updateImportProfile,
+  deleteImportProfile
+} from '@/services/importProfileService';
+
+interface UseImportProfilesOptions {
+  autoFetch?: boolean;
+}
+
+interface UseImportProfilesReturn {
+  profiles: ImportProfile[];
+  isLoading: boolean;
+  error: Error | null;
+  fetchProfiles: () => Promise<void>;
+  addProfile: (data: ImportProfileInsert) => Promise<{ success: boolean; data: ImportProfile | null; error: Error | null }>;
+  editProfile: (id: string, data: ImportProfileUpdate) => Promise<{ success: boolean; data: ImportProfile | null; error: Error | null }>;
+  removeProfile: (id: string) => Promise<{ success: boolean; error: Error | null }>;
+  refetch: () => Promise<void>;
+}
+
+export const useImportProfiles = (options: UseImportProfilesOptions = {}): UseImportProfilesReturn => {
+  const { autoFetch = true } = options;
+
+  const [profiles, setProfiles] = useState<ImportProfile[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchProfiles = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    const { data, error: fetchError } = await getImportProfiles();
+
+    if (fetchError) {
+      setError(fetchError);
+      setProfiles([]);
+    } else {
+      setProfiles(data || []);
+    }
+
+    setIsLoading(false);
+  }, []);
+
+  const addProfile = useCallback(async (data: ImportProfileInsert) => {
+    const { data: newProfile, error: createError } = await createImportProfile(data);
+
+    if (createError) {
+      return { success: false, data: null, error: createError };
+    }
+
+    // 로컬 상태 업데이트
+    if (newProfile) {
+      setProfiles(prev => [...prev, newProfile].sort((a, b) => a.name.localeCompare(b.name)));
+    }
+
+    return { success: true, data: newProfile, error: null };
+  }, []);
+
+  const editProfile = useCallback(async (id: string, data: ImportProfileUpdate) => {
+    const { data: updatedProfile, error: updateError } = await updateImportProfile(id, data);
+
+    if (updateError) {
+      return { success: false, data: null, error: updateError };
+    }
+
+    // 로컬 상태 업데이트
+    if (updatedProfile) {
+      setProfiles(prev => prev.map(profile =>
+        profile.id === id ? updatedProfile : profile
+      ));
+    }
+
+    return { success: true, data: updatedProfile, error: null };
+  }, []);
+
+  const removeProfile = useCallback(async (id: string) => {
+    const { error: deleteError } = await deleteImportProfile(id);
+
+    if (deleteError) {
+      return { success: false, error: deleteError };
+    }
+
+    setProfiles(prev => prev.filter(profile => profile.id !== id));
+
+    return { success: true, error: null };
+  }, []);
+
+  const refetch = useCallback(async () => {
+    await fetchProfiles();
+  }, [fetchProfiles]);
+
+  // 초기 데이터 로드
+  useEffect(() => {
+    if (autoFetch) {
+      fetchProfiles();
+    }
+  }, [autoFetch, fetchProfiles]);
+
+  return {
+    profiles,
+    isLoading,
+    error,
+    fetchProfiles,
+    addProfile,
+    editProfile,
+    removeProfile,
+    refetch
+  };
+};
@@ -0,0 +1,88 @@
+/**
+ * useOrderArchive Hook
+ * 주문 보관함(기간별 보관, 복원, 영구 삭제)을 위한 커스텀 훅
+ */
+
+import { useState, useCallback } from 'react';
+import type { OrderWithVendor, OrderPurgeResult } from '@/types/database';
+import {
+  getArchivedOrders,
+  archiveOrders,
+  restoreOrders,
+  purgeArchivedOrders
+} from '@/services/orderService';
+
+interface UseOrderArchiveReturn {
+  archivedOrders: OrderWithVendor[];
+  isLoading: boolean;
+  error: Error | null;
+  fetchArchived: (dateFrom?: string, dateTo?: string) => Promise<void>;
+  archivePeriod: (dateFrom: string, dateTo: string) => Promise<{ success: boolean; error: Error | null; count: number }>;
+  restore: (orderIds: string[]) => Promise<{ success: boolean; error: Error | null; count: number }>;
+  purge: (orderIds: string[]) => Promise<{ success: boolean; error: Error | null; result: OrderPurgeResult | null }>;
+}
+
+export const useOrderArchive = (): UseOrderArchiveReturn => {
+  const [archivedOrders, setArchivedOrders] = useState<OrderWithVendor[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchArchived = useCallback(async (dateFrom?: string, dateTo?: string) => {
+    setIsLoading(true);
+    setError(null);
+
+    const { data, error: fetchError } = await getArchivedOrders(dateFrom, dateTo);
+
+    if (fetchError) {
+      setError(fetchError);
+      setArchivedOrders([]);
+    } else {
+      setArchivedOrders(data || []);
+    }
+
+    setIsLoading(false);
+  }, []);
+
+  const archivePeriod = useCallback(async (dateFrom: string, dateTo: string) => {
+    const { data, error: archiveError } = await archiveOrders(dateFrom, dateTo);
+
+    if (archiveError) {
+      return { success: false, error: archiveError, count: 0 };
+    }
+
+    return { success: true, error: null, count: data || 0 };
+  }, []);
+
+  const restore = useCallback(async (orderIds: string[]) => {
+    const { data, error: restoreError } = await restoreOrders(orderIds);
+
+    if (restoreError) {
+      return { success: false, error: restoreError, count: 0 };
+    }
+
+    // 로컬 상태 업데이트
+    setArchivedOrders(prev => prev.filter(order => !orderIds.includes(order.id)));
+    return { success: true, error: null, count: data || 0 };
+  }, []);
+
+  const purge = useCallback(async (orderIds: string[]) => {
+    const { data, error: purgeError } = await purgeArchivedOrders(orderIds);
+
+    if (purgeError) {
+      return { success: false, error: purgeError, result: null };
+    }
+
+    setArchivedOrders(prev => prev.filter(order => !orderIds.includes(order.id)));
+    return { success: true, error: null, result: data };
+  }, []);
+
+  return {
+    archivedOrders,
+    isLoading,
+    error,
+    fetchArchived,
+    archivePeriod,
+    restore,
+    purge
+  };
+};
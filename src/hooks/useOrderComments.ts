@@ -0,0 +1,182 @@
+/**
+ * useOrderComments Hook
+ * 댓글 스레드를 불러와 작성/읽음 처리하는 훅과, 목록 화면의 안 읽은 댓글 수를 불러오는 훅
+ */
+
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import type { CommentThreadSummary, OrderComment, OrderCommentWithAuthor } from '@/types/database';
+import {
+  getOrderComments,
+  createOrderComment,
+  markCommentThreadRead,
+  getCommentThreadSummaries,
+} from '@/services/orderCommentService';
+import {
+  groupCommentThreads,
+  indexCommentSummaries,
+  validateCommentAttachments,
+  type CommentThreadNode,
+  type CommentThreadRef,
+} from '@/lib/orderComments';
+import type { RealtimeChange } from '@/lib/realtimeMerge';
+import { useRealtimeChanges } from '@/hooks/useRealtimeChanges';
+
+interface UseOrderCommentsOptions {
+  vendorId?: string; // 외주처 포털에서는 해당 외주처 주문의 스레드만
+  authorVendorId?: string | null; // 외주처 포털에서 작성하면 외주처로 표시
+}
+
+interface UseOrderCommentsReturn {
+  threads: CommentThreadNode[];
+  isLoading: boolean;
+  error: Error | null;
+  addComment: (body: string, files: File[], parentId?: string | null) => Promise<{ success: boolean; error: Error | null }>;
+  refetch: () => Promise<void>;
+}
+
+const isSameThread = (row: Partial<OrderComment> | null, thread: CommentThreadRef): boolean =>
+  !!row && row.order_id === thread.orderId && (row.delivery_item_id ?? null) === (thread.deliveryItemId ?? null);
+
+export const useOrderComments = (
+  thread: CommentThreadRef,
+  options: UseOrderCommentsOptions = {}
+): UseOrderCommentsReturn => {
+  const { vendorId, authorVendorId = null } = options;
+  const { orderId, deliveryItemId = null } = thread;
+
+  const [comments, setComments] = useState<OrderCommentWithAuthor[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  // 불러온 뒤 읽음 처리 (열려 있는 동안 온 댓글도 읽은 것으로 봄)
+  const fetchComments = useCallback(async () => {
+    setError(null);
+    const { data, error: fetchError } = await getOrderComments({ orderId, deliveryItemId }, vendorId);
+
+    if (fetchError) {
+      setError(fetchError);
+    } else {
+      setComments(data || []);
+      await markCommentThreadRead({ orderId, deliveryItemId });
+    }
+    setIsLoading(false);
+  }, [orderId, deliveryItemId, vendorId]);
+
+  const refetch = useCallback(async () => {
+    setIsLoading(true);
+    await fetchComments();
+  }, [fetchComments]);
+
+  const addComment = useCallback(async (body: string, files: File[], parentId: string | null = null) => {
+    const validationError = validateCommentAttachments(files);
+    if (validationError) {
+      return { success: false, error: new Error(validationError) };
+    }
+
+    const { data, error: createError } = await createOrderComment({
+      order_id: orderId,
+      delivery_item_id: deliveryItemId,
+      parent_id: parentId,
+      author_vendor_id: authorVendorId,
+      body: body.trim(),
+    }, files);
+
+    if (createError || !data) {
+      return { success: false, error: createError };
+    }
+
+    // 작성자 표시 이름은 조회 RPC로만 받으므로 스레드를 다시 불러옴 (읽음 처리 포함)
+    await fetchComments();
+    return { success: true, error: null };
+  }, [orderId, deliveryItemId, authorVendorId, fetchComments]);
+
+  // 다른 사용자가 이 스레드에 쓴 댓글 반영 (작성자 정보가 필요하므로 다시 조회)
+  const handleRealtimeChanges = useCallback((changes: RealtimeChange<OrderComment>[]) => {
+    if (changes.some(change => isSameThread(change.new, { orderId, deliveryItemId }) || change.eventType === 'DELETE')) {
+      fetchComments();
+    }
+  }, [fetchComments, orderId, deliveryItemId]);
+
+  useRealtimeChanges<OrderComment>('order_comments', handleRealtimeChanges, {
+    filter: `order_id=eq.${orderId}`,
+  });
+
+  useEffect(() => {
+    setIsLoading(true);
+    setComments([]);
+    fetchComments();
+  }, [fetchComments]);
+
+  const threads = useMemo(() => groupCommentThreads(comments), [comments]);
+
+  return {
+    threads,
+    isLoading,
+    error,
+    addComment,
+    refetch
+  };
+};
+
+interface UseCommentSummariesOptions {
+  orderIds?: string[]; // 주문(PO 라인) 스레드
+  deliveryItemIds?: string[]; // 납품 항목 스레드 (있으면 orderIds 대신 사용)
+  vendorId?: string;
+  enabled?: boolean;
+}
+
+interface UseCommentSummariesReturn {
+  // 납품 항목 스레드는 납품 항목 ID, 주문 스레드는 주문 ID로 색인
+  summaries: Record<string, CommentThreadSummary>;
+  refetch: () => Promise<void>;
+}
+
+export const useCommentSummaries = (options: UseCommentSummariesOptions): UseCommentSummariesReturn => {
+  const { orderIds, deliveryItemIds, vendorId, enabled = true } = options;
+  const [summaries, setSummaries] = useState<Record<string, CommentThreadSummary>>({});
+
+  // 렌더마다 새 배열이 와도 ID가 같으면 다시 조회하지 않음
+  const orderKey = (orderIds ?? []).join(',');
+  const deliveryItemKey = (deliveryItemIds ?? []).join(',');
+
+  const fetchSummaries = useCallback(async () => {
+    if (!enabled) return;
+
+    const { data } = await getCommentThreadSummaries({
+      orderIds: orderKey ? orderKey.split(',') : undefined,
+      deliveryItemIds: deliveryItemKey ? deliveryItemKey.split(',') : undefined,
+      vendorId,
+    });
+    if (data) setSummaries(indexCommentSummaries(data));
+  }, [orderKey, deliveryItemKey, vendorId, enabled]);
+
+  const refetch = useCallback(async () => {
+    await fetchSummaries();
+  }, [fetchSummaries]);
+
+  const handleRealtimeChanges = useCallback((changes: RealtimeChange<OrderComment>[]) => {
+    const isRelevant = (change: RealtimeChange<OrderComment>) => {
+      const row = change.new ?? change.old;
+      if (!row) return false;
+      if (change.eventType === 'DELETE') return true;
+      return deliveryItemKey
+        ? !!row.delivery_item_id && deliveryItemKey.includes(row.delivery_item_id)
+        : !row.delivery_item_id && !!row.order_id && orderKey.includes(row.order_id);
+    };
+
+    if (changes.some(isRelevant)) {
+      fetchSummaries();
+    }
+  }, [fetchSummaries, orderKey, deliveryItemKey]);
+
+  useRealtimeChanges<OrderComment>('order_comments', handleRealtimeChanges, { enabled });
+
+  useEffect(() => {
+    fetchSummaries();
+  }, [fetchSummaries]);
+
+  return {
+    summaries,
+    refetch
+  };
+};
@@ -0,0 +1,118 @@
+/**
+ * useOrderImages Hook
+ * 주문 포장/제품 이미지를 올리고 제품코드 기본 이미지로 지정/해제하는 훅
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import type { Order, OrderImageType, ProductImage } from '@/types/database';
+import { buildOrderImagePath, validateOrderImage } from '@/lib/orderImages';
+import {
+  uploadOrderImage,
+  setOrderImage,
+  getProductImages,
+  saveProductImage,
+  deleteProductImage,
+} from '@/services/orderImageService';
+
+interface UseOrderImagesReturn {
+  order: Order; // 이미지 변경 후 version이 올라간 최신 주문
+  productImages: ProductImage[];
+  isLoading: boolean;
+  attachImage: (type: OrderImageType, file: File, reuseForProductCode: boolean) => Promise<{ success: boolean; error: Error | null }>;
+  removeImage: (type: OrderImageType) => Promise<{ success: boolean; error: Error | null }>;
+  removeProductImage: (type: OrderImageType) => Promise<{ success: boolean; error: Error | null }>;
+}
+
+export const useOrderImages = (initialOrder: Order): UseOrderImagesReturn => {
+  const [order, setOrder] = useState<Order>(initialOrder);
+  const [productImages, setProductImages] = useState<ProductImage[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+
+  const productCode = order.product_code;
+
+  // 제품코드 기본 이미지 조회
+  useEffect(() => {
+    if (!productCode) {
+      setProductImages([]);
+      return;
+    }
+    let cancelled = false;
+
+    setIsLoading(true);
+    getProductImages(productCode).then(({ data }) => {
+      if (cancelled) return;
+      setProductImages(data || []);
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [productCode]);
+
+  // 기본 이미지로 쓸 때는 제품코드 경로에 한 번만 올리고 주문과 기본 이미지가 같은 URL을 씀
+  const attachImage = useCallback(async (type: OrderImageType, file: File, reuseForProductCode: boolean) => {
+    const validationError = validateOrderImage(file);
+    if (validationError) {
+      return { success: false, error: new Error(validationError) };
+    }
+
+    const reuse = reuseForProductCode && !!productCode;
+    const path = buildOrderImagePath(reuse ? { productCode: productCode! } : { orderId: order.id }, type, file.name);
+    const { data: url, error: uploadError } = await uploadOrderImage(file, path);
+    if (uploadError || !url) {
+      return { success: false, error: uploadError };
+    }
+
+    const { data: updated, error: updateError } = await setOrderImage(order, type, url);
+    if (updateError || !updated) {
+      return { success: false, error: updateError };
+    }
+    setOrder(updated);
+
+    if (reuse) {
+      const { data: saved, error: saveError } = await saveProductImage({
+        product_code: productCode!,
+        image_type: type,
+        image_url: url,
+        storage_path: path,
+      });
+      if (saveError || !saved) {
+        return { success: false, error: saveError };
+      }
+      setProductImages(prev => [...prev.filter(image => image.image_type !== type), saved]);
+    }
+
+    return { success: true, error: null };
+  }, [order, productCode]);
+
+  const removeImage = useCallback(async (type: OrderImageType) => {
+    const { data: updated, error } = await setOrderImage(order, type, null);
+    if (error || !updated) {
+      return { success: false, error };
+    }
+    setOrder(updated);
+    return { success: true, error: null };
+  }, [order]);
+
+  const removeProductImage = useCallback(async (type: OrderImageType) => {
+    if (!productCode) {
+      return { success: false, error: new Error('제품코드가 없는 주문입니다.') };
+    }
+
+    const { error } = await deleteProductImage(productCode, type);
+    if (error) {
+      return { success: false, error };
+    }
+    setProductImages(prev => prev.filter(image => image.image_type !== type));
+    return { success: true, error: null };
+  }, [productCode]);
+
+  return {
+    order,
+    productImages,
+    isLoading,
+    attachImage,
+    removeImage,
+    removeProductImage
+  };
+};
@@ -0,0 +1,64 @@
+/**
+ * useOrderLineOperations Hook
+ * 주문 라인 분할/병합/외주처 변경을 위한 커스텀 훅 (생산계획 계산 후 RPC 호출)
+ */
+
+import { useCallback } from 'react';
+import type { Order, Vendor } from '@/types/database';
+import {
+  buildSplitPlan,
+  buildMergePlan,
+  buildReassignPlan,
+  type OrderSplitDraft,
+} from '@/lib/orderLineOperations';
+import { splitOrderLine, mergeOrderLines, reassignOrderLine } from '@/services/orderLineService';
+
+interface OrderLineOperationResult {
+  success: boolean;
+  error: Error | null;
+  warnings: string[];
+}
+
+interface UseOrderLineOperationsReturn {
+  split: (order: Order, drafts: OrderSplitDraft[]) => Promise<OrderLineOperationResult>;
+  merge: (target: Order, sources: Order[]) => Promise<OrderLineOperationResult>;
+  reassign: (order: Order, vendorId: string) => Promise<OrderLineOperationResult>;
+}
+
+export const useOrderLineOperations = (vendors: Vendor[]): UseOrderLineOperationsReturn => {
+  const split = useCallback(async (order: Order, drafts: OrderSplitDraft[]) => {
+    const { plan, error: planError } = buildSplitPlan(order, drafts, vendors);
+    if (!plan) {
+      return { success: false, error: new Error(planError), warnings: [] };
+    }
+
+    const { error } = await splitOrderLine(order, plan.parts, plan.sourceSchedule);
+    return { success: !error, error, warnings: plan.warnings };
+  }, [vendors]);
+
+  const merge = useCallback(async (target: Order, sources: Order[]) => {
+    const { plan, error: planError } = buildMergePlan(target, sources, vendors);
+    if (!plan) {
+      return { success: false, error: new Error(planError), warnings: [] };
+    }
+
+    const { error } = await mergeOrderLines(target, sources, plan.schedule);
+    return { success: !error, error, warnings: plan.warnings };
+  }, [vendors]);
+
+  const reassign = useCallback(async (order: Order, vendorId: string) => {
+    const { plan, error: planError } = buildReassignPlan(order, vendorId, vendors);
+    if (!plan) {
+      return { success: false, error: new Error(planError), warnings: [] };
+    }
+
+    const { error } = await reassignOrderLine(order, vendorId, plan.schedule);
+    return { success: !error, error, warnings: plan.warnings };
+  }, [vendors]);
+
+  return {
+    split,
+    merge,
+    reassign
+  };
+};
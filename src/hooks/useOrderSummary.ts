@@ -0,0 +1,102 @@
+/**
+ * useOrderSummary Hook
+ * 주문 목록과 별개로 외주처별 진행률 요약과 리포트용 수량을 불러오는 훅
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import type { Order, OrderVendorSummary, OrderQuantityTotal } from '@/types/database';
+import { getOrderVendorSummaries, getOrderQuantityTotals } from '@/services/orderService';
+import { applyOrderChangeToSummaries, applyOrderChangeToQuantityTotals } from '@/lib/orderProgress';
+import type { RealtimeChange } from '@/lib/realtimeMerge';
+import { useRealtimeChanges } from '@/hooks/useRealtimeChanges';
+
+interface UseOrderSummaryOptions {
+  vendorId?: string;
+  autoFetch?: boolean;
+  realtime?: boolean; // 다른 사용자의 변경을 실시간 반영 (기본 true)
+}
+
+interface UseOrderSummaryReturn {
+  summaries: OrderVendorSummary[];
+  quantityTotals: OrderQuantityTotal[];
+  isLoading: boolean;
+  error: Error | null;
+  refetch: () => Promise<void>;
+}
+
+export const useOrderSummary = (options: UseOrderSummaryOptions = {}): UseOrderSummaryReturn => {
+  const { vendorId, autoFetch = true, realtime = true } = options;
+
+  const [summaries, setSummaries] = useState<OrderVendorSummary[]>([]);
+  const [quantityTotals, setQuantityTotals] = useState<OrderQuantityTotal[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchSummary = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    const [summaryResult, quantityResult] = await Promise.all([
+      getOrderVendorSummaries(vendorId),
+      getOrderQuantityTotals(vendorId),
+    ]);
+
+    const fetchError = summaryResult.error || quantityResult.error;
+    if (fetchError) {
+      setError(fetchError);
+      setSummaries([]);
+      setQuantityTotals([]);
+    } else {
+      setSummaries(summaryResult.data || []);
+      setQuantityTotals(quantityResult.data || []);
+    }
+
+    setIsLoading(false);
+  }, [vendorId]);
+
+  const refetch = useCallback(async () => {
+    await fetchSummary();
+  }, [fetchSummary]);
+
+  // 다른 화면에서 바뀐 주문을 요약과 리포트 수량에 반영
+  // 변경 전 값이 없으면(RLS 테이블의 삭제 이벤트) 증감을 계산할 수 없으므로 다시 조회
+  const handleRealtimeChanges = useCallback((changes: RealtimeChange<Order>[]) => {
+    const hasBefore = (change: RealtimeChange<Order>) => change.eventType === 'INSERT' || (!!change.old && 'quantity' in change.old);
+
+    if (changes.every(hasBefore)) {
+      setSummaries(prev => changes.reduce(
+        (current, change) => applyOrderChangeToSummaries(current, change.old as Order | null, change.new),
+        prev
+      ));
+      setQuantityTotals(prev => changes.reduce(
+        (current, change) => applyOrderChangeToQuantityTotals(current, change.old as Order | null, change.new),
+        prev
+      ));
+    } else {
+      Promise.all([getOrderVendorSummaries(vendorId), getOrderQuantityTotals(vendorId)]).then(([summaryResult, quantityResult]) => {
+        if (summaryResult.data) setSummaries(summaryResult.data);
+        if (quantityResult.data) setQuantityTotals(quantityResult.data);
+      });
+    }
+  }, [vendorId]);
+
+  useRealtimeChanges<Order>('orders', handleRealtimeChanges, {
+    filter: vendorId ? `vendor_id=eq.${vendorId}` : undefined,
+    enabled: realtime,
+  });
+
+  // 초기 데이터 로드
+  useEffect(() => {
+    if (autoFetch) {
+      fetchSummary();
+    }
+  }, [autoFetch, fetchSummary]);
+
+  return {
+    summaries,
+    quantityTotals,
+    isLoading,
+    error,
+    refetch
+  };
+};
@@ -3,74 +3,151 @@
  * 주문 데이터 관리를 위한 커스텀 훅
  */
 
-import { useState, useCallback, useEffect } from 'react';
-import type { OrderWithVendor, OrderInsert, OrderUpdate } from '@/types/database';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import type { Order, OrderWithVendor, OrderInsert, OrderUpdate, OrderProgressInsert } from '@/types/database';
 import {
-  getOrders,
-  getOrdersByDateRange,
+  getOrdersPage,
+  getOrdersByIds,
   createOrders,
-  updateOrder,
-  toggleOrderCompletion,
-  deleteOrder,
-  deleteAllOrders
+  updateOrder
 } from '@/services/orderService';
+import { saveOrderProgress, deleteOrderProgress, getOrderProgressTotals } from '@/services/orderProgressService';
+import {
+  DEFAULT_ORDER_LIST_QUERY,
+  DEFAULT_ORDER_PAGE_SIZE,
+  countPages,
+  insertOrderSorted,
+  matchesOrderListQuery,
+  type OrderListQuery,
+} from '@/lib/orderListQuery';
+import { applyRealtimeChanges, changedRowId, findRejoinIds, type RealtimeChange } from '@/lib/realtimeMerge';
+import { useRealtimeChanges } from '@/hooks/useRealtimeChanges';
 
 interface UseOrdersOptions {
   vendorId?: string;
+  pageSize?: number;
   autoFetch?: boolean;
+  realtime?: boolean; // 다른 사용자의 변경을 실시간 반영 (기본 true)
 }
 
 interface UseOrdersReturn {
   orders: OrderWithVendor[];
+  total: number; // 조건에 맞는 전체 건수
+  page: number; // 마지막으로 불러온 페이지 (0부터)
+  pageCount: number;
+  hasMore: boolean;
+  query: OrderListQuery;
   isLoading: boolean;
+  isLoadingMore: boolean;
   error: Error | null;
-  fetchOrders: (vendorId?: string) => Promise<void>;
-  fetchOrdersByDateRange: (startDate: string, endDate: string) => Promise<void>;
+  setQuery: (changes: Partial<Omit<OrderListQuery, 'vendorId'>>) => void;
+  goToPage: (page: number) => Promise<void>;
+  loadMore: () => Promise<void>;
   addOrders: (orders: OrderInsert[]) => Promise<{ success: boolean; error: Error | null }>;
   editOrder: (id: string, data: OrderUpdate) => Promise<{ success: boolean; error: Error | null }>;
-  toggleComplete: (id: string) => Promise<{ success: boolean; error: Error | null }>;
-  removeOrder: (id: string) => Promise<{ success: boolean; error: Error | null }>;
-  removeAllOrders: () => Promise<{ success: boolean; error: Error | null }>;
+  recordProgress: (entry: OrderProgressInsert) => Promise<{ success: boolean; error: Error | null }>;
+  removeProgress: (orderId: string, progressId: string) => Promise<{ success: boolean; error: Error | null }>;
   refetch: () => Promise<void>;
 }
 
+/**
+ * 주문 목록은 서버에서 정렬/필터링한 페이지 단위로 불러옴
+ * goToPage는 현재 목록을 해당 페이지로 교체하고(페이지 이동), loadMore는 다음 페이지를 뒤에 이어 붙임(무한 스크롤)
+ */
 export const useOrders = (options: UseOrdersOptions = {}): UseOrdersReturn => {
-  const { vendorId, autoFetch = true } = options;
+  const { vendorId, pageSize = DEFAULT_ORDER_PAGE_SIZE, autoFetch = true, realtime = true } = options;
 
   const [orders, setOrders] = useState<OrderWithVendor[]>([]);
+  const [total, setTotal] = useState<number>(0);
+  const [conditions, setConditions] = useState<Omit<OrderListQuery, 'vendorId'>>(DEFAULT_ORDER_LIST_QUERY);
+  // 화면에 있는 페이지 범위 (firstPage ~ page)
+  const [firstPage, setFirstPage] = useState<number>(0);
+  const [page, setPage] = useState<number>(0);
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [isLoadingMore, setIsLoadingMore] = useState<boolean>(false);
   const [error, setError] = useState<Error | null>(null);
 
-  const fetchOrders = useCallback(async (filterVendorId?: string) => {
+  // 조건이 바뀐 뒤 도착한 이전 요청의 응답은 버림
+  const requestIdRef = useRef<number>(0);
+
+  const query = useMemo<OrderListQuery>(() => ({ ...conditions, vendorId }), [conditions, vendorId]);
+
+  const goToPage = useCallback(async (targetPage: number) => {
+    const requestId = ++requestIdRef.current;
     setIsLoading(true);
     setError(null);
 
-    const { data, error: fetchError } = await getOrders(filterVendorId);
+    const { data, error: fetchError } = await getOrdersPage(query, targetPage, pageSize);
+    if (requestId !== requestIdRef.current) return;
 
     if (fetchError) {
       setError(fetchError);
       setOrders([]);
+      setTotal(0);
     } else {
-      setOrders(data || []);
+      setOrders(data?.rows || []);
+      setTotal(data?.total || 0);
     }
+    setFirstPage(targetPage);
+    setPage(targetPage);
 
     setIsLoading(false);
-  }, []);
+  }, [query, pageSize]);
 
-  const fetchOrdersByDateRange = useCallback(async (startDate: string, endDate: string) => {
-    setIsLoading(true);
-    setError(null);
+  const hasMore = (page + 1) * pageSize < total;
+
+  const loadMore = useCallback(async () => {
+    if (!hasMore || isLoading || isLoadingMore) return;
+
+    const requestId = requestIdRef.current;
+    const nextPage = page + 1;
+    setIsLoadingMore(true);
 
-    const { data, error: fetchError } = await getOrdersByDateRange(startDate, endDate);
+    const { data, error: fetchError } = await getOrdersPage(query, nextPage, pageSize);
+    setIsLoadingMore(false);
+    if (requestId !== requestIdRef.current) return;
 
     if (fetchError) {
       setError(fetchError);
-      setOrders([]);
+    } else if (data) {
+      // 그 사이 앞 페이지에 행이 추가되면 경계의 행이 다시 올 수 있으므로 중복 제외
+      setOrders(prev => {
+        const loadedIds = new Set(prev.map(order => order.id));
+        return [...prev, ...data.rows.filter(order => !loadedIds.has(order.id))];
+      });
+      setTotal(data.total);
+      setPage(nextPage);
+    }
+  }, [hasMore, isLoading, isLoadingMore, page, query, pageSize]);
+
+  // 화면에 있는 페이지 범위를 같은 조건으로 다시 불러옴
+  const refetch = useCallback(async () => {
+    const requestId = ++requestIdRef.current;
+    setIsLoading(true);
+    setError(null);
+
+    const pages = Array.from({ length: page - firstPage + 1 }, (_, index) => firstPage + index);
+    const results = await Promise.all(pages.map(p => getOrdersPage(query, p, pageSize)));
+    if (requestId !== requestIdRef.current) return;
+
+    const failed = results.find(result => result.error);
+    if (failed) {
+      setError(failed.error);
     } else {
-      setOrders(data || []);
+      const loadedIds = new Set<string>();
+      setOrders(results.flatMap(result => result.data?.rows || []).filter(order => {
+        if (loadedIds.has(order.id)) return false;
+        loadedIds.add(order.id);
+        return true;
+      }));
+      setTotal(results[results.length - 1].data?.total || 0);
     }
 
     setIsLoading(false);
+  }, [firstPage, page, query, pageSize]);
+
+  const setQuery = useCallback((changes: Partial<Omit<OrderListQuery, 'vendorId'>>) => {
+    setConditions(prev => ({ ...prev, ...changes }));
   }, []);
 
   const addOrders = useCallback(async (newOrders: OrderInsert[]) => {
@@ -81,90 +158,134 @@ export const useOrders = (options: UseOrdersOptions = {}): UseOrdersReturn => {
     }
 
     // 목록 새로고침
-    await fetchOrders(vendorId);
+    await refetch();
     return { success: true, error: null };
-  }, [fetchOrders, vendorId]);
+  }, [refetch]);
 
+  // 수정은 목록을 불러올 때의 version 기준 (그 사이 다른 사용자가 바꿨으면 RowConflictError)
   const editOrder = useCallback(async (id: string, data: OrderUpdate) => {
-    const { error: updateError } = await updateOrder(id, data);
+    const current = orders.find(order => order.id === id);
+    if (!current) {
+      return { success: false, error: new Error('주문을 찾을 수 없습니다.') };
+    }
+
+    const { data: updated, error: updateError } = await updateOrder(id, data, current.version);
 
     if (updateError) {
       return { success: false, error: updateError };
     }
 
-    // 로컬 상태 업데이트
-    setOrders(prev => prev.map(order =>
-      order.id === id ? { ...order, ...data } : order
-    ));
+    // 로컬 상태 업데이트 (트리거가 바꾼 값과 새 version 포함)
+    if (updated) {
+      setOrders(prev => prev.map(order =>
+        order.id === id ? { ...order, ...updated } : order
+      ));
+    }
 
     return { success: true, error: null };
-  }, []);
-
-  const toggleComplete = useCallback(async (id: string) => {
-    const { data, error: toggleError } = await toggleOrderCompletion(id);
+  }, [orders]);
 
-    if (toggleError) {
-      return { success: false, error: toggleError };
-    }
-
-    // 로컬 상태 업데이트
+  // 생산/출고 기록 후 트리거가 갱신한 누적 수량/완료 여부를 로컬 상태에 반영
+  const refreshProgressTotals = useCallback(async (orderId: string) => {
+    const { data } = await getOrderProgressTotals(orderId);
     if (data) {
       setOrders(prev => prev.map(order =>
-        order.id === id
-          ? { ...order, is_completed: data.is_completed, completed_at: data.completed_at }
-          : order
+        order.id === orderId ? { ...order, ...data } : order
       ));
     }
-
-    return { success: true, error: null };
   }, []);
 
-  const removeOrder = useCallback(async (id: string) => {
-    const { error: deleteError } = await deleteOrder(id);
+  const recordProgress = useCallback(async (entry: OrderProgressInsert) => {
+    const { error: saveError } = await saveOrderProgress(entry);
 
-    if (deleteError) {
-      return { success: false, error: deleteError };
+    if (saveError) {
+      return { success: false, error: saveError };
     }
 
-    // 로컬 상태 업데이트
-    setOrders(prev => prev.filter(order => order.id !== id));
-
+    await refreshProgressTotals(entry.order_id);
     return { success: true, error: null };
-  }, []);
+  }, [refreshProgressTotals]);
 
-  const removeAllOrders = useCallback(async () => {
-    const { error: deleteError } = await deleteAllOrders();
+  const removeProgress = useCallback(async (orderId: string, progressId: string) => {
+    const { error: deleteError } = await deleteOrderProgress(progressId);
 
     if (deleteError) {
       return { success: false, error: deleteError };
     }
 
-    setOrders([]);
+    await refreshProgressTotals(orderId);
     return { success: true, error: null };
-  }, []);
-
-  const refetch = useCallback(async () => {
-    await fetchOrders(vendorId);
-  }, [fetchOrders, vendorId]);
-
-  // 초기 데이터 로드
+  }, [refreshProgressTotals]);
+
+  // 다른 화면에서 바뀐 주문을 현재 목록에 반영
+  // 이미 있는 행은 바로 교체/제거하고, 조건에 새로 맞게 된 행은 vendor join을 포함해 ID로 조회한 뒤 정렬 위치에 추가
+  // 외주처가 바뀐 행도 이전 vendor join이 남지 않도록 ID로 다시 조회해 교체
+  const handleRealtimeChanges = useCallback(async (changes: RealtimeChange<Order>[]) => {
+    const accept = (order: Order) => matchesOrderListQuery(order, query);
+    const loadedIds = new Set(orders.map(order => order.id));
+
+    // 전체 건수는 변경 전/후 행이 조건에 맞는지로 증감 (삭제 이벤트는 기본키만 올 수 있어 목록 포함 여부로 판단)
+    const totalDelta = changes.reduce((delta, change) => {
+      const id = changedRowId(change);
+      if (!id) return delta;
+      const wasListed = change.old && 'order_date' in change.old ? accept(change.old as Order) : loadedIds.has(id);
+      const isListed = change.new ? accept(change.new) : false;
+      return delta + Number(isListed) - Number(wasListed);
+    }, 0);
+
+    setOrders(prev => applyRealtimeChanges(prev as Order[], changes, { accept }) as OrderWithVendor[]);
+    setTotal(prev => Math.max(prev + totalDelta, 0));
+
+    const missingIds = [...new Set(changes
+      .filter(change => change.new && !loadedIds.has(change.new.id) && accept(change.new))
+      .map(change => change.new!.id))];
+    const rejoinIds = findRejoinIds(orders, changes, ['vendor_id']);
+    if (missingIds.length === 0 && rejoinIds.length === 0) return;
+
+    const requestId = requestIdRef.current;
+    const { data } = await getOrdersByIds([...missingIds, ...rejoinIds]);
+    if (!data || requestId !== requestIdRef.current) return;
+
+    const fetchedById = new Map(data.map(order => [order.id, order]));
+    const rejoined = (row: OrderWithVendor) => {
+      const fetched = fetchedById.get(row.id);
+      return fetched && fetched.version >= row.version ? fetched : row;
+    };
+
+    setOrders(prev => data
+      .filter(order => accept(order) && !prev.some(row => row.id === order.id))
+      .reduce((rows, order) => insertOrderSorted(rows, order, query, hasMore), prev.map(rejoined)));
+  }, [orders, query, hasMore]);
+
+  useRealtimeChanges<Order>('orders', handleRealtimeChanges, {
+    filter: vendorId ? `vendor_id=eq.${vendorId}` : undefined,
+    enabled: realtime,
+  });
+
+  // 조건이 바뀌면 첫 페이지부터 다시 불러옴
   useEffect(() => {
     if (autoFetch) {
-      fetchOrders(vendorId);
+      goToPage(0);
     }
-  }, [autoFetch, fetchOrders, vendorId]);
+  }, [autoFetch, goToPage]);
 
   return {
     orders,
+    total,
+    page,
+    pageCount: countPages(total, pageSize),
+    hasMore,
+    query,
     isLoading,
+    isLoadingMore,
     error,
-    fetchOrders,
-    fetchOrdersByDateRange,
+    setQuery,
+    goToPage,
+    loadMore,
     addOrders,
     editOrder,
-    toggleComplete,
-    removeOrder,
-    removeAllOrders,
+    recordProgress,
+    removeProgress,
     refetch
   };
 };
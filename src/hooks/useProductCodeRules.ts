@@ -0,0 +1,120 @@
+/**
+ * useProductCodeRules Hook
+ * 제품코드 포함 규칙 관리를 위한 커스텀 훅
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import type { ProductCodeRule, ProductCodeRuleInsert, ProductCodeRuleUpdate } from '@/types/database';
+import {
+  getProductCodeRules,
+  createProductCodeRule,
+  updateProductCodeRule,
+  deleteProductCodeRule
+} from '@/services/productCodeRuleService';
+
+interface UseProductCodeRulesOptions {
+  activeOnly?: boolean;
+  autoFetch?: boolean;
+}
+
+interface UseProductCodeRulesReturn {
+  rules: ProductCodeRule[];
+  isLoading: boolean;
+  error: Error | null;
+  fetchRules: () => Promise<void>;
+  addRule: (data: ProductCodeRuleInsert) => Promise<{ success: boolean; error: Error | null }>;
+  editRule: (id: string, data: ProductCodeRuleUpdate) => Promise<{ success: boolean; error: Error | null }>;
+  removeRule: (id: string) => Promise<{ success: boolean; error: Error | null }>;
+  refetch: () => Promise<void>;
+}
+
+const byPriority = (a: ProductCodeRule, b: ProductCodeRule) => a.priority - b.priority;
+
+export const useProductCodeRules = (options: UseProductCodeRulesOptions = {}): UseProductCodeRulesReturn => {
+  const { activeOnly = true, autoFetch = true } = options;
+
+  const [rules, setRules] = useState<ProductCodeRule[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchRules = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    const { data, error: fetchError } = await getProductCodeRules(activeOnly);
+
+    if (fetchError) {
+      setError(fetchError);
+      setRules([]);
+    } else {
+      setRules(data || []);
+    }
+
+    setIsLoading(false);
+  }, [activeOnly]);
+
+  const addRule = useCallback(async (data: ProductCodeRuleInsert) => {
+    const { data: newRule, error: createError } = await createProductCodeRule(data);
+
+    if (createError) {
+      return { success: false, error: createError };
+    }
+
+    // 로컬 상태 업데이트
+    if (newRule) {
+      setRules(prev => [...prev, newRule].sort(byPriority));
+    }
+
+    return { success: true, error: null };
+  }, []);
+
+  const editRule = useCallback(async (id: string, data: ProductCodeRuleUpdate) => {
+    const { data: updatedRule, error: updateError } = await updateProductCodeRule(id, data);
+
+    if (updateError) {
+      return { success: false, error: updateError };
+    }
+
+    // 로컬 상태 업데이트
+    if (updatedRule) {
+      setRules(prev => prev.map(rule =>
+        rule.id === id ? updatedRule : rule
+      ).sort(byPriority));
+    }
+
+    return { success: true, error: null };
+  }, []);
+
+  const removeRule = useCallback(async (id: string) => {
+    const { error: deleteError } = await deleteProductCodeRule(id);
+
+    if (deleteError) {
+      return { success: false, error: deleteError };
+    }
+
+    setRules(prev => prev.filter(rule => rule.id !== id));
+    return { success: true, error: null };
+  }, []);
+
+  const refetch = useCallback(async () => {
+    await fetchRules();
+  }, [fetchRules]);
+
+  // 초기 데이터 로드
+  useEffect(() => {
+    if (autoFetch) {
+      fetchRules();
+    }
+  }, [autoFetch, fetchRules]);
+
+  return {
+    rules,
+    isLoading,
+    error,
+    fetchRules,
+    addRule,
+    editRule,
+    removeRule,
+    refetch
+  };
+};
@@ -1,5 +1,6 @@
 import { useState, useCallback, useEffect } from 'react';
 import type { 
+  ProductionSchedule,
   ProductionScheduleWithDetails, 
   ProductionScheduleUpdate,
   Order,
@@ -7,6 +8,7 @@ import type {
 } from '@/types/database';
 import {
   getProductionSchedules,
+  getProductionSchedulesByIds,
   getSchedulesByDateRange,
   updateProductionSchedule,
   updateScheduleDates,
@@ -14,10 +16,13 @@ import {
   generateSchedulesForOrders,
   regenerateScheduleForOrder
 } from '@/services/productionScheduleService';
+import { applyRealtimeChanges, findRejoinIds, type RealtimeChange } from '@/lib/realtimeMerge';
+import { useRealtimeChanges } from '@/hooks/useRealtimeChanges';
 
 interface UseProductionSchedulesOptions {
   vendorId?: string;
   autoFetch?: boolean;
+  realtime?: boolean; // 다른 사용자의 변경을 실시간 반영 (기본 true)
 }
 
 interface UseProductionSchedulesReturn {
@@ -39,7 +44,7 @@ interface UseProductionSchedulesReturn {
 export const useProductionSchedules = (
   options: UseProductionSchedulesOptions = {}
 ): UseProductionSchedulesReturn => {
-  const { vendorId, autoFetch = true } = options;
+  const { vendorId, autoFetch = true, realtime = true } = options;
 
   const [schedules, setSchedules] = useState<ProductionScheduleWithDetails[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(false);
@@ -86,22 +91,35 @@ export const useProductionSchedules = (
     setIsLoading(false);
   }, []);
 
+  // 수정은 목록을 불러올 때의 version 기준 (그 사이 다른 사용자가 바꿨으면 RowConflictError)
   const updateSchedule = useCallback(async (id: string, data: ProductionScheduleUpdate) => {
-    const { error: updateError } = await updateProductionSchedule(id, data);
+    const current = schedules.find(schedule => schedule.id === id);
+    if (!current) {
+      return { success: false, error: new Error('생산계획을 찾을 수 없습니다.') };
+    }
+
+    const { data: updated, error: updateError } = await updateProductionSchedule(id, data, current.version);
 
     if (updateError) {
       return { success: false, error: updateError };
     }
 
-    setSchedules(prev => prev.map(schedule =>
-      schedule.id === id ? { ...schedule, ...data } : schedule
-    ));
+    if (updated) {
+      setSchedules(prev => prev.map(schedule =>
+        schedule.id === id ? { ...schedule, ...updated } : schedule
+      ));
+    }
 
     return { success: true, error: null };
-  }, []);
+  }, [schedules]);
 
   const moveSchedule = useCallback(async (id: string, startDate: string, endDate: string) => {
-    const { data, error: updateError } = await updateScheduleDates(id, startDate, endDate);
+    const current = schedules.find(schedule => schedule.id === id);
+    if (!current) {
+      return { success: false, error: new Error('생산계획을 찾을 수 없습니다.') };
+    }
+
+    const { data, error: updateError } = await updateScheduleDates(id, startDate, endDate, current.version);
 
     if (updateError) {
       return { success: false, error: updateError };
@@ -110,13 +128,13 @@ export const useProductionSchedules = (
     if (data) {
       setSchedules(prev => prev.map(schedule =>
         schedule.id === id 
-          ? { ...schedule, start_date: startDate, end_date: endDate, is_manually_adjusted: true }
+          ? { ...schedule, start_date: startDate, end_date: endDate, is_manually_adjusted: true, version: data.version }
           : schedule
       ));
     }
 
     return { success: true, error: null };
-  }, []);
+  }, [schedules]);
 
   const removeSchedule = useCallback(async (id: string) => {
     const { error: deleteError } = await deleteProductionSchedule(id);
@@ -175,6 +193,62 @@ export const useProductionSchedules = (
     setWarnings([]);
   }, []);
 
+  // 다른 화면에서 바뀐 생산계획을 반영 (새 행은 주문/외주처 join을 포함해 ID로 조회한 뒤 시작일 순서에 추가)
+  // 주문/외주처가 바뀐 행도 이전 join이 남지 않도록 ID로 다시 조회해 교체
+  const handleScheduleChanges = useCallback(async (changes: RealtimeChange<ProductionSchedule>[]) => {
+    setSchedules(prev => applyRealtimeChanges(prev as ProductionSchedule[], changes) as ProductionScheduleWithDetails[]);
+
+    const insertedIds = changes
+      .filter(change => change.eventType === 'INSERT' && change.new)
+      .map(change => change.new!.id);
+    const rejoinIds = findRejoinIds<ProductionSchedule>(schedules, changes, ['order_id', 'vendor_id']);
+    if (insertedIds.length === 0 && rejoinIds.length === 0) return;
+
+    const { data } = await getProductionSchedulesByIds([...insertedIds, ...rejoinIds]);
+    if (!data || data.length === 0) return;
+
+    const fetchedById = new Map(data.map(schedule => [schedule.id, schedule]));
+    setSchedules(prev => [
+      ...prev.map(row => {
+        const fetched = fetchedById.get(row.id);
+        return fetched && fetched.version >= row.version ? fetched : row;
+      }),
+      ...data.filter(schedule => !prev.some(row => row.id === schedule.id)),
+    ].sort((a, b) => a.start_date.localeCompare(b.start_date)));
+  }, [schedules]);
+
+  // 주문이 보관되면 생산계획도 숨기고, 품목명/수량/납기일 변경은 막대 표시에 반영
+  const handleOrderChanges = useCallback((changes: RealtimeChange<Order>[]) => {
+    setSchedules(prev => changes.reduce((current, change) => {
+      const order = change.new;
+      if (!order) return current;
+      if (order.is_archived) return current.filter(schedule => schedule.order_id !== order.id);
+
+      return current.map(schedule => schedule.order_id === order.id
+        ? {
+          ...schedule,
+          order: {
+            product_name: order.product_name,
+            product_code: order.product_code,
+            quantity: order.quantity,
+            delivery_date: order.delivery_date,
+            order_date: order.order_date,
+          },
+        }
+        : schedule);
+    }, prev));
+  }, []);
+
+  const realtimeFilter = vendorId ? `vendor_id=eq.${vendorId}` : undefined;
+  useRealtimeChanges<ProductionSchedule>('production_schedules', handleScheduleChanges, {
+    filter: realtimeFilter,
+    enabled: realtime,
+  });
+  useRealtimeChanges<Order>('orders', handleOrderChanges, {
+    filter: realtimeFilter,
+    enabled: realtime,
+  });
+
   useEffect(() => {
     if (autoFetch) {
       fetchSchedules(vendorId);
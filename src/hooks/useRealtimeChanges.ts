@@ -0,0 +1,53 @@
+/**
+ * useRealtimeChanges Hook
+ * 테이블 변경을 구독하고, 짧은 시간 안에 몰려온 이벤트(일괄 업로드 등)는 한 번에 전달
+ */
+
+import { useEffect, useRef } from 'react';
+import { subscribeToTable, type RealtimeTable } from '@/services/realtimeService';
+import type { RealtimeChange } from '@/lib/realtimeMerge';
+
+interface UseRealtimeChangesOptions {
+  filter?: string;
+  enabled?: boolean;
+}
+
+const REALTIME_BATCH_MS = 200;
+
+export const useRealtimeChanges = <T extends object>(
+  table: RealtimeTable,
+  onChanges: (changes: RealtimeChange<T>[]) => void,
+  options: UseRealtimeChangesOptions = {}
+): void => {
+  const { filter, enabled = true } = options;
+
+  // 구독을 다시 만들지 않도록 최신 콜백은 ref로 참조
+  const onChangesRef = useRef(onChanges);
+  useEffect(() => {
+    onChangesRef.current = onChanges;
+  }, [onChanges]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let buffer: RealtimeChange<T>[] = [];
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const unsubscribe = subscribeToTable<T>(table, change => {
+      buffer.push(change);
+      if (timer) return;
+
+      timer = setTimeout(() => {
+        const changes = buffer;
+        buffer = [];
+        timer = null;
+        onChangesRef.current(changes);
+      }, REALTIME_BATCH_MS);
+    }, filter);
+
+    return () => {
+      if (timer) clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [table, filter, enabled]);
+};
@@ -0,0 +1,67 @@
+/**
+ * useRealtimeRows Hook
+ * 조회해 둔 그리드 행에 다른 사용자의 수정/삭제를 반영
+ * 편집 중인 행은 입력 중인 값을 흔들지 않도록 변경을 보류하고 건수만 알려주며, 반영 시점은 사용자가 고름
+ * (새로 추가된 행은 그리드의 조회 조건을 알 수 없으므로 다시 조회할 때 표시)
+ */
+
+import { useState, useCallback, useEffect, type Dispatch, type SetStateAction } from 'react';
+import { applyRealtimeChanges, changedRowId, partitionRealtimeChanges, type RealtimeChange } from '@/lib/realtimeMerge';
+import { useRealtimeChanges } from '@/hooks/useRealtimeChanges';
+import type { RealtimeTable } from '@/services/realtimeService';
+
+interface UseRealtimeRowsOptions<T> {
+  table: RealtimeTable;
+  setRows: Dispatch<SetStateAction<T[]>>;
+  editingIds?: string[];
+  filter?: string;
+}
+
+interface UseRealtimeRowsReturn {
+  pendingCount: number; // 편집 중에 바뀐 행 수
+  applyPending: () => void;
+}
+
+export const useRealtimeRows = <T extends { id: string; version?: number }>(
+  options: UseRealtimeRowsOptions<T>
+): UseRealtimeRowsReturn => {
+  const { table, setRows, editingIds = [], filter } = options;
+
+  const [pending, setPending] = useState<RealtimeChange<T>[]>([]);
+  const editingKey = editingIds.join(',');
+
+  const handleChanges = useCallback((changes: RealtimeChange<T>[]) => {
+    const editing = new Set(editingKey ? editingKey.split(',') : []);
+    const { immediate, deferred } = partitionRealtimeChanges(changes, id => editing.has(id));
+
+    if (immediate.length > 0) {
+      setRows(prev => applyRealtimeChanges(prev, immediate));
+    }
+    if (deferred.length > 0) {
+      setPending(prev => [...prev, ...deferred]);
+    }
+  }, [editingKey, setRows]);
+
+  useRealtimeChanges<T>(table, handleChanges, { filter });
+
+  // 편집이 끝난 행(저장/다시 조회)의 보류 변경은 바로 반영 (이미 더 최신 version이면 무시됨)
+  useEffect(() => {
+    const editing = new Set(editingKey ? editingKey.split(',') : []);
+    const { immediate, deferred } = partitionRealtimeChanges(pending, id => editing.has(id));
+    if (immediate.length === 0) return;
+
+    setRows(prev => applyRealtimeChanges(prev, immediate));
+    setPending(deferred);
+  }, [editingKey, pending, setRows]);
+
+  // 편집 중인 값은 그대로 두고 나머지 항목과 version을 최신으로 맞춤 (저장하면 내 입력이 최신 행 위에 적용됨)
+  const applyPending = useCallback(() => {
+    setRows(prev => applyRealtimeChanges(prev, pending));
+    setPending([]);
+  }, [pending, setRows]);
+
+  return {
+    pendingCount: new Set(pending.map(change => changedRowId(change))).size,
+    applyPending,
+  };
+};
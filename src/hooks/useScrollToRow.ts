@@ -0,0 +1,21 @@
+/**
+ * useScrollToRow Hook
+ * 검색 결과 등으로 이동한 행(data-row-id)이 그려지면 화면 가운데로 스크롤
+ */
+
+import { useEffect } from 'react';
+
+/**
+ * @param rowId 이동할 행 ID (없으면 아무것도 하지 않음)
+ * @param ready 행 목록이 그려졌는지 (목록이 바뀔 때마다 다시 찾도록 목록 길이 등을 전달)
+ */
+export const useScrollToRow = (rowId: string | null | undefined, ready: unknown): void => {
+  useEffect(() => {
+    if (!rowId) return;
+
+    // 모바일 카드/데스크톱 표처럼 같은 행이 여러 번 그려지면 보이는 것만 사용
+    const element = Array.from(document.querySelectorAll<HTMLElement>(`[data-row-id="${rowId}"]`))
+      .find(candidate => candidate.offsetParent !== null);
+    element?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [rowId, ready]);
+};
@@ -4,7 +4,7 @@
  */
 
 import { useState, useCallback, useEffect } from 'react';
-import type { Vendor, VendorInsert, VendorUpdate, VendorTargetWithVendor } from '@/types/database';
+import type { Vendor, VendorInsert, VendorUpdate, VendorTargetWithVendor, VendorAlias, VendorAliasInsert } from '@/types/database';
 import {
   getVendors,
   getVendorByCode,
@@ -12,7 +12,10 @@ import {
   createVendor,
   updateVendor,
   getVendorTargets,
-  updateVendorTarget
+  updateVendorTarget,
+  getVendorAliases,
+  createVendorAlias,
+  deleteVendorAlias
 } from '@/services/vendorService';
 
 interface UseVendorsOptions {
@@ -189,3 +192,89 @@ export const useVendorTargets = (options: UseVendorTargetsOptions): UseVendorTar
     refetch
   };
 };
+
+// 외주처 별칭 관리를 위한 별도 훅
+interface UseVendorAliasesOptions {
+  autoFetch?: boolean;
+}
+
+interface UseVendorAliasesReturn {
+  aliases: VendorAlias[];
+  isLoading: boolean;
+  error: Error | null;
+  fetchAliases: () => Promise<void>;
+  addAlias: (data: VendorAliasInsert) => Promise<{ success: boolean; data: VendorAlias | null; error: Error | null }>;
+  removeAlias: (id: string) => Promise<{ success: boolean; error: Error | null }>;
+  refetch: () => Promise<void>;
+}
+
+export const useVendorAliases = (options: UseVendorAliasesOptions = {}): UseVendorAliasesReturn => {
+  const { autoFetch = true } = options;
+
+  const [aliases, setAliases] = useState<VendorAlias[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchAliases = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    const { data, error: fetchError } = await getVendorAliases();
+
+    if (fetchError) {
+      setError(fetchError);
+      setAliases([]);
+    } else {
+      setAliases(data || []);
+    }
+
+    setIsLoading(false);
+  }, []);
+
+  const addAlias = useCallback(async (data: VendorAliasInsert) => {
+    const { data: newAlias, error: createError } = await createVendorAlias(data);
+
+    if (createError) {
+      return { success: false, data: null, error: createError };
+    }
+
+    // 로컬 상태 업데이트
+    if (newAlias) {
+      setAliases(prev => [...prev, newAlias]);
+    }
+
+    return { success: true, data: newAlias, error: null };
+  }, []);
+
+  const removeAlias = useCallback(async (id: string) => {
+    const { error: deleteError } = await deleteVendorAlias(id);
+
+    if (deleteError) {
+      return { success: false, error: deleteError };
+    }
+
+    setAliases(prev => prev.filter(alias => alias.id !== id));
+    return { success: true, error: null };
+  }, []);
+
+  const refetch = useCallback(async () => {
+    await fetchAliases();
+  }, [fetchAliases]);
+
+  // 초기 데이터 로드
+  useEffect(() => {
+    if (autoFetch) {
+      fetchAliases();
+    }
+  }, [autoFetch, fetchAliases]);
+
+  return {
+    aliases,
+    isLoading,
+    error,
+    fetchAliases,
+    addAlias,
+    removeAlias,
+    refetch
+  };
+};
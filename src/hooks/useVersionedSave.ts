@@ -0,0 +1,83 @@
+/**
+ * useVersionedSave Hook
+ * 그리드에서 편집한 행을 version 조건으로 저장하고, 충돌한 행은 병합/새로고침을 고를 수 있도록 보관
+ */
+
+import { useState, useCallback } from 'react';
+import { buildRowConflict, isRowConflictError, type RowConflict } from '@/lib/rowVersion';
+
+interface VersionedRow {
+  id: string;
+  version: number;
+}
+
+interface UseVersionedSaveReturn<T extends VersionedRow> {
+  conflicts: RowConflict<T>[];
+  isSaving: boolean;
+  saveEdits: (rows: T[], edits: Record<string, Partial<T>>) => Promise<{ success: boolean; error: Error | null }>;
+  mergeConflicts: () => Promise<{ success: boolean; error: Error | null }>;
+  dismissConflicts: () => void;
+}
+
+export const useVersionedSave = <T extends VersionedRow>(
+  save: (id: string, changes: Partial<T>, expectedVersion: number) => Promise<{ error: Error | null }>,
+  fetchLatest: (ids: string[]) => Promise<{ data: T[] | null; error: Error | null }>
+): UseVersionedSaveReturn<T> => {
+  const [conflicts, setConflicts] = useState<RowConflict<T>[]>([]);
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  const saveEdits = useCallback(async (rows: T[], edits: Record<string, Partial<T>>) => {
+    setIsSaving(true);
+
+    const conflictIds: string[] = [];
+    let lastError: Error | null = null;
+
+    for (const [id, changes] of Object.entries(edits)) {
+      const row = rows.find(r => r.id === id);
+      if (!row) continue;
+
+      const { error } = await save(id, changes, row.version);
+      if (isRowConflictError(error)) {
+        conflictIds.push(id);
+      } else if (error) {
+        lastError = error;
+      }
+    }
+
+    // 충돌한 행은 최신 값을 다시 읽어 내 입력과 비교
+    if (conflictIds.length > 0) {
+      const { data: latestRows } = await fetchLatest(conflictIds);
+      setConflicts(conflictIds.map(id => buildRowConflict(
+        rows.find(r => r.id === id) as T,
+        latestRows?.find(r => r.id === id) ?? null,
+        edits[id]
+      )));
+    } else {
+      setConflicts([]);
+    }
+
+    setIsSaving(false);
+    return { success: conflictIds.length === 0 && !lastError, error: lastError };
+  }, [save, fetchLatest]);
+
+  // 최신 행에 내 입력을 다시 적용 (삭제된 행은 제외)
+  const mergeConflicts = useCallback(async () => {
+    const mergeable = conflicts.filter(conflict => conflict.latest !== null);
+    return saveEdits(
+      mergeable.map(conflict => conflict.latest as T),
+      Object.fromEntries(mergeable.map(conflict => [conflict.id, conflict.edits]))
+    );
+  }, [conflicts, saveEdits]);
+
+  const dismissConflicts = useCallback(() => {
+    setConflicts([]);
+  }, []);
+
+  return {
+    conflicts,
+    isSaving,
+    saveEdits,
+    mergeConflicts,
+    dismissConflicts,
+  };
+};
@@ -0,0 +1,137 @@
+import type { WorkbookSheets } from '@/lib/importProfile';
+
+export type TextEncoding = 'utf-8' | 'cp949';
+
+export interface DecodedText {
+  text: string;
+  encoding: TextEncoding;
+}
+
+export interface DelimitedRows {
+  rows: string[][];
+  lineNumbers: number[]; // 각 행이 시작하는 원본 줄 번호 (1부터)
+}
+
+const DELIMITERS = ['\t', ',', ';'] as const;
+const DELIMITER_SAMPLE_LINES = 10;
+
+/**
+ * CSV/TSV 파일 디코딩
+ * UTF-8로 엄격하게 읽어 보고 실패하면 CP949(엑셀 한글 기본 저장 형식)로 읽음
+ */
+export function decodeTextBuffer(buffer: ArrayBuffer): DecodedText {
+  try {
+    // TextDecoder는 UTF-8 BOM을 자동으로 제거
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(buffer), encoding: 'utf-8' };
+  } catch {
+    // WHATWG 인코딩 표준에서 euc-kr 레이블은 CP949(windows-949)로 처리됨
+    return { text: new TextDecoder('euc-kr').decode(buffer), encoding: 'cp949' };
+  }
+}
+
+/**
+ * 구분자 추정 (앞쪽 행들에서 가장 일정하게 여러 번 나오는 문자)
+ */
+export function detectDelimiter(text: string): string | null {
+  const lines = text.split(/\r?\n/).filter(line => line.trim()).slice(0, DELIMITER_SAMPLE_LINES);
+  if (lines.length === 0) return null;
+
+  let best: { delimiter: string; score: number } | null = null;
+  for (const delimiter of DELIMITERS) {
+    const counts = lines.map(line => line.split(delimiter).length - 1);
+    const linesWithDelimiter = counts.filter(count => count > 0).length;
+    if (linesWithDelimiter === 0) continue;
+
+    // 구분자가 있는 행 비율을 우선, 같으면 평균 개수로 비교
+    const score = linesWithDelimiter / lines.length * 1000 + counts.reduce((sum, c) => sum + c, 0) / lines.length;
+    if (!best || score > best.score) {
+      best = { delimiter, score };
+    }
+  }
+
+  return best?.delimiter ?? null;
+}
+
+/**
+ * 엑셀에서 복사한 범위처럼 탭으로 구분된 표인지 확인 (2행 이상, 첫 행에 탭 포함)
+ */
+export function looksLikeTabularText(text: string): boolean {
+  const lines = text.split(/\r?\n/).filter(line => line.trim());
+  return lines.length >= 2 && lines[0].includes('\t');
+}
+
+/**
+ * 구분자 텍스트를 행 배열로 변환 (큰따옴표로 감싼 값과 값 안의 줄바꿈/"" 이스케이프 지원)
+ * 빈 줄은 건너뛰되 리포트 행 번호가 원본과 맞도록 각 행의 시작 줄 번호를 함께 반환
+ */
+export function parseDelimitedText(text: string, delimiter: string): DelimitedRows {
+  const rows: string[][] = [];
+  const lineNumbers: number[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowStartLine = 1;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some(cell => cell.trim() !== '')) {
+      rows.push(row);
+      lineNumbers.push(rowStartLine);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowStartLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return { rows, lineNumbers };
+}
+
+/**
+ * 구분자 텍스트를 시트 하나짜리 통합문서 형태로 변환 (엑셀 업로드와 같은 헤더 감지 사용)
+ */
+export function delimitedTextToSheets(text: string, sheetName: string, delimiter?: string): WorkbookSheets {
+  const resolvedDelimiter = delimiter ?? detectDelimiter(text) ?? ',';
+  const { rows, lineNumbers } = parseDelimitedText(text, resolvedDelimiter);
+  return {
+    names: [sheetName],
+    rows: { [sheetName]: rows },
+    lineNumbers: { [sheetName]: lineNumbers },
+  };
+}
@@ -0,0 +1,117 @@
+import type { ImportValueTransforms } from '@/types/database';
+import { isValidIsoDate } from '@/lib/importValidation';
+
+export interface DeliveryDateParseResult {
+  date: string; // YYYY-MM-DD, 해석하지 못하면 빈 문자열
+  annotation: string; // 날짜 외 문구 (예: "12/26(오후직납)" → "오후직납")
+  raw: string;
+}
+
+export interface DeliveryDateParseOptions {
+  orderDate?: string; // 연도가 없는 날짜의 기준일 (없으면 오늘)
+  dateOrder?: ImportValueTransforms['date_order'];
+}
+
+const EXCEL_EPOCH_UTC = Date.UTC(1899, 11, 30);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 숫자 경계에서만 일치 (예: "112/26"의 "12/26"은 무시)
+const FULL_DATE_PATTERN = /(?<!\d)(\d{4})\s*[-./년]\s*(\d{1,2})\s*[-./월]\s*(\d{1,2})(?!\d)\s*일?/;
+const KOREAN_DATE_PATTERN = /(?<!\d)(\d{1,2})\s*월\s*(\d{1,2})(?!\d)\s*일?/;
+const YEAR_LAST_PATTERN = /(?<!\d)(\d{1,2})[/.-](\d{1,2})[/.-](\d{4}|\d{2})(?!\d)/;
+const SHORT_DATE_PATTERN = /(?<!\d)(\d{1,2})[/.-](\d{1,2})(?!\d)/;
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const toIsoDate = (year: number, month: number, day: number): string => `${year}-${pad(month)}-${pad(day)}`;
+
+/**
+ * 연도 없는 월/일의 연도 결정
+ * 기준일 전후 1년 중 기준일과 가장 가까운 날짜를 선택 (12월 발주의 1월 납기는 다음 해)
+ */
+export function resolveDeliveryYear(month: number, day: number, referenceDate?: string): string {
+  const reference = referenceDate && isValidIsoDate(referenceDate)
+    ? new Date(`${referenceDate}T00:00:00Z`)
+    : new Date(`${new Date().toISOString().split('T')[0]}T00:00:00Z`);
+  const baseYear = reference.getUTCFullYear();
+
+  let best: { date: string; distance: number } | null = null;
+  for (const year of [baseYear - 1, baseYear, baseYear + 1]) {
+    const candidate = toIsoDate(year, month, day);
+    if (!isValidIsoDate(candidate)) continue;
+
+    const distance = Math.abs(new Date(`${candidate}T00:00:00Z`).getTime() - reference.getTime());
+    // 거리가 같으면 이후 날짜 우선
+    if (!best || distance <= best.distance) {
+      best = { date: candidate, distance };
+    }
+  }
+
+  return best?.date ?? '';
+}
+
+// 날짜를 뺀 나머지 문구 정리 (괄호/구분 기호 제거)
+const cleanAnnotation = (text: string): string => text
+  .replace(/[()[\]{}<>]/g, ' ')
+  .replace(/^[\s,/~:·-]+|[\s,/~:·-]+$/g, '')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+/**
+ * 납기일 값 해석
+ * 날짜 부분만 YYYY-MM-DD로 변환하고 나머지 문구는 annotation으로 분리
+ * 지원 형식: 엑셀 날짜 시리얼, YYYY-MM-DD, YYYY.MM.DD, M/D/YY, M/D, M.D, M-D, M월 D일 (앞뒤 문구 허용)
+ */
+export function parseDeliveryDate(value: unknown, options: DeliveryDateParseOptions = {}): DeliveryDateParseResult {
+  const { orderDate, dateOrder = 'month_first' } = options;
+
+  // 엑셀 날짜 시리얼 넘버인 경우 (숫자)
+  if (typeof value === 'number') {
+    const raw = String(value);
+    if (!Number.isFinite(value) || value <= 0) return { date: '', annotation: '', raw };
+    const date = new Date(EXCEL_EPOCH_UTC + Math.floor(value) * DAY_MS).toISOString().split('T')[0];
+    return { date, annotation: '', raw };
+  }
+
+  const raw = String(value ?? '').trim();
+  if (!raw) return { date: '', annotation: '', raw };
+
+  const withAnnotation = (date: string, match: RegExpMatchArray): DeliveryDateParseResult => {
+    if (!date || !isValidIsoDate(date)) return { date: '', annotation: '', raw };
+    const index = match.index ?? 0;
+    const annotation = cleanAnnotation(`${raw.slice(0, index)} ${raw.slice(index + match[0].length)}`);
+    return { date, annotation, raw };
+  };
+
+  const orderMonthDay = (first: string, second: string): [number, number] => (
+    dateOrder === 'day_first'
+      ? [Number(second), Number(first)]
+      : [Number(first), Number(second)]
+  );
+
+  const fullMatch = raw.match(FULL_DATE_PATTERN);
+  if (fullMatch) {
+    return withAnnotation(toIsoDate(Number(fullMatch[1]), Number(fullMatch[2]), Number(fullMatch[3])), fullMatch);
+  }
+
+  const koreanMatch = raw.match(KOREAN_DATE_PATTERN);
+  if (koreanMatch) {
+    return withAnnotation(resolveDeliveryYear(Number(koreanMatch[1]), Number(koreanMatch[2]), orderDate), koreanMatch);
+  }
+
+  const yearLastMatch = raw.match(YEAR_LAST_PATTERN);
+  if (yearLastMatch) {
+    const [month, day] = orderMonthDay(yearLastMatch[1], yearLastMatch[2]);
+    const year = yearLastMatch[3].length === 2 ? 2000 + Number(yearLastMatch[3]) : Number(yearLastMatch[3]);
+    return withAnnotation(toIsoDate(year, month, day), yearLastMatch);
+  }
+
+  const shortMatch = raw.match(SHORT_DATE_PATTERN);
+  if (shortMatch) {
+    const [month, day] = orderMonthDay(shortMatch[1], shortMatch[2]);
+    return withAnnotation(resolveDeliveryYear(month, day, orderDate), shortMatch);
+  }
+
+  // 날짜 부분이 없으면 해석 불가 (미리보기에서 오류로 표시)
+  return { date: '', annotation: '', raw };
+}
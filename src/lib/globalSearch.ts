@@ -0,0 +1,85 @@
+/**
+ * 통합 검색
+ * 발주/BOM/납품/자재정산/자재환입을 한 번에 검색하고, 결과를 화면별로 묶어 해당 행으로 이동할 수 있게 함
+ */
+
+import { normalizeSearchTerm } from '@/lib/orderListQuery';
+
+export type GlobalSearchGroupId =
+  | 'orders'
+  | 'bom_items'
+  | 'delivery_items'
+  | 'material_settlements'
+  | 'material_returns';
+
+// 결과 표시 순서
+export const GLOBAL_SEARCH_GROUPS: GlobalSearchGroupId[] = [
+  'orders',
+  'bom_items',
+  'delivery_items',
+  'material_settlements',
+  'material_returns',
+];
+
+export const GLOBAL_SEARCH_GROUP_LABELS: Record<GlobalSearchGroupId, string> = {
+  orders: '발주',
+  bom_items: 'BOM 입고현황',
+  delivery_items: '납품서',
+  material_settlements: '자재정산',
+  material_returns: '자재환입',
+};
+
+// 한 글자 검색은 결과가 너무 많아 조회하지 않음
+export const GLOBAL_SEARCH_MIN_LENGTH = 2;
+
+// 그룹별 최대 결과 수
+export const GLOBAL_SEARCH_GROUP_LIMIT = 8;
+
+export interface GlobalSearchResult {
+  group: GlobalSearchGroupId;
+  id: string;
+  orderId: string | null; // 연결된 발주 (발주 결과는 자기 자신)
+  orderSearch: string | null; // 발주 목록에서 연결된 발주를 찾을 검색어 (PO번호 > 품목코드 > 품목명)
+  title: string;
+  subtitle: string;
+  matchedField: string | null; // 검색어와 일치한 항목 이름 (예: LOT번호)
+  matchedValue: string | null;
+  vendorName: string | null;
+}
+
+export interface GlobalSearchGroup {
+  id: GlobalSearchGroupId;
+  label: string;
+  results: GlobalSearchResult[];
+}
+
+export const isSearchableTerm = (search: string): boolean =>
+  normalizeSearchTerm(search).length >= GLOBAL_SEARCH_MIN_LENGTH;
+
+/**
+ * 검색어와 일치한 첫 번째 항목 (대소문자 무시)
+ * @param fields [항목 이름, 값] 목록 (우선순위 순)
+ */
+export function findMatchedField(
+  fields: [string, string | null | undefined][],
+  search: string
+): { field: string; value: string } | null {
+  const term = normalizeSearchTerm(search).toLowerCase();
+  if (!term) return null;
+
+  const matched = fields.find(([, value]) => (value ?? '').toLowerCase().includes(term));
+  return matched ? { field: matched[0], value: matched[1] as string } : null;
+}
+
+/**
+ * 결과를 그룹 순서대로 묶음 (결과가 없는 그룹은 제외)
+ */
+export function groupSearchResults(results: GlobalSearchResult[]): GlobalSearchGroup[] {
+  return GLOBAL_SEARCH_GROUPS
+    .map(id => ({
+      id,
+      label: GLOBAL_SEARCH_GROUP_LABELS[id],
+      results: results.filter(result => result.group === id),
+    }))
+    .filter(group => group.results.length > 0);
+}
@@ -0,0 +1,221 @@
+import type { Order, OrderAmendmentType } from '@/types/database';
+import type { ImportOrderUpdate } from '@/lib/importDiff';
+import { isCancelledOrder } from '@/lib/orderProgress';
+
+// 수정 발주: 파일 행마다 기존 주문을 찾아 변경/취소 여부 판정
+// split_conflict: 분할된 라인인데 파일 수량이 나눈 라인 합계 이하라 자동으로 반영할 수 없음
+export type AmendmentAction = 'change' | 'cancel' | 'unchanged' | 'unmatched' | 'split_conflict';
+
+export type AmendmentMatchMethod = 'po' | 'key';
+
+export interface AmendmentRowCandidate {
+  vendorId: string;
+  productCode: string;
+  poNumber: string;
+  itemNumber: string;
+  quantity: number;
+  deliveryDate: string | null;
+  isCancellation: boolean;
+}
+
+export interface AmendmentDiff {
+  action: AmendmentAction;
+  existing: Order | null;
+  matchedBy: AmendmentMatchMethod | null;
+  splitParts: Order[]; // existing에서 분할로 나간 라인 (취소되지 않은 것만)
+  changes: string[];
+}
+
+export const AMENDMENT_ACTION_LABELS: Record<AmendmentAction, string> = {
+  change: '변경',
+  cancel: '취소',
+  unchanged: '변경 없음',
+  unmatched: '기존 주문 없음',
+  split_conflict: '분할 라인 확인',
+};
+
+export const AMENDMENT_MATCH_LABELS: Record<AmendmentMatchMethod, string> = {
+  po: 'PO 번호',
+  key: '외주처+제품코드+발주일',
+};
+
+// 변경구분 열에 이 문구가 포함되면 취소 행
+const CANCELLATION_MARKERS = ['취소', '삭제', 'cancel', 'delete'];
+
+/**
+ * 변경구분 값이 취소를 뜻하는지 확인
+ */
+export function isCancellationMarker(value: string): boolean {
+  const normalized = value.trim().toLowerCase();
+  return normalized !== '' && CANCELLATION_MARKERS.some(marker => normalized.includes(marker));
+}
+
+/**
+ * PO 번호 기준 매칭 키 (PO 번호가 없으면 null, 항번은 없어도 됨)
+ */
+export function buildPoMatchKey(poNumber: string | null, itemNumber: string | null): string | null {
+  const po = (poNumber ?? '').trim();
+  if (!po) return null;
+  return [po, (itemNumber ?? '').trim()].join('|');
+}
+
+/**
+ * PO 번호가 없을 때의 매칭 키 (외주처 + 제품코드 + 발주일, 납기일은 바뀔 수 있으므로 제외)
+ */
+export function buildAmendmentMatchKey(vendorId: string, productCode: string | null, orderDate: string): string {
+  return [vendorId, (productCode ?? '').trim(), orderDate].join('|');
+}
+
+/**
+ * 분할로 만든 라인일 수 있는 주문 ID (PO 번호+항번 또는 외주처+제품코드+발주일이 다른 주문과 겹치는 주문)
+ * 계보는 이 주문들만 조회
+ */
+export function findSplitCandidateIds(orders: Order[]): string[] {
+  const counts = new Map<string, number>();
+  const keysOf = (order: Order): string[] => [
+    `po:${buildPoMatchKey(order.po_number, order.item_number) ?? order.id}`,
+    `key:${buildAmendmentMatchKey(order.vendor_id, order.product_code, order.order_date)}`,
+  ];
+
+  orders.forEach(order => keysOf(order).forEach(key => counts.set(key, (counts.get(key) ?? 0) + 1)));
+  return orders
+    .filter(order => keysOf(order).some(key => (counts.get(key) ?? 0) > 1))
+    .map(order => order.id);
+}
+
+const formatQuantity = (value: number): string => value.toLocaleString();
+
+const sumQuantity = (orders: Order[]): number => orders.reduce((sum, order) => sum + order.quantity, 0);
+
+/**
+ * 수정 발주 행과 기존 주문 대응
+ * PO 번호(+항번)가 있으면 우선 사용하고, 없거나 찾지 못하면 외주처 + 제품코드 + 발주일로 찾음
+ * 같은 키의 기존 주문이 여러 건이면 파일 행 순서대로 하나씩 대응
+ * 분할로 만든 라인(splitSources: 라인 ID → 원 라인 ID)은 PO 번호/항번이 원 라인과 같으므로 따로 대응하지 않고
+ * 원 라인에 묶음: 파일 수량은 나눈 라인까지 합친 수량으로 보고 차이는 원 라인에 반영, 취소는 나눈 라인도 함께 취소
+ */
+export function matchAmendmentRows(
+  rows: AmendmentRowCandidate[],
+  existingOrders: Order[],
+  orderDate: string,
+  splitSources: Map<string, string> = new Map()
+): AmendmentDiff[] {
+  const poIndex = new Map<string, Order[]>();
+  const keyIndex = new Map<string, Order[]>();
+  const byId = new Map(existingOrders.map(order => [order.id, order]));
+
+  // 함께 조회된 가장 위의 원 라인 (분할을 거듭한 라인도 처음 라인으로)
+  const rootOf = (order: Order): Order => {
+    const visited = new Set<string>();
+    let current = order;
+    while (!visited.has(current.id)) {
+      visited.add(current.id);
+      const source = byId.get(splitSources.get(current.id) ?? '');
+      if (!source) break;
+      current = source;
+    }
+    return current;
+  };
+
+  const splitPartsByRoot = new Map<string, Order[]>();
+  const roots = existingOrders.filter(order => {
+    const root = rootOf(order);
+    if (root.id === order.id) return true;
+    if (!isCancelledOrder(order)) {
+      splitPartsByRoot.set(root.id, [...(splitPartsByRoot.get(root.id) ?? []), order]);
+    }
+    return false;
+  });
+
+  roots.forEach(order => {
+    const poKey = buildPoMatchKey(order.po_number, order.item_number);
+    if (poKey) {
+      poIndex.set(poKey, [...(poIndex.get(poKey) ?? []), order]);
+    }
+    if (order.order_date === orderDate) {
+      const key = buildAmendmentMatchKey(order.vendor_id, order.product_code, order.order_date);
+      keyIndex.set(key, [...(keyIndex.get(key) ?? []), order]);
+    }
+  });
+
+  const used = new Set<string>();
+  const take = (candidates: Order[] | undefined): Order | null => {
+    const order = candidates?.find(candidate => !used.has(candidate.id)) ?? null;
+    if (order) used.add(order.id);
+    return order;
+  };
+
+  return rows.map(row => {
+    const poKey = buildPoMatchKey(row.poNumber, row.itemNumber);
+    const byPo = poKey ? take(poIndex.get(poKey)) : null;
+    const existing = byPo ?? take(keyIndex.get(buildAmendmentMatchKey(row.vendorId, row.productCode, orderDate)));
+
+    if (!existing) {
+      return { action: 'unmatched', existing: null, matchedBy: null, splitParts: [], changes: [] };
+    }
+
+    const matchedBy: AmendmentMatchMethod = byPo ? 'po' : 'key';
+    const splitParts = splitPartsByRoot.get(existing.id) ?? [];
+    const splitNote = splitParts.length > 0 ? ` (분할 라인 ${splitParts.length}건 포함)` : '';
+
+    if (row.isCancellation) {
+      return isCancelledOrder(existing) && splitParts.length === 0
+        ? { action: 'unchanged', existing, matchedBy, splitParts, changes: ['이미 취소된 주문'] }
+        : { action: 'cancel', existing, matchedBy, splitParts, changes: [`주문 취소${splitNote}`] };
+    }
+
+    // 원 라인에 남길 수량 (나눈 라인 수량은 그대로 둠)
+    const splitQuantity = sumQuantity(splitParts);
+    const quantity = row.quantity - splitQuantity;
+    if (splitParts.length > 0 && quantity <= 0) {
+      return {
+        action: 'split_conflict',
+        existing,
+        matchedBy,
+        splitParts,
+        changes: [`수량 ${formatQuantity(row.quantity)}이 분할 라인 ${splitParts.length}건의 합계 ${formatQuantity(splitQuantity)} 이하`],
+      };
+    }
+
+    const changes: string[] = [];
+    if (existing.quantity !== quantity) {
+      changes.push(splitParts.length > 0
+        ? `수량 ${formatQuantity(existing.quantity + splitQuantity)} → ${formatQuantity(row.quantity)} (원 라인 ${formatQuantity(existing.quantity)} → ${formatQuantity(quantity)})`
+        : `수량 ${formatQuantity(existing.quantity)} → ${formatQuantity(row.quantity)}`);
+    }
+    if ((existing.delivery_date ?? null) !== row.deliveryDate) {
+      changes.push(`납기일 ${existing.delivery_date ?? '없음'} → ${row.deliveryDate ?? '없음'}`);
+    }
+    if (isCancelledOrder(existing)) {
+      changes.push('취소 해제');
+    }
+
+    return changes.length > 0
+      ? { action: 'change', existing, matchedBy, splitParts, changes }
+      : { action: 'unchanged', existing, matchedBy, splitParts, changes };
+  });
+}
+
+/**
+ * 변경/취소 판정 결과를 주문 수정 항목으로 변환 (변경 없음/기존 주문 없음/분할 라인 확인은 빈 배열)
+ * 변경은 원 라인에만 반영하고, 취소는 분할 라인까지 함께 취소
+ */
+export function toAmendmentUpdates(row: AmendmentRowCandidate, diff: AmendmentDiff): ImportOrderUpdate[] {
+  const { existing } = diff;
+  if (!existing) return [];
+
+  if (diff.action === 'cancel') {
+    const poStatus: OrderAmendmentType = 'cancelled';
+    return [existing, ...diff.splitParts]
+      .filter(order => !isCancelledOrder(order))
+      .map(order => ({ id: order.id, data: { po_status: poStatus } }));
+  }
+
+  if (diff.action !== 'change') return [];
+
+  const poStatus: OrderAmendmentType = 'changed';
+  return [{
+    id: existing.id,
+    data: { quantity: row.quantity - sumQuantity(diff.splitParts), delivery_date: row.deliveryDate, po_status: poStatus },
+  }];
+}
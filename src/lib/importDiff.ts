@@ -0,0 +1,89 @@
+import type { Order, OrderUpdate } from '@/types/database';
+import { isCancelledOrder } from '@/lib/orderProgress';
+
+export type ImportRowStatus = 'new' | 'identical' | 'changed';
+
+export interface ImportRowCandidate {
+  vendorId: string;
+  productCode: string;
+  productName: string;
+  quantity: number;
+  deliveryDate: string | null;
+}
+
+export interface ImportRowDiff {
+  status: ImportRowStatus;
+  existing: Order | null;
+  changes: string[];
+}
+
+export interface DuplicateHandling {
+  identical: 'skip' | 'insert';
+  changed: 'update' | 'skip' | 'insert';
+}
+
+export interface ImportOrderUpdate {
+  id: string;
+  data: OrderUpdate;
+}
+
+export const DEFAULT_DUPLICATE_HANDLING: DuplicateHandling = {
+  identical: 'skip',
+  changed: 'update',
+};
+
+export const IMPORT_ROW_STATUS_LABELS: Record<ImportRowStatus, string> = {
+  new: '신규',
+  identical: '동일',
+  changed: '변경',
+};
+
+/**
+ * 중복 판정 키 (외주처 + 제품코드 + 발주일 + 납기일)
+ */
+export function buildOrderMatchKey(
+  vendorId: string,
+  productCode: string | null,
+  orderDate: string,
+  deliveryDate: string | null
+): string {
+  return [vendorId, (productCode ?? '').trim(), orderDate, deliveryDate ?? ''].join('|');
+}
+
+/**
+ * 업로드 행과 기존 주문 비교
+ * 같은 키의 기존 주문이 여러 건이면 파일 행 순서대로 하나씩 대응시키고, 남는 행은 신규로 처리
+ * 취소된 주문과는 대응하지 않음 (다시 발주된 행은 신규로 등록되어 목록에 보임)
+ */
+export function diffImportRows(
+  rows: ImportRowCandidate[],
+  existingOrders: Order[],
+  orderDate: string
+): ImportRowDiff[] {
+  const existingByKey = new Map<string, Order[]>();
+  existingOrders.filter(order => !isCancelledOrder(order)).forEach(order => {
+    const key = buildOrderMatchKey(order.vendor_id, order.product_code, order.order_date, order.delivery_date);
+    const list = existingByKey.get(key) ?? [];
+    list.push(order);
+    existingByKey.set(key, list);
+  });
+
+  return rows.map(row => {
+    const key = buildOrderMatchKey(row.vendorId, row.productCode, orderDate, row.deliveryDate);
+    const existing = existingByKey.get(key)?.shift() ?? null;
+
+    if (!existing) {
+      return { status: 'new', existing: null, changes: [] };
+    }
+
+    const changes: string[] = [];
+    if (existing.quantity !== row.quantity) {
+      changes.push(`수량 ${existing.quantity.toLocaleString()} → ${row.quantity.toLocaleString()}`);
+    }
+    if (existing.product_name !== row.productName) {
+      changes.push(`품명 ${existing.product_name} → ${row.productName}`);
+    }
+
+    return { status: changes.length > 0 ? 'changed' : 'identical', existing, changes };
+  });
+}
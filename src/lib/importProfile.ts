@@ -0,0 +1,233 @@
+import type {
+  ImportField,
+  ImportColumnMapping,
+  ImportProfile,
+  ImportValueTransforms,
+} from '@/types/database';
+
+export interface WorkbookSheets {
+  names: string[];
+  rows: Record<string, unknown[][]>;
+  // 행별 원본 줄 번호 (CSV/TSV는 빈 줄을 건너뛰므로 행 인덱스와 다름, 없으면 인덱스 + 1)
+  lineNumbers?: Record<string, number[]>;
+}
+
+export interface HeaderMatch {
+  headerRowIndex: number;
+  columns: Partial<Record<ImportField, number>>;
+}
+
+export interface ProfileDetection {
+  profile: ImportProfile;
+  sheetName: string;
+  header: HeaderMatch;
+  score: number;
+}
+
+export const IMPORT_FIELDS: ImportField[] = [
+  'vendor',
+  'product_name',
+  'product_code',
+  'quantity',
+  'delivery_date',
+  'po_number',
+  'item_number',
+  'change_type',
+];
+
+export const REQUIRED_IMPORT_FIELDS: ImportField[] = ['vendor', 'product_name'];
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  vendor: '외주처',
+  product_name: '품명',
+  product_code: '제품코드',
+  quantity: '수량',
+  delivery_date: '납기일',
+  po_number: 'PO 번호',
+  item_number: '항번',
+  change_type: '변경구분',
+};
+
+// DB에 프로필이 하나도 없을 때 사용하는 기존 양식
+export const DEFAULT_IMPORT_PROFILE: ImportProfile = {
+  id: 'default',
+  name: '기본 양식',
+  description: '외주출고 제출자료 기본 양식',
+  sheet_name: null,
+  sheet_index: 1,
+  header_row: null,
+  column_mapping: {
+    vendor: ['외주처'],
+    product_name: ['품명'],
+    product_code: ['sap', '제품코드', '=코드'],
+    quantity: ['수량'],
+    delivery_date: ['납기', '요청일', 'delivery'],
+    po_number: ['발주번호', 'po번호', 'po no', '=po'],
+    item_number: ['항번', '품목번호', 'item no', '=item'],
+    change_type: ['변경구분', '취소여부', '=구분'],
+  },
+  value_transforms: { quantity_multiplier: 1, date_order: 'month_first' },
+  is_active: true,
+  created_by: null,
+  created_at: '',
+  updated_at: '',
+};
+
+const HEADER_SCAN_LIMIT = 30;
+
+function normalizeCell(cell: unknown): string {
+  return String(cell ?? '').trim().toLowerCase();
+}
+
+function matchesKeyword(cellStr: string, keyword: string): boolean {
+  const kw = keyword.trim().toLowerCase();
+  if (!kw) return false;
+  if (kw.startsWith('=')) return cellStr === kw.slice(1);
+  return cellStr.includes(kw);
+}
+
+/**
+ * 프로필의 시트 선택 규칙으로 시트 이름 결정
+ * sheet_name이 있으면 우선, 없거나 존재하지 않으면 sheet_index, 범위 밖이면 첫 번째 시트
+ */
+export function resolveSheetName(sheetNames: string[], profile: ImportProfile): string | null {
+  if (sheetNames.length === 0) return null;
+
+  if (profile.sheet_name) {
+    const byName = sheetNames.find(n => n.trim() === profile.sheet_name!.trim());
+    if (byName) return byName;
+  }
+
+  const index = profile.sheet_index ?? 0;
+  return sheetNames[index] ?? sheetNames[0];
+}
+
+/**
+ * 한 행에서 열 매핑 키워드와 일치하는 열 인덱스 찾기
+ */
+export function matchHeaderRow(
+  row: unknown[],
+  mapping: ImportColumnMapping
+): Partial<Record<ImportField, number>> {
+  const columns: Partial<Record<ImportField, number>> = {};
+
+  row.forEach((cell, colIdx) => {
+    const cellStr = normalizeCell(cell);
+    if (!cellStr) return;
+
+    for (const field of IMPORT_FIELDS) {
+      if (columns[field] !== undefined) continue;
+      const keywords = mapping[field] ?? [];
+      if (keywords.some(kw => matchesKeyword(cellStr, kw))) {
+        columns[field] = colIdx;
+      }
+    }
+  });
+
+  return columns;
+}
+
+function hasRequiredFields(columns: Partial<Record<ImportField, number>>): boolean {
+  return REQUIRED_IMPORT_FIELDS.every(field => columns[field] !== undefined);
+}
+
+/**
+ * 헤더 행 찾기
+ * header_row가 지정되어 있으면 해당 행만, 아니면 상위 행을 순서대로 검사
+ */
+export function findHeaderRow(rows: unknown[][], profile: ImportProfile): HeaderMatch | null {
+  if (profile.header_row !== null && profile.header_row !== undefined) {
+    const columns = matchHeaderRow(rows[profile.header_row] ?? [], profile.column_mapping);
+    return hasRequiredFields(columns) ? { headerRowIndex: profile.header_row, columns } : null;
+  }
+
+  const limit = Math.min(rows.length, HEADER_SCAN_LIMIT);
+  for (let i = 0; i < limit; i++) {
+    const row = rows[i];
+    if (!row) continue;
+    const columns = matchHeaderRow(row, profile.column_mapping);
+    if (hasRequiredFields(columns)) {
+      return { headerRowIndex: i, columns };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 파일에 가장 잘 맞는 프로필 자동 감지
+ * 매칭된 열 수가 많을수록, 시트 이름이 정확히 일치할수록 높은 점수
+ */
+export function detectImportProfile(
+  sheets: WorkbookSheets,
+  profiles: ImportProfile[]
+): ProfileDetection | null {
+  let best: ProfileDetection | null = null;
+
+  for (const profile of profiles) {
+    const detection = evaluateProfile(sheets, profile);
+    if (detection && (!best || detection.score > best.score)) {
+      best = detection;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * 단일 프로필을 파일에 적용해본 결과 (맞지 않으면 null)
+ */
+export function evaluateProfile(sheets: WorkbookSheets, profile: ImportProfile): ProfileDetection | null {
+  const sheetName = resolveSheetName(sheets.names, profile);
+  if (!sheetName) return null;
+
+  const header = findHeaderRow(sheets.rows[sheetName] ?? [], profile);
+  if (!header) return null;
+
+  let score = Object.keys(header.columns).length;
+  if (profile.sheet_name && profile.sheet_name.trim() === sheetName.trim()) score += 2;
+  if (profile.header_row !== null && profile.header_row !== undefined) score += 1;
+
+  return { profile, sheetName, header, score };
+}
+
+/**
+ * 수량 값 변환 (천 단위 구분 기호와 단위 문자는 무시하고 부호/소수점은 살린 뒤 배수 적용)
+ * 음수/소수는 그대로 두어 검증에서 걸러지게 함 (예: "-5" → -5, "1,234.5" → 1234.5, "1,000개" → 1000)
+ */
+export function transformQuantity(raw: unknown, transforms: ImportValueTransforms): number {
+  const match = String(raw ?? '').replace(/[,\s]/g, '').match(/[-−]?\d+(?:\.\d+)?/);
+  const quantity = match ? Number(match[0].replace('−', '-')) : 0;
+  const multiplier = transforms.quantity_multiplier || 1;
+  // 배수 적용 시 부동소수점 오차로 정수가 소수가 되지 않도록 자릿수 정리
+  return Number((quantity * multiplier).toFixed(6));
+}
+
+/**
+ * 제품코드 값 변환 (공백 제거 후 제거 패턴 적용)
+ */
+export function transformProductCode(raw: unknown, transforms: ImportValueTransforms): string {
+  let code = String(raw ?? '').trim();
+  if (transforms.product_code_remove_pattern) {
+    try {
+      code = code.replace(new RegExp(transforms.product_code_remove_pattern, 'g'), '');
+    } catch {
+      code = code.split(transforms.product_code_remove_pattern).join('');
+    }
+  }
+  return code;
+}
+
+/**
+ * 열 인덱스를 엑셀 열 문자로 변환 (0 -> A, 26 -> AA)
+ */
+export function columnLetter(index: number): string {
+  let letter = '';
+  let n = index + 1;
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    letter = String.fromCharCode(65 + rem) + letter;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letter;
+}
@@ -0,0 +1,116 @@
+import type { ImportReport, ImportReportRow, ImportReportRowResult, ImportSkipReason } from '@/types/database';
+import type { ImportRowIssue } from '@/lib/importValidation';
+
+export const IMPORT_SKIP_REASON_LABELS: Record<ImportSkipReason, string> = {
+  unknown_vendor: '외주처 미확인',
+  product_code_filter: '제품코드 규칙 제외',
+  blank_product: '품명 없음',
+  zero_quantity: '수량 0 이하 또는 소수',
+  bad_date: '납기일 오류',
+  duplicate: '기존 주문과 중복',
+  unmatched_order: '기존 주문 없음',
+  split_quantity: '분할 라인 수량 확인 필요',
+  manual: '사용자 제외',
+};
+
+export const IMPORT_REPORT_RESULT_LABELS: Record<ImportReportRowResult, string> = {
+  inserted: '등록',
+  updated: '수정',
+  cancelled: '취소',
+  skipped: '건너뜀',
+};
+
+// 미리보기 검증 오류 → 리포트 건너뜀 사유
+const ISSUE_SKIP_REASONS: Record<ImportRowIssue, ImportSkipReason> = {
+  unknown_vendor: 'unknown_vendor',
+  excluded_product_code: 'product_code_filter',
+  invalid_quantity: 'zero_quantity',
+  invalid_delivery_date: 'bad_date',
+  delivery_before_order: 'bad_date',
+};
+
+/**
+ * 미리보기에서 제외한 행의 건너뜀 사유 (검증 오류가 있으면 첫 번째 오류, 없으면 사용자 제외)
+ */
+export function skipReasonForIssues(issues: ImportRowIssue[]): ImportSkipReason {
+  return issues.length > 0 ? ISSUE_SKIP_REASONS[issues[0]] : 'manual';
+}
+
+/**
+ * 행별 처리 결과로 업로드 리포트 생성
+ * 행은 시트 등장 순서, 시트 안에서는 행 번호 순으로 정렬
+ */
+export function buildImportReport(
+  rows: ImportReportRow[],
+  warnings: string[] = [],
+  generatedAt: string = new Date().toISOString()
+): ImportReport {
+  const sheetOrder = new Map<string, number>();
+  rows.forEach(row => {
+    const key = row.sheet_name ?? '';
+    if (!sheetOrder.has(key)) sheetOrder.set(key, sheetOrder.size);
+  });
+
+  const sortedRows = [...rows].sort((a, b) => (
+    (sheetOrder.get(a.sheet_name ?? '') ?? 0) - (sheetOrder.get(b.sheet_name ?? '') ?? 0)
+    || a.row_number - b.row_number
+  ));
+
+  const skippedByReason: Partial<Record<ImportSkipReason, number>> = {};
+  let inserted = 0;
+  let updated = 0;
+  let cancelled = 0;
+  let skipped = 0;
+
+  sortedRows.forEach(row => {
+    if (row.result === 'inserted') {
+      inserted += 1;
+    } else if (row.result === 'updated') {
+      updated += 1;
+    } else if (row.result === 'cancelled') {
+      cancelled += 1;
+    } else {
+      skipped += 1;
+      const reason = row.reason ?? 'manual';
+      skippedByReason[reason] = (skippedByReason[reason] ?? 0) + 1;
+    }
+  });
+
+  return {
+    total_rows: sortedRows.length,
+    accepted_rows: inserted + updated + cancelled,
+    inserted,
+    updated,
+    cancelled,
+    skipped,
+    skipped_by_reason: skippedByReason,
+    rows: sortedRows,
+    warnings,
+    generated_at: generatedAt,
+  };
+}
+
+// 리포트 엑셀 다운로드 컬럼 (exportToExcel 형식)
+export const IMPORT_REPORT_EXCEL_COLUMNS = [
+  { key: 'sheet_name', label: '시트' },
+  { key: 'row_number', label: '행' },
+  { key: 'result', label: '결과' },
+  { key: 'reason', label: '사유' },
+  { key: 'detail', label: '상세' },
+  { key: 'vendor_name', label: '외주처' },
+  { key: 'product_code', label: '제품코드' },
+  { key: 'product_name', label: '품명' },
+  { key: 'quantity', label: '수량' },
+  { key: 'delivery_date', label: '납기일' },
+];
+
+/**
+ * 리포트 행을 엑셀 다운로드용 레코드로 변환 (결과/사유는 한글 표기)
+ */
+export function importReportToExcelRows(report: ImportReport): Record<string, unknown>[] {
+  return report.rows.map(row => ({
+    ...row,
+    result: IMPORT_REPORT_RESULT_LABELS[row.result],
+    reason: row.reason ? IMPORT_SKIP_REASON_LABELS[row.reason] : '',
+  }));
+}
@@ -0,0 +1,65 @@
+export type ImportRowIssue =
+  | 'unknown_vendor'
+  | 'excluded_product_code'
+  | 'invalid_quantity'
+  | 'invalid_delivery_date'
+  | 'delivery_before_order';
+
+export interface ImportRowValidationInput {
+  vendorId: string | null;
+  productCodeIncluded: boolean;
+  quantity: number;
+  deliveryDate: string;
+  deliveryDateRaw: string;
+}
+
+export const IMPORT_ROW_ISSUE_LABELS: Record<ImportRowIssue, string> = {
+  unknown_vendor: '외주처 미확인',
+  excluded_product_code: '제품코드 규칙상 제외 대상',
+  invalid_quantity: '수량 0 이하 또는 소수',
+  invalid_delivery_date: '납기일 해석 불가',
+  delivery_before_order: '납기일이 발주일 이전',
+};
+
+/**
+ * YYYY-MM-DD 문자열이 실제 존재하는 날짜인지 확인 (예: 2025-02-30은 불가)
+ */
+export function isValidIsoDate(value: string): boolean {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return false;
+
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/**
+ * 업로드 미리보기 행 검증
+ * 수량은 1 이상의 정수여야 함 (음수/소수는 오류)
+ * 납기일은 비어 있으면 허용하고, 값이 있는데 해석하지 못했거나 발주일보다 이르면 오류
+ */
+export function validateImportRow(row: ImportRowValidationInput, orderDate: string): ImportRowIssue[] {
+  const issues: ImportRowIssue[] = [];
+
+  if (!row.vendorId) {
+    issues.push('unknown_vendor');
+  }
+  if (!row.productCodeIncluded) {
+    issues.push('excluded_product_code');
+  }
+  if (!Number.isInteger(row.quantity) || row.quantity <= 0) {
+    issues.push('invalid_quantity');
+  }
+
+  if (row.deliveryDate) {
+    if (!isValidIsoDate(row.deliveryDate)) {
+      issues.push('invalid_delivery_date');
+    } else if (orderDate && row.deliveryDate < orderDate) {
+      issues.push('delivery_before_order');
+    }
+  } else if (row.deliveryDateRaw.trim()) {
+    issues.push('invalid_delivery_date');
+  }
+
+  return issues;
+}
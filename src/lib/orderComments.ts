@@ -0,0 +1,99 @@
+/**
+ * 주문 댓글 스레드
+ * 첨부파일 검사/저장 경로, 답글 묶기, 스레드별 댓글 수 색인
+ */
+
+import type {
+  CommentThreadSummary,
+  OrderCommentWithAuthor,
+} from '@/types/database';
+
+export const COMMENT_ATTACHMENT_MAX_FILES = 5;
+export const COMMENT_ATTACHMENT_MAX_BYTES = 10 * 1024 * 1024;
+
+// 스레드 위치 (deliveryItemId가 없으면 주문/PO 라인 스레드)
+export interface CommentThreadRef {
+  orderId: string;
+  deliveryItemId?: string | null;
+}
+
+export interface CommentThreadNode {
+  comment: OrderCommentWithAuthor;
+  replies: OrderCommentWithAuthor[];
+}
+
+/**
+ * 첨부파일 검사 (문제가 없으면 null)
+ */
+export const validateCommentAttachments = (files: File[]): string | null => {
+  if (files.length > COMMENT_ATTACHMENT_MAX_FILES) {
+    return `첨부파일은 ${COMMENT_ATTACHMENT_MAX_FILES}개까지 올릴 수 있습니다.`;
+  }
+  const oversized = files.find(file => file.size > COMMENT_ATTACHMENT_MAX_BYTES);
+  if (oversized) {
+    return `${oversized.name}: 파일 하나는 ${formatFileSize(COMMENT_ATTACHMENT_MAX_BYTES)}까지 올릴 수 있습니다.`;
+  }
+  return null;
+};
+
+/**
+ * 첨부파일 저장 경로 ({주문}/{댓글}/{순번}-{파일명})
+ * Storage 키에 쓸 수 없는 문자(한글 등)는 _로 바꾸고 원래 파일명은 댓글에 따로 보관
+ */
+export const buildCommentAttachmentPath = (
+  orderId: string,
+  commentId: string,
+  index: number,
+  fileName: string
+): string => `${orderId}/${commentId}/${index + 1}-${fileName.replace(/[^\w.-]+/g, '_')}`;
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes}B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)}KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+};
+
+/**
+ * 댓글을 작성순 스레드로 묶음 (답글의 답글도 최상위 댓글 아래에 시간순으로 둠)
+ */
+export const groupCommentThreads = (comments: OrderCommentWithAuthor[]): CommentThreadNode[] => {
+  const byId = new Map(comments.map(comment => [comment.id, comment]));
+  const findRootId = (comment: OrderCommentWithAuthor): string => {
+    let current = comment;
+    while (current.parent_id && byId.has(current.parent_id)) {
+      current = byId.get(current.parent_id)!;
+    }
+    return current.id;
+  };
+
+  const nodes = new Map<string, CommentThreadNode>();
+  const sorted = [...comments].sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+  sorted.forEach(comment => {
+    const rootId = findRootId(comment);
+    if (rootId === comment.id) {
+      nodes.set(comment.id, { comment, replies: [] });
+    } else {
+      nodes.get(rootId)?.replies.push(comment);
+    }
+  });
+
+  return Array.from(nodes.values());
+};
+
+/**
+ * 작성자 표시 이름 (외주처 포털에서 쓴 댓글은 외주처명)
+ */
+export const getCommentAuthorLabel = (comment: OrderCommentWithAuthor): string => {
+  if (comment.author_vendor) return comment.author_vendor.name;
+  const name = comment.author?.name || '알 수 없음';
+  return comment.author?.role === 'admin' ? `${name} (관리자)` : name;
+};
+
+/**
+ * 스레드 요약을 납품 항목 ID(납품 항목 스레드) 또는 주문 ID(주문 스레드)로 색인
+ */
+export const indexCommentSummaries = (
+  summaries: CommentThreadSummary[]
+): Record<string, CommentThreadSummary> =>
+  Object.fromEntries(summaries.map(summary => [summary.delivery_item_id ?? summary.order_id, summary]));
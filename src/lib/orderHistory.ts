@@ -0,0 +1,169 @@
+import type {
+  ApprovalStatus,
+  Json,
+  OrderHistoryEntryWithUser,
+  PurchaseOrderStatus,
+  User,
+} from '@/types/database';
+
+// 주문 필드 한글 이름 (목록에 없는 필드는 컬럼명 그대로 표시)
+export const ORDER_FIELD_LABELS: Record<string, string> = {
+  vendor_id: '외주처',
+  product_name: '품명',
+  product_code: '제품코드',
+  quantity: '수량',
+  delivery_date: '납기일',
+  order_date: '발주일',
+  is_completed: '완료 체크',
+  completed_at: '완료 시각',
+  notes: '특이사항',
+  po_number: 'PO 번호',
+  item_number: '항번',
+  unit: '단위',
+  unit_price: '단가',
+  currency: '통화',
+  price_unit: '가격 단위',
+  request_date: '요청일',
+  received_quantity: '기입고수량',
+  remaining_quantity: '미입고수량',
+  warehouse: '납품창고',
+  cosmax_comment: '고객사 코멘트',
+  customer_code: '고객사 코드',
+  po_status: 'PO 상태',
+  is_delivery_completed: '납품 완료',
+  packaging_image_url: '포장 이미지',
+  product_image_url: '제품 이미지',
+  approval_status: '승인 상태',
+  file_upload_id: '업로드 이력',
+  is_archived: '보관',
+};
+
+// 표시하지 않는 필드 (보관 시각/처리자는 이력 행의 변경 시각/사용자와 같으므로 보관 여부만 표시)
+const HIDDEN_ORDER_FIELDS = new Set(['archived_at', 'archived_by']);
+
+// 주문 등록/삭제 기록 (트리거가 행 전체를 스냅샷으로 남기며, 주문이 삭제되어도 이력은 유지됨)
+export const ORDER_CREATED_FIELD = 'order_created';
+export const ORDER_DELETED_FIELD = 'order_deleted';
+
+const ORDER_LIFECYCLE_LABELS: Record<string, string> = {
+  [ORDER_CREATED_FIELD]: '주문 등록',
+  [ORDER_DELETED_FIELD]: '주문 삭제',
+};
+
+const PO_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  pending: '대기',
+  confirmed: '확정',
+  changed: '변경',
+  completed: '완료',
+  cancelled: '취소',
+};
+
+const APPROVAL_STATUS_LABELS: Record<ApprovalStatus, string> = {
+  pending: '대기',
+  approved: '승인',
+  rejected: '반려',
+};
+
+export interface OrderHistoryChange {
+  field: string;
+  label: string;
+  from: string;
+  to: string;
+  snapshot?: string; // 등록/삭제 기록이면 그때의 주문 요약 (from/to 대신 표시)
+}
+
+// 한 번의 수정(같은 시각, 같은 사용자)에서 바뀐 필드 묶음
+export interface OrderHistoryEvent {
+  key: string;
+  changedAt: string;
+  changedBy: string | null;
+  user: Pick<User, 'name' | 'email'> | null;
+  changes: OrderHistoryChange[];
+}
+
+/**
+ * 이력 값 표시 문자열 (상태 코드는 한글, 수량은 천 단위 구분)
+ */
+export function formatOrderHistoryValue(field: string, value: Json): string {
+  if (value === null || value === undefined || value === '') return '없음';
+
+  if (typeof value === 'boolean') {
+    if (field === 'is_completed' || field === 'is_delivery_completed') return value ? '완료' : '미완료';
+    if (field === 'is_archived') return value ? '보관됨' : '사용 중';
+    return value ? '예' : '아니오';
+  }
+  if (typeof value === 'number') return value.toLocaleString();
+  if (typeof value === 'string') {
+    if (field === 'po_status') return PO_STATUS_LABELS[value as PurchaseOrderStatus] ?? value;
+    if (field === 'approval_status') return APPROVAL_STATUS_LABELS[value as ApprovalStatus] ?? value;
+    if (field === 'completed_at') return new Date(value).toLocaleString('ko-KR');
+    return value;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * 등록/삭제 스냅샷의 주문 요약 (품명 · 수량 · 발주일)
+ */
+export function describeOrderSnapshot(value: Json): string {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return '';
+
+  const snapshot = value as Record<string, Json>;
+  return [
+    snapshot.product_name,
+    typeof snapshot.quantity === 'number' ? `${snapshot.quantity.toLocaleString()}개` : null,
+    snapshot.order_date ? `발주일 ${snapshot.order_date}` : null,
+  ].filter(Boolean).join(' · ');
+}
+
+/**
+ * 필드별 이력 행을 수정 단위로 묶음 (입력 순서 유지, 보통 최신순)
+ * 트리거가 한 번의 UPDATE에서 기록한 행은 changed_at이 같음
+ * vendorNames가 있으면 외주처 변경은 ID 대신 이름으로 표시
+ */
+export function groupOrderHistory(
+  entries: OrderHistoryEntryWithUser[],
+  vendorNames: Record<string, string> = {}
+): OrderHistoryEvent[] {
+  const format = (field: string, value: Json): string => (
+    field === 'vendor_id' && typeof value === 'string' && vendorNames[value]
+      ? vendorNames[value]
+      : formatOrderHistoryValue(field, value)
+  );
+
+  const events = new Map<string, OrderHistoryEvent>();
+
+  entries.filter(entry => !HIDDEN_ORDER_FIELDS.has(entry.field_name)).forEach(entry => {
+    const key = `${entry.changed_at}|${entry.changed_by ?? ''}`;
+    let event = events.get(key);
+    if (!event) {
+      event = {
+        key,
+        changedAt: entry.changed_at,
+        changedBy: entry.changed_by,
+        user: entry.user,
+        changes: [],
+      };
+      events.set(key, event);
+    }
+    if (entry.field_name in ORDER_LIFECYCLE_LABELS) {
+      event.changes.push({
+        field: entry.field_name,
+        label: ORDER_LIFECYCLE_LABELS[entry.field_name],
+        from: '',
+        to: '',
+        snapshot: describeOrderSnapshot(entry.new_value ?? entry.old_value),
+      });
+      return;
+    }
+
+    event.changes.push({
+      field: entry.field_name,
+      label: ORDER_FIELD_LABELS[entry.field_name] ?? entry.field_name,
+      from: format(entry.field_name, entry.old_value),
+      to: format(entry.field_name, entry.new_value),
+    });
+  });
+
+  return Array.from(events.values());
+}
@@ -0,0 +1,69 @@
+/**
+ * 주문 포장/제품 이미지
+ * 이미지 종류별 주문 컬럼, 업로드 파일 검사, 저장 경로
+ */
+
+import type { Order, OrderImageType } from '@/types/database';
+
+export const ORDER_IMAGE_TYPES: OrderImageType[] = ['packaging', 'product'];
+
+export const ORDER_IMAGE_TYPE_LABELS: Record<OrderImageType, string> = {
+  packaging: '포장',
+  product: '제품',
+};
+
+export const ORDER_IMAGE_COLUMNS: Record<OrderImageType, 'packaging_image_url' | 'product_image_url'> = {
+  packaging: 'packaging_image_url',
+  product: 'product_image_url',
+};
+
+export const ORDER_IMAGE_ACCEPT = 'image/png,image/jpeg,image/webp,image/gif';
+export const ORDER_IMAGE_MAX_BYTES = 5 * 1024 * 1024;
+
+export interface OrderImage {
+  type: OrderImageType;
+  label: string;
+  url: string;
+}
+
+/**
+ * 주문에 붙은 이미지 (포장, 제품 순)
+ */
+export const getOrderImages = (
+  order: Pick<Order, 'packaging_image_url' | 'product_image_url'>
+): OrderImage[] =>
+  ORDER_IMAGE_TYPES.flatMap(type => {
+    const url = order[ORDER_IMAGE_COLUMNS[type]];
+    return url ? [{ type, label: ORDER_IMAGE_TYPE_LABELS[type], url }] : [];
+  });
+
+/**
+ * 업로드할 이미지 검사 (문제가 없으면 null)
+ */
+export const validateOrderImage = (file: File): string | null => {
+  if (!ORDER_IMAGE_ACCEPT.split(',').includes(file.type)) {
+    return 'PNG, JPG, WEBP, GIF 이미지만 올릴 수 있습니다.';
+  }
+  if (file.size > ORDER_IMAGE_MAX_BYTES) {
+    return `이미지는 ${ORDER_IMAGE_MAX_BYTES / 1024 / 1024}MB까지 올릴 수 있습니다.`;
+  }
+  return null;
+};
+
+/**
+ * 이미지 저장 경로
+ * 제품코드 기본 이미지는 products/{제품코드}/, 주문 이미지는 orders/{주문}/ 아래에 두고
+ * 교체해도 이전 URL을 쓰는 주문이 깨지지 않도록 파일명에 업로드 시각을 붙임
+ */
+export const buildOrderImagePath = (
+  scope: { orderId: string } | { productCode: string },
+  type: OrderImageType,
+  fileName: string,
+  uploadedAt: Date = new Date()
+): string => {
+  const folder = 'orderId' in scope
+    ? `orders/${scope.orderId}`
+    : `products/${scope.productCode.replace(/[^\w.-]+/g, '_')}`;
+  const extension = fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : 'png';
+  return `${folder}/${type}-${uploadedAt.getTime()}.${extension}`;
+};
@@ -0,0 +1,541 @@
+/**
+ * 발주 파일 가져오기 파이프라인
+ * 헤더 감지 → 행 파싱(납기일 해석) → 외주처 매칭/제품코드 규칙/행 검증 → 등록/수정/취소/건너뜀 결정
+ * React에 의존하지 않으므로 업로드 화면과 명령줄 가져오기(scripts/importOrders.ts)가 함께 사용
+ */
+
+import * as XLSX from 'xlsx';
+import type {
+  Vendor,
+  OrderInsert,
+  ImportProfile,
+  ProductCodeRule,
+  ImportReport,
+  ImportReportRow,
+  ImportReportRowResult,
+  ImportSkipReason,
+} from '@/types/database';
+import {
+  WorkbookSheets,
+  HeaderMatch,
+  detectImportProfile,
+  evaluateProfile,
+  findHeaderRow,
+  transformQuantity,
+  transformProductCode,
+} from '@/lib/importProfile';
+import { VendorIndex, resolveVendor } from '@/lib/vendorMatching';
+import { classifyProductCode, describeProductCodeRule } from '@/lib/productCodeRules';
+import {
+  DuplicateHandling,
+  ImportOrderUpdate,
+  ImportRowDiff,
+  IMPORT_ROW_STATUS_LABELS,
+} from '@/lib/importDiff';
+import { ImportRowIssue, validateImportRow, IMPORT_ROW_ISSUE_LABELS } from '@/lib/importValidation';
+import { parseDeliveryDate } from '@/lib/deliveryDate';
+import { buildImportReport, skipReasonForIssues } from '@/lib/importReport';
+import {
+  AmendmentDiff,
+  AmendmentRowCandidate,
+  isCancellationMarker,
+  toAmendmentUpdates,
+} from '@/lib/importAmendment';
+
+export interface ParsedImportRow {
+  rowKey: string; // 시트 + 행 번호 (여러 시트를 함께 가져올 때 행 식별용)
+  sheetName: string | null;
+  rowNumber: number;
+  vendorName: string;
+  productName: string;
+  productCode: string;
+  quantity: number;
+  deliveryDate: string;
+  deliveryDateRaw: string;
+  poNumber: string;
+  itemNumber: string;
+  changeType: string; // 변경구분 원본 값 (수정 발주의 취소 표시)
+  notes?: string;
+  confidence: number | null;
+  warnings: string[];
+}
+
+export interface ExcludedImportRow extends ParsedImportRow {
+  reason: string;
+}
+
+export interface SheetParseResult {
+  orders: ParsedImportRow[];
+  skippedRows: ImportReportRow[]; // 외주처 또는 품명이 비어 있어 미리보기에 넣지 않은 행
+}
+
+export interface WorkbookParseResult extends SheetParseResult {
+  profile: ImportProfile;
+  sheetNames: string[];
+}
+
+export interface WorkbookParseOptions {
+  profile?: ImportProfile;
+  sheetNames?: string[]; // 지정하지 않으면 프로필이 가리키는 시트 하나만 가져옴
+  orderDate: string;
+}
+
+export interface ImportRowEdit {
+  vendorId?: string;
+  productCode?: string;
+  quantity?: number;
+  deliveryDate?: string;
+}
+
+export interface ImportPreviewRow extends ParsedImportRow {
+  vendor: Vendor | null;
+  issues: ImportRowIssue[];
+  isEdited: boolean;
+  isExcluded: boolean;
+  isCancellation: boolean; // 수정 발주 모드에서 취소 행 (변경구분이 취소이거나 수량 0)
+}
+
+export interface ResolvedImportRow extends ImportPreviewRow {
+  vendor: Vendor;
+}
+
+export interface UnmatchedVendor {
+  name: string;
+  rowCount: number;
+}
+
+export interface ImportRowClassificationContext {
+  vendors: Vendor[];
+  vendorIndex: VendorIndex;
+  productCodeRules: ProductCodeRule[];
+  orderDate: string;
+  rowEdits?: Record<string, ImportRowEdit>;
+  excludedRowKeys?: Set<string>;
+  amendment?: boolean;
+}
+
+export interface ImportRowClassification {
+  rows: ImportPreviewRow[];
+  excluded: ExcludedImportRow[];
+  unmatchedVendors: UnmatchedVendor[];
+}
+
+export interface ImportSubmissionInput {
+  skippedRows: ImportReportRow[];
+  excluded: ExcludedImportRow[];
+  rows: ImportPreviewRow[];
+  diffs: Map<string, ImportRowDiff>;
+  duplicateHandling: DuplicateHandling;
+  orderDate: string;
+  userId: string | null;
+  warnings?: string[];
+}
+
+export interface ImportSubmission {
+  inserts: OrderInsert[];
+  updates: ImportOrderUpdate[];
+  duplicateCount: number; // 중복 처리 방식에 따라 건너뛴 행 수
+  report: ImportReport;
+}
+
+export interface AmendmentSubmissionInput {
+  skippedRows: ImportReportRow[];
+  excluded: ExcludedImportRow[];
+  rows: ImportPreviewRow[];
+  amendments: Map<string, AmendmentDiff>;
+  warnings?: string[];
+}
+
+export interface AmendmentSubmission {
+  updates: ImportOrderUpdate[];
+  report: ImportReport;
+}
+
+// 월 1~12, 일 1~31 범위일 때만 날짜로 인정
+const toOrderDate = (year: number, month: string, day: string): string | null => {
+  const monthNumber = parseInt(month, 10);
+  const dayNumber = parseInt(day, 10);
+  if (monthNumber < 1 || monthNumber > 12 || dayNumber < 1 || dayNumber > 31) return null;
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+};
+
+/**
+ * 파일명에서 발주일 추출
+ * 예: "외주출고 제출자료 25.12.31.xlsx" → "2025-12-31", "12.31.csv" → 올해 12월 31일, 없거나 범위를 벗어나면 오늘
+ */
+export function extractOrderDateFromFileName(name: string, now: Date = new Date()): string {
+  const yymmddMatch = name.match(/(\d{2})\.(\d{1,2})\.(\d{1,2})/);
+  const yymmddDate = yymmddMatch && toOrderDate(parseInt(yymmddMatch[1], 10) + 2000, yymmddMatch[2], yymmddMatch[3]);
+  if (yymmddDate) return yymmddDate;
+
+  const mmddMatch = name.match(/(\d{1,2})\.(\d{1,2})(?=\.(xlsx?|csv|tsv|txt)$)/i);
+  const mmddDate = mmddMatch && toOrderDate(now.getFullYear(), mmddMatch[1], mmddMatch[2]);
+  if (mmddDate) return mmddDate;
+
+  return now.toISOString().split('T')[0];
+}
+
+/**
+ * 엑셀 파일을 시트별 행 배열로 변환
+ * raw: false로 셀의 포맷된 텍스트를 가져옴 (예: "12/26(오후직납)")
+ */
+export function readWorkbookSheets(data: ArrayBuffer | Uint8Array): WorkbookSheets {
+  const workbook = XLSX.read(data, { type: 'array' });
+  return {
+    names: workbook.SheetNames,
+    rows: Object.fromEntries(workbook.SheetNames.map(name => [
+      name,
+      XLSX.utils.sheet_to_json(workbook.Sheets[name], { header: 1, raw: false }) as unknown[][],
+    ])),
+  };
+}
+
+/**
+ * 업로드 리포트 행 생성
+ */
+export function toImportReportRow(
+  order: ParsedImportRow,
+  result: ImportReportRowResult,
+  reason: ImportSkipReason | null = null,
+  detail: string | null = null
+): ImportReportRow {
+  return {
+    sheet_name: order.sheetName,
+    row_number: order.rowNumber,
+    result,
+    reason,
+    detail,
+    vendor_name: order.vendorName,
+    product_name: order.productName,
+    product_code: order.productCode,
+    quantity: order.quantity,
+    delivery_date: order.deliveryDate || order.deliveryDateRaw || null,
+  };
+}
+
+/**
+ * 프로필로 찾은 헤더 기준으로 시트 행 파싱
+ * 외주처/품명 중 하나만 비어 있는 행은 건너뛴 행으로 기록
+ * lineNumbers가 있으면 리포트 행 번호로 원본 줄 번호를 사용 (CSV/TSV)
+ */
+export function parseSheetRows(
+  jsonData: unknown[][],
+  header: HeaderMatch,
+  profile: ImportProfile,
+  sheetName: string,
+  referenceDate: string,
+  lineNumbers?: number[]
+): SheetParseResult {
+  const { columns } = header;
+  const transforms = profile.value_transforms;
+  const cellAt = (row: unknown[], col?: number): unknown => (col !== undefined ? row[col] : '');
+
+  const orders: ParsedImportRow[] = [];
+  const skippedRows: ImportReportRow[] = [];
+
+  for (let i = header.headerRowIndex + 1; i < jsonData.length; i++) {
+    const row = jsonData[i];
+    if (!row) continue;
+
+    // 외주처 매칭은 분류 단계에서 수행 (미매칭 외주처 확인용)
+    const vendorName = String(cellAt(row, columns.vendor) || '').trim();
+    const productName = String(cellAt(row, columns.product_name) || '').trim();
+
+    // 외주처와 품명이 모두 없는 행은 빈 행/합계 행으로 보고 리포트에도 남기지 않음
+    if (!vendorName && !productName) continue;
+
+    // 제품코드 포함 여부는 분류 단계에서 규칙으로 판정 (제외 행 확인용)
+    const productCode = transformProductCode(cellAt(row, columns.product_code), transforms);
+
+    const quantity = transformQuantity(cellAt(row, columns.quantity), transforms);
+    const textAt = (col?: number): string => String(cellAt(row, col) ?? '').trim();
+
+    // 납기일 파싱 (연도는 발주일 기준, "12/26(오후직납)"의 문구는 특이사항으로 보관)
+    // 원본 값은 행 검증용으로 보관
+    const delivery = parseDeliveryDate(cellAt(row, columns.delivery_date), {
+      orderDate: referenceDate,
+      dateOrder: transforms.date_order,
+    });
+
+    const order: ParsedImportRow = {
+      rowKey: `${sheetName}!${i + 1}`,
+      sheetName,
+      rowNumber: lineNumbers?.[i] ?? i + 1,
+      vendorName,
+      productName,
+      productCode,
+      quantity,
+      deliveryDate: delivery.date,
+      deliveryDateRaw: delivery.raw,
+      poNumber: textAt(columns.po_number),
+      itemNumber: textAt(columns.item_number),
+      changeType: textAt(columns.change_type),
+      notes: delivery.annotation || undefined,
+      confidence: null,
+      warnings: [],
+    };
+
+    if (!vendorName) {
+      skippedRows.push(toImportReportRow(order, 'skipped', 'unknown_vendor', '외주처 없음'));
+    } else if (!productName) {
+      skippedRows.push(toImportReportRow(order, 'skipped', 'blank_product', '품명 없음'));
+    } else {
+      orders.push(order);
+    }
+  }
+
+  return { orders, skippedRows };
+}
+
+/**
+ * 통합문서 파싱 (프로필을 지정하지 않으면 자동 감지)
+ * 일치하는 프로필이 없거나 발주 행이 하나도 없으면 오류
+ */
+export function parseWorkbook(
+  sheets: WorkbookSheets,
+  profiles: ImportProfile[],
+  options: WorkbookParseOptions
+): WorkbookParseResult {
+  let targetProfile: ImportProfile;
+  let targetSheets: string[];
+
+  if (options.profile && options.sheetNames) {
+    targetProfile = options.profile;
+    targetSheets = options.sheetNames;
+  } else {
+    const detection = options.profile
+      ? evaluateProfile(sheets, options.profile)
+      : detectImportProfile(sheets, profiles);
+
+    if (!detection) {
+      throw new Error(options.profile
+        ? `'${options.profile.name}' 프로필과 일치하는 헤더 행을 찾을 수 없습니다.`
+        : '파일 양식과 일치하는 가져오기 프로필이 없습니다. 이 파일로 새 프로필을 만들어주세요.');
+    }
+
+    targetProfile = detection.profile;
+    targetSheets = options.sheetNames ?? [detection.sheetName];
+  }
+
+  const results = targetSheets.flatMap(sheetName => {
+    const rows = sheets.rows[sheetName] ?? [];
+    const header = findHeaderRow(rows, targetProfile);
+    return header
+      ? [parseSheetRows(rows, header, targetProfile, sheetName, options.orderDate, sheets.lineNumbers?.[sheetName])]
+      : [];
+  });
+  const orders = results.flatMap(result => result.orders);
+
+  if (orders.length === 0) {
+    throw new Error(`유효한 발주 데이터를 찾을 수 없습니다. (프로필: ${targetProfile.name}, 시트: ${targetSheets.join(', ')})`);
+  }
+
+  return {
+    profile: targetProfile,
+    sheetNames: targetSheets,
+    orders,
+    skippedRows: results.flatMap(result => result.skippedRows),
+  };
+}
+
+/**
+ * 프로필 헤더가 있는 시트 목록 (여러 시트 가져오기용)
+ */
+export function findSheetsWithHeader(sheets: WorkbookSheets, profile: ImportProfile): string[] {
+  return sheets.names.filter(name => findHeaderRow(sheets.rows[name] ?? [], profile) !== null);
+}
+
+/**
+ * 제품코드 규칙 적용 후 수정 내용 반영, 외주처 매칭 및 행 검증
+ */
+export function classifyImportRows(
+  orders: ParsedImportRow[],
+  context: ImportRowClassificationContext
+): ImportRowClassification {
+  const { vendors, vendorIndex, productCodeRules, orderDate, rowEdits = {}, excludedRowKeys, amendment = false } = context;
+  const rows: ImportPreviewRow[] = [];
+  const excluded: ExcludedImportRow[] = [];
+  const unmatchedCounts = new Map<string, number>();
+
+  orders.forEach(order => {
+    // 규칙 제외 여부는 파일 원본 코드로 판정 (수정한 코드는 행 검증에서 다시 확인)
+    const classification = classifyProductCode(order.productCode, productCodeRules);
+    if (!classification.included) {
+      excluded.push({ ...order, reason: describeProductCodeRule(classification.rule) });
+      return;
+    }
+
+    const edit = rowEdits[order.rowKey] ?? {};
+    const productCode = edit.productCode ?? order.productCode;
+    const quantity = edit.quantity ?? order.quantity;
+    const deliveryDate = edit.deliveryDate ?? order.deliveryDate;
+    const deliveryDateRaw = edit.deliveryDate ?? order.deliveryDateRaw;
+
+    const vendor = edit.vendorId
+      ? vendors.find(v => v.id === edit.vendorId) ?? null
+      : resolveVendor(order.vendorName, vendorIndex);
+    const isExcluded = excludedRowKeys?.has(order.rowKey) ?? false;
+
+    if (!vendor && !isExcluded) {
+      unmatchedCounts.set(order.vendorName, (unmatchedCounts.get(order.vendorName) || 0) + 1);
+    }
+
+    const isCancellation = amendment && (isCancellationMarker(order.changeType) || quantity === 0);
+    const validationIssues = validateImportRow({
+      vendorId: vendor?.id ?? null,
+      productCodeIncluded: productCode === order.productCode || classifyProductCode(productCode, productCodeRules).included,
+      quantity,
+      deliveryDate,
+      deliveryDateRaw,
+    }, orderDate);
+    // 취소 행은 기존 주문을 찾는 데 필요한 값만 검증 (수량/납기일은 사용하지 않음)
+    // 수정 발주는 원 발주일 이후에 오므로 납기일-발주일 비교는 하지 않음
+    const issues = validationIssues.filter(issue => (
+      isCancellation
+        ? issue === 'unknown_vendor' || issue === 'excluded_product_code'
+        : !(amendment && issue === 'delivery_before_order')
+    ));
+
+    rows.push({
+      ...order,
+      vendor,
+      productCode,
+      quantity,
+      deliveryDate,
+      deliveryDateRaw,
+      issues,
+      isEdited: Object.values(edit).some(value => value !== undefined),
+      isExcluded,
+      isCancellation,
+    });
+  });
+
+  const unmatchedVendors = Array.from(unmatchedCounts, ([name, rowCount]) => ({ name, rowCount }));
+  return { rows, excluded, unmatchedVendors };
+}
+
+/**
+ * 등록 대상: 제외하지 않았고 오류가 없는 행
+ */
+export function selectResolvedRows(rows: ImportPreviewRow[]): ResolvedImportRow[] {
+  return rows.flatMap((row): ResolvedImportRow[] => (
+    !row.isExcluded && row.issues.length === 0 && row.vendor ? [{ ...row, vendor: row.vendor }] : []
+  ));
+}
+
+/**
+ * 등록/수정/건너뜀 결정 및 업로드 리포트 생성
+ * 등록 대상 행은 diffs(rowKey별 신규/동일/변경 판정)와 중복 처리 방식에 따라 처리
+ */
+export function buildImportSubmission(input: ImportSubmissionInput): ImportSubmission {
+  const inserts: OrderInsert[] = [];
+  const updates: ImportOrderUpdate[] = [];
+  let duplicateCount = 0;
+
+  // 파일에서 읽은 모든 행의 처리 결과 (건너뛴 행은 사유와 함께)
+  const reportRows: ImportReportRow[] = [
+    ...input.skippedRows,
+    ...input.excluded.map(order => toImportReportRow(order, 'skipped', 'product_code_filter', order.reason)),
+    ...input.rows.filter(row => row.isExcluded).map(row => toImportReportRow(
+      row,
+      'skipped',
+      skipReasonForIssues(row.issues),
+      row.issues.map(issue => IMPORT_ROW_ISSUE_LABELS[issue]).join(', ') || null
+    )),
+  ];
+
+  selectResolvedRows(input.rows).forEach(order => {
+    const diff = input.diffs.get(order.rowKey);
+    const status = diff?.status ?? 'new';
+    const action = status === 'new'
+      ? 'insert'
+      : status === 'identical' ? input.duplicateHandling.identical : input.duplicateHandling.changed;
+
+    if (action === 'skip') {
+      duplicateCount += 1;
+      reportRows.push(toImportReportRow(order, 'skipped', 'duplicate', IMPORT_ROW_STATUS_LABELS[status]));
+    } else if (action === 'update' && diff?.existing) {
+      updates.push({
+        id: diff.existing.id,
+        data: { product_name: order.productName, quantity: order.quantity },
+      });
+      reportRows.push(toImportReportRow(order, 'updated'));
+    } else {
+      inserts.push({
+        vendor_id: order.vendor.id,
+        product_name: order.productName,
+        product_code: order.productCode,
+        po_number: order.poNumber || null,
+        item_number: order.itemNumber || null,
+        quantity: order.quantity,
+        order_date: input.orderDate,
+        delivery_date: order.deliveryDate || null,
+        notes: order.notes || null,
+        uploaded_by: input.userId,
+      });
+      reportRows.push(toImportReportRow(order, 'inserted'));
+    }
+  });
+
+  return {
+    inserts,
+    updates,
+    duplicateCount,
+    report: buildImportReport(reportRows, input.warnings ?? []),
+  };
+}
+
+/**
+ * 수정 발주 판정용 행 값
+ */
+export function toAmendmentCandidate(row: ResolvedImportRow): AmendmentRowCandidate {
+  return {
+    vendorId: row.vendor.id,
+    productCode: row.productCode,
+    poNumber: row.poNumber,
+    itemNumber: row.itemNumber,
+    quantity: row.quantity,
+    deliveryDate: row.deliveryDate || null,
+    isCancellation: row.isCancellation,
+  };
+}
+
+/**
+ * 수정 발주 업로드: 기존 주문 변경/취소 항목과 업로드 리포트 생성 (신규 주문은 만들지 않음)
+ * amendments는 rowKey별 기존 주문 대응 결과 (matchAmendmentRows)
+ */
+export function buildAmendmentSubmission(input: AmendmentSubmissionInput): AmendmentSubmission {
+  const updates: ImportOrderUpdate[] = [];
+
+  const reportRows: ImportReportRow[] = [
+    ...input.skippedRows,
+    ...input.excluded.map(order => toImportReportRow(order, 'skipped', 'product_code_filter', order.reason)),
+    ...input.rows.filter(row => row.isExcluded).map(row => toImportReportRow(
+      row,
+      'skipped',
+      skipReasonForIssues(row.issues),
+      row.issues.map(issue => IMPORT_ROW_ISSUE_LABELS[issue]).join(', ') || null
+    )),
+  ];
+
+  selectResolvedRows(input.rows).forEach(row => {
+    const diff = input.amendments.get(row.rowKey);
+    const rowUpdates = diff ? toAmendmentUpdates(toAmendmentCandidate(row), diff) : [];
+
+    if (!diff || diff.action === 'unmatched') {
+      reportRows.push(toImportReportRow(row, 'skipped', 'unmatched_order', null));
+    } else if (diff.action === 'split_conflict') {
+      reportRows.push(toImportReportRow(row, 'skipped', 'split_quantity', diff.changes.join(', ')));
+    } else if (rowUpdates.length === 0) {
+      reportRows.push(toImportReportRow(row, 'skipped', 'duplicate', diff.changes.join(', ') || '변경 없음'));
+    } else {
+      updates.push(...rowUpdates);
+      reportRows.push(toImportReportRow(row, diff.action === 'cancel' ? 'cancelled' : 'updated', null, diff.changes.join(', ')));
+    }
+  });
+
+  return {
+    updates,
+    report: buildImportReport(reportRows, input.warnings ?? []),
+  };
+}
@@ -0,0 +1,104 @@
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  Order,
+  OrderInsert,
+  Vendor,
+  ProductionScheduleInsert,
+  OrderImportItem,
+  OrderImportUpdateItem,
+  OrderImportSchedule,
+} from '@/types/database';
+import type { ImportOrderUpdate } from '@/lib/importDiff';
+import { allocateMultipleOrders, allocateProductionSchedule } from '@/lib/productionAllocation';
+
+export interface OrderImportPlan {
+  orders: OrderImportItem[];
+  updates: OrderImportUpdateItem[];
+  warnings: string[];
+}
+
+// RPC로 넘기는 생산계획 (order_id/status는 RPC가 채움)
+export const toImportSchedule = (schedule: ProductionScheduleInsert): OrderImportSchedule => ({
+  vendor_id: schedule.vendor_id,
+  start_date: schedule.start_date,
+  end_date: schedule.end_date,
+  transfer_date: schedule.transfer_date,
+  earliest_production_date: schedule.earliest_production_date,
+  notes: schedule.notes,
+});
+
+/**
+ * 주문 업로드 RPC 입력 생성
+ * 신규 주문 ID를 미리 발급해 초기 생산계획을 함께 계산하고, 수정 주문은 바뀐 수량/납기일로 생산계획을 다시 계산
+ * 취소 주문은 생산계획을 계산하지 않음 (RPC가 기존 생산계획 삭제)
+ */
+export function buildOrderImportPlan(
+  inserts: OrderInsert[],
+  updates: ImportOrderUpdate[],
+  existingOrders: Order[],
+  vendors: Vendor[],
+  createId: () => string = uuidv4
+): OrderImportPlan {
+  const warnings: string[] = [];
+  const vendorMap = new Map(vendors.map(vendor => [vendor.id, vendor]));
+
+  // 배정 로직은 Order 전체가 아닌 일부 필드만 사용
+  const newOrders = inserts.map(insert => ({ ...insert, id: insert.id ?? createId() }) as Order);
+  const scheduleByOrderId = new Map<string, OrderImportSchedule>();
+
+  allocateMultipleOrders(newOrders, vendorMap).forEach(result => {
+    // 외주처 정보가 없으면 생산계획 없이 등록 (RPC가 경고로 알림)
+    if (!vendorMap.has(result.schedule.vendor_id)) return;
+
+    const order = newOrders.find(o => o.id === result.schedule.order_id);
+    if (!result.success) {
+      warnings.push(`${order?.product_name ?? result.schedule.order_id}: ${result.message}`);
+    }
+    scheduleByOrderId.set(result.schedule.order_id, toImportSchedule(result.schedule));
+  });
+
+  const orders: OrderImportItem[] = newOrders.map(order => ({
+    id: order.id,
+    vendor_id: order.vendor_id,
+    product_name: order.product_name,
+    product_code: order.product_code,
+    po_number: order.po_number ?? null,
+    item_number: order.item_number ?? null,
+    quantity: order.quantity,
+    delivery_date: order.delivery_date,
+    notes: order.notes,
+    schedule: scheduleByOrderId.get(order.id) ?? null,
+  }));
+
+  const updateItems: OrderImportUpdateItem[] = updates.map(update => {
+    const existing = existingOrders.find(order => order.id === update.id);
+    const vendor = existing ? vendorMap.get(existing.vendor_id) : undefined;
+    const item: OrderImportUpdateItem = {
+      id: update.id,
+      product_name: update.data.product_name,
+      quantity: update.data.quantity,
+      schedule: null,
+    };
+    if (update.data.delivery_date !== undefined) {
+      item.delivery_date = update.data.delivery_date;
+    }
+    if (update.data.po_status === 'changed' || update.data.po_status === 'cancelled') {
+      item.po_status = update.data.po_status;
+    }
+
+    if (item.po_status === 'cancelled') return item;
+
+    if (!existing || !vendor) {
+      warnings.push(`${update.data.product_name ?? update.id}: 기존 생산계획을 유지합니다. (주문/외주처 정보 없음)`);
+      return item;
+    }
+
+    const result = allocateProductionSchedule({ ...existing, ...update.data }, vendor);
+    if (!result.success) {
+      warnings.push(`${existing.product_name}: ${result.message}`);
+    }
+    return { ...item, schedule: toImportSchedule(result.schedule) };
+  });
+
+  return { orders, updates: updateItems, warnings };
+}
@@ -0,0 +1,163 @@
+/**
+ * 주문 라인 분할/병합/외주처 변경 계획
+ * RPC에 넘길 입력(새 라인 ID, 수량, 생산계획)을 미리 계산하고 잘못된 입력은 메시지로 알림
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  Order,
+  Vendor,
+  OrderLineageOperation,
+  OrderSplitPart,
+  OrderImportSchedule,
+} from '@/types/database';
+import { allocateProductionSchedule } from '@/lib/productionAllocation';
+import { toImportSchedule } from '@/lib/orderImportPlan';
+
+export const ORDER_LINEAGE_OPERATION_LABELS: Record<OrderLineageOperation, string> = {
+  split: '분할',
+  merge: '병합',
+  reassign: '외주처 변경',
+};
+
+// 분할 화면에서 입력하는 새 라인 (납기일/외주처를 비우면 원 주문 값 사용)
+export interface OrderSplitDraft {
+  quantity: number;
+  deliveryDate: string | null;
+  vendorId: string;
+}
+
+export interface OrderSplitPlan {
+  parts: OrderSplitPart[];
+  sourceSchedule: OrderImportSchedule | null;
+  warnings: string[];
+}
+
+export interface OrderLineSchedulePlan {
+  schedule: OrderImportSchedule | null;
+  warnings: string[];
+}
+
+type PlanResult<T> = { plan: T; error: null } | { plan: null; error: string };
+
+// 배정 로직으로 생산계획 계산 (외주처 정보가 없으면 생산계획 없이 진행)
+const planSchedule = (
+  order: Order,
+  vendorMap: Map<string, Vendor>,
+  warnings: string[]
+): OrderImportSchedule | null => {
+  const vendor = vendorMap.get(order.vendor_id);
+  if (!vendor) {
+    warnings.push(`${order.product_name}: 외주처 정보가 없어 생산계획을 만들지 않았습니다.`);
+    return null;
+  }
+
+  const result = allocateProductionSchedule(order, vendor);
+  if (!result.success) {
+    warnings.push(`${order.product_name}: ${result.message}`);
+  }
+  return toImportSchedule(result.schedule);
+};
+
+/**
+ * 분할 계획
+ * 나눈 라인마다 수량/납기일/외주처로 생산계획을 만들고, 원 라인은 남은 수량으로 다시 계산
+ */
+export function buildSplitPlan(
+  order: Order,
+  drafts: OrderSplitDraft[],
+  vendors: Vendor[],
+  createId: () => string = uuidv4
+): PlanResult<OrderSplitPlan> {
+  if (drafts.length === 0) {
+    return { plan: null, error: '나눌 라인을 추가해 주세요.' };
+  }
+  if (drafts.some(draft => !Number.isInteger(draft.quantity) || draft.quantity <= 0)) {
+    return { plan: null, error: '나눌 수량은 1 이상의 정수여야 합니다.' };
+  }
+
+  const moved = drafts.reduce((sum, draft) => sum + draft.quantity, 0);
+  if (moved >= order.quantity) {
+    return {
+      plan: null,
+      error: `나눌 수량 합계(${moved.toLocaleString()})는 원 주문 수량(${order.quantity.toLocaleString()})보다 작아야 합니다.`,
+    };
+  }
+
+  const warnings: string[] = [];
+  const vendorMap = new Map(vendors.map(vendor => [vendor.id, vendor]));
+
+  const parts = drafts.map(draft => {
+    const part: Order = {
+      ...order,
+      id: createId(),
+      quantity: draft.quantity,
+      delivery_date: draft.deliveryDate || order.delivery_date,
+      vendor_id: draft.vendorId || order.vendor_id,
+    };
+    return {
+      id: part.id,
+      quantity: part.quantity,
+      delivery_date: part.delivery_date,
+      vendor_id: part.vendor_id,
+      schedule: planSchedule(part, vendorMap, warnings),
+    };
+  });
+
+  const sourceSchedule = planSchedule({ ...order, quantity: order.quantity - moved }, vendorMap, warnings);
+
+  return { plan: { parts, sourceSchedule, warnings }, error: null };
+}
+
+/**
+ * 병합 계획
+ * 외주처와 제품코드가 같은 라인만 합칠 수 있으며, 합친 수량으로 대상 라인의 생산계획을 다시 계산
+ */
+export function buildMergePlan(
+  target: Order,
+  sources: Order[],
+  vendors: Vendor[]
+): PlanResult<OrderLineSchedulePlan> {
+  if (sources.length === 0) {
+    return { plan: null, error: '병합할 라인을 선택해 주세요.' };
+  }
+
+  const mismatch = sources.find(source =>
+    source.id === target.id
+    || source.vendor_id !== target.vendor_id
+    || source.product_code !== target.product_code
+  );
+  if (mismatch) {
+    return { plan: null, error: `외주처와 제품코드가 같은 라인만 병합할 수 있습니다. (${mismatch.product_name})` };
+  }
+
+  const warnings: string[] = [];
+  const vendorMap = new Map(vendors.map(vendor => [vendor.id, vendor]));
+  const quantity = sources.reduce((sum, source) => sum + source.quantity, target.quantity);
+
+  return {
+    plan: { schedule: planSchedule({ ...target, quantity }, vendorMap, warnings), warnings },
+    error: null,
+  };
+}
+
+/**
+ * 외주처 변경 계획 (라인 전체를 옮기고 새 외주처 기준으로 생산계획을 다시 계산)
+ */
+export function buildReassignPlan(
+  order: Order,
+  vendorId: string,
+  vendors: Vendor[]
+): PlanResult<OrderLineSchedulePlan> {
+  if (!vendorId || vendorId === order.vendor_id) {
+    return { plan: null, error: '현재와 다른 외주처를 선택해 주세요.' };
+  }
+
+  const warnings: string[] = [];
+  const vendorMap = new Map(vendors.map(vendor => [vendor.id, vendor]));
+
+  return {
+    plan: { schedule: planSchedule({ ...order, vendor_id: vendorId }, vendorMap, warnings), warnings },
+    error: null,
+  };
+}
@@ -0,0 +1,127 @@
+import type { Order } from '@/types/database';
+import { isCancelledOrder } from '@/lib/orderProgress';
+
+/**
+ * 주문 목록 페이지 조회 조건
+ * 정렬, 기간, 완료 여부, 검색어를 서버 쿼리로 넘겨 필요한 페이지만 불러옴
+ */
+
+export type OrderSortKey = 'order_date' | 'product_code' | 'product_name' | 'quantity' | 'delivery_date';
+export type OrderSortOrder = 'asc' | 'desc';
+export type OrderCompletionFilter = 'all' | 'open' | 'completed';
+
+export interface OrderListQuery {
+  vendorId?: string;
+  dateFrom?: string; // 발주일 시작 (YYYY-MM-DD)
+  dateTo?: string; // 발주일 종료 (YYYY-MM-DD)
+  completion: OrderCompletionFilter;
+  search: string; // 품목명, 제품코드, PO 번호 부분 일치
+  sortKey: OrderSortKey;
+  sortOrder: OrderSortOrder;
+}
+
+export interface OrderPage<T> {
+  rows: T[];
+  total: number; // 조건에 맞는 전체 건수
+}
+
+export const DEFAULT_ORDER_PAGE_SIZE = 50;
+
+export const DEFAULT_ORDER_LIST_QUERY: OrderListQuery = {
+  completion: 'all',
+  search: '',
+  sortKey: 'order_date',
+  sortOrder: 'desc',
+};
+
+export const ORDER_COMPLETION_FILTER_LABELS: Record<OrderCompletionFilter, string> = {
+  all: '전체',
+  open: '진행 중',
+  completed: '완료',
+};
+
+/**
+ * 0부터 시작하는 페이지 번호를 range(from, to) 인덱스로 변환 (to 포함)
+ */
+export function toPageRange(page: number, pageSize: number): { from: number; to: number } {
+  const from = Math.max(page, 0) * pageSize;
+  return { from, to: from + pageSize - 1 };
+}
+
+export function countPages(total: number, pageSize: number): number {
+  return Math.max(Math.ceil(total / pageSize), 1);
+}
+
+export const normalizeSearchTerm = (search: string): string => search.replace(/[,()*%"\\]/g, ' ').trim();
+
+// ILIKE에서 한 글자 와일드카드인 _를 글자 그대로 찾도록 이스케이프 (\는 normalizeSearchTerm에서 제거됨)
+export const escapeLikeTerm = (term: string): string => term.replace(/_/g, '\\_');
+
+/**
+ * 검색어를 여러 컬럼의 부분 일치 PostgREST or() 필터로 변환 (구분자/와일드카드 문자는 공백으로 치환, _는 이스케이프)
+ * @returns 검색어가 비어 있으면 null
+ */
+export function buildSearchFilter(columns: string[], search: string): string | null {
+  const term = normalizeSearchTerm(search);
+  if (!term) return null;
+
+  const pattern = `*${escapeLikeTerm(term)}*`;
+  return columns
+    .map(column => `${column}.ilike.${pattern}`)
+    .join(',');
+}
+
+// 주문 목록 검색 (품목명/제품코드/PO번호)
+export function buildOrderSearchFilter(search: string): string | null {
+  return buildSearchFilter(['product_name', 'product_code', 'po_number'], search);
+}
+
+type ListedOrder = Pick<Order,
+  'id' | 'vendor_id' | 'order_date' | 'delivery_date' | 'product_code' | 'product_name' | 'po_number' |
+  'quantity' | 'is_completed' | 'is_archived' | 'po_status'
+>;
+
+/**
+ * 주문이 조회 조건에 맞는지 (실시간으로 들어온 행을 목록에 둘지 판단, 서버 필터와 같은 규칙)
+ */
+export function matchesOrderListQuery(order: ListedOrder, query: OrderListQuery): boolean {
+  if (order.is_archived || isCancelledOrder(order)) return false;
+  if (query.vendorId && order.vendor_id !== query.vendorId) return false;
+  if (query.dateFrom && order.order_date < query.dateFrom) return false;
+  if (query.dateTo && order.order_date > query.dateTo) return false;
+  if (query.completion !== 'all' && order.is_completed !== (query.completion === 'completed')) return false;
+
+  const term = normalizeSearchTerm(query.search).toLowerCase();
+  if (!term) return true;
+  return [order.product_name, order.product_code, order.po_number]
+    .some(value => (value ?? '').toLowerCase().includes(term));
+}
+
+/**
+ * 서버 정렬과 같은 순서로 비교 (빈 값은 방향과 관계없이 마지막, 같으면 id 오름차순)
+ */
+export function compareOrders(a: ListedOrder, b: ListedOrder, sortKey: OrderSortKey, sortOrder: OrderSortOrder): number {
+  const aValue = a[sortKey];
+  const bValue = b[sortKey];
+
+  if (aValue !== bValue) {
+    if (aValue === null || aValue === undefined) return 1;
+    if (bValue === null || bValue === undefined) return -1;
+    const comparison = typeof aValue === 'number' && typeof bValue === 'number'
+      ? aValue - bValue
+      : String(aValue).localeCompare(String(bValue));
+    if (comparison !== 0) return sortOrder === 'asc' ? comparison : -comparison;
+  }
+
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+/**
+ * 불러온 페이지 범위 안의 정렬 위치에 주문을 넣음
+ * 마지막 행보다 뒤이고 아직 불러오지 않은 페이지가 있으면 그 페이지에 속하므로 넣지 않음
+ */
+export function insertOrderSorted<T extends ListedOrder>(rows: T[], order: T, query: OrderListQuery, hasMore: boolean): T[] {
+  const index = rows.findIndex(row => compareOrders(order, row, query.sortKey, query.sortOrder) < 0);
+  if (index === -1) return hasMore ? rows : [...rows, order];
+  return [...rows.slice(0, index), order, ...rows.slice(index)];
+}
@@ -0,0 +1,145 @@
+import type { Order, OrderProgress, OrderQuantityTotal, OrderVendorSummary } from '@/types/database';
+
+type ProgressOrder = Pick<Order, 'quantity' | 'produced_quantity' | 'shipped_quantity' | 'po_status'>;
+
+export interface QuantityProgress {
+  ordered: number;
+  produced: number; // 주문별 발주 수량을 넘는 생산분은 제외
+  shipped: number;
+  ratio: number; // 0 ~ 1
+}
+
+/**
+ * 수정 발주로 취소된 주문 (진행 중 목록과 수량 집계에서 제외)
+ */
+export const isCancelledOrder = (order: Pick<Order, 'po_status'>): boolean => order.po_status === 'cancelled';
+
+/**
+ * 주문 목록의 수량 기준 진행률 (완료된 행 수가 아닌 생산 수량 합계 기준, 취소된 주문 제외)
+ */
+export function summarizeQuantityProgress(orders: ProgressOrder[]): QuantityProgress {
+  const totals = orders.reduce((acc, order) => {
+    if (isCancelledOrder(order)) return acc;
+    acc.ordered += order.quantity;
+    acc.produced += Math.min(order.produced_quantity ?? 0, order.quantity);
+    acc.shipped += order.shipped_quantity ?? 0;
+    return acc;
+  }, { ordered: 0, produced: 0, shipped: 0 });
+
+  return {
+    ...totals,
+    ratio: totals.ordered > 0 ? totals.produced / totals.ordered : 0,
+  };
+}
+
+/**
+ * 외주처별 요약(order_vendor_summary)을 합친 수량 기준 진행률
+ * (생산 수량은 DB에서 이미 주문별 발주 수량까지만 집계됨)
+ */
+export function summarizeVendorProgress(
+  summaries: Pick<OrderVendorSummary, 'ordered_quantity' | 'produced_quantity' | 'shipped_quantity'>[]
+): QuantityProgress {
+  const totals = summaries.reduce((acc, summary) => {
+    acc.ordered += summary.ordered_quantity;
+    acc.produced += summary.produced_quantity;
+    acc.shipped += summary.shipped_quantity;
+    return acc;
+  }, { ordered: 0, produced: 0, shipped: 0 });
+
+  return {
+    ...totals,
+    ratio: totals.ordered > 0 ? totals.produced / totals.ordered : 0,
+  };
+}
+
+type SummaryOrder = Pick<Order,
+  'vendor_id' | 'quantity' | 'produced_quantity' | 'shipped_quantity' | 'is_completed' | 'is_archived' | 'po_status'
+>;
+
+/**
+ * 주문 하나의 변경 전/후 값으로 외주처별 요약을 증감 (보관/취소된 주문은 집계에서 제외)
+ * @param before 변경 전 주문 (추가된 주문이면 null)
+ * @param after 변경 후 주문 (삭제된 주문이면 null)
+ */
+export function applyOrderChangeToSummaries(
+  summaries: OrderVendorSummary[],
+  before: SummaryOrder | null,
+  after: SummaryOrder | null
+): OrderVendorSummary[] {
+  const byVendor = new Map(summaries.map(summary => [summary.vendor_id, { ...summary }]));
+
+  const add = (order: SummaryOrder | null, sign: 1 | -1) => {
+    if (!order || order.is_archived || isCancelledOrder(order)) return;
+    const summary = byVendor.get(order.vendor_id) ?? {
+      vendor_id: order.vendor_id,
+      order_count: 0,
+      completed_count: 0,
+      ordered_quantity: 0,
+      produced_quantity: 0,
+      shipped_quantity: 0,
+    };
+    summary.order_count += sign;
+    summary.completed_count += order.is_completed ? sign : 0;
+    summary.ordered_quantity += sign * order.quantity;
+    summary.produced_quantity += sign * Math.min(order.produced_quantity ?? 0, order.quantity);
+    summary.shipped_quantity += sign * (order.shipped_quantity ?? 0);
+    byVendor.set(order.vendor_id, summary);
+  };
+
+  add(before, -1);
+  add(after, 1);
+
+  return [...byVendor.values()].filter(summary => summary.order_count > 0);
+}
+
+type QuantityTotalOrder = Pick<Order, 'vendor_id' | 'product_code' | 'order_date' | 'quantity' | 'is_archived' | 'po_status'>;
+
+/**
+ * 주문 하나의 변경 전/후 값으로 외주처/제품코드/발주월별 수량 합계를 증감 (보관/취소된 주문은 집계에서 제외)
+ * @param before 변경 전 주문 (추가된 주문이면 null)
+ * @param after 변경 후 주문 (삭제된 주문이면 null)
+ */
+export function applyOrderChangeToQuantityTotals(
+  totals: OrderQuantityTotal[],
+  before: QuantityTotalOrder | null,
+  after: QuantityTotalOrder | null
+): OrderQuantityTotal[] {
+  const keyOf = (total: Pick<OrderQuantityTotal, 'vendor_id' | 'product_code' | 'order_month'>) =>
+    `${total.vendor_id}|${total.product_code ?? ''}|${total.order_month}`;
+  const byKey = new Map(totals.map(total => [keyOf(total), { ...total }]));
+
+  const add = (order: QuantityTotalOrder | null, sign: 1 | -1) => {
+    if (!order || order.is_archived || isCancelledOrder(order)) return;
+    const group = { vendor_id: order.vendor_id, product_code: order.product_code, order_month: order.order_date.slice(0, 7) };
+    const total = byKey.get(keyOf(group)) ?? { ...group, quantity: 0 };
+    total.quantity += sign * order.quantity;
+    byKey.set(keyOf(group), total);
+  };
+
+  add(before, -1);
+  add(after, 1);
+
+  return [...byKey.values()].filter(total => total.quantity !== 0);
+}
+
+/**
+ * 생산/출고 입력 검증 (같은 작업일 기록은 덮어쓰므로 합계에서 제외 후 계산)
+ * @returns 오류 메시지, 문제가 없으면 null
+ */
+export function validateProgressEntry(
+  entries: Pick<OrderProgress, 'work_date' | 'produced_quantity' | 'shipped_quantity'>[],
+  draft: { workDate: string; produced: number; shipped: number }
+): string | null {
+  if (!draft.workDate) return '작업일을 입력해주세요.';
+  if (!Number.isInteger(draft.produced) || !Number.isInteger(draft.shipped) || draft.produced < 0 || draft.shipped < 0) {
+    return '수량은 0 이상의 정수로 입력해주세요.';
+  }
+  if (draft.produced === 0 && draft.shipped === 0) return '생산 또는 출고 수량을 입력해주세요.';
+
+  const others = entries.filter(entry => entry.work_date !== draft.workDate);
+  const produced = others.reduce((sum, entry) => sum + entry.produced_quantity, 0) + draft.produced;
+  const shipped = others.reduce((sum, entry) => sum + entry.shipped_quantity, 0) + draft.shipped;
+  if (shipped > produced) return `누적 출고 수량(${shipped.toLocaleString()})이 누적 생산 수량(${produced.toLocaleString()})보다 많습니다.`;
+
+  return null;
+}
@@ -0,0 +1,113 @@
+import type { ParsedDocumentRow } from '@/types';
+
+export interface ParsedOrderValidation {
+  rows: ParsedDocumentRow[];
+  warnings: string[];
+}
+
+const REQUIRED_KEYS = ['vendorName', 'productName', 'quantity'] as const;
+
+const REQUIRED_KEY_LABELS: Record<(typeof REQUIRED_KEYS)[number], string> = {
+  vendorName: '외주처',
+  productName: '품명',
+  quantity: '수량',
+};
+
+// 문자열 필드 값 정리 (숫자는 문자열로 변환, 그 외 타입은 null)
+const asText = (value: unknown): string | null => {
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  return null;
+};
+
+/**
+ * 신뢰도 정규화 (0~1, 0~100 표기는 백분율로 간주)
+ */
+const normalizeConfidence = (value: unknown): number | null => {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) return null;
+  if (value <= 1) return value;
+  if (value <= 100) return value / 100;
+  return null;
+};
+
+/**
+ * 분석 응답 텍스트를 JSON으로 변환
+ */
+export function parseParsedOrderJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error('분석 결과를 JSON으로 해석할 수 없습니다.');
+  }
+}
+
+/**
+ * 분석 응답을 발주 행 스키마로 검증
+ * 필수 항목이 없는 항목은 제외하고, 형식이 어긋난 선택 항목은 행 경고로 남김
+ */
+export function validateParsedOrderResponse(raw: unknown): ParsedOrderValidation {
+  if (!Array.isArray(raw)) {
+    throw new Error('분석 결과가 목록 형식이 아닙니다.');
+  }
+
+  const rows: ParsedDocumentRow[] = [];
+  const warnings: string[] = [];
+
+  raw.forEach((item, index) => {
+    const label = `${index + 1}번째 항목`;
+
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      warnings.push(`${label}: 형식이 올바르지 않아 제외했습니다.`);
+      return;
+    }
+
+    const record = item as Record<string, unknown>;
+    const missing = REQUIRED_KEYS.filter(key => !asText(record[key]));
+    if (missing.length > 0) {
+      warnings.push(`${label}: ${missing.map(key => REQUIRED_KEY_LABELS[key]).join(', ')} 누락으로 제외했습니다.`);
+      return;
+    }
+
+    const rowWarnings: string[] = [];
+
+    const optionalText = (key: string, fieldLabel: string): string => {
+      const value = record[key];
+      if (value === undefined || value === null) return '';
+      const text = asText(value);
+      if (text === null) {
+        rowWarnings.push(`${fieldLabel} 형식 오류`);
+        return '';
+      }
+      return text;
+    };
+
+    const quantity = asText(record.quantity) as string;
+    if (!/\d/.test(quantity)) {
+      rowWarnings.push('수량에 숫자가 없음');
+    }
+
+    const confidence = normalizeConfidence(record.confidence);
+    if (record.confidence !== undefined && record.confidence !== null && confidence === null) {
+      rowWarnings.push('신뢰도 형식 오류');
+    }
+
+    if (Array.isArray(record.warnings)) {
+      record.warnings.forEach(warning => {
+        if (typeof warning === 'string' && warning.trim()) rowWarnings.push(warning.trim());
+      });
+    }
+
+    rows.push({
+      vendorName: asText(record.vendorName) as string,
+      productName: asText(record.productName) as string,
+      productCode: optionalText('productCode', '제품코드'),
+      quantity,
+      deliveryDate: optionalText('deliveryDate', '납기일'),
+      notes: optionalText('notes', '특이사항'),
+      confidence,
+      warnings: rowWarnings,
+    });
+  });
+
+  return { rows, warnings };
+}
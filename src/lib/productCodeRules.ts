@@ -0,0 +1,89 @@
+import type { ProductCodeRule } from '@/types/database';
+
+export interface ProductCodeClassification {
+  included: boolean;
+  countsTowardTarget: boolean;
+  rule: ProductCodeRule | null;
+}
+
+const defaultRule = (
+  id: string,
+  category: string,
+  pattern: string,
+  countsTowardTarget: boolean,
+  priority: number
+): ProductCodeRule => ({
+  id,
+  category,
+  match_type: 'prefix',
+  pattern,
+  action: 'include',
+  counts_toward_target: countsTowardTarget,
+  priority,
+  is_active: true,
+  created_at: '',
+  updated_at: '',
+});
+
+// DB에 규칙이 하나도 없을 때 사용하는 기존 규칙 (업로드: 1/9/3, 리포트: 9)
+export const DEFAULT_PRODUCT_CODE_RULES: ProductCodeRule[] = [
+  defaultRule('default-9', '완제품', '9', true, 10),
+  defaultRule('default-1', '1 계열', '1', false, 20),
+  defaultRule('default-3', '3 계열', '3', false, 30),
+];
+
+/**
+ * 제품코드가 규칙 패턴과 일치하는지 확인 (잘못된 정규식은 불일치로 처리)
+ */
+export function matchesProductCodeRule(code: string, rule: ProductCodeRule): boolean {
+  if (rule.match_type === 'regex') {
+    try {
+      return new RegExp(rule.pattern).test(code);
+    } catch {
+      return false;
+    }
+  }
+  return code.startsWith(rule.pattern);
+}
+
+/**
+ * 제품코드 분류
+ * 활성 규칙을 우선순위 순으로 검사해 처음 일치한 규칙으로 결정, 일치하는 규칙이 없으면 제외
+ */
+export function classifyProductCode(
+  code: string | null | undefined,
+  rules: ProductCodeRule[]
+): ProductCodeClassification {
+  const effectiveRules = rules.length > 0 ? rules : DEFAULT_PRODUCT_CODE_RULES;
+  const normalized = (code ?? '').trim();
+
+  if (normalized) {
+    const sorted = effectiveRules
+      .filter(rule => rule.is_active)
+      .sort((a, b) => a.priority - b.priority);
+
+    for (const rule of sorted) {
+      if (!matchesProductCodeRule(normalized, rule)) continue;
+      const included = rule.action === 'include';
+      return { included, countsTowardTarget: included && rule.counts_toward_target, rule };
+    }
+  }
+
+  return { included: false, countsTowardTarget: false, rule: null };
+}
+
+/**
+ * 목표 달성률 집계 대상 제품코드인지 확인
+ */
+export function countsTowardTarget(code: string | null | undefined, rules: ProductCodeRule[]): boolean {
+  return classifyProductCode(code, rules).countsTowardTarget;
+}
+
+/**
+ * 규칙 설명 문자열 (예: "완제품 (접두사 9)")
+ */
+export function describeProductCodeRule(rule: ProductCodeRule | null): string {
+  if (!rule) return '일치하는 규칙 없음';
+  const matchLabel = rule.match_type === 'regex' ? `정규식 ${rule.pattern}` : `접두사 ${rule.pattern}`;
+  return `${rule.category} (${matchLabel}${rule.action === 'exclude' ? ', 제외' : ''})`;
+}
@@ -0,0 +1,108 @@
+/**
+ * Realtime 변경 이벤트를 화면의 행 목록에 병합
+ * 전체를 다시 불러오지 않고 바뀐 행만 교체/추가/제거
+ */
+
+export type RealtimeEventType = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface RealtimeChange<T> {
+  eventType: RealtimeEventType;
+  new: T | null; // DELETE이면 null
+  old: Partial<T> | null; // INSERT이면 null, DELETE는 기본키만 올 수 있음
+}
+
+interface MergeableRow {
+  id: string;
+  version?: number;
+}
+
+export interface RealtimeMergeOptions<T> {
+  // 목록 조건에 맞는 행인지 (맞지 않게 바뀐 행은 제거)
+  accept?: (row: T) => boolean;
+  // 목록에 없던 행을 넣을 위치, 지정하지 않으면 목록에 없던 행은 무시
+  insert?: (rows: T[], row: T) => T[];
+}
+
+export const changedRowId = <T extends MergeableRow>(change: RealtimeChange<T>): string | undefined =>
+  change.new?.id ?? change.old?.id;
+
+/**
+ * 변경 이벤트를 순서대로 적용
+ * 수정은 join된 필드(vendor 등)를 유지하도록 기존 행 위에 덮어쓰며, 이미 더 최신 version을 가진 행은 건드리지 않음
+ * join 기준 키가 바뀐 행은 이전 join 값이 남으므로 findRejoinIds로 찾아 다시 조회해야 함
+ */
+export function applyRealtimeChanges<T extends MergeableRow>(
+  rows: T[],
+  changes: RealtimeChange<T>[],
+  options: RealtimeMergeOptions<T> = {}
+): T[] {
+  const { accept = () => true, insert } = options;
+
+  return changes.reduce((current, change) => {
+    const id = changedRowId(change);
+    if (!id) return current;
+
+    const index = current.findIndex(row => row.id === id);
+
+    if (change.eventType === 'DELETE' || !change.new) {
+      return index === -1 ? current : current.filter(row => row.id !== id);
+    }
+
+    if (index === -1) {
+      return insert && accept(change.new) ? insert(current, change.new) : current;
+    }
+
+    const existing = current[index];
+    if (existing.version !== undefined && change.new.version !== undefined && change.new.version < existing.version) {
+      return current;
+    }
+
+    const merged = { ...existing, ...change.new };
+    if (!accept(merged)) {
+      return current.filter(row => row.id !== id);
+    }
+
+    const next = [...current];
+    next[index] = merged;
+    return next;
+  }, rows);
+}
+
+/**
+ * join 기준 키(vendor_id 등)가 바뀐 수정 이벤트의 행 ID (목록에 있는 행만)
+ * @param keys join을 결정하는 외래키 컬럼
+ */
+export function findRejoinIds<T extends MergeableRow>(
+  rows: T[],
+  changes: RealtimeChange<T>[],
+  keys: (keyof T)[]
+): string[] {
+  const rowsById = new Map(rows.map(row => [row.id, row]));
+  const ids = changes.flatMap(change => {
+    const existing = change.new ? rowsById.get(change.new.id) : undefined;
+    return existing && keys.some(key => existing[key] !== change.new![key]) ? [existing.id] : [];
+  });
+  return [...new Set(ids)];
+}
+
+/**
+ * 편집 중인 행의 변경은 보류하고 나머지만 바로 적용할 수 있도록 분리
+ */
+export function partitionRealtimeChanges<T extends MergeableRow>(
+  changes: RealtimeChange<T>[],
+  isEditing: (id: string) => boolean
+): { immediate: RealtimeChange<T>[]; deferred: RealtimeChange<T>[] } {
+  const immediate: RealtimeChange<T>[] = [];
+  const deferred: RealtimeChange<T>[] = [];
+
+  changes.forEach(change => {
+    const id = changedRowId(change);
+    if (id && isEditing(id)) {
+      deferred.push(change);
+    } else {
+      immediate.push(change);
+    }
+  });
+
+  return { immediate, deferred };
+}
@@ -0,0 +1,79 @@
+/**
+ * 행 버전 기반 낙관적 동시성 제어
+ * 수정은 불러올 때의 version과 일치하는 행에만 적용되며,
+ * 적용된 행이 없으면 그 사이 다른 사용자가 수정(또는 삭제)한 것으로 봄
+ */
+
+export const ROW_CONFLICT_MESSAGE = '다른 사용자가 먼저 수정했습니다. 최신 내용을 불러온 뒤 다시 저장해 주세요.';
+
+export class RowConflictError extends Error {
+  readonly table: string;
+  readonly id: string;
+
+  constructor(table: string, id: string) {
+    super(ROW_CONFLICT_MESSAGE);
+    this.name = 'RowConflictError';
+    this.table = table;
+    this.id = id;
+  }
+}
+
+export function isRowConflictError(error: unknown): error is RowConflictError {
+  return error instanceof RowConflictError;
+}
+
+/**
+ * version 조건을 건 UPDATE ... select() 결과에서 수정된 행을 꺼냄 (0건이면 충돌)
+ */
+export function takeVersionedRow<T>(rows: T[] | null, table: string, id: string): T {
+  if (!rows || rows.length === 0) {
+    throw new RowConflictError(table, id);
+  }
+  return rows[0];
+}
+
+export interface RowConflictField {
+  field: string;
+  loaded: unknown;
+  latest: unknown;
+  mine: unknown;
+  // 다른 사용자도 같은 항목을 다른 값으로 바꿨으면 true (병합하면 내 입력으로 덮어씀)
+  overlaps: boolean;
+}
+
+export interface RowConflict<T> {
+  id: string;
+  loaded: T;
+  latest: T | null; // 그 사이 삭제되었으면 null
+  edits: Partial<T>;
+  fields: RowConflictField[];
+}
+
+const sameValue = (a: unknown, b: unknown): boolean => (a ?? null) === (b ?? null);
+
+/**
+ * 저장에 실패한 행에서 내가 고친 항목마다 불러온 값, 최신 값, 내 입력을 비교
+ * (내가 고치지 않은 항목은 병합해도 최신 값이 유지되므로 제외)
+ */
+export function buildRowConflict<T extends { id: string }>(
+  loaded: T,
+  latest: T | null,
+  edits: Partial<T>
+): RowConflict<T> {
+  const loadedRecord = loaded as unknown as Record<string, unknown>;
+  const latestRecord = latest as unknown as Record<string, unknown> | null;
+  const editRecord = edits as Record<string, unknown>;
+
+  const fields = Object.keys(editRecord).map(field => {
+    const changedByOther = latestRecord !== null && !sameValue(loadedRecord[field], latestRecord[field]);
+    return {
+      field,
+      loaded: loadedRecord[field],
+      latest: latestRecord ? latestRecord[field] : null,
+      mine: editRecord[field],
+      overlaps: changedByOther && !sameValue(latestRecord?.[field], editRecord[field]),
+    };
+  });
+
+  return { id: loaded.id, loaded, latest, edits, fields };
+}
@@ -0,0 +1,46 @@
+import type { Vendor, VendorAlias } from '@/types/database';
+
+export type VendorIndex = Map<string, Vendor>;
+
+/**
+ * 외주처 이름 정규화
+ * 대소문자, 공백, 법인 표기((주), 주식회사), 구두점 차이를 무시
+ */
+export function normalizeVendorName(name: string): string {
+  return name
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/\(주\)|㈜|주식회사|\b(co|corp|inc|ltd)\b\.?/g, '')
+    .replace(/[\s\-_.,()[\]/&]+/g, '');
+}
+
+/**
+ * 외주처 이름과 별칭으로 정규화된 이름 → 외주처 색인 생성
+ * 외주처 이름이 별칭보다 우선
+ */
+export function buildVendorIndex(vendors: Vendor[], aliases: VendorAlias[]): VendorIndex {
+  const index: VendorIndex = new Map();
+  const vendorById = new Map(vendors.map(v => [v.id, v]));
+
+  aliases.forEach(alias => {
+    const vendor = vendorById.get(alias.vendor_id);
+    const key = normalizeVendorName(alias.alias);
+    if (vendor && key) index.set(key, vendor);
+  });
+
+  vendors.forEach(vendor => {
+    const key = normalizeVendorName(vendor.name);
+    if (key) index.set(key, vendor);
+  });
+
+  return index;
+}
+
+/**
+ * 파일의 외주처 표기로 외주처 찾기 (없으면 null)
+ */
+export function resolveVendor(name: string, index: VendorIndex): Vendor | null {
+  const key = normalizeVendorName(name);
+  if (!key) return null;
+  return index.get(key) ?? null;
+}
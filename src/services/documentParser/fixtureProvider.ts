@@ -0,0 +1,58 @@
+import type { DocumentParserInput, DocumentParserProvider } from "@/types";
+
+/**
+ * 녹화된 분석 응답
+ * input_hash가 같은 입력이면 response를 그대로 재생, default가 true면 일치하는 녹화가 없을 때 사용
+ */
+export interface ParserFixture {
+  name: string;
+  input_kind: DocumentParserInput['kind'];
+  input_hash: string;
+  default?: boolean;
+  response: unknown;
+}
+
+const fixtures = Object.values(
+  import.meta.glob<ParserFixture>("./fixtures/*.json", { eager: true, import: "default" })
+);
+
+/**
+ * 입력 해시 (FNV-1a 32비트, 녹화/재생 키)
+ */
+export const hashParserInput = ({ kind, data }: DocumentParserInput): string => {
+  let hash = 0x811c9dc5;
+  const text = `${kind}:${data}`;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+};
+
+export const buildParserFixture = (input: DocumentParserInput, response: unknown): ParserFixture => ({
+  name: `${input.kind === "image" ? "이미지" : "텍스트"} ${new Date().toISOString().split("T")[0]}`,
+  input_kind: input.kind,
+  input_hash: hashParserInput(input),
+  response,
+});
+
+/**
+ * 녹화 재생 분석 백엔드 (네트워크 없이 개발/검증용)
+ */
+const parseWithFixture = async (input: DocumentParserInput): Promise<unknown> => {
+  const hash = hashParserInput(input);
+  const fixture = fixtures.find(f => f.input_kind === input.kind && f.input_hash === hash)
+    ?? fixtures.find(f => f.default);
+
+  if (!fixture) {
+    throw new Error(`녹화된 분석 결과가 없습니다. (입력 해시: ${hash})`);
+  }
+
+  // 응답 객체를 복제해 재생 결과가 호출마다 같도록 유지
+  return structuredClone(fixture.response);
+};
+
+export const fixtureParser: DocumentParserProvider = {
+  kind: "fixture",
+  parse: parseWithFixture,
+};
@@ -1,5 +1,9 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import { OrderItem } from "@/types";
+import type { DocumentParserInput, DocumentParserProvider } from "@/types";
+import { parseParsedOrderJson } from "@/lib/parsedOrderSchema";
+import { buildParserFixture } from "./fixtureProvider";
+
+const GEMINI_MODEL = "gemini-2.0-flash";
 
 // Lazy initialization - API 호출할 때만 초기화
 let ai: GoogleGenAI | null = null;
@@ -26,7 +30,13 @@ const responseSchema = {
       productCode: { type: Type.STRING, description: "제품코드 (F열, 숫자와 문자 조합)" },
       quantity: { type: Type.STRING, description: "수량" },
       deliveryDate: { type: Type.STRING, description: "납기요청일 (예: 12월 28일)" },
-      notes: { type: Type.STRING, description: "특이사항" }
+      notes: { type: Type.STRING, description: "특이사항" },
+      confidence: { type: Type.NUMBER, description: "이 행을 정확히 읽었다고 확신하는 정도 (0~1)" },
+      warnings: {
+        type: Type.ARRAY,
+        items: { type: Type.STRING },
+        description: "읽기 어려웠거나 추정한 부분 (예: 수량 일부 가려짐)"
+      }
     },
     required: ["vendorName", "productName", "quantity"]
   }
@@ -41,13 +51,18 @@ const SYSTEM_PROMPT = `
   3. 날짜는 "12월 28일"과 같이 읽기 편한 포맷으로 유지하세요.
   4. 제품코드는 F열에 있으며, 숫자와 문자 조합으로 정확히 추출하세요.
   5. 불필요한 행(헤더 등)은 제외하고 실제 데이터만 추출하세요.
+  6. 각 행마다 confidence(0~1)를 매기고, 흐리거나 추정한 값이 있으면 warnings에 한국어로 적으세요.
 `;
 
-export const parseOrdersWithGemini = async (input: string, isImage: boolean = false): Promise<Omit<OrderItem, 'id' | 'isCompleted'>[]> => {
+/**
+ * Gemini 분석 백엔드
+ * 응답 JSON 원본을 반환 (스키마 검증은 parseOrderDocument에서 수행)
+ */
+const parseWithGemini = async ({ kind, data: input }: DocumentParserInput): Promise<unknown> => {
   try {
     let contentParts: any[] = [];
 
-    if (isImage) {
+    if (kind === 'image') {
       // input is base64 data URL like "data:image/jpeg;base64,/9j/4AAQ..."
       // Extract mimeType and base64 data
       let mimeType = "image/png";
@@ -83,7 +98,7 @@ export const parseOrdersWithGemini = async (input: string, isImage: boolean = fa
     }
 
     const response = await getAI().models.generateContent({
-      model: "gemini-2.0-flash",
+      model: GEMINI_MODEL,
       contents: {
         parts: contentParts
       },
@@ -94,12 +109,25 @@ export const parseOrdersWithGemini = async (input: string, isImage: boolean = fa
       }
     });
 
-    if (response.text) {
-      return JSON.parse(response.text);
+    if (!response.text) {
+      return [];
+    }
+
+    const raw = parseParsedOrderJson(response.text);
+
+    // 녹화 모드: 응답을 fixture 형식으로 출력 (documentParser/fixtures에 저장해 오프라인 재생)
+    if (import.meta.env.VITE_PARSER_RECORD === "true") {
+      console.info("[parser fixture]", JSON.stringify(buildParserFixture({ kind, data: input }, raw), null, 2));
     }
-    return [];
+
+    return raw;
   } catch (error) {
     console.error("Error parsing orders:", error);
     throw new Error("발주 내역을 분석하지 못했습니다. 이미지가 선명한지 확인해주세요.");
   }
 };
+
+export const geminiParser: DocumentParserProvider = {
+  kind: "gemini",
+  parse: parseWithGemini,
+};
@@ -0,0 +1,29 @@
+import type { DocumentParserInput, DocumentParserKind, DocumentParserProvider, DocumentParseResult } from "@/types";
+import { validateParsedOrderResponse } from "@/lib/parsedOrderSchema";
+import { geminiParser } from "./geminiProvider";
+import { fixtureParser } from "./fixtureProvider";
+
+const PROVIDERS: Record<DocumentParserKind, DocumentParserProvider> = {
+  gemini: geminiParser,
+  fixture: fixtureParser,
+};
+
+/**
+ * 사용할 분석 백엔드 (VITE_DOCUMENT_PARSER=fixture면 녹화 재생, 기본은 Gemini)
+ */
+export const getDocumentParser = (): DocumentParserProvider => {
+  const kind = import.meta.env.VITE_DOCUMENT_PARSER as DocumentParserKind | undefined;
+  return (kind && PROVIDERS[kind]) || PROVIDERS.gemini;
+};
+
+/**
+ * 캡처 이미지/텍스트에서 발주 행 추출 후 스키마 검증
+ */
+export const parseOrderDocument = async (
+  input: DocumentParserInput,
+  provider: DocumentParserProvider = getDocumentParser()
+): Promise<DocumentParseResult> => {
+  const raw = await provider.parse(input);
+  const { rows, warnings } = validateParsedOrderResponse(raw);
+  return { provider: provider.kind, rows, warnings };
+};
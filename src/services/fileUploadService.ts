@@ -4,7 +4,19 @@
  */
 
 import { supabase } from '@/lib/supabase';
-import type { FileUpload, FileUploadInsert, FileUploadWithUser } from '@/types/database';
+import type {
+  FileUpload,
+  FileUploadInsert,
+  FileUploadWithUser,
+  FileUploadRollbackPreview,
+  FileUploadRollbackResult,
+  OrderImportItem,
+  OrderImportUpdateItem,
+  OrderImportResult,
+  ImportReport,
+  Json,
+  OrderWithVendor
+} from '@/types/database';
 
 /**
  * 업로드 이력 조회
@@ -14,19 +26,41 @@ export const getFileUploads = async (): Promise<{ data: FileUploadWithUser[] | n
     const { data, error } = await supabase
       .from('file_uploads')
       .select(`
-        *,
+        id, file_name, order_count, order_date, uploaded_by, created_at,
         user:users(name, email)
       `)
       .order('created_at', { ascending: false });
 
     if (error) throw error;
-    return { data: data as FileUploadWithUser[], error: null };
+    return { data: data as unknown as FileUploadWithUser[], error: null };
   } catch (error) {
     console.error('Error fetching file uploads:', error);
     return { data: null, error: error as Error };
   }
 };
 
+/**
+ * 업로드 리포트 조회 (리포트 도입 이전 업로드는 null)
+ * @param id 업로드 이력 UUID
+ */
+export const getFileUploadReport = async (
+  id: string
+): Promise<{ data: ImportReport | null; error: Error | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('file_uploads')
+      .select('report')
+      .eq('id', id)
+      .single();
+
+    if (error) throw error;
+    return { data: (data?.report as ImportReport | null) ?? null, error: null };
+  } catch (error) {
+    console.error('Error fetching file upload report:', error);
+    return { data: null, error: error as Error };
+  }
+};
+
 /**
  * 업로드 이력 저장
  * @param uploadData 업로드 이력 데이터
@@ -69,3 +103,101 @@ export const deleteFileUpload = async (
     return { data: null, error: error as Error };
   }
 };
+
+/**
+ * 업로드 롤백 미리보기 (삭제될 주문, 생산계획, 납품서 항목)
+ * @param id 업로드 이력 UUID
+ */
+export const getFileUploadRollbackPreview = async (
+  id: string
+): Promise<{ data: FileUploadRollbackPreview | null; error: Error | null }> => {
+  try {
+    const { data: orders, error: ordersError } = await supabase
+      .from('orders')
+      .select(`
+        *,
+        vendor:vendors(name, code)
+      `)
+      .eq('file_upload_id', id)
+      .order('vendor_id', { ascending: true });
+
+    if (ordersError) throw ordersError;
+
+    const orderIds = (orders || []).map(order => order.id as string);
+    if (orderIds.length === 0) {
+      return { data: { orders: [], scheduleCount: 0, deliveryItemCount: 0 }, error: null };
+    }
+
+    const [schedulesResult, deliveryItemsResult] = await Promise.all([
+      supabase
+        .from('production_schedules')
+        .select('id', { count: 'exact', head: true })
+        .in('order_id', orderIds),
+      supabase
+        .from('delivery_items')
+        .select('id', { count: 'exact', head: true })
+        .in('order_id', orderIds)
+    ]);
+
+    if (schedulesResult.error) throw schedulesResult.error;
+    if (deliveryItemsResult.error) throw deliveryItemsResult.error;
+
+    return {
+      data: {
+        orders: orders as OrderWithVendor[],
+        scheduleCount: schedulesResult.count || 0,
+        deliveryItemCount: deliveryItemsResult.count || 0
+      },
+      error: null
+    };
+  } catch (error) {
+    console.error('Error fetching file upload rollback preview:', error);
+    return { data: null, error: error as Error };
+  }
+};
+
+/**
+ * 업로드 롤백 (배치 주문, 생산계획, 납품서 항목, 업로드 이력을 한 번에 삭제)
+ * @param id 업로드 이력 UUID
+ */
+export const rollbackFileUpload = async (
+  id: string
+): Promise<{ data: FileUploadRollbackResult | null; error: Error | null }> => {
+  try {
+    const { data, error } = await supabase.rpc('rollback_file_upload', { p_upload_id: id });
+
+    if (error) throw error;
+    return { data: data as unknown as FileUploadRollbackResult, error: null };
+  } catch (error) {
+    console.error('Error rolling back file upload:', error);
+    return { data: null, error: error as Error };
+  }
+};
+
+/**
+ * 주문 업로드 (업로드 이력 + 신규 주문 + 주문 수정 + 초기 생산계획을 한 트랜잭션으로 저장)
+ * @param report 업로드 리포트 (업로드 이력에 함께 저장)
+ */
+export const importOrderUpload = async (
+  fileName: string,
+  orderDate: string,
+  orders: OrderImportItem[],
+  updates: OrderImportUpdateItem[],
+  report: ImportReport
+): Promise<{ data: OrderImportResult | null; error: Error | null }> => {
+  try {
+    const { data, error } = await supabase.rpc('import_order_upload', {
+      p_file_name: fileName,
+      p_order_date: orderDate,
+      p_orders: orders as unknown as Json,
+      p_updates: updates as unknown as Json,
+      p_report: report as unknown as Json,
+    });
+
+    if (error) throw error;
+    return { data: data as unknown as OrderImportResult, error: null };
+  } catch (error) {
+    console.error('Error importing order upload:', error);
+    return { data: null, error: error as Error };
+  }
+};
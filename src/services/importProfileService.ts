@@ -0,0 +1,102 @@
+/**
+ * Import Profile Service
+ * 발주 업로드 가져오기 프로필 CRUD 서비스
+ */
+
+import { supabase } from '@/lib/supabase';
+import type { ImportProfile, ImportProfileInsert, ImportProfileUpdate } from '@/types/database';
+
+/**
+ * 가져오기 프로필 목록 조회
+ * @param activeOnly 활성 프로필만 조회 (기본값 true)
+ */
+export const getImportProfiles = async (
+  activeOnly: boolean = true
+): Promise<{ data: ImportProfile[] | null; error: Error | null }> => {
+  try {
+    let query = supabase
+      .from('import_profiles')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (activeOnly) {
+      query = query.eq('is_active', true);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return { data: data as ImportProfile[], error: null };
+  } catch (error) {
+    console.error('Error fetching import profiles:', error);
+    return { data: null, error: error as Error };
+  }
+};
+
+/**
+ * 가져오기 프로필 생성
+ * @param profileData 생성할 프로필 데이터
+ */
+export const createImportProfile = async (
+  profileData: ImportProfileInsert
+): Promise<{ data: ImportProfile | null; error: Error | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('import_profiles')
+      .insert(profileData)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return { data: data as ImportProfile, error: null };
+  } catch (error) {
+    console.error('Error creating import profile:', error);
+    return { data: null, error: error as Error };
+  }
+};
+
+/**
+ * 가져오기 프로필 수정
+ * @param id 프로필 UUID
+ * @param updateData 수정할 데이터
+ */
+export const updateImportProfile = async (
+  id: string,
+  updateData: ImportProfileUpdate
+): Promise<{ data: ImportProfile | null; error: Error | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('import_profiles')
+      .update({ ...updateData, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return { data: data as ImportProfile, error: null };
+  } catch (error) {
+    console.error('Error updating import profile:', error);
+    return { data: null, error: error as Error };
+  }
+};
+
+/**
+ * 가져오기 프로필 삭제
+ * @param id 프로필 UUID
+ */
+export const deleteImportProfile = async (
+  id: string
+): Promise<{ data: null; error: Error | null }> => {
+  try {
+    const { error } = await supabase
+      .from('import_profiles')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+    return { data: null, error: null };
+  } catch (error) {
+    console.error('Error deleting import profile:', error);
+    return { data: null, error: error as Error };
+  }
+};
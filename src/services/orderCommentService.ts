@@ -0,0 +1,157 @@
+/**
+ * Order Comment Service
+ * 주문(PO 라인)/납품 항목 댓글 스레드, 첨부파일, 읽음 처리 서비스
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from '@/lib/supabase';
+import { buildCommentAttachmentPath, type CommentThreadRef } from '@/lib/orderComments';
+import type {
+  CommentThreadSummary,
+  OrderComment,
+  OrderCommentAttachment,
+  OrderCommentInsert,
+  OrderCommentWithAuthor,
+} from '@/types/database';
+
+const ATTACHMENT_BUCKET = 'order-comment-attachments';
+const ATTACHMENT_URL_EXPIRES_IN = 60 * 60; // 1시간
+
+/**
+ * 스레드 댓글 조회 (작성순)
+ * @param thread 주문 ID와 납품 항목 ID (없으면 주문 스레드)
+ * @param vendorId 외주처 포털에서는 해당 외주처 주문의 스레드만 조회
+ */
+export const getOrderComments = async (
+  thread: CommentThreadRef,
+  vendorId?: string
+): Promise<{ data: OrderCommentWithAuthor[] | null; error: Error | null }> => {
+  try {
+    // 작성자 이름은 users 정책상 직접 조인할 수 없으므로 RPC로 함께 조회 (권한 검사도 RPC에서)
+    const { data, error } = await supabase.rpc('get_order_comments', {
+      p_order_id: thread.orderId,
+      p_delivery_item_id: thread.deliveryItemId ?? null,
+      p_vendor_id: vendorId ?? null,
+    });
+
+    if (error) throw error;
+    return { data: data as OrderCommentWithAuthor[], error: null };
+  } catch (error) {
+    console.error('Error fetching order comments:', error);
+    return { data: null, error: error as Error };
+  }
+};
+
+/**
+ * 댓글 작성 (첨부파일을 먼저 올리고, 댓글 저장에 실패하면 올린 파일 삭제)
+ * 작성자 이름은 반환하지 않으므로 스레드를 다시 조회해서 표시
+ * @param comment 댓글 내용
+ * @param files 첨부파일 (검사는 validateCommentAttachments로 미리)
+ */
+export const createOrderComment = async (
+  comment: OrderCommentInsert,
+  files: File[] = []
+): Promise<{ data: OrderComment | null; error: Error | null }> => {
+  const commentId = comment.id ?? uuidv4();
+  const uploadedPaths: string[] = [];
+
+  try {
+    const attachments: OrderCommentAttachment[] = [];
+    for (const [index, file] of files.entries()) {
+      const path = buildCommentAttachmentPath(comment.order_id, commentId, index, file.name);
+      const { error: uploadError } = await supabase.storage
+        .from(ATTACHMENT_BUCKET)
+        .upload(path, file, { contentType: file.type || undefined });
+
+      if (uploadError) throw uploadError;
+      uploadedPaths.push(path);
+      attachments.push({ path, name: file.name, size: file.size, content_type: file.type || null });
+    }
+
+    const { data, error } = await supabase
+      .from('order_comments')
+      .insert({ ...comment, id: commentId, attachments })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return { data: data as OrderComment, error: null };
+  } catch (error) {
+    console.error('Error creating order comment:', error);
+    if (uploadedPaths.length > 0) {
+      await supabase.storage.from(ATTACHMENT_BUCKET).remove(uploadedPaths);
+    }
+    return { data: null, error: error as Error };
+  }
+};
+
+/**
+ * 첨부파일 내려받기 URL (비공개 버킷이므로 서명된 URL)
+ * @param attachment 댓글 첨부파일
+ */
+export const getCommentAttachmentUrl = async (
+  attachment: OrderCommentAttachment
+): Promise<{ data: string | null; error: Error | null }> => {
+  try {
+    const { data, error } = await supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .createSignedUrl(attachment.path, ATTACHMENT_URL_EXPIRES_IN, { download: attachment.name });
+
+    if (error) throw error;
+    return { data: data.signedUrl, error: null };
+  } catch (error) {
+    console.error('Error creating attachment URL:', error);
+    return { data: null, error: error as Error };
+  }
+};
+
+/**
+ * 스레드 읽음 처리 (현재 사용자 기준)
+ * @param thread 주문 ID와 납품 항목 ID (없으면 주문 스레드)
+ */
+export const markCommentThreadRead = async (
+  thread: CommentThreadRef
+): Promise<{ error: Error | null }> => {
+  try {
+    const { error } = await supabase.rpc('mark_comment_thread_read', {
+      p_order_id: thread.orderId,
+      p_delivery_item_id: thread.deliveryItemId ?? null,
+    });
+
+    if (error) throw error;
+    return { error: null };
+  } catch (error) {
+    console.error('Error marking comment thread read:', error);
+    return { error: error as Error };
+  }
+};
+
+/**
+ * 스레드별 댓글/안 읽은 댓글 수 (댓글이 없는 스레드는 결과에 없음)
+ * @param options deliveryItemIds가 있으면 납품 항목 스레드, 없으면 orderIds의 주문 스레드
+ *                vendorId가 있으면 해당 외주처 주문의 스레드만
+ */
+export const getCommentThreadSummaries = async (options: {
+  orderIds?: string[];
+  deliveryItemIds?: string[];
+  vendorId?: string;
+}): Promise<{ data: CommentThreadSummary[] | null; error: Error | null }> => {
+  const { orderIds, deliveryItemIds, vendorId } = options;
+  if ((deliveryItemIds ?? orderIds ?? []).length === 0) {
+    return { data: [], error: null };
+  }
+
+  try {
+    const { data, error } = await supabase.rpc('comment_thread_summary', {
+      p_order_ids: orderIds ?? null,
+      p_delivery_item_ids: deliveryItemIds ?? null,
+      p_vendor_id: vendorId ?? null,
+    });
+
+    if (error) throw error;
+    return { data: data as CommentThreadSummary[], error: null };
+  } catch (error) {
+    console.error('Error fetching comment thread summaries:', error);
+    return { data: null, error: error as Error };
+  }
+};
@@ -0,0 +1,115 @@
+/**
+ * Order Image Service
+ * 주문 포장/제품 이미지 업로드와 제품코드 기본 이미지 서비스
+ */
+
+import { supabase } from '@/lib/supabase';
+import { ORDER_IMAGE_COLUMNS } from '@/lib/orderImages';
+import { updateOrder } from '@/services/orderService';
+import type { Order, OrderImageType, ProductImage, ProductImageInsert } from '@/types/database';
+
+const IMAGE_BUCKET = 'order-images';
+
+/**
+ * 이미지 업로드 (공개 버킷이므로 공개 URL 반환)
+ * @param file 이미지 파일 (검사는 validateOrderImage로 미리)
+ * @param path 저장 경로 (buildOrderImagePath)
+ */
+export const uploadOrderImage = async (
+  file: File,
+  path: string
+): Promise<{ data: string | null; error: Error | null }> => {
+  try {
+    const { error } = await supabase.storage
+      .from(IMAGE_BUCKET)
+      .upload(path, file, { contentType: file.type, upsert: true });
+
+    if (error) throw error;
+
+    const { data } = supabase.storage.from(IMAGE_BUCKET).getPublicUrl(path);
+    return { data: data.publicUrl, error: null };
+  } catch (error) {
+    console.error('Error uploading order image:', error);
+    return { data: null, error: error as Error };
+  }
+};
+
+/**
+ * 주문 이미지 지정/해제
+ * @param order 불러올 때의 주문 (그 사이 변경되었으면 RowConflictError)
+ * @param type 포장/제품
+ * @param url 이미지 URL (null이면 해제)
+ */
+export const setOrderImage = async (
+  order: Pick<Order, 'id' | 'version'>,
+  type: OrderImageType,
+  url: string | null
+): Promise<{ data: Order | null; error: Error | null }> =>
+  updateOrder(order.id, { [ORDER_IMAGE_COLUMNS[type]]: url }, order.version);
+
+/**
+ * 제품코드 기본 이미지 조회
+ * @param productCode 제품코드
+ */
+export const getProductImages = async (
+  productCode: string
+): Promise<{ data: ProductImage[] | null; error: Error | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('product_images')
+      .select('*')
+      .eq('product_code', productCode);
+
+    if (error) throw error;
+    return { data: data as ProductImage[], error: null };
+  } catch (error) {
+    console.error('Error fetching product images:', error);
+    return { data: null, error: error as Error };
+  }
+};
+
+/**
+ * 제품코드 기본 이미지 지정 (같은 종류가 있으면 교체)
+ * @param image 제품코드, 종류, URL, 저장 경로
+ */
+export const saveProductImage = async (
+  image: ProductImageInsert
+): Promise<{ data: ProductImage | null; error: Error | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('product_images')
+      .upsert({ ...image, updated_at: new Date().toISOString() }, { onConflict: 'product_code,image_type' })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return { data: data as ProductImage, error: null };
+  } catch (error) {
+    console.error('Error saving product image:', error);
+    return { data: null, error: error as Error };
+  }
+};
+
+/**
+ * 제품코드 기본 이미지 해제 (이미 이미지가 붙은 주문은 그대로 둠)
+ * @param productCode 제품코드
+ * @param type 포장/제품
+ */
+export const deleteProductImage = async (
+  productCode: string,
+  type: OrderImageType
+): Promise<{ error: Error | null }> => {
+  try {
+    const { error } = await supabase
+      .from('product_images')
+      .delete()
+      .eq('product_code', productCode)
+      .eq('image_type', type);
+
+    if (error) throw error;
+    return { error: null };
+  } catch (error) {
+    console.error('Error deleting product image:', error);
+    return { error: error as Error };
+  }
+};
@@ -0,0 +1,180 @@
+/**
+ * Order Line Service
+ * 주문 라인 분할/병합/외주처 변경과 계보 조회 서비스
+ */
+
+import type { PostgrestError } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { RowConflictError } from '@/lib/rowVersion';
+import type {
+  Json,
+  Order,
+  OrderLineage,
+  OrderLineageWithUser,
+  OrderSplitPart,
+  OrderImportSchedule,
+} from '@/types/database';
+
+// RPC가 version 불일치를 serialization_failure(40001)로 알리면 다른 수정과 같은 충돌 오류로 바꿈
+const toOrderLineError = (error: PostgrestError, orderId: string): Error =>
+  error.code === '40001' ? new RowConflictError('orders', orderId) : error as unknown as Error;
+
+/**
+ * 주문 라인 분할 (새 라인 ID 배열 반환)
+ * @param order 불러올 때의 원 주문 (그 사이 변경되었으면 RowConflictError)
+ * @param parts 새 라인 (수량 합계는 원 주문 수량보다 작아야 함)
+ * @param sourceSchedule 남은 수량 기준 원 라인 생산계획
+ */
+export const splitOrderLine = async (
+  order: Pick<Order, 'id' | 'version'>,
+  parts: OrderSplitPart[],
+  sourceSchedule: OrderImportSchedule | null
+): Promise<{ data: string[] | null; error: Error | null }> => {
+  try {
+    const { data, error } = await supabase.rpc('split_order_line', {
+      p_order_id: order.id,
+      p_expected_version: order.version,
+      p_parts: parts as unknown as Json,
+      p_source_schedule: sourceSchedule as unknown as Json,
+    });
+
+    if (error) throw toOrderLineError(error, order.id);
+    return { data: (data as { order_ids: string[] }).order_ids, error: null };
+  } catch (error) {
+    console.error('Error splitting order line:', error);
+    return { data: null, error: error as Error };
+  }
+};
+
+/**
+ * 중복 주문 라인 병합 (원 라인은 삭제되고 납품서 항목/생산 기록/수정 발주 이력은 대상 라인으로 이동)
+ * @param target 남길 라인
+ * @param sources 합칠 라인 (대상과 외주처/제품코드가 같아야 함)
+ * @param schedule 합친 수량 기준 생산계획
+ */
+export const mergeOrderLines = async (
+  target: Pick<Order, 'id' | 'version'>,
+  sources: Pick<Order, 'id' | 'version'>[],
+  schedule: OrderImportSchedule | null
+): Promise<{ data: number | null; error: Error | null }> => {
+  try {
+    const versions = Object.fromEntries([target, ...sources].map(order => [order.id, order.version]));
+    const { data, error } = await supabase.rpc('merge_order_lines', {
+      p_target_id: target.id,
+      p_source_ids: sources.map(source => source.id),
+      p_versions: versions,
+      p_schedule: schedule as unknown as Json,
+    });
+
+    if (error) throw toOrderLineError(error, target.id);
+    return { data: (data as { merged: number }).merged, error: null };
+  } catch (error) {
+    console.error('Error merging order lines:', error);
+    return { data: null, error: error as Error };
+  }
+};
+
+/**
+ * 주문 라인 외주처 변경 (라인 전체)
+ * @param order 불러올 때의 주문 (그 사이 변경되었으면 RowConflictError)
+ * @param vendorId 새 외주처 UUID
+ * @param schedule 새 외주처 기준 생산계획
+ */
+export const reassignOrderLine = async (
+  order: Pick<Order, 'id' | 'version'>,
+  vendorId: string,
+  schedule: OrderImportSchedule | null
+): Promise<{ error: Error | null }> => {
+  try {
+    const { error } = await supabase.rpc('reassign_order_line', {
+      p_order_id: order.id,
+      p_expected_version: order.version,
+      p_vendor_id: vendorId,
+      p_schedule: schedule as unknown as Json,
+    });
+
+    if (error) throw toOrderLineError(error, order.id);
+    return { error: null };
+  } catch (error) {
+    console.error('Error reassigning order line:', error);
+    return { error: error as Error };
+  }
+};
+
+/**
+ * 주문 라인 계보 조회 (이 라인에서 나간 작업과 이 라인으로 들어온 작업, 최신순)
+ * @param orderId 주문 UUID
+ */
+export const getOrderLineage = async (
+  orderId: string
+): Promise<{ data: OrderLineageWithUser[] | null; error: Error | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('order_lineage')
+      .select(`
+        *,
+        user:users(name, email)
+      `)
+      .or(`source_order_id.eq.${orderId},result_order_id.eq.${orderId}`)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return { data: data as unknown as OrderLineageWithUser[], error: null };
+  } catch (error) {
+    console.error('Error fetching order lineage:', error);
+    return { data: null, error: error as Error };
+  }
+};
+
+/**
+ * 분할로 만든 라인의 원 라인 조회 (수정 발주 매칭용)
+ * @param orderIds 주문 UUID 배열 (이 중 분할로 만든 라인만 결과에 있음)
+ */
+export const getSplitSources = async (
+  orderIds: string[]
+): Promise<{ data: Pick<OrderLineage, 'source_order_id' | 'result_order_id'>[] | null; error: Error | null }> => {
+  try {
+    if (orderIds.length === 0) return { data: [], error: null };
+
+    const { data, error } = await supabase
+      .from('order_lineage')
+      .select('source_order_id, result_order_id')
+      .eq('operation', 'split')
+      .in('result_order_id', orderIds);
+
+    if (error) throw error;
+    return { data: data as Pick<OrderLineage, 'source_order_id' | 'result_order_id'>[], error: null };
+  } catch (error) {
+    console.error('Error fetching split sources:', error);
+    return { data: null, error: error as Error };
+  }
+};
+
+/**
+ * 병합 후보 조회 (같은 외주처/제품코드의 보관되지 않은 다른 라인, 발주일순)
+ * @param order 대상 라인
+ */
+export const getMergeCandidates = async (
+  order: Pick<Order, 'id' | 'vendor_id' | 'product_code'>
+): Promise<{ data: Order[] | null; error: Error | null }> => {
+  try {
+    let query = supabase
+      .from('orders')
+      .select('*')
+      .eq('vendor_id', order.vendor_id)
+      .eq('is_archived', false)
+      .neq('id', order.id);
+
+    query = order.product_code
+      ? query.eq('product_code', order.product_code)
+      : query.is('product_code', null);
+
+    const { data, error } = await query.order('order_date', { ascending: true });
+
+    if (error) throw error;
+    return { data: data as Order[], error: null };
+  } catch (error) {
+    console.error('Error fetching merge candidates:', error);
+    return { data: null, error: error as Error };
+  }
+};
@@ -0,0 +1,94 @@
+/**
+ * Order Progress Service
+ * 주문별 일별 생산/출고 기록 CRUD 서비스
+ */
+
+import { supabase } from '@/lib/supabase';
+import type { OrderProgress, OrderProgressInsert, OrderProgressTotals } from '@/types/database';
+
+/**
+ * 주문의 생산/출고 기록 조회 (최근 작업일 순)
+ * @param orderId 주문 UUID
+ */
+export const getOrderProgress = async (
+  orderId: string
+): Promise<{ data: OrderProgress[] | null; error: Error | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('order_progress')
+      .select('*')
+      .eq('order_id', orderId)
+      .order('work_date', { ascending: false });
+
+    if (error) throw error;
+    return { data: data as OrderProgress[], error: null };
+  } catch (error) {
+    console.error('Error fetching order progress:', error);
+    return { data: null, error: error as Error };
+  }
+};
+
+/**
+ * 생산/출고 기록 저장 (같은 주문, 같은 작업일 기록이 있으면 덮어씀)
+ * @param entry 저장할 기록
+ */
+export const saveOrderProgress = async (
+  entry: OrderProgressInsert
+): Promise<{ data: OrderProgress | null; error: Error | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('order_progress')
+      .upsert(entry, { onConflict: 'order_id,work_date' })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return { data: data as OrderProgress, error: null };
+  } catch (error) {
+    console.error('Error saving order progress:', error);
+    return { data: null, error: error as Error };
+  }
+};
+
+/**
+ * 생산/출고 기록 삭제
+ * @param id 기록 UUID
+ */
+export const deleteOrderProgress = async (
+  id: string
+): Promise<{ data: null; error: Error | null }> => {
+  try {
+    const { error } = await supabase
+      .from('order_progress')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+    return { data: null, error: null };
+  } catch (error) {
+    console.error('Error deleting order progress:', error);
+    return { data: null, error: error as Error };
+  }
+};
+
+/**
+ * 주문의 누적 생산/출고 수량과 완료 여부, version 조회 (기록 저장 후 트리거가 갱신한 값)
+ * @param orderId 주문 UUID
+ */
+export const getOrderProgressTotals = async (
+  orderId: string
+): Promise<{ data: OrderProgressTotals | null; error: Error | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('orders')
+      .select('id, produced_quantity, shipped_quantity, is_completed, completed_at, version, updated_at')
+      .eq('id', orderId)
+      .single();
+
+    if (error) throw error;
+    return { data: data as OrderProgressTotals, error: null };
+  } catch (error) {
+    console.error('Error fetching order progress totals:', error);
+    return { data: null, error: error as Error };
+  }
+};
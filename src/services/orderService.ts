@@ -4,62 +4,197 @@
  */
 
 import { supabase } from '@/lib/supabase';
-import type { Order, OrderWithVendor, OrderInsert, OrderUpdate } from '@/types/database';
+import { takeVersionedRow } from '@/lib/rowVersion';
+import {
+  DEFAULT_ORDER_PAGE_SIZE,
+  buildOrderSearchFilter,
+  toPageRange,
+  type OrderListQuery,
+  type OrderPage,
+} from '@/lib/orderListQuery';
+import type {
+  Order,
+  OrderWithVendor,
+  OrderInsert,
+  OrderUpdate,
+  OrderHistoryEntryWithUser,
+  OrderPurgeResult,
+  OrderVendorSummary,
+  OrderQuantityTotal,
+} from '@/types/database';
 
 /**
- * 주문 목록 조회 (vendor 정보 join)
- * @param vendorId 특정 외주처의 주문만 조회 (optional)
+ * 주문 목록 페이지 조회 (vendor 정보 join, 보관된 주문 제외)
+ * 정렬/기간/완료 여부/검색어는 서버에서 적용하고 전체 건수를 함께 반환
+ * @param listQuery 조회 조건
+ * @param page 0부터 시작하는 페이지 번호
+ * @param pageSize 페이지당 건수
  */
-export const getOrders = async (
-  vendorId?: string
-): Promise<{ data: OrderWithVendor[] | null; error: Error | null }> => {
+export const getOrdersPage = async (
+  listQuery: OrderListQuery,
+  page: number,
+  pageSize: number = DEFAULT_ORDER_PAGE_SIZE
+): Promise<{ data: OrderPage<OrderWithVendor> | null; error: Error | null }> => {
   try {
     let query = supabase
       .from('orders')
       .select(`
         *,
         vendor:vendors(name, code)
-      `)
-      .order('order_date', { ascending: false });
+      `, { count: 'exact' })
+      .eq('is_archived', false)
+      .neq('po_status', 'cancelled');
 
-    if (vendorId) {
-      query = query.eq('vendor_id', vendorId);
+    if (listQuery.vendorId) {
+      query = query.eq('vendor_id', listQuery.vendorId);
+    }
+    if (listQuery.dateFrom) {
+      query = query.gte('order_date', listQuery.dateFrom);
+    }
+    if (listQuery.dateTo) {
+      query = query.lte('order_date', listQuery.dateTo);
+    }
+    if (listQuery.completion !== 'all') {
+      query = query.eq('is_completed', listQuery.completion === 'completed');
     }
 
-    const { data, error } = await query;
+    const searchFilter = buildOrderSearchFilter(listQuery.search);
+    if (searchFilter) {
+      query = query.or(searchFilter);
+    }
+
+    // 같은 값이 많은 정렬 키에서도 페이지 경계가 흔들리지 않도록 id로 한 번 더 정렬
+    const { from, to } = toPageRange(page, pageSize);
+    const { data, count, error } = await query
+      .order(listQuery.sortKey, { ascending: listQuery.sortOrder === 'asc', nullsFirst: false })
+      .order('id', { ascending: true })
+      .range(from, to);
 
     if (error) throw error;
-    return { data: data as OrderWithVendor[], error: null };
+    return { data: { rows: data as OrderWithVendor[], total: count || 0 }, error: null };
   } catch (error) {
-    console.error('Error fetching orders:', error);
+    console.error('Error fetching order page:', error);
     return { data: null, error: error as Error };
   }
 };
 
 /**
- * 기간별 주문 조회
- * @param startDate 시작 날짜 (YYYY-MM-DD)
- * @param endDate 종료 날짜 (YYYY-MM-DD)
+ * ID 기준 주문 조회 (vendor 정보 join, 업로드 수정 대상 확인/실시간 추가 행 조회용)
+ * @param ids 주문 UUID 배열
  */
-export const getOrdersByDateRange = async (
-  startDate: string,
-  endDate: string
+export const getOrdersByIds = async (
+  ids: string[]
 ): Promise<{ data: OrderWithVendor[] | null; error: Error | null }> => {
   try {
+    if (ids.length === 0) return { data: [], error: null };
+
     const { data, error } = await supabase
       .from('orders')
       .select(`
         *,
         vendor:vendors(name, code)
       `)
-      .gte('order_date', startDate)
-      .lte('order_date', endDate)
-      .order('order_date', { ascending: false });
+      .in('id', ids);
 
     if (error) throw error;
     return { data: data as OrderWithVendor[], error: null };
   } catch (error) {
-    console.error('Error fetching orders by date range:', error);
+    console.error('Error fetching orders by ids:', error);
+    return { data: null, error: error as Error };
+  }
+};
+
+/**
+ * 리포트용 외주처/제품코드/발주월별 발주 수량 합계 (보관/취소된 주문 제외, DB에서 집계)
+ * @param vendorId 특정 외주처만 집계 (optional)
+ */
+export const getOrderQuantityTotals = async (
+  vendorId?: string
+): Promise<{ data: OrderQuantityTotal[] | null; error: Error | null }> => {
+  try {
+    const { data, error } = await supabase.rpc('order_quantity_totals', {
+      p_vendor_id: vendorId ?? null
+    });
+
+    if (error) throw error;
+    return { data: data as OrderQuantityTotal[], error: null };
+  } catch (error) {
+    console.error('Error fetching order quantity totals:', error);
+    return { data: null, error: error as Error };
+  }
+};
+
+/**
+ * 외주처별 주문 건수/수량 요약 (보관/취소된 주문 제외)
+ * @param vendorId 특정 외주처만 집계 (optional)
+ */
+export const getOrderVendorSummaries = async (
+  vendorId?: string
+): Promise<{ data: OrderVendorSummary[] | null; error: Error | null }> => {
+  try {
+    const { data, error } = await supabase.rpc('order_vendor_summary', {
+      p_vendor_id: vendorId ?? null
+    });
+
+    if (error) throw error;
+    return { data: data as OrderVendorSummary[], error: null };
+  } catch (error) {
+    console.error('Error fetching order vendor summaries:', error);
+    return { data: null, error: error as Error };
+  }
+};
+
+/**
+ * 발주일 기준 주문 조회 (업로드 중복 확인용, 보관된 주문 제외)
+ * 취소된 주문은 수정 발주의 취소 해제 판정에 필요하므로 포함 (신규 업로드 비교에서는 diffImportRows가 제외)
+ * @param orderDate 발주일 (YYYY-MM-DD)
+ * @param vendorIds 특정 외주처들의 주문만 조회 (optional)
+ */
+export const getOrdersByOrderDate = async (
+  orderDate: string,
+  vendorIds?: string[]
+): Promise<{ data: Order[] | null; error: Error | null }> => {
+  try {
+    let query = supabase
+      .from('orders')
+      .select('*')
+      .eq('is_archived', false)
+      .eq('order_date', orderDate);
+
+    if (vendorIds && vendorIds.length > 0) {
+      query = query.in('vendor_id', vendorIds);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return { data: data as Order[], error: null };
+  } catch (error) {
+    console.error('Error fetching orders by order date:', error);
+    return { data: null, error: error as Error };
+  }
+};
+
+/**
+ * PO 번호 기준 주문 조회 (수정 발주 매칭용)
+ * @param poNumbers PO 번호 배열
+ */
+export const getOrdersByPoNumbers = async (
+  poNumbers: string[]
+): Promise<{ data: Order[] | null; error: Error | null }> => {
+  try {
+    if (poNumbers.length === 0) return { data: [], error: null };
+
+    const { data, error } = await supabase
+      .from('orders')
+      .select('*')
+      .eq('is_archived', false)
+      .in('po_number', poNumbers);
+
+    if (error) throw error;
+    return { data: data as Order[], error: null };
+  } catch (error) {
+    console.error('Error fetching orders by PO numbers:', error);
     return { data: null, error: error as Error };
   }
 };
@@ -89,21 +224,23 @@ export const createOrders = async (
  * 주문 수정
  * @param id 주문 ID
  * @param updateData 수정할 데이터
+ * @param expectedVersion 불러올 때의 version (그 사이 변경되었으면 RowConflictError)
  */
 export const updateOrder = async (
   id: string,
-  updateData: OrderUpdate
+  updateData: OrderUpdate,
+  expectedVersion: number
 ): Promise<{ data: Order | null; error: Error | null }> => {
   try {
     const { data: updatedOrder, error } = await supabase
       .from('orders')
       .update({ ...updateData, updated_at: new Date().toISOString() })
       .eq('id', id)
-      .select()
-      .single();
+      .eq('version', expectedVersion)
+      .select();
 
     if (error) throw error;
-    return { data: updatedOrder as Order, error: null };
+    return { data: takeVersionedRow(updatedOrder as Order[], 'orders', id), error: null };
   } catch (error) {
     console.error('Error updating order:', error);
     return { data: null, error: error as Error };
@@ -111,81 +248,146 @@ export const updateOrder = async (
 };
 
 /**
- * 주문 완료 상태 토글
- * @param id 주문 ID
+ * 보관된 주문 조회 (보관함 화면용, 발주일 최신순)
+ * @param dateFrom 발주일 시작 (optional)
+ * @param dateTo 발주일 종료 (optional)
  */
-export const toggleOrderCompletion = async (
-  id: string
-): Promise<{ data: Order | null; error: Error | null }> => {
+export const getArchivedOrders = async (
+  dateFrom?: string,
+  dateTo?: string
+): Promise<{ data: OrderWithVendor[] | null; error: Error | null }> => {
   try {
-    // 먼저 현재 상태 조회
-    const { data: currentOrder, error: fetchError } = await supabase
+    let query = supabase
       .from('orders')
-      .select('is_completed')
-      .eq('id', id)
-      .single();
+      .select(`
+        *,
+        vendor:vendors(name, code)
+      `)
+      .eq('is_archived', true)
+      .order('order_date', { ascending: false });
 
-    if (fetchError) throw fetchError;
-    if (!currentOrder) throw new Error('Order not found');
+    if (dateFrom) {
+      query = query.gte('order_date', dateFrom);
+    }
+    if (dateTo) {
+      query = query.lte('order_date', dateTo);
+    }
 
-    const current = currentOrder as { is_completed: boolean };
-    const newIsCompleted = !current.is_completed;
-    const completedAt = newIsCompleted ? new Date().toISOString() : null;
+    const { data, error } = await query;
 
-    const { data: updatedOrder, error: updateError } = await supabase
+    if (error) throw error;
+    return { data: data as OrderWithVendor[], error: null };
+  } catch (error) {
+    console.error('Error fetching archived orders:', error);
+    return { data: null, error: error as Error };
+  }
+};
+
+/**
+ * 기간 안의 보관되지 않은 주문 수 (보관 전 확인용)
+ * @param dateFrom 발주일 시작 (YYYY-MM-DD)
+ * @param dateTo 발주일 종료 (YYYY-MM-DD)
+ */
+export const countActiveOrdersInRange = async (
+  dateFrom: string,
+  dateTo: string
+): Promise<{ data: number | null; error: Error | null }> => {
+  try {
+    const { count, error } = await supabase
       .from('orders')
-      .update({
-        is_completed: newIsCompleted,
-        completed_at: completedAt,
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', id)
-      .select()
-      .single();
+      .select('id', { count: 'exact', head: true })
+      .eq('is_archived', false)
+      .gte('order_date', dateFrom)
+      .lte('order_date', dateTo);
 
-    if (updateError) throw updateError;
-    return { data: updatedOrder as Order, error: null };
+    if (error) throw error;
+    return { data: count || 0, error: null };
   } catch (error) {
-    console.error('Error toggling order completion:', error);
+    console.error('Error counting orders in range:', error);
     return { data: null, error: error as Error };
   }
 };
 
 /**
- * 주문 삭제
- * @param id 주문 ID
+ * 기간별 주문 보관 (발주일 기준, 보관된 건수 반환)
+ * @param dateFrom 발주일 시작 (YYYY-MM-DD)
+ * @param dateTo 발주일 종료 (YYYY-MM-DD)
  */
-export const deleteOrder = async (
-  id: string
-): Promise<{ data: null; error: Error | null }> => {
+export const archiveOrders = async (
+  dateFrom: string,
+  dateTo: string
+): Promise<{ data: number | null; error: Error | null }> => {
   try {
-    const { error } = await supabase
-      .from('orders')
-      .delete()
-      .eq('id', id);
+    const { data, error } = await supabase.rpc('archive_orders', {
+      p_date_from: dateFrom,
+      p_date_to: dateTo
+    });
 
     if (error) throw error;
-    return { data: null, error: null };
+    return { data: data as number, error: null };
   } catch (error) {
-    console.error('Error deleting order:', error);
+    console.error('Error archiving orders:', error);
     return { data: null, error: error as Error };
   }
 };
 
 /**
- * 전체 주문 삭제
+ * 보관된 주문 복원 (복원된 건수 반환)
+ * @param orderIds 주문 UUID 배열
  */
-export const deleteAllOrders = async (): Promise<{ data: null; error: Error | null }> => {
+export const restoreOrders = async (
+  orderIds: string[]
+): Promise<{ data: number | null; error: Error | null }> => {
   try {
-    const { error } = await supabase
-      .from('orders')
-      .delete()
-      .neq('id', '00000000-0000-0000-0000-000000000000'); // 모든 레코드 삭제를 위한 조건
+    const { data, error } = await supabase.rpc('restore_orders', { p_order_ids: orderIds });
+
+    if (error) throw error;
+    return { data: data as number, error: null };
+  } catch (error) {
+    console.error('Error restoring orders:', error);
+    return { data: null, error: error as Error };
+  }
+};
+
+/**
+ * 보관된 주문 영구 삭제 (생산계획, 납품서 항목 포함, 보관되지 않은 주문은 무시)
+ * @param orderIds 주문 UUID 배열
+ */
+export const purgeArchivedOrders = async (
+  orderIds: string[]
+): Promise<{ data: OrderPurgeResult | null; error: Error | null }> => {
+  try {
+    const { data, error } = await supabase.rpc('purge_archived_orders', { p_order_ids: orderIds });
+
+    if (error) throw error;
+    return { data: data as unknown as OrderPurgeResult, error: null };
+  } catch (error) {
+    console.error('Error purging archived orders:', error);
+    return { data: null, error: error as Error };
+  }
+};
+
+/**
+ * 주문 필드 변경 이력 조회 (최신순, 변경한 사용자 join)
+ * @param orderId 주문 UUID
+ */
+export const getOrderHistory = async (
+  orderId: string
+): Promise<{ data: OrderHistoryEntryWithUser[] | null; error: Error | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('order_history')
+      .select(`
+        *,
+        user:users(name, email)
+      `)
+      .eq('order_id', orderId)
+      .order('changed_at', { ascending: false });
 
     if (error) throw error;
-    return { data: null, error: null };
+    return { data: data as unknown as OrderHistoryEntryWithUser[], error: null };
   } catch (error) {
-    console.error('Error deleting all orders:', error);
+    console.error('Error fetching order history:', error);
     return { data: null, error: error as Error };
   }
 };
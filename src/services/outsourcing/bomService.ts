@@ -42,6 +42,23 @@ export const getBomItems = async (
   }
 };
 
+export const getBomItemsByIds = async (
+  ids: string[]
+): Promise<{ data: BomItem[] | null; error: Error | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('bom_items')
+      .select('*')
+      .in('id', ids);
+
+    if (error) throw error;
+    return { data: data as BomItem[], error: null };
+  } catch (error) {
+    console.error('Error fetching bom items by ids:', error);
+    return { data: null, error: error as Error };
+  }
+};
+
 export const createBomItem = async (
   itemData: BomItemInsert
 ): Promise<{ data: BomItem | null; error: Error | null }> => {
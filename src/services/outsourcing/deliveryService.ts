@@ -1,4 +1,5 @@
 import { supabase } from '@/lib/supabase';
+import { takeVersionedRow } from '@/lib/rowVersion';
 import type {
   DeliveryNote,
   DeliveryNoteWithVendor,
@@ -70,18 +71,19 @@ export const createDeliveryNote = async (
 
 export const updateDeliveryNote = async (
   id: string,
-  updateData: DeliveryNoteUpdate
+  updateData: DeliveryNoteUpdate,
+  expectedVersion: number
 ): Promise<{ data: DeliveryNote | null; error: Error | null }> => {
   try {
     const { data, error } = await supabase
       .from('delivery_notes')
       .update({ ...updateData, updated_at: new Date().toISOString() })
       .eq('id', id)
-      .select()
-      .single();
+      .eq('version', expectedVersion)
+      .select();
 
     if (error) throw error;
-    return { data: data as DeliveryNote, error: null };
+    return { data: takeVersionedRow(data as DeliveryNote[], 'delivery_notes', id), error: null };
   } catch (error) {
     console.error('Error updating delivery note:', error);
     return { data: null, error: error as Error };
@@ -167,6 +169,26 @@ export const getDeliveryItemsByFilters = async (
   }
 };
 
+export const getDeliveryItemsByIds = async (
+  ids: string[]
+): Promise<{ data: DeliveryItemWithNote[] | null; error: Error | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('delivery_items')
+      .select(`
+        *,
+        delivery_note:delivery_notes(delivery_number, delivery_date, is_completed)
+      `)
+      .in('id', ids);
+
+    if (error) throw error;
+    return { data: data as DeliveryItemWithNote[], error: null };
+  } catch (error) {
+    console.error('Error fetching delivery items by ids:', error);
+    return { data: null, error: error as Error };
+  }
+};
+
 export const createDeliveryItems = async (
   items: DeliveryItemInsert[]
 ): Promise<{ data: DeliveryItem[] | null; error: Error | null }> => {
@@ -186,18 +208,19 @@ export const createDeliveryItems = async (
 
 export const updateDeliveryItem = async (
   id: string,
-  updateData: DeliveryItemUpdate
+  updateData: DeliveryItemUpdate,
+  expectedVersion: number
 ): Promise<{ data: DeliveryItem | null; error: Error | null }> => {
   try {
     const { data, error } = await supabase
       .from('delivery_items')
       .update({ ...updateData, updated_at: new Date().toISOString() })
       .eq('id', id)
-      .select()
-      .single();
+      .eq('version', expectedVersion)
+      .select();
 
     if (error) throw error;
-    return { data: data as DeliveryItem, error: null };
+    return { data: takeVersionedRow(data as DeliveryItem[], 'delivery_items', id), error: null };
   } catch (error) {
     console.error('Error updating delivery item:', error);
     return { data: null, error: error as Error };
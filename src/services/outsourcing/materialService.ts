@@ -1,4 +1,5 @@
 import { supabase } from '@/lib/supabase';
+import { takeVersionedRow } from '@/lib/rowVersion';
 import type {
   MaterialSettlement,
   MaterialSettlementWithVendor,
@@ -66,6 +67,26 @@ export const getSettlements = async (
   }
 };
 
+export const getSettlementsByIds = async (
+  ids: string[]
+): Promise<{ data: MaterialSettlementWithVendor[] | null; error: Error | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('material_settlements')
+      .select(`
+        *,
+        vendor:vendors(name, code)
+      `)
+      .in('id', ids);
+
+    if (error) throw error;
+    return { data: data as MaterialSettlementWithVendor[], error: null };
+  } catch (error) {
+    console.error('Error fetching material settlements by ids:', error);
+    return { data: null, error: error as Error };
+  }
+};
+
 export const createSettlement = async (
   settlementData: MaterialSettlementInsert
 ): Promise<{ data: MaterialSettlement | null; error: Error | null }> => {
@@ -86,18 +107,19 @@ export const createSettlement = async (
 
 export const updateSettlement = async (
   id: string,
-  updateData: MaterialSettlementUpdate
+  updateData: MaterialSettlementUpdate,
+  expectedVersion: number
 ): Promise<{ data: MaterialSettlement | null; error: Error | null }> => {
   try {
     const { data, error } = await supabase
       .from('material_settlements')
       .update({ ...updateData, updated_at: new Date().toISOString() })
       .eq('id', id)
-      .select()
-      .single();
+      .eq('version', expectedVersion)
+      .select();
 
     if (error) throw error;
-    return { data: data as MaterialSettlement, error: null };
+    return { data: takeVersionedRow(data as MaterialSettlement[], 'material_settlements', id), error: null };
   } catch (error) {
     console.error('Error updating material settlement:', error);
     return { data: null, error: error as Error };
@@ -140,6 +162,26 @@ export const getReturns = async (
   }
 };
 
+export const getReturnsByIds = async (
+  ids: string[]
+): Promise<{ data: MaterialReturnWithVendor[] | null; error: Error | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('material_returns')
+      .select(`
+        *,
+        vendor:vendors(name, code)
+      `)
+      .in('id', ids);
+
+    if (error) throw error;
+    return { data: data as MaterialReturnWithVendor[], error: null };
+  } catch (error) {
+    console.error('Error fetching material returns by ids:', error);
+    return { data: null, error: error as Error };
+  }
+};
+
 export const createReturn = async (
   returnData: MaterialReturnInsert
 ): Promise<{ data: MaterialReturn | null; error: Error | null }> => {
@@ -160,18 +202,19 @@ export const createReturn = async (
 
 export const updateReturn = async (
   id: string,
-  updateData: MaterialReturnUpdate
+  updateData: MaterialReturnUpdate,
+  expectedVersion: number
 ): Promise<{ data: MaterialReturn | null; error: Error | null }> => {
   try {
     const { data, error } = await supabase
       .from('material_returns')
       .update({ ...updateData, updated_at: new Date().toISOString() })
       .eq('id', id)
-      .select()
-      .single();
+      .eq('version', expectedVersion)
+      .select();
 
     if (error) throw error;
-    return { data: data as MaterialReturn, error: null };
+    return { data: takeVersionedRow(data as MaterialReturn[], 'material_returns', id), error: null };
   } catch (error) {
     console.error('Error updating material return:', error);
     return { data: null, error: error as Error };
@@ -1,4 +1,5 @@
 import { supabase } from '@/lib/supabase';
+import { takeVersionedRow } from '@/lib/rowVersion';
 import type {
   Order,
   OrderWithVendor,
@@ -24,6 +25,7 @@ export const getPurchaseOrders = async (
         *,
         vendor:vendors(name, code)
       `)
+      .eq('is_archived', false)
       .order('order_date', { ascending: false });
 
     if (filters?.vendorId) {
@@ -51,18 +53,19 @@ export const getPurchaseOrders = async (
 
 export const updatePurchaseOrder = async (
   id: string,
-  updateData: OrderUpdate
+  updateData: OrderUpdate,
+  expectedVersion: number
 ): Promise<{ data: Order | null; error: Error | null }> => {
   try {
     const { data, error } = await supabase
       .from('orders')
       .update({ ...updateData, updated_at: new Date().toISOString() })
       .eq('id', id)
-      .select()
-      .single();
+      .eq('version', expectedVersion)
+      .select();
 
     if (error) throw error;
-    return { data: data as Order, error: null };
+    return { data: takeVersionedRow(data as Order[], 'orders', id), error: null };
   } catch (error) {
     console.error('Error updating purchase order:', error);
     return { data: null, error: error as Error };
@@ -71,18 +74,19 @@ export const updatePurchaseOrder = async (
 
 export const updateApprovalStatus = async (
   id: string,
-  status: ApprovalStatus
+  status: ApprovalStatus,
+  expectedVersion: number
 ): Promise<{ data: Order | null; error: Error | null }> => {
   try {
     const { data, error } = await supabase
       .from('orders')
       .update({ approval_status: status, updated_at: new Date().toISOString() })
       .eq('id', id)
-      .select()
-      .single();
+      .eq('version', expectedVersion)
+      .select();
 
     if (error) throw error;
-    return { data: data as Order, error: null };
+    return { data: takeVersionedRow(data as Order[], 'orders', id), error: null };
   } catch (error) {
     console.error('Error updating approval status:', error);
     return { data: null, error: error as Error };
@@ -0,0 +1,102 @@
+/**
+ * Product Code Rule Service
+ * 제품코드 포함 규칙 CRUD 서비스
+ */
+
+import { supabase } from '@/lib/supabase';
+import type { ProductCodeRule, ProductCodeRuleInsert, ProductCodeRuleUpdate } from '@/types/database';
+
+/**
+ * 제품코드 규칙 목록 조회
+ * @param activeOnly 활성 규칙만 조회 (기본값 true)
+ */
+export const getProductCodeRules = async (
+  activeOnly: boolean = true
+): Promise<{ data: ProductCodeRule[] | null; error: Error | null }> => {
+  try {
+    let query = supabase
+      .from('product_code_rules')
+      .select('*')
+      .order('priority', { ascending: true });
+
+    if (activeOnly) {
+      query = query.eq('is_active', true);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return { data: data as ProductCodeRule[], error: null };
+  } catch (error) {
+    console.error('Error fetching product code rules:', error);
+    return { data: null, error: error as Error };
+  }
+};
+
+/**
+ * 제품코드 규칙 생성
+ * @param ruleData 생성할 규칙 데이터
+ */
+export const createProductCodeRule = async (
+  ruleData: ProductCodeRuleInsert
+): Promise<{ data: ProductCodeRule | null; error: Error | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('product_code_rules')
+      .insert(ruleData)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return { data: data as ProductCodeRule, error: null };
+  } catch (error) {
+    console.error('Error creating product code rule:', error);
+    return { data: null, error: error as Error };
+  }
+};
+
+/**
+ * 제품코드 규칙 수정
+ * @param id 규칙 UUID
+ * @param updateData 수정할 데이터
+ */
+export const updateProductCodeRule = async (
+  id: string,
+  updateData: ProductCodeRuleUpdate
+): Promise<{ data: ProductCodeRule | null; error: Error | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('product_code_rules')
+      .update({ ...updateData, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return { data: data as ProductCodeRule, error: null };
+  } catch (error) {
+    console.error('Error updating product code rule:', error);
+    return { data: null, error: error as Error };
+  }
+};
+
+/**
+ * 제품코드 규칙 삭제
+ * @param id 규칙 UUID
+ */
+export const deleteProductCodeRule = async (
+  id: string
+): Promise<{ data: null; error: Error | null }> => {
+  try {
+    const { error } = await supabase
+      .from('product_code_rules')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+    return { data: null, error: null };
+  } catch (error) {
+    console.error('Error deleting product code rule:', error);
+    return { data: null, error: error as Error };
+  }
+};
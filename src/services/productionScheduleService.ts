@@ -1,4 +1,5 @@
 import { supabase } from '@/lib/supabase';
+import { takeVersionedRow } from '@/lib/rowVersion';
 import type { 
   ProductionSchedule, 
   ProductionScheduleInsert, 
@@ -17,9 +18,10 @@ export const getProductionSchedules = async (
       .from('production_schedules')
       .select(`
         *,
-        order:orders(product_name, product_code, quantity, delivery_date, order_date),
+        order:orders!inner(product_name, product_code, quantity, delivery_date, order_date),
         vendor:vendors(name, code, daily_capacity, line_count)
       `)
+      .eq('order.is_archived', false)
       .order('start_date', { ascending: true });
 
     if (vendorId) {
@@ -36,6 +38,34 @@ export const getProductionSchedules = async (
   }
 };
 
+/**
+ * ID 기준 생산계획 조회 (주문/외주처 정보 join, 실시간 추가 행 조회용, 보관된 주문 제외)
+ * @param ids 생산계획 UUID 배열
+ */
+export const getProductionSchedulesByIds = async (
+  ids: string[]
+): Promise<{ data: ProductionScheduleWithDetails[] | null; error: Error | null }> => {
+  try {
+    if (ids.length === 0) return { data: [], error: null };
+
+    const { data, error } = await supabase
+      .from('production_schedules')
+      .select(`
+        *,
+        order:orders!inner(product_name, product_code, quantity, delivery_date, order_date),
+        vendor:vendors(name, code, daily_capacity, line_count)
+      `)
+      .in('id', ids)
+      .eq('order.is_archived', false);
+
+    if (error) throw error;
+    return { data: data as ProductionScheduleWithDetails[], error: null };
+  } catch (error) {
+    console.error('Error fetching production schedules by ids:', error);
+    return { data: null, error: error as Error };
+  }
+};
+
 export const getSchedulesByDateRange = async (
   startDate: string,
   endDate: string,
@@ -46,11 +76,12 @@ export const getSchedulesByDateRange = async (
       .from('production_schedules')
       .select(`
         *,
-        order:orders(product_name, product_code, quantity, delivery_date, order_date),
+        order:orders!inner(product_name, product_code, quantity, delivery_date, order_date),
         vendor:vendors(name, code, daily_capacity, line_count)
       `)
       .gte('start_date', startDate)
       .lte('end_date', endDate)
+      .eq('order.is_archived', false)
       .order('start_date', { ascending: true });
 
     if (vendorId) {
@@ -104,18 +135,19 @@ export const createProductionSchedules = async (
 
 export const updateProductionSchedule = async (
   id: string,
-  updateData: ProductionScheduleUpdate
+  updateData: ProductionScheduleUpdate,
+  expectedVersion: number
 ): Promise<{ data: ProductionSchedule | null; error: Error | null }> => {
   try {
     const { data, error } = await supabase
       .from('production_schedules')
       .update({ ...updateData, updated_at: new Date().toISOString() })
       .eq('id', id)
-      .select()
-      .single();
+      .eq('version', expectedVersion)
+      .select();
 
     if (error) throw error;
-    return { data: data as ProductionSchedule, error: null };
+    return { data: takeVersionedRow(data as ProductionSchedule[], 'production_schedules', id), error: null };
   } catch (error) {
     console.error('Error updating production schedule:', error);
     return { data: null, error: error as Error };
@@ -125,13 +157,14 @@ export const updateProductionSchedule = async (
 export const updateScheduleDates = async (
   id: string,
   startDate: string,
-  endDate: string
+  endDate: string,
+  expectedVersion: number
 ): Promise<{ data: ProductionSchedule | null; error: Error | null }> => {
   return updateProductionSchedule(id, {
     start_date: startDate,
     end_date: endDate,
     is_manually_adjusted: true,
-  });
+  }, expectedVersion);
 };
 
 export const deleteProductionSchedule = async (
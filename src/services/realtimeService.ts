@@ -0,0 +1,58 @@
+/**
+ * Realtime Service
+ * 테이블 변경(INSERT/UPDATE/DELETE) 구독 서비스
+ */
+
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import type { RealtimeChange } from '@/lib/realtimeMerge';
+
+export type RealtimeTable =
+  | 'orders'
+  | 'production_schedules'
+  | 'delivery_items'
+  | 'material_settlements'
+  | 'material_returns'
+  | 'order_comments';
+
+// 같은 테이블을 여러 화면에서 구독해도 채널 이름이 겹치지 않도록 일련번호 부여
+let channelSequence = 0;
+
+const hasKeys = (value: object | null | undefined): boolean => !!value && Object.keys(value).length > 0;
+
+/**
+ * 테이블 변경 구독
+ * @param table 구독할 테이블
+ * @param onChange 변경 이벤트마다 호출 (RLS상 조회 가능한 행만 전달됨)
+ * @param filter PostgREST 형식 필터 (예: vendor_id=eq.<uuid>, optional)
+ * @returns 구독 해제 함수
+ */
+export const subscribeToTable = <T extends object>(
+  table: RealtimeTable,
+  onChange: (change: RealtimeChange<T>) => void,
+  filter?: string
+): (() => void) => {
+  const channel = supabase
+    .channel(`realtime:${table}:${filter ?? 'all'}:${++channelSequence}`)
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table, ...(filter ? { filter } : {}) },
+      // 행 타입은 구독하는 테이블이 정하므로 여기서 T로 좁힘
+      (payload: RealtimePostgresChangesPayload<Record<string, unknown>>) => {
+        onChange({
+          eventType: payload.eventType,
+          new: payload.eventType !== 'DELETE' && hasKeys(payload.new) ? payload.new as unknown as T : null,
+          old: hasKeys(payload.old) ? payload.old as Partial<T> : null,
+        });
+      }
+    )
+    .subscribe((status, error) => {
+      if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        console.error(`Error subscribing to ${table} changes:`, error ?? status);
+      }
+    });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
@@ -0,0 +1,298 @@
+/**
+ * Search Service
+ * 발주/BOM/납품/자재 통합 검색 서비스
+ */
+
+import { supabase } from '@/lib/supabase';
+import { buildSearchFilter, escapeLikeTerm, normalizeSearchTerm } from '@/lib/orderListQuery';
+import {
+  GLOBAL_SEARCH_GROUPS,
+  GLOBAL_SEARCH_GROUP_LIMIT,
+  findMatchedField,
+  type GlobalSearchGroupId,
+  type GlobalSearchResult,
+} from '@/lib/globalSearch';
+import type {
+  Order,
+  BomItem,
+  DeliveryItem,
+  DeliveryNote,
+  MaterialSettlement,
+  MaterialReturn,
+  Vendor,
+} from '@/types/database';
+
+interface SearchOptions {
+  vendorId?: string;
+  groups?: GlobalSearchGroupId[];
+  limit?: number;
+}
+
+type VendorName = { vendor: Pick<Vendor, 'name'> | null };
+
+type OrderSearchRow = Pick<Order, 'id' | 'product_name' | 'product_code' | 'po_number' | 'order_date' | 'quantity'> & VendorName;
+
+type BomSearchRow = Pick<BomItem,
+  'id' | 'order_id' | 'parent_material_code' | 'parent_material_name' | 'child_material_code' |
+  'child_material_name' | 'purchase_document' | 'instruction_date'
+> & VendorName;
+
+type DeliverySearchRow = Pick<DeliveryItem, 'id' | 'order_id' | 'product_name' | 'product_code' | 'po_number' | 'lot_number'> & {
+  delivery_note: Pick<DeliveryNote, 'delivery_number' | 'delivery_date'> & VendorName;
+};
+
+type SettlementSearchRow = Pick<MaterialSettlement,
+  'id' | 'product_code' | 'product_name' | 'po_number' | 'material_code' | 'material_name' | 'lot_number'
+> & VendorName;
+
+type ReturnSearchRow = Pick<MaterialReturn, 'id' | 'material_code' | 'material_name' | 'lot_number' | 'stock_quantity'> & VendorName;
+
+const joinParts = (parts: (string | null | undefined)[]): string => parts.filter(Boolean).join(' · ');
+
+const searchOrders = async (search: string, vendorId: string | undefined, limit: number): Promise<GlobalSearchResult[]> => {
+  const filter = buildSearchFilter(['product_code', 'product_name', 'po_number'], search);
+  if (!filter) return [];
+
+  let query = supabase
+    .from('orders')
+    .select('id, product_name, product_code, po_number, order_date, quantity, vendor:vendors(name)')
+    .eq('is_archived', false)
+    .neq('po_status', 'cancelled')
+    .or(filter);
+
+  if (vendorId) {
+    query = query.eq('vendor_id', vendorId);
+  }
+
+  const { data, error } = await query.order('order_date', { ascending: false }).limit(limit);
+  if (error) throw error;
+
+  return (data as unknown as OrderSearchRow[]).map(row => {
+    const matched = findMatchedField([
+      ['품목코드', row.product_code],
+      ['PO번호', row.po_number],
+      ['품목명', row.product_name],
+    ], search);
+    return {
+      group: 'orders',
+      id: row.id,
+      orderId: row.id,
+      orderSearch: row.po_number || row.product_code || row.product_name,
+      title: row.product_name,
+      subtitle: joinParts([row.product_code, `발주일 ${row.order_date}`, `${row.quantity.toLocaleString()}개`]),
+      matchedField: matched?.field ?? null,
+      matchedValue: matched?.value ?? null,
+      vendorName: row.vendor?.name ?? null,
+    };
+  });
+};
+
+const searchBomItems = async (search: string, vendorId: string | undefined, limit: number): Promise<GlobalSearchResult[]> => {
+  const filter = buildSearchFilter([
+    'parent_material_code', 'parent_material_name', 'child_material_code', 'child_material_name', 'purchase_document',
+  ], search);
+  if (!filter) return [];
+
+  let query = supabase
+    .from('bom_items')
+    .select(`
+      id, order_id, parent_material_code, parent_material_name, child_material_code,
+      child_material_name, purchase_document, instruction_date, vendor:vendors(name)
+    `)
+    .or(filter);
+
+  if (vendorId) {
+    query = query.eq('vendor_id', vendorId);
+  }
+
+  const { data, error } = await query.order('created_at', { ascending: false }).limit(limit);
+  if (error) throw error;
+
+  return (data as unknown as BomSearchRow[]).map(row => {
+    const matched = findMatchedField([
+      ['자재코드', row.child_material_code],
+      ['제품코드', row.parent_material_code],
+      ['PO번호', row.purchase_document],
+      ['자재명', row.child_material_name],
+      ['제품명', row.parent_material_name],
+    ], search);
+    return {
+      group: 'bom_items',
+      id: row.id,
+      orderId: row.order_id,
+      orderSearch: row.order_id ? row.purchase_document || row.parent_material_code : null,
+      title: row.child_material_name || row.parent_material_name || row.child_material_code || '-',
+      subtitle: joinParts([row.parent_material_name, row.instruction_date && `지시일 ${row.instruction_date}`]),
+      matchedField: matched?.field ?? null,
+      matchedValue: matched?.value ?? null,
+      vendorName: row.vendor?.name ?? null,
+    };
+  });
+};
+
+// 납품번호는 납품서(delivery_notes)에 있으므로 일치하는 납품서를 먼저 찾아 항목 조건에 더함
+const searchDeliveryItems = async (search: string, vendorId: string | undefined, limit: number): Promise<GlobalSearchResult[]> => {
+  const itemFilter = buildSearchFilter(['product_code', 'product_name', 'po_number', 'lot_number'], search);
+  if (!itemFilter) return [];
+
+  let notesQuery = supabase
+    .from('delivery_notes')
+    .select('id')
+    .ilike('delivery_number', `%${escapeLikeTerm(normalizeSearchTerm(search))}%`);
+
+  if (vendorId) {
+    notesQuery = notesQuery.eq('vendor_id', vendorId);
+  }
+
+  const { data: notes, error: notesError } = await notesQuery.limit(limit);
+  if (notesError) throw notesError;
+
+  const noteIds = (notes as Pick<DeliveryNote, 'id'>[]).map(note => note.id);
+  const filter = noteIds.length > 0 ? `${itemFilter},delivery_note_id.in.(${noteIds.join(',')})` : itemFilter;
+
+  let query = supabase
+    .from('delivery_items')
+    .select(`
+      id, order_id, product_name, product_code, po_number, lot_number,
+      delivery_note:delivery_notes!inner(delivery_number, delivery_date, vendor:vendors(name))
+    `)
+    .or(filter);
+
+  if (vendorId) {
+    query = query.eq('delivery_note.vendor_id', vendorId);
+  }
+
+  const { data, error } = await query.order('created_at', { ascending: false }).limit(limit);
+  if (error) throw error;
+
+  return (data as unknown as DeliverySearchRow[]).map(row => {
+    const matched = findMatchedField([
+      ['납품번호', row.delivery_note.delivery_number],
+      ['LOT번호', row.lot_number],
+      ['품목코드', row.product_code],
+      ['PO번호', row.po_number],
+      ['품목명', row.product_name],
+    ], search);
+    return {
+      group: 'delivery_items',
+      id: row.id,
+      orderId: row.order_id,
+      orderSearch: row.order_id ? row.po_number || row.product_code || row.product_name : null,
+      title: row.product_name,
+      subtitle: joinParts([row.delivery_note.delivery_number, `납품일 ${row.delivery_note.delivery_date}`]),
+      matchedField: matched?.field ?? null,
+      matchedValue: matched?.value ?? null,
+      vendorName: row.delivery_note.vendor?.name ?? null,
+    };
+  });
+};
+
+const searchSettlements = async (search: string, vendorId: string | undefined, limit: number): Promise<GlobalSearchResult[]> => {
+  const filter = buildSearchFilter([
+    'product_code', 'product_name', 'po_number', 'material_code', 'material_name', 'lot_number',
+  ], search);
+  if (!filter) return [];
+
+  let query = supabase
+    .from('material_settlements')
+    .select('id, product_code, product_name, po_number, material_code, material_name, lot_number, vendor:vendors(name)')
+    .or(filter);
+
+  if (vendorId) {
+    query = query.eq('vendor_id', vendorId);
+  }
+
+  const { data, error } = await query.order('created_at', { ascending: false }).limit(limit);
+  if (error) throw error;
+
+  return (data as unknown as SettlementSearchRow[]).map(row => {
+    const matched = findMatchedField([
+      ['자재코드', row.material_code],
+      ['LOT번호', row.lot_number],
+      ['품목코드', row.product_code],
+      ['PO번호', row.po_number],
+      ['자재명', row.material_name],
+      ['품목명', row.product_name],
+    ], search);
+    return {
+      group: 'material_settlements',
+      id: row.id,
+      orderId: null,
+      orderSearch: null,
+      title: row.material_name || row.material_code || '-',
+      subtitle: joinParts([row.product_name, row.po_number]),
+      matchedField: matched?.field ?? null,
+      matchedValue: matched?.value ?? null,
+      vendorName: row.vendor?.name ?? null,
+    };
+  });
+};
+
+const searchReturns = async (search: string, vendorId: string | undefined, limit: number): Promise<GlobalSearchResult[]> => {
+  const filter = buildSearchFilter(['material_code', 'material_name', 'lot_number'], search);
+  if (!filter) return [];
+
+  let query = supabase
+    .from('material_returns')
+    .select('id, material_code, material_name, lot_number, stock_quantity, vendor:vendors(name)')
+    .or(filter);
+
+  if (vendorId) {
+    query = query.eq('vendor_id', vendorId);
+  }
+
+  const { data, error } = await query.order('created_at', { ascending: false }).limit(limit);
+  if (error) throw error;
+
+  return (data as unknown as ReturnSearchRow[]).map(row => {
+    const matched = findMatchedField([
+      ['자재코드', row.material_code],
+      ['LOT번호', row.lot_number],
+      ['자재명', row.material_name],
+    ], search);
+    return {
+      group: 'material_returns',
+      id: row.id,
+      orderId: null,
+      orderSearch: null,
+      title: row.material_name || row.material_code,
+      subtitle: joinParts([row.material_code, `재고 ${row.stock_quantity.toLocaleString()}`]),
+      matchedField: matched?.field ?? null,
+      matchedValue: matched?.value ?? null,
+      vendorName: row.vendor?.name ?? null,
+    };
+  });
+};
+
+const SEARCHERS: Record<GlobalSearchGroupId, typeof searchOrders> = {
+  orders: searchOrders,
+  bom_items: searchBomItems,
+  delivery_items: searchDeliveryItems,
+  material_settlements: searchSettlements,
+  material_returns: searchReturns,
+};
+
+/**
+ * 통합 검색 (그룹별 최신순, 그룹마다 limit건까지)
+ * 제품코드/품목명, PO번호, 납품번호, LOT번호, 자재코드/자재명 부분 일치
+ * @param search 검색어 (비어 있으면 빈 결과)
+ * @param options vendorId: 특정 외주처만, groups: 검색할 그룹 (기본 전체)
+ */
+export const searchAll = async (
+  search: string,
+  options: SearchOptions = {}
+): Promise<{ data: GlobalSearchResult[] | null; error: Error | null }> => {
+  const { vendorId, groups = GLOBAL_SEARCH_GROUPS, limit = GLOBAL_SEARCH_GROUP_LIMIT } = options;
+
+  if (!normalizeSearchTerm(search)) {
+    return { data: [], error: null };
+  }
+
+  try {
+    const results = await Promise.all(groups.map(group => SEARCHERS[group](search, vendorId, limit)));
+    return { data: results.flat(), error: null };
+  } catch (error) {
+    console.error('Error searching:', error);
+    return { data: null, error: error as Error };
+  }
+};
@@ -4,7 +4,7 @@
  */
 
 import { supabase } from '@/lib/supabase';
-import type { Vendor, VendorInsert, VendorUpdate, VendorTarget, VendorTargetWithVendor } from '@/types/database';
+import type { Vendor, VendorInsert, VendorUpdate, VendorTarget, VendorTargetWithVendor, VendorAlias, VendorAliasInsert } from '@/types/database';
 
 /**
  * 전체 외주처 목록 조회
@@ -204,3 +204,64 @@ export const updateVendorTarget = async (
     return { data: null, error: error as Error };
   }
 };
+
+/**
+ * 외주처 별칭 전체 조회
+ */
+export const getVendorAliases = async (): Promise<{ data: VendorAlias[] | null; error: Error | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('vendor_aliases')
+      .select('*')
+      .order('alias', { ascending: true });
+
+    if (error) throw error;
+    return { data: data as VendorAlias[], error: null };
+  } catch (error) {
+    console.error('Error fetching vendor aliases:', error);
+    return { data: null, error: error as Error };
+  }
+};
+
+/**
+ * 외주처 별칭 생성
+ * @param aliasData 생성할 별칭 데이터
+ */
+export const createVendorAlias = async (
+  aliasData: VendorAliasInsert
+): Promise<{ data: VendorAlias | null; error: Error | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('vendor_aliases')
+      .insert(aliasData)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return { data: data as VendorAlias, error: null };
+  } catch (error) {
+    console.error('Error creating vendor alias:', error);
+    return { data: null, error: error as Error };
+  }
+};
+
+/**
+ * 외주처 별칭 삭제
+ * @param id 별칭 UUID
+ */
+export const deleteVendorAlias = async (
+  id: string
+): Promise<{ data: null; error: Error | null }> => {
+  try {
+    const { error } = await supabase
+      .from('vendor_aliases')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+    return { data: null, error: null };
+  } catch (error) {
+    console.error('Error deleting vendor alias:', error);
+    return { data: null, error: error as Error };
+  }
+};
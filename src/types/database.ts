@@ -20,6 +20,7 @@ export interface User {
   avatar_url: string | null;
   role: UserRole;
   is_active: boolean;
+  vendor_id: string | null; // 외주처 포털 사용자가 속한 외주처 (관리자가 사용자 관리에서 지정, 댓글 접근 범위)
   created_at: string;
   updated_at: string;
 }
@@ -44,8 +45,10 @@ export interface Order {
   quantity: number;
   delivery_date: string | null;
   order_date: string;
-  is_completed: boolean;
+  is_completed: boolean; // 누적 생산 수량이 발주 수량 이상이면 true (DB 트리거가 갱신)
   completed_at: string | null;
+  produced_quantity: number; // order_progress 합계
+  shipped_quantity: number; // order_progress 합계
   notes: string | null;
   uploaded_by: string | null;
   po_number: string | null;
@@ -65,6 +68,11 @@ export interface Order {
   packaging_image_url: string | null;
   product_image_url: string | null;
   approval_status: ApprovalStatus;
+  file_upload_id: string | null;
+  is_archived: boolean; // 보관된 주문은 현재 화면에서 숨기고 보관함에서만 표시
+  archived_at: string | null;
+  archived_by: string | null;
+  version: number; // 수정할 때마다 1씩 증가 (낙관적 동시성 제어)
   created_at: string;
   updated_at: string;
 }
@@ -84,9 +92,50 @@ export interface FileUpload {
   order_count: number;
   order_date: string;
   uploaded_by: string;
+  report: ImportReport | null;
   created_at: string;
 }
 
+// 업로드 리포트 (file_uploads.report JSONB)
+export type ImportSkipReason =
+  | 'unknown_vendor'
+  | 'product_code_filter'
+  | 'blank_product'
+  | 'zero_quantity'
+  | 'bad_date'
+  | 'duplicate'
+  | 'unmatched_order'
+  | 'split_quantity'
+  | 'manual';
+
+export type ImportReportRowResult = 'inserted' | 'updated' | 'cancelled' | 'skipped';
+
+export interface ImportReportRow {
+  sheet_name: string | null;
+  row_number: number;
+  result: ImportReportRowResult;
+  reason: ImportSkipReason | null;
+  detail: string | null;
+  vendor_name: string;
+  product_name: string;
+  product_code: string;
+  quantity: number | null;
+  delivery_date: string | null;
+}
+
+export interface ImportReport {
+  total_rows: number;
+  accepted_rows: number;
+  inserted: number;
+  updated: number;
+  cancelled?: number; // 수정 발주 업로드 이전 리포트에는 없음
+  skipped: number;
+  skipped_by_reason: Partial<Record<ImportSkipReason, number>>;
+  rows: ImportReportRow[];
+  warnings: string[];
+  generated_at: string;
+}
+
 export type ProductionStatus = 'planned' | 'in_progress' | 'completed' | 'delayed';
 export type PurchaseOrderStatus = 'pending' | 'confirmed' | 'changed' | 'completed' | 'cancelled';
 export type ApprovalStatus = 'pending' | 'approved' | 'rejected';
@@ -104,6 +153,7 @@ export interface ProductionSchedule {
   status: ProductionStatus;
   is_manually_adjusted: boolean;
   notes: string | null;
+  version: number;
   created_at: string;
   updated_at: string;
 }
@@ -142,6 +192,7 @@ export interface DeliveryNote {
   is_completed: boolean;
   warehouse: string | null;
   created_by: string | null;
+  version: number;
   created_at: string;
   updated_at: string;
 }
@@ -169,6 +220,7 @@ export interface DeliveryItem {
   received_quantity: number;
   managed_product: boolean;
   notes: string | null;
+  version: number;
   created_at: string;
   updated_at: string;
 }
@@ -190,6 +242,7 @@ export interface MaterialSettlement {
   remaining_stock: number;
   is_registered: boolean;
   notes: string | null;
+  version: number;
   created_at: string;
   updated_at: string;
 }
@@ -207,10 +260,120 @@ export interface MaterialReturn {
   bulk_ratio: number | null;
   is_return_target: boolean;
   manufacture_date: string | null;
+  version: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ImportField =
+  | 'vendor'
+  | 'product_name'
+  | 'product_code'
+  | 'quantity'
+  | 'delivery_date'
+  | 'po_number'
+  | 'item_number'
+  | 'change_type';
+
+// 필드별 헤더 키워드 (포함 일치, "="로 시작하면 정확히 일치)
+export type ImportColumnMapping = Partial<Record<ImportField, string[]>>;
+
+export interface ImportValueTransforms {
+  quantity_multiplier?: number;
+  product_code_remove_pattern?: string;
+  date_order?: 'month_first' | 'day_first';
+}
+
+export interface ImportProfile {
+  id: string;
+  name: string;
+  description: string | null;
+  sheet_name: string | null;
+  sheet_index: number;
+  header_row: number | null;
+  column_mapping: ImportColumnMapping;
+  value_transforms: ImportValueTransforms;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface VendorAlias {
+  id: string;
+  vendor_id: string;
+  alias: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+export type ProductCodeMatchType = 'prefix' | 'regex';
+
+export type ProductCodeRuleAction = 'include' | 'exclude';
+
+export interface ProductCodeRule {
+  id: string;
+  category: string;
+  match_type: ProductCodeMatchType;
+  pattern: string;
+  action: ProductCodeRuleAction;
+  counts_toward_target: boolean;
+  priority: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// 수정 발주 업로드로 바뀐 주문의 변경 전/후 값
+export type OrderAmendmentType = 'changed' | 'cancelled';
+
+export interface OrderAmendmentValues {
+  product_name: string;
+  quantity: number;
+  delivery_date: string | null;
+  po_status: PurchaseOrderStatus;
+}
+
+export interface OrderAmendment {
+  id: string;
+  order_id: string;
+  file_upload_id: string | null;
+  amendment_type: OrderAmendmentType;
+  before_values: OrderAmendmentValues;
+  after_values: OrderAmendmentValues;
+  amended_by: string | null;
+  created_at: string;
+}
+
+// 주문별 일별 생산/출고 기록 (주문당 날짜별 한 행)
+export interface OrderProgress {
+  id: string;
+  order_id: string;
+  work_date: string;
+  produced_quantity: number;
+  shipped_quantity: number;
+  notes: string | null;
+  recorded_by: string | null;
   created_at: string;
   updated_at: string;
 }
 
+// 생산/출고 기록 후 다시 읽는 주문의 누적 값 (트리거가 올린 version도 함께 받아야 이후 수정이 충돌로 처리되지 않음)
+export type OrderProgressTotals = Pick<Order,
+  'id' | 'produced_quantity' | 'shipped_quantity' | 'is_completed' | 'completed_at' | 'version' | 'updated_at'
+>;
+
+// 주문 필드 변경 이력 (DB 트리거가 수정된 필드마다 한 행씩 기록, 등록/삭제는 order_created/order_deleted 한 행에 행 전체 스냅샷)
+export interface OrderHistoryEntry {
+  id: string;
+  order_id: string;
+  field_name: string;
+  old_value: Json;
+  new_value: Json;
+  changed_by: string | null;
+  changed_at: string;
+}
+
 // ============================================
 // Join 타입 (관계 포함)
 // ============================================
@@ -223,10 +386,188 @@ export interface VendorTargetWithVendor extends VendorTarget {
   vendor: Pick<Vendor, 'name' | 'code'>;
 }
 
-export interface FileUploadWithUser extends FileUpload {
+// 목록 조회 시 리포트 본문은 제외 (리포트는 getFileUploadReport로 따로 조회)
+export interface FileUploadWithUser extends Omit<FileUpload, 'report'> {
   user: Pick<User, 'name' | 'email'>;
 }
 
+export interface OrderHistoryEntryWithUser extends OrderHistoryEntry {
+  user: Pick<User, 'name' | 'email'> | null;
+}
+
+// 업로드 롤백 시 함께 삭제되는 데이터
+export interface FileUploadRollbackPreview {
+  orders: OrderWithVendor[];
+  scheduleCount: number;
+  deliveryItemCount: number;
+}
+
+export interface FileUploadRollbackResult {
+  orders: number;
+  schedules: number;
+  delivery_items: number;
+}
+
+// 보관 주문 영구 삭제 시 함께 삭제된 데이터
+export interface OrderPurgeResult {
+  orders: number;
+  schedules: number;
+  delivery_items: number;
+}
+
+// 외주처별 주문 요약 (order_vendor_summary RPC, 보관/취소된 주문 제외)
+export interface OrderVendorSummary {
+  vendor_id: string;
+  order_count: number;
+  completed_count: number;
+  ordered_quantity: number;
+  produced_quantity: number; // 주문별 발주 수량을 넘는 생산분은 제외
+  shipped_quantity: number;
+}
+
+// 리포트용 외주처/제품코드/발주월별 발주 수량 (order_quantity_totals RPC, 보관/취소된 주문 제외)
+export interface OrderQuantityTotal {
+  vendor_id: string;
+  product_code: string | null;
+  order_month: string; // YYYY-MM
+  quantity: number;
+}
+
+// 주문 업로드 RPC(import_order_upload) 입력/결과
+export type OrderImportSchedule = Pick<ProductionScheduleInsert,
+  'vendor_id' | 'start_date' | 'end_date' | 'transfer_date' | 'earliest_production_date' | 'notes'
+>;
+
+export interface OrderImportItem {
+  id: string;
+  vendor_id: string;
+  product_name: string;
+  product_code: string | null;
+  po_number?: string | null;
+  item_number?: string | null;
+  quantity: number;
+  delivery_date: string | null;
+  notes: string | null;
+  schedule: OrderImportSchedule | null;
+}
+
+// po_status가 있으면 수정 발주 항목 (변경 전/후 값을 order_amendments에 기록, 취소는 생산계획 삭제)
+export interface OrderImportUpdateItem {
+  id: string;
+  product_name?: string;
+  quantity?: number;
+  delivery_date?: string | null;
+  po_status?: OrderAmendmentType;
+  schedule: OrderImportSchedule | null;
+}
+
+export interface OrderImportResult {
+  file_upload_id: string;
+  inserted: number;
+  updated: number;
+  cancelled: number;
+  schedules: number;
+  warnings: string[];
+}
+
+// 주문 라인 분할/병합/외주처 변경 계보 (병합된 원 주문은 삭제되므로 source_snapshot으로 추적)
+export type OrderLineageOperation = 'split' | 'merge' | 'reassign';
+
+export interface OrderLineage {
+  id: string;
+  operation: OrderLineageOperation;
+  source_order_id: string;
+  result_order_id: string;
+  quantity: number;
+  from_vendor_id: string | null;
+  to_vendor_id: string | null;
+  source_snapshot: Json;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface OrderLineageWithUser extends OrderLineage {
+  user: Pick<User, 'name' | 'email'> | null;
+}
+
+// 주문 라인 분할 RPC(split_order_line) 입력
+export interface OrderSplitPart {
+  id: string;
+  quantity: number;
+  delivery_date: string | null;
+  vendor_id: string;
+  schedule: OrderImportSchedule | null;
+}
+
+// 주문 댓글 (delivery_item_id가 없으면 주문/PO 라인 스레드, 있으면 납품 항목 스레드)
+export interface OrderCommentAttachment {
+  path: string; // order-comment-attachments 버킷 경로
+  name: string;
+  size: number;
+  content_type: string | null;
+}
+
+export interface OrderComment {
+  id: string;
+  order_id: string;
+  delivery_item_id: string | null;
+  parent_id: string | null;
+  author_id: string;
+  author_vendor_id: string | null; // 외주처 포털에서 작성한 경우
+  body: string;
+  attachments: OrderCommentAttachment[];
+  created_at: string;
+}
+
+export interface OrderCommentInsert {
+  id?: string;
+  order_id: string;
+  delivery_item_id?: string | null;
+  parent_id?: string | null;
+  author_vendor_id?: string | null;
+  body: string;
+  attachments?: OrderCommentAttachment[];
+}
+
+export interface OrderCommentWithAuthor extends OrderComment {
+  author: Pick<User, 'name' | 'role'> | null; // get_order_comments RPC (이름이 없으면 이메일 앞부분)
+  author_vendor: Pick<Vendor, 'name'> | null;
+}
+
+export interface OrderCommentRead {
+  id: string;
+  user_id: string;
+  order_id: string;
+  delivery_item_id: string | null;
+  last_read_at: string;
+}
+
+// 스레드별 댓글 수 (comment_thread_summary RPC)
+export interface CommentThreadSummary {
+  order_id: string;
+  delivery_item_id: string | null;
+  comment_count: number;
+  unread_count: number; // 호출자가 마지막으로 읽은 뒤 다른 사람이 쓴 댓글
+  last_comment_at: string;
+}
+
+// 주문 포장/제품 이미지 (orders.packaging_image_url / product_image_url)
+export type OrderImageType = 'packaging' | 'product';
+
+// 제품코드별 기본 이미지 (이후 등록되는 같은 제품코드 주문에 자동 적용)
+export interface ProductImage {
+  id: string;
+  product_code: string;
+  image_type: OrderImageType;
+  image_url: string;
+  storage_path: string; // order-images 버킷 경로
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ProductImageInsert = Pick<ProductImage, 'product_code' | 'image_type' | 'image_url' | 'storage_path'>;
+
 export interface ProductionScheduleWithDetails extends ProductionSchedule {
   order: Pick<Order, 'product_name' | 'product_code' | 'quantity' | 'delivery_date' | 'order_date'>;
   vendor: Pick<Vendor, 'name' | 'code' | 'daily_capacity' | 'line_count'>;
@@ -263,7 +604,8 @@ export interface MaterialReturnWithVendor extends MaterialReturn {
 // Insert/Update 타입 (새 레코드 생성/수정 시 사용)
 // ============================================
 
-export type UserInsert = Omit<User, 'created_at' | 'updated_at'> & {
+export type UserInsert = Omit<User, 'vendor_id' | 'created_at' | 'updated_at'> & {
+  vendor_id?: string | null;
   created_at?: string;
   updated_at?: string;
 };
@@ -283,15 +625,18 @@ export type VendorUpdate = Partial<Omit<Vendor, 'id' | 'created_at'>> & {
 };
 
 export type OrderInsert = Omit<Order,
-  'id' | 'created_at' | 'updated_at' | 'is_completed' | 'completed_at' |
+  'id' | 'created_at' | 'updated_at' | 'version' | 'is_completed' | 'completed_at' | 'produced_quantity' | 'shipped_quantity' |
   'po_number' | 'item_number' | 'unit' | 'unit_price' | 'currency' | 'price_unit' |
   'request_date' | 'received_quantity' | 'remaining_quantity' | 'warehouse' |
   'cosmax_comment' | 'customer_code' | 'po_status' | 'is_delivery_completed' |
-  'packaging_image_url' | 'product_image_url' | 'approval_status'
+  'packaging_image_url' | 'product_image_url' | 'approval_status' | 'file_upload_id' |
+  'is_archived' | 'archived_at' | 'archived_by'
 > & {
   id?: string;
   is_completed?: boolean;
   completed_at?: string | null;
+  produced_quantity?: number;
+  shipped_quantity?: number;
   po_number?: string | null;
   item_number?: string | null;
   unit?: string;
@@ -309,11 +654,15 @@ export type OrderInsert = Omit<Order,
   packaging_image_url?: string | null;
   product_image_url?: string | null;
   approval_status?: ApprovalStatus;
+  file_upload_id?: string | null;
+  is_archived?: boolean;
+  archived_at?: string | null;
+  archived_by?: string | null;
   created_at?: string;
   updated_at?: string;
 };
 
-export type OrderUpdate = Partial<Omit<Order, 'id' | 'created_at'>> & {
+export type OrderUpdate = Partial<Omit<Order, 'id' | 'version' | 'created_at'>> & {
   updated_at?: string;
 };
 
@@ -322,18 +671,19 @@ export type VendorTargetInsert = Omit<VendorTarget, 'id' | 'created_at'> & {
   created_at?: string;
 };
 
-export type FileUploadInsert = Omit<FileUpload, 'id' | 'created_at'> & {
+export type FileUploadInsert = Omit<FileUpload, 'id' | 'report' | 'created_at'> & {
   id?: string;
+  report?: ImportReport | null;
   created_at?: string;
 };
 
-export type ProductionScheduleInsert = Omit<ProductionSchedule, 'id' | 'created_at' | 'updated_at'> & {
+export type ProductionScheduleInsert = Omit<ProductionSchedule, 'id' | 'version' | 'created_at' | 'updated_at'> & {
   id?: string;
   created_at?: string;
   updated_at?: string;
 };
 
-export type ProductionScheduleUpdate = Partial<Omit<ProductionSchedule, 'id' | 'order_id' | 'created_at'>> & {
+export type ProductionScheduleUpdate = Partial<Omit<ProductionSchedule, 'id' | 'order_id' | 'version' | 'created_at'>> & {
   updated_at?: string;
 };
 
@@ -351,46 +701,83 @@ export type BomItemUpdate = Partial<Omit<BomItem, 'id' | 'created_at'>> & {
   updated_at?: string;
 };
 
-export type DeliveryNoteInsert = Omit<DeliveryNote, 'id' | 'created_at' | 'updated_at'> & {
+export type DeliveryNoteInsert = Omit<DeliveryNote, 'id' | 'version' | 'created_at' | 'updated_at'> & {
+  id?: string;
+  created_at?: string;
+  updated_at?: string;
+};
+
+export type DeliveryNoteUpdate = Partial<Omit<DeliveryNote, 'id' | 'version' | 'created_at'>> & {
+  updated_at?: string;
+};
+
+export type DeliveryItemInsert = Omit<DeliveryItem, 'id' | 'version' | 'created_at' | 'updated_at'> & {
+  id?: string;
+  created_at?: string;
+  updated_at?: string;
+};
+
+export type DeliveryItemUpdate = Partial<Omit<DeliveryItem, 'id' | 'version' | 'created_at'>> & {
+  updated_at?: string;
+};
+
+export type MaterialSettlementInsert = Omit<MaterialSettlement, 'id' | 'version' | 'created_at' | 'updated_at'> & {
   id?: string;
   created_at?: string;
   updated_at?: string;
 };
 
-export type DeliveryNoteUpdate = Partial<Omit<DeliveryNote, 'id' | 'created_at'>> & {
+export type MaterialSettlementUpdate = Partial<Omit<MaterialSettlement, 'id' | 'version' | 'created_at'>> & {
   updated_at?: string;
 };
 
-export type DeliveryItemInsert = Omit<DeliveryItem, 'id' | 'created_at' | 'updated_at'> & {
+export type MaterialReturnInsert = Omit<MaterialReturn, 'id' | 'version' | 'created_at' | 'updated_at'> & {
   id?: string;
   created_at?: string;
   updated_at?: string;
 };
 
-export type DeliveryItemUpdate = Partial<Omit<DeliveryItem, 'id' | 'created_at'>> & {
+export type MaterialReturnUpdate = Partial<Omit<MaterialReturn, 'id' | 'version' | 'created_at'>> & {
   updated_at?: string;
 };
 
-export type MaterialSettlementInsert = Omit<MaterialSettlement, 'id' | 'created_at' | 'updated_at'> & {
+export type ImportProfileInsert = Omit<ImportProfile, 'id' | 'created_at' | 'updated_at'> & {
   id?: string;
   created_at?: string;
   updated_at?: string;
 };
 
-export type MaterialSettlementUpdate = Partial<Omit<MaterialSettlement, 'id' | 'created_at'>> & {
+export type ImportProfileUpdate = Partial<Omit<ImportProfile, 'id' | 'created_at'>> & {
   updated_at?: string;
 };
 
-export type MaterialReturnInsert = Omit<MaterialReturn, 'id' | 'created_at' | 'updated_at'> & {
+export type VendorAliasInsert = Omit<VendorAlias, 'id' | 'created_at'> & {
+  id?: string;
+  created_at?: string;
+};
+
+export type ProductCodeRuleInsert = Omit<ProductCodeRule, 'id' | 'created_at' | 'updated_at'> & {
   id?: string;
   created_at?: string;
   updated_at?: string;
 };
 
-export type MaterialReturnUpdate = Partial<Omit<MaterialReturn, 'id' | 'created_at'>> & {
+export type ProductCodeRuleUpdate = Partial<Omit<ProductCodeRule, 'id' | 'created_at'>> & {
   updated_at?: string;
 };
 
+export type OrderProgressInsert = Omit<OrderProgress, 'id' | 'recorded_by' | 'created_at' | 'updated_at'> & {
+  id?: string;
+  recorded_by?: string | null; // 생략하면 DB 기본값(auth.uid())
+  created_at?: string;
+  updated_at?: string;
+};
+
+export type OrderAmendmentInsert = Omit<OrderAmendment, 'id' | 'created_at'> & {
+  id?: string;
+  created_at?: string;
+};
+
 // ============================================
 // Supabase Database 타입 (supabase-js 클라이언트용)
 // 참고: Supabase CLI로 자동 생성된 타입을 사용하는 것이 권장됩니다.
@@ -474,6 +861,66 @@ export interface Database {
         Update: MaterialReturnUpdate;
         Relationships: [];
       };
+      import_profiles: {
+        Row: ImportProfile;
+        Insert: ImportProfileInsert;
+        Update: ImportProfileUpdate;
+        Relationships: [];
+      };
+      vendor_aliases: {
+        Row: VendorAlias;
+        Insert: VendorAliasInsert;
+        Update: Partial<VendorAlias>;
+        Relationships: [];
+      };
+      product_code_rules: {
+        Row: ProductCodeRule;
+        Insert: ProductCodeRuleInsert;
+        Update: ProductCodeRuleUpdate;
+        Relationships: [];
+      };
+      order_amendments: {
+        Row: OrderAmendment;
+        Insert: OrderAmendmentInsert;
+        Update: Partial<OrderAmendment>;
+        Relationships: [];
+      };
+      order_progress: {
+        Row: OrderProgress;
+        Insert: OrderProgressInsert;
+        Update: Partial<OrderProgress>;
+        Relationships: [];
+      };
+      order_history: {
+        Row: OrderHistoryEntry;
+        Insert: never;
+        Update: never;
+        Relationships: [];
+      };
+      order_lineage: {
+        Row: OrderLineage;
+        Insert: never;
+        Update: never;
+        Relationships: [];
+      };
+      order_comments: {
+        Row: OrderComment;
+        Insert: OrderCommentInsert;
+        Update: Partial<OrderComment>;
+        Relationships: [];
+      };
+      order_comment_reads: {
+        Row: OrderCommentRead;
+        Insert: Omit<OrderCommentRead, 'id' | 'last_read_at'>;
+        Update: Partial<OrderCommentRead>;
+        Relationships: [];
+      };
+      product_images: {
+        Row: ProductImage;
+        Insert: ProductImageInsert;
+        Update: Partial<ProductImageInsert> & { updated_at?: string };
+        Relationships: [];
+      };
     };
     Views: {
       orders_with_schedule: {
@@ -481,7 +928,58 @@ export interface Database {
       };
     };
     Functions: {
-      [_ in never]: never;
+      rollback_file_upload: {
+        Args: { p_upload_id: string };
+        Returns: Json;
+      };
+      import_order_upload: {
+        Args: { p_file_name: string; p_order_date: string; p_orders: Json; p_updates?: Json; p_report?: Json };
+        Returns: Json;
+      };
+      archive_orders: {
+        Args: { p_date_from: string; p_date_to: string };
+        Returns: number;
+      };
+      restore_orders: {
+        Args: { p_order_ids: string[] };
+        Returns: number;
+      };
+      purge_archived_orders: {
+        Args: { p_order_ids: string[] };
+        Returns: Json;
+      };
+      order_vendor_summary: {
+        Args: { p_vendor_id?: string | null };
+        Returns: OrderVendorSummary[];
+      };
+      order_quantity_totals: {
+        Args: { p_vendor_id?: string | null };
+        Returns: OrderQuantityTotal[];
+      };
+      get_order_comments: {
+        Args: { p_order_id: string; p_delivery_item_id?: string | null; p_vendor_id?: string | null };
+        Returns: OrderCommentWithAuthor[];
+      };
+      split_order_line: {
+        Args: { p_order_id: string; p_expected_version: number; p_parts: Json; p_source_schedule?: Json };
+        Returns: Json;
+      };
+      merge_order_lines: {
+        Args: { p_target_id: string; p_source_ids: string[]; p_versions: Json; p_schedule?: Json };
+        Returns: Json;
+      };
+      reassign_order_line: {
+        Args: { p_order_id: string; p_expected_version: number; p_vendor_id: string; p_schedule?: Json };
+        Returns: Json;
+      };
+      mark_comment_thread_read: {
+        Args: { p_order_id: string; p_delivery_item_id?: string | null };
+        Returns: undefined;
+      };
+      comment_thread_summary: {
+        Args: { p_order_ids?: string[] | null; p_delivery_item_ids?: string[] | null; p_vendor_id?: string | null };
+        Returns: CommentThreadSummary[];
+      };
     };
     Enums: {
       user_role: UserRole;
@@ -1,21 +1,3 @@
-export interface OrderItem {
-  id: string;
-  productName: string;
-  productCode?: string; // 제품코드 (F열)
-  quantity: string;
-  vendorName: string;
-  deliveryDate?: string; // 납기요청일
-  orderDate?: string; // 발주일 (파일 업로드 날짜)
-  isCompleted: boolean;
-  notes?: string;
-}
-
-export interface VendorGroup {
-  vendorName: string;
-  items: OrderItem[];
-  code: string; // 6-digit Login Code
-}
-
 export enum AppView {
   LOGIN = 'LOGIN',
   ADMIN_DASHBOARD = 'ADMIN_DASHBOARD',
@@ -39,3 +21,38 @@ export interface AuthState {
   isLoading: boolean;
   isAuthenticated: boolean;
 }
+
+// ============================================
+// Document Parser Types (캡처/텍스트 발주 분석)
+// ============================================
+
+export type DocumentParserKind = 'gemini' | 'fixture';
+
+export interface DocumentParserInput {
+  kind: 'image' | 'text';
+  data: string; // 이미지는 base64 data URL, 텍스트는 원문
+}
+
+/** 스키마 검증을 통과한 분석 행 */
+export interface ParsedDocumentRow {
+  vendorName: string;
+  productName: string;
+  productCode: string;
+  quantity: string;
+  deliveryDate: string;
+  notes: string;
+  confidence: number | null; // 0~1, 제공되지 않으면 null
+  warnings: string[];
+}
+
+export interface DocumentParseResult {
+  provider: DocumentParserKind;
+  rows: ParsedDocumentRow[];
+  warnings: string[]; // 행 단위가 아닌 경고 (예: 스키마 불일치로 제외된 항목)
+}
+
+/** 분석 백엔드: 응답 원본을 반환하고 검증은 공통 단계에서 수행 */
+export interface DocumentParserProvider {
+  kind: DocumentParserKind;
+  parse: (input: DocumentParserInput) => Promise<unknown>;
+}
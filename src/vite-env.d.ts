@@ -4,6 +4,8 @@ interface ImportMetaEnv {
   readonly VITE_SUPABASE_URL: string
   readonly VITE_SUPABASE_ANON_KEY: string
   readonly VITE_GEMINI_API_KEY: string
+  readonly VITE_DOCUMENT_PARSER?: 'gemini' | 'fixture'
+  readonly VITE_PARSER_RECORD?: string
 }
 
 interface ImportMeta {
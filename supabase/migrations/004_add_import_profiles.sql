@@ -0,0 +1,67 @@
+-- ============================================
+-- Migration 004: 발주 업로드 가져오기 프로필
+-- 시트 선택, 헤더 행, 열 매핑, 값 변환 규칙을 DB에 저장
+-- ============================================
+
+-- ============================================
+-- 1. IMPORT_PROFILES 테이블
+-- ============================================
+CREATE TABLE IF NOT EXISTS import_profiles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT UNIQUE NOT NULL,
+  description TEXT,
+
+  -- 시트 선택 (sheet_name 우선, 없으면 sheet_index, 범위 밖이면 첫 번째 시트)
+  sheet_name TEXT,
+  sheet_index INTEGER DEFAULT 0 CHECK (sheet_index >= 0),
+
+  -- 헤더 행 (0부터 시작, NULL이면 열 매핑 키워드로 자동 탐색)
+  header_row INTEGER CHECK (header_row >= 0),
+
+  -- 열 매핑: { "vendor": ["외주처"], "product_name": ["품명"], ... }
+  -- 키워드는 헤더 셀에 포함되면 일치, "="로 시작하면 정확히 일치해야 함
+  column_mapping JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+  -- 값 변환: { "quantity_multiplier": 1, "product_code_remove_pattern": "-", ... }
+  value_transforms JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+  is_active BOOLEAN DEFAULT true,
+  created_by UUID REFERENCES users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TRIGGER import_profiles_updated_at
+  BEFORE UPDATE ON import_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- 2. 기본 프로필 (기존 "외주출고 제출자료" 양식)
+-- ============================================
+INSERT INTO import_profiles (name, description, sheet_index, header_row, column_mapping, value_transforms)
+VALUES (
+  '외주출고 제출자료',
+  '기존 외주출고 제출자료 양식 (두 번째 시트, 외주처/품명 헤더 자동 탐색)',
+  1,
+  NULL,
+  '{
+    "vendor": ["외주처"],
+    "product_name": ["품명"],
+    "product_code": ["sap", "제품코드", "=코드"],
+    "quantity": ["수량"],
+    "delivery_date": ["납기", "요청일", "delivery"]
+  }'::jsonb,
+  '{ "quantity_multiplier": 1, "date_order": "month_first" }'::jsonb
+)
+ON CONFLICT (name) DO NOTHING;
+
+-- ============================================
+-- 3. RLS 정책
+-- ============================================
+ALTER TABLE import_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Active users can view import_profiles" ON import_profiles
+  FOR SELECT USING (EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND is_active = true));
+CREATE POLICY "Admin can manage import_profiles" ON import_profiles
+  FOR ALL USING (EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'));
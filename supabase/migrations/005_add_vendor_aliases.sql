@@ -0,0 +1,27 @@
+-- ============================================
+-- Migration 005: 외주처 별칭
+-- 발주 파일의 외주처 표기(띄어쓰기, 오타, 영문명 등)를 외주처에 연결
+-- ============================================
+
+-- ============================================
+-- 1. VENDOR_ALIASES 테이블
+-- ============================================
+CREATE TABLE IF NOT EXISTS vendor_aliases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  vendor_id UUID NOT NULL REFERENCES vendors(id) ON DELETE CASCADE,
+  alias TEXT UNIQUE NOT NULL,
+  created_by UUID REFERENCES users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_vendor_aliases_vendor ON vendor_aliases(vendor_id);
+
+-- ============================================
+-- 2. RLS 정책
+-- ============================================
+ALTER TABLE vendor_aliases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Active users can view vendor_aliases" ON vendor_aliases
+  FOR SELECT USING (EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND is_active = true));
+CREATE POLICY "Admin can manage vendor_aliases" ON vendor_aliases
+  FOR ALL USING (EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'));
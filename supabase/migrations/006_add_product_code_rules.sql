@@ -0,0 +1,46 @@
+-- ============================================
+-- Migration 006: 제품코드 포함 규칙
+-- 업로드 대상 제품코드와 목표 집계 대상 제품코드를 관리자가 관리
+-- ============================================
+
+-- ============================================
+-- 1. PRODUCT_CODE_RULES 테이블
+-- ============================================
+CREATE TABLE IF NOT EXISTS product_code_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  category TEXT NOT NULL,                         -- 분류명 (예: 완제품)
+  match_type TEXT NOT NULL DEFAULT 'prefix' CHECK (match_type IN ('prefix', 'regex')),
+  pattern TEXT NOT NULL,                          -- 접두사 또는 정규식
+  action TEXT NOT NULL DEFAULT 'include' CHECK (action IN ('include', 'exclude')),
+  counts_toward_target BOOLEAN DEFAULT false,     -- 목표 달성률 집계 포함 여부
+  priority INTEGER NOT NULL DEFAULT 100,          -- 낮을수록 먼저 적용 (처음 일치한 규칙이 결정)
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_code_rules_priority ON product_code_rules(priority);
+
+CREATE TRIGGER product_code_rules_updated_at
+  BEFORE UPDATE ON product_code_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- 2. 기본 규칙 (기존 하드코딩 규칙)
+-- 업로드: 1, 9, 3으로 시작하는 코드만 포함 / 리포트: 9로 시작하는 코드만 집계
+-- ============================================
+INSERT INTO product_code_rules (category, match_type, pattern, action, counts_toward_target, priority) VALUES
+  ('완제품', 'prefix', '9', 'include', true, 10),
+  ('1 계열', 'prefix', '1', 'include', false, 20),
+  ('3 계열', 'prefix', '3', 'include', false, 30);
+
+-- ============================================
+-- 3. RLS 정책
+-- ============================================
+ALTER TABLE product_code_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Active users can view product_code_rules" ON product_code_rules
+  FOR SELECT USING (EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND is_active = true));
+CREATE POLICY "Admin can manage product_code_rules" ON product_code_rules
+  FOR ALL USING (EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'));
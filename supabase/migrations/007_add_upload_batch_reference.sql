@@ -0,0 +1,58 @@
+-- ============================================
+-- Migration 007: 주문-업로드 배치 연결 및 업로드 롤백
+-- 업로드로 생성된 주문에 file_upload_id를 기록하고, 업로드 단위로 일괄 삭제
+-- ============================================
+
+-- ============================================
+-- 1. ORDERS 테이블에 업로드 배치 참조 추가
+-- ============================================
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS file_upload_id UUID REFERENCES file_uploads(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_orders_file_upload ON orders(file_upload_id);
+
+COMMENT ON COLUMN orders.file_upload_id IS '주문을 생성한 업로드 배치 (업로드 이전 주문은 NULL)';
+
+-- ============================================
+-- 2. 업로드 롤백 함수
+-- 배치 주문의 납품서 항목, 생산계획, 주문, 업로드 이력을 한 트랜잭션에서 삭제
+-- 호출자 권한으로 실행되므로 각 테이블의 RLS 정책이 그대로 적용됨
+-- ============================================
+CREATE OR REPLACE FUNCTION rollback_file_upload(p_upload_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_order_ids UUID[];
+  v_delivery_items INTEGER;
+  v_schedules INTEGER;
+  v_orders INTEGER;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION '관리자만 업로드를 롤백할 수 있습니다.';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM file_uploads WHERE id = p_upload_id) THEN
+    RAISE EXCEPTION '업로드 이력을 찾을 수 없습니다.';
+  END IF;
+
+  SELECT COALESCE(array_agg(id), '{}') INTO v_order_ids
+  FROM orders
+  WHERE file_upload_id = p_upload_id;
+
+  DELETE FROM delivery_items WHERE order_id = ANY(v_order_ids);
+  GET DIAGNOSTICS v_delivery_items = ROW_COUNT;
+
+  DELETE FROM production_schedules WHERE order_id = ANY(v_order_ids);
+  GET DIAGNOSTICS v_schedules = ROW_COUNT;
+
+  DELETE FROM orders WHERE id = ANY(v_order_ids);
+  GET DIAGNOSTICS v_orders = ROW_COUNT;
+
+  DELETE FROM file_uploads WHERE id = p_upload_id;
+
+  RETURN jsonb_build_object(
+    'orders', v_orders,
+    'schedules', v_schedules,
+    'delivery_items', v_delivery_items
+  );
+END;
+$$ LANGUAGE plpgsql;
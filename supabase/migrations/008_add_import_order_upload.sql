@@ -0,0 +1,136 @@
+-- ============================================
+-- Migration 008: 주문 업로드 단일 트랜잭션 처리
+-- 업로드 이력, 신규 주문, 기존 주문 수정, 초기 생산계획을 한 번의 호출로 저장
+-- ============================================
+
+-- ============================================
+-- 주문 업로드 함수
+-- p_orders:  [{ id, vendor_id, product_name, product_code, quantity, delivery_date, notes, schedule }]
+-- p_updates: [{ id, product_name, quantity, schedule }]
+-- schedule은 클라이언트 배정 로직(productionAllocation)으로 계산한 production_schedules 행 (없으면 null)
+-- 하나라도 실패하면 전체가 롤백되며, 건너뛴 항목은 warnings로 반환
+-- 호출자 권한으로 실행되므로 각 테이블의 RLS 정책이 그대로 적용됨
+-- ============================================
+CREATE OR REPLACE FUNCTION import_order_upload(
+  p_file_name TEXT,
+  p_order_date DATE,
+  p_orders JSONB,
+  p_updates JSONB DEFAULT '[]'::jsonb
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_upload_id UUID;
+  v_order_id UUID;
+  v_item JSONB;
+  v_schedule JSONB;
+  v_inserted INTEGER := 0;
+  v_updated INTEGER := 0;
+  v_schedules INTEGER := 0;
+  v_warnings TEXT[] := '{}';
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION '관리자만 주문을 업로드할 수 있습니다.';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_orders, '[]'::jsonb)) = 0
+     AND jsonb_array_length(COALESCE(p_updates, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION '등록하거나 수정할 주문이 없습니다.';
+  END IF;
+
+  -- 1. 업로드 이력
+  INSERT INTO file_uploads (file_name, order_count, order_date, uploaded_by)
+  VALUES (p_file_name, jsonb_array_length(COALESCE(p_orders, '[]'::jsonb)), p_order_date, auth.uid())
+  RETURNING id INTO v_upload_id;
+
+  -- 2. 신규 주문 + 초기 생산계획
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_orders, '[]'::jsonb))
+  LOOP
+    v_order_id := COALESCE((v_item->>'id')::UUID, gen_random_uuid());
+
+    INSERT INTO orders (
+      id, vendor_id, product_name, product_code, quantity,
+      order_date, delivery_date, notes, uploaded_by, file_upload_id
+    ) VALUES (
+      v_order_id,
+      (v_item->>'vendor_id')::UUID,
+      v_item->>'product_name',
+      NULLIF(v_item->>'product_code', ''),
+      (v_item->>'quantity')::INTEGER,
+      p_order_date,
+      NULLIF(v_item->>'delivery_date', '')::DATE,
+      NULLIF(v_item->>'notes', ''),
+      auth.uid(),
+      v_upload_id
+    );
+    v_inserted := v_inserted + 1;
+
+    v_schedule := v_item->'schedule';
+    IF v_schedule IS NULL OR jsonb_typeof(v_schedule) <> 'object' THEN
+      v_warnings := array_append(v_warnings, format('%s: 생산계획 없이 등록되었습니다.', v_item->>'product_name'));
+      CONTINUE;
+    END IF;
+
+    INSERT INTO production_schedules (
+      order_id, vendor_id, start_date, end_date, transfer_date,
+      earliest_production_date, status, is_manually_adjusted, notes
+    ) VALUES (
+      v_order_id,
+      (v_item->>'vendor_id')::UUID,
+      (v_schedule->>'start_date')::DATE,
+      (v_schedule->>'end_date')::DATE,
+      NULLIF(v_schedule->>'transfer_date', '')::DATE,
+      NULLIF(v_schedule->>'earliest_production_date', '')::DATE,
+      'planned',
+      false,
+      NULLIF(v_schedule->>'notes', '')
+    );
+    v_schedules := v_schedules + 1;
+  END LOOP;
+
+  -- 3. 기존 주문 수정 + 생산계획 재생성
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_updates, '[]'::jsonb))
+  LOOP
+    UPDATE orders
+    SET product_name = COALESCE(v_item->>'product_name', product_name),
+        quantity = COALESCE((v_item->>'quantity')::INTEGER, quantity)
+    WHERE id = (v_item->>'id')::UUID;
+
+    IF NOT FOUND THEN
+      v_warnings := array_append(v_warnings, format('수정할 주문을 찾을 수 없어 건너뛰었습니다. (%s)', v_item->>'id'));
+      CONTINUE;
+    END IF;
+    v_updated := v_updated + 1;
+
+    v_schedule := v_item->'schedule';
+    IF v_schedule IS NULL OR jsonb_typeof(v_schedule) <> 'object' THEN
+      CONTINUE;
+    END IF;
+
+    DELETE FROM production_schedules WHERE order_id = (v_item->>'id')::UUID;
+
+    INSERT INTO production_schedules (
+      order_id, vendor_id, start_date, end_date, transfer_date,
+      earliest_production_date, status, is_manually_adjusted, notes
+    ) VALUES (
+      (v_item->>'id')::UUID,
+      (v_schedule->>'vendor_id')::UUID,
+      (v_schedule->>'start_date')::DATE,
+      (v_schedule->>'end_date')::DATE,
+      NULLIF(v_schedule->>'transfer_date', '')::DATE,
+      NULLIF(v_schedule->>'earliest_production_date', '')::DATE,
+      'planned',
+      false,
+      NULLIF(v_schedule->>'notes', '')
+    );
+    v_schedules := v_schedules + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'file_upload_id', v_upload_id,
+    'inserted', v_inserted,
+    'updated', v_updated,
+    'schedules', v_schedules,
+    'warnings', to_jsonb(v_warnings)
+  );
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,161 @@
+-- ============================================
+-- Migration 009: 업로드 리포트 저장
+-- 업로드마다 읽은 행/등록된 행/건너뛴 행(사유, 시트 행 번호)을 file_uploads.report에 보관
+-- ============================================
+
+-- ============================================
+-- 1. FILE_UPLOADS 테이블에 리포트 컬럼 추가
+-- ============================================
+ALTER TABLE file_uploads
+ADD COLUMN IF NOT EXISTS report JSONB;
+
+COMMENT ON COLUMN file_uploads.report IS '업로드 리포트 (total_rows, accepted_rows, skipped_by_reason, rows, warnings). 리포트 도입 이전 업로드는 NULL';
+
+-- 관리자만 업로드 이력 수정 가능 (리포트에 저장 경고 추가)
+CREATE POLICY "Admin can update file_uploads" ON file_uploads
+  FOR UPDATE USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+  );
+
+-- ============================================
+-- 2. 주문 업로드 함수에 리포트 인자 추가
+-- p_report: 클라이언트가 만든 업로드 리포트 (저장 중 경고는 report.warnings에 추가)
+-- 인자 목록이 바뀌므로 기존 함수를 삭제 후 다시 생성
+-- ============================================
+DROP FUNCTION IF EXISTS import_order_upload(TEXT, DATE, JSONB, JSONB);
+
+CREATE OR REPLACE FUNCTION import_order_upload(
+  p_file_name TEXT,
+  p_order_date DATE,
+  p_orders JSONB,
+  p_updates JSONB DEFAULT '[]'::jsonb,
+  p_report JSONB DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_upload_id UUID;
+  v_order_id UUID;
+  v_item JSONB;
+  v_schedule JSONB;
+  v_inserted INTEGER := 0;
+  v_updated INTEGER := 0;
+  v_schedules INTEGER := 0;
+  v_warnings TEXT[] := '{}';
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION '관리자만 주문을 업로드할 수 있습니다.';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_orders, '[]'::jsonb)) = 0
+     AND jsonb_array_length(COALESCE(p_updates, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION '등록하거나 수정할 주문이 없습니다.';
+  END IF;
+
+  -- 1. 업로드 이력
+  INSERT INTO file_uploads (file_name, order_count, order_date, uploaded_by, report)
+  VALUES (p_file_name, jsonb_array_length(COALESCE(p_orders, '[]'::jsonb)), p_order_date, auth.uid(), p_report)
+  RETURNING id INTO v_upload_id;
+
+  -- 2. 신규 주문 + 초기 생산계획
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_orders, '[]'::jsonb))
+  LOOP
+    v_order_id := COALESCE((v_item->>'id')::UUID, gen_random_uuid());
+
+    INSERT INTO orders (
+      id, vendor_id, product_name, product_code, quantity,
+      order_date, delivery_date, notes, uploaded_by, file_upload_id
+    ) VALUES (
+      v_order_id,
+      (v_item->>'vendor_id')::UUID,
+      v_item->>'product_name',
+      NULLIF(v_item->>'product_code', ''),
+      (v_item->>'quantity')::INTEGER,
+      p_order_date,
+      NULLIF(v_item->>'delivery_date', '')::DATE,
+      NULLIF(v_item->>'notes', ''),
+      auth.uid(),
+      v_upload_id
+    );
+    v_inserted := v_inserted + 1;
+
+    v_schedule := v_item->'schedule';
+    IF v_schedule IS NULL OR jsonb_typeof(v_schedule) <> 'object' THEN
+      v_warnings := array_append(v_warnings, format('%s: 생산계획 없이 등록되었습니다.', v_item->>'product_name'));
+      CONTINUE;
+    END IF;
+
+    INSERT INTO production_schedules (
+      order_id, vendor_id, start_date, end_date, transfer_date,
+      earliest_production_date, status, is_manually_adjusted, notes
+    ) VALUES (
+      v_order_id,
+      (v_item->>'vendor_id')::UUID,
+      (v_schedule->>'start_date')::DATE,
+      (v_schedule->>'end_date')::DATE,
+      NULLIF(v_schedule->>'transfer_date', '')::DATE,
+      NULLIF(v_schedule->>'earliest_production_date', '')::DATE,
+      'planned',
+      false,
+      NULLIF(v_schedule->>'notes', '')
+    );
+    v_schedules := v_schedules + 1;
+  END LOOP;
+
+  -- 3. 기존 주문 수정 + 생산계획 재생성
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_updates, '[]'::jsonb))
+  LOOP
+    UPDATE orders
+    SET product_name = COALESCE(v_item->>'product_name', product_name),
+        quantity = COALESCE((v_item->>'quantity')::INTEGER, quantity)
+    WHERE id = (v_item->>'id')::UUID;
+
+    IF NOT FOUND THEN
+      v_warnings := array_append(v_warnings, format('수정할 주문을 찾을 수 없어 건너뛰었습니다. (%s)', v_item->>'id'));
+      CONTINUE;
+    END IF;
+    v_updated := v_updated + 1;
+
+    v_schedule := v_item->'schedule';
+    IF v_schedule IS NULL OR jsonb_typeof(v_schedule) <> 'object' THEN
+      CONTINUE;
+    END IF;
+
+    DELETE FROM production_schedules WHERE order_id = (v_item->>'id')::UUID;
+
+    INSERT INTO production_schedules (
+      order_id, vendor_id, start_date, end_date, transfer_date,
+      earliest_production_date, status, is_manually_adjusted, notes
+    ) VALUES (
+      (v_item->>'id')::UUID,
+      (v_schedule->>'vendor_id')::UUID,
+      (v_schedule->>'start_date')::DATE,
+      (v_schedule->>'end_date')::DATE,
+      NULLIF(v_schedule->>'transfer_date', '')::DATE,
+      NULLIF(v_schedule->>'earliest_production_date', '')::DATE,
+      'planned',
+      false,
+      NULLIF(v_schedule->>'notes', '')
+    );
+    v_schedules := v_schedules + 1;
+  END LOOP;
+
+  -- 4. 저장 중 발생한 경고를 업로드 리포트에 추가
+  IF p_report IS NOT NULL AND array_length(v_warnings, 1) > 0 THEN
+    UPDATE file_uploads
+    SET report = jsonb_set(
+      report,
+      '{warnings}',
+      COALESCE(report->'warnings', '[]'::jsonb) || to_jsonb(v_warnings)
+    )
+    WHERE id = v_upload_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'file_upload_id', v_upload_id,
+    'inserted', v_inserted,
+    'updated', v_updated,
+    'schedules', v_schedules,
+    'warnings', to_jsonb(v_warnings)
+  );
+END;
+$$ LANGUAGE plpgsql;
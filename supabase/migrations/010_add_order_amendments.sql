@@ -0,0 +1,220 @@
+-- ============================================
+-- Migration 010: 수정 발주 업로드 (기존 주문 변경/취소)
+-- PO 번호(+항번) 또는 외주처 + 제품코드 + 발주일로 찾은 기존 주문의 수량/납기일을 바꾸거나 취소하고
+-- 변경 전/후 값을 order_amendments에 기록
+-- ============================================
+
+-- ============================================
+-- 1. ORDER_AMENDMENTS 테이블 (주문 변경/취소 이력)
+-- ============================================
+CREATE TABLE IF NOT EXISTS order_amendments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  file_upload_id UUID REFERENCES file_uploads(id) ON DELETE SET NULL,
+  amendment_type TEXT NOT NULL CHECK (amendment_type IN ('changed', 'cancelled')),
+  before_values JSONB NOT NULL,
+  after_values JSONB NOT NULL,
+  amended_by UUID REFERENCES users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_amendments_order ON order_amendments(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_amendments_upload ON order_amendments(file_upload_id);
+CREATE INDEX IF NOT EXISTS idx_orders_po_item ON orders(po_number, item_number);
+
+ALTER TABLE order_amendments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Active users can view order_amendments" ON order_amendments
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND is_active = true)
+  );
+
+CREATE POLICY "Admin can insert order_amendments" ON order_amendments
+  FOR INSERT WITH CHECK (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+  );
+
+-- ============================================
+-- 2. 주문 업로드 함수: PO 번호 저장, 수정 발주 항목 처리
+-- p_updates 항목에 delivery_date가 있으면 납기일 변경, po_status('changed' | 'cancelled')가 있으면 이력 기록
+-- 반환값에 cancelled(취소된 주문 수) 추가
+-- ============================================
+CREATE OR REPLACE FUNCTION import_order_upload(
+  p_file_name TEXT,
+  p_order_date DATE,
+  p_orders JSONB,
+  p_updates JSONB DEFAULT '[]'::jsonb,
+  p_report JSONB DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_upload_id UUID;
+  v_order_id UUID;
+  v_item JSONB;
+  v_schedule JSONB;
+  v_before orders%ROWTYPE;
+  v_after orders%ROWTYPE;
+  v_inserted INTEGER := 0;
+  v_updated INTEGER := 0;
+  v_cancelled INTEGER := 0;
+  v_schedules INTEGER := 0;
+  v_warnings TEXT[] := '{}';
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION '관리자만 주문을 업로드할 수 있습니다.';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_orders, '[]'::jsonb)) = 0
+     AND jsonb_array_length(COALESCE(p_updates, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION '등록하거나 수정할 주문이 없습니다.';
+  END IF;
+
+  -- 1. 업로드 이력
+  INSERT INTO file_uploads (file_name, order_count, order_date, uploaded_by, report)
+  VALUES (p_file_name, jsonb_array_length(COALESCE(p_orders, '[]'::jsonb)), p_order_date, auth.uid(), p_report)
+  RETURNING id INTO v_upload_id;
+
+  -- 2. 신규 주문 + 초기 생산계획
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_orders, '[]'::jsonb))
+  LOOP
+    v_order_id := COALESCE((v_item->>'id')::UUID, gen_random_uuid());
+
+    INSERT INTO orders (
+      id, vendor_id, product_name, product_code, po_number, item_number, quantity,
+      order_date, delivery_date, notes, uploaded_by, file_upload_id
+    ) VALUES (
+      v_order_id,
+      (v_item->>'vendor_id')::UUID,
+      v_item->>'product_name',
+      NULLIF(v_item->>'product_code', ''),
+      NULLIF(v_item->>'po_number', ''),
+      NULLIF(v_item->>'item_number', ''),
+      (v_item->>'quantity')::INTEGER,
+      p_order_date,
+      NULLIF(v_item->>'delivery_date', '')::DATE,
+      NULLIF(v_item->>'notes', ''),
+      auth.uid(),
+      v_upload_id
+    );
+    v_inserted := v_inserted + 1;
+
+    v_schedule := v_item->'schedule';
+    IF v_schedule IS NULL OR jsonb_typeof(v_schedule) <> 'object' THEN
+      v_warnings := array_append(v_warnings, format('%s: 생산계획 없이 등록되었습니다.', v_item->>'product_name'));
+      CONTINUE;
+    END IF;
+
+    INSERT INTO production_schedules (
+      order_id, vendor_id, start_date, end_date, transfer_date,
+      earliest_production_date, status, is_manually_adjusted, notes
+    ) VALUES (
+      v_order_id,
+      (v_item->>'vendor_id')::UUID,
+      (v_schedule->>'start_date')::DATE,
+      (v_schedule->>'end_date')::DATE,
+      NULLIF(v_schedule->>'transfer_date', '')::DATE,
+      NULLIF(v_schedule->>'earliest_production_date', '')::DATE,
+      'planned',
+      false,
+      NULLIF(v_schedule->>'notes', '')
+    );
+    v_schedules := v_schedules + 1;
+  END LOOP;
+
+  -- 3. 기존 주문 수정 + 생산계획 재생성
+  -- po_status가 있으면 수정 발주 항목: 변경 전/후 값을 기록하고, 취소는 생산계획만 삭제
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_updates, '[]'::jsonb))
+  LOOP
+    SELECT * INTO v_before FROM orders WHERE id = (v_item->>'id')::UUID FOR UPDATE;
+
+    IF NOT FOUND THEN
+      v_warnings := array_append(v_warnings, format('수정할 주문을 찾을 수 없어 건너뛰었습니다. (%s)', v_item->>'id'));
+      CONTINUE;
+    END IF;
+
+    UPDATE orders
+    SET product_name = COALESCE(v_item->>'product_name', product_name),
+        quantity = COALESCE((v_item->>'quantity')::INTEGER, quantity),
+        delivery_date = CASE
+          WHEN v_item ? 'delivery_date' THEN NULLIF(v_item->>'delivery_date', '')::DATE
+          ELSE delivery_date
+        END,
+        po_status = COALESCE(v_item->>'po_status', po_status)
+    WHERE id = v_before.id
+    RETURNING * INTO v_after;
+
+    IF v_item->>'po_status' IS NOT NULL THEN
+      INSERT INTO order_amendments (
+        order_id, file_upload_id, amendment_type, before_values, after_values, amended_by
+      ) VALUES (
+        v_before.id,
+        v_upload_id,
+        v_item->>'po_status',
+        jsonb_build_object(
+          'product_name', v_before.product_name,
+          'quantity', v_before.quantity,
+          'delivery_date', v_before.delivery_date,
+          'po_status', v_before.po_status
+        ),
+        jsonb_build_object(
+          'product_name', v_after.product_name,
+          'quantity', v_after.quantity,
+          'delivery_date', v_after.delivery_date,
+          'po_status', v_after.po_status
+        ),
+        auth.uid()
+      );
+    END IF;
+
+    IF v_item->>'po_status' = 'cancelled' THEN
+      DELETE FROM production_schedules WHERE order_id = v_before.id;
+      v_cancelled := v_cancelled + 1;
+      CONTINUE;
+    END IF;
+    v_updated := v_updated + 1;
+
+    v_schedule := v_item->'schedule';
+    IF v_schedule IS NULL OR jsonb_typeof(v_schedule) <> 'object' THEN
+      CONTINUE;
+    END IF;
+
+    DELETE FROM production_schedules WHERE order_id = (v_item->>'id')::UUID;
+
+    INSERT INTO production_schedules (
+      order_id, vendor_id, start_date, end_date, transfer_date,
+      earliest_production_date, status, is_manually_adjusted, notes
+    ) VALUES (
+      (v_item->>'id')::UUID,
+      (v_schedule->>'vendor_id')::UUID,
+      (v_schedule->>'start_date')::DATE,
+      (v_schedule->>'end_date')::DATE,
+      NULLIF(v_schedule->>'transfer_date', '')::DATE,
+      NULLIF(v_schedule->>'earliest_production_date', '')::DATE,
+      'planned',
+      false,
+      NULLIF(v_schedule->>'notes', '')
+    );
+    v_schedules := v_schedules + 1;
+  END LOOP;
+
+  -- 4. 저장 중 발생한 경고를 업로드 리포트에 추가
+  IF p_report IS NOT NULL AND array_length(v_warnings, 1) > 0 THEN
+    UPDATE file_uploads
+    SET report = jsonb_set(
+      report,
+      '{warnings}',
+      COALESCE(report->'warnings', '[]'::jsonb) || to_jsonb(v_warnings)
+    )
+    WHERE id = v_upload_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'file_upload_id', v_upload_id,
+    'inserted', v_inserted,
+    'updated', v_updated,
+    'cancelled', v_cancelled,
+    'schedules', v_schedules,
+    'warnings', to_jsonb(v_warnings)
+  );
+END;
+$$ LANGUAGE plpgsql;
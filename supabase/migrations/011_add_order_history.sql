@@ -0,0 +1,77 @@
+-- ============================================
+-- Migration 011: 주문 필드 변경 이력
+-- orders 행이 수정될 때마다 바뀐 필드별로 변경 전/후 값, 변경한 사용자, 시각을 order_history에 기록하고
+-- 등록/삭제(업로드 롤백, 병합, 보관 주문 영구 삭제 등)도 행 전체 스냅샷과 함께 기록
+-- (updateOrder, updatePurchaseOrder, updateApprovalStatus, 업로드 RPC 모두 포함)
+-- ============================================
+
+-- ============================================
+-- 1. ORDER_HISTORY 테이블
+-- 삭제된 주문의 이력도 order_id로 계속 조회할 수 있도록 외래키 없이 인덱스만 둠
+-- ============================================
+CREATE TABLE IF NOT EXISTS order_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL,
+  field_name TEXT NOT NULL,
+  old_value JSONB,
+  new_value JSONB,
+  changed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_history_order ON order_history(order_id, changed_at DESC);
+
+COMMENT ON TABLE order_history IS '주문 변경 이력 (트리거로만 기록, 같은 수정은 changed_at이 같음, 주문이 삭제되어도 남음)';
+
+ALTER TABLE order_history ENABLE ROW LEVEL SECURITY;
+
+-- 조회만 허용 (기록은 아래 트리거 함수가 담당)
+CREATE POLICY "Active users can view order_history" ON order_history
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND is_active = true)
+  );
+
+-- ============================================
+-- 2. 변경 기록 트리거
+-- 호출자에게 order_history INSERT 권한이 없으므로 SECURITY DEFINER로 실행
+-- 수정은 변경 전/후 행(to_jsonb)을 비교해 바뀐 필드마다 한 행, 등록/삭제는 order_created/order_deleted 한 행에 행 전체를 스냅샷으로 기록
+-- 자동으로 바뀌는 관리 컬럼(updated_at, created_at, version)만 제외하므로 이후 컬럼이 추가되어도 이 함수는 고치지 않음
+-- ============================================
+CREATE OR REPLACE FUNCTION record_order_history()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_old JSONB;
+  v_new JSONB;
+  v_field TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO order_history (order_id, field_name, old_value, new_value, changed_by)
+    VALUES (NEW.id, 'order_created', NULL, to_jsonb(NEW), auth.uid());
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    INSERT INTO order_history (order_id, field_name, old_value, new_value, changed_by)
+    VALUES (OLD.id, 'order_deleted', to_jsonb(OLD), NULL, auth.uid());
+    RETURN OLD;
+  END IF;
+
+  v_old := to_jsonb(OLD) - ARRAY['updated_at', 'created_at', 'version'];
+  v_new := to_jsonb(NEW) - ARRAY['updated_at', 'created_at', 'version'];
+
+  FOR v_field IN SELECT jsonb_object_keys(v_new)
+  LOOP
+    IF (v_old->v_field) IS DISTINCT FROM (v_new->v_field) THEN
+      INSERT INTO order_history (order_id, field_name, old_value, new_value, changed_by)
+      VALUES (NEW.id, v_field, v_old->v_field, v_new->v_field, auth.uid());
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER orders_history
+  AFTER INSERT OR UPDATE OR DELETE ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION record_order_history();
@@ -0,0 +1,108 @@
+-- ============================================
+-- Migration 012: 일별 생산/출고 수량
+-- 외주처가 주문별로 날짜마다 생산 수량과 출고 수량을 기록하고,
+-- 누적 생산 수량이 발주 수량 이상이면 주문을 완료로 처리
+-- ============================================
+
+-- ============================================
+-- 1. ORDERS 테이블에 누적 수량 컬럼 추가 (order_progress 합계, 트리거로 갱신)
+-- ============================================
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS produced_quantity INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS shipped_quantity INTEGER NOT NULL DEFAULT 0;
+
+-- ============================================
+-- 2. ORDER_PROGRESS 테이블 (주문별 일별 생산/출고 기록)
+-- ============================================
+CREATE TABLE IF NOT EXISTS order_progress (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  work_date DATE NOT NULL,
+  produced_quantity INTEGER NOT NULL DEFAULT 0 CHECK (produced_quantity >= 0),
+  shipped_quantity INTEGER NOT NULL DEFAULT 0 CHECK (shipped_quantity >= 0),
+  notes TEXT,
+  recorded_by UUID DEFAULT auth.uid() REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(order_id, work_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_progress_order ON order_progress(order_id, work_date);
+
+CREATE TRIGGER order_progress_updated_at
+  BEFORE UPDATE ON order_progress
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE order_progress ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Active users can view order_progress" ON order_progress
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND is_active = true)
+  );
+
+CREATE POLICY "Active users can manage order_progress" ON order_progress
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND is_active = true)
+  );
+
+-- ============================================
+-- 3. 누적 수량 갱신 트리거 (order_progress 변경 시 주문 합계 재계산)
+-- ============================================
+CREATE OR REPLACE FUNCTION sync_order_progress_totals()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_order_id UUID;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_order_id := OLD.order_id;
+  ELSE
+    v_order_id := NEW.order_id;
+  END IF;
+
+  UPDATE orders
+  SET produced_quantity = COALESCE((SELECT SUM(produced_quantity) FROM order_progress WHERE order_id = v_order_id), 0),
+      shipped_quantity = COALESCE((SELECT SUM(shipped_quantity) FROM order_progress WHERE order_id = v_order_id), 0)
+  WHERE id = v_order_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER order_progress_totals
+  AFTER INSERT OR UPDATE OR DELETE ON order_progress
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_order_progress_totals();
+
+-- ============================================
+-- 4. 완료 여부 도출 트리거 (누적 생산 수량 ≥ 발주 수량이면 완료)
+-- 수정 발주로 수량이 늘어나면 다시 미완료가 됨
+-- ============================================
+CREATE OR REPLACE FUNCTION derive_order_completion()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.is_completed := NEW.quantity > 0 AND NEW.produced_quantity >= NEW.quantity;
+
+  IF NEW.is_completed AND NOT OLD.is_completed THEN
+    NEW.completed_at := NOW();
+  ELSIF NOT NEW.is_completed THEN
+    NEW.completed_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER orders_derive_completion
+  BEFORE UPDATE OF quantity, produced_quantity ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION derive_order_completion();
+
+-- ============================================
+-- 5. 기존 완료 체크 이관 (완료된 주문은 완료 시점에 발주 수량만큼 생산한 것으로 기록)
+-- ============================================
+INSERT INTO order_progress (order_id, work_date, produced_quantity, shipped_quantity, notes)
+SELECT id, COALESCE(completed_at::DATE, CURRENT_DATE), quantity, 0, '완료 체크에서 이관'
+FROM orders
+WHERE is_completed = true AND quantity > 0
+ON CONFLICT (order_id, work_date) DO NOTHING;
@@ -0,0 +1,58 @@
+-- ============================================
+-- Migration 013: 행 버전 (낙관적 동시성 제어)
+-- 수정할 때마다 version을 1씩 올리고, 클라이언트는 불러올 때의 version과
+-- 일치하는 행만 수정해서 그 사이 다른 사용자가 바꾼 내용을 덮어쓰지 않도록 함
+-- ============================================
+
+-- ============================================
+-- 1. VERSION 컬럼 추가
+-- ============================================
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE production_schedules ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE delivery_notes ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE delivery_items ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE material_settlements ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE material_returns ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+-- ============================================
+-- 2. 버전 증가 트리거
+-- 클라이언트가 보낸 version 값은 무시하고 항상 이전 값 + 1로 설정
+-- (트리거나 RPC를 통한 수정도 버전이 올라가므로 화면에 열려 있던 행은 충돌로 처리됨)
+-- ============================================
+CREATE OR REPLACE FUNCTION increment_row_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.version := OLD.version + 1;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER orders_version
+  BEFORE UPDATE ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION increment_row_version();
+
+CREATE TRIGGER production_schedules_version
+  BEFORE UPDATE ON production_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION increment_row_version();
+
+CREATE TRIGGER delivery_notes_version
+  BEFORE UPDATE ON delivery_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION increment_row_version();
+
+CREATE TRIGGER delivery_items_version
+  BEFORE UPDATE ON delivery_items
+  FOR EACH ROW
+  EXECUTE FUNCTION increment_row_version();
+
+CREATE TRIGGER material_settlements_version
+  BEFORE UPDATE ON material_settlements
+  FOR EACH ROW
+  EXECUTE FUNCTION increment_row_version();
+
+CREATE TRIGGER material_returns_version
+  BEFORE UPDATE ON material_returns
+  FOR EACH ROW
+  EXECUTE FUNCTION increment_row_version();
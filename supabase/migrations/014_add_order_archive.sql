@@ -0,0 +1,108 @@
+-- ============================================
+-- Migration 014: 주문 보관(아카이브)
+-- 전체 삭제 대신 기간별로 주문을 보관 처리해 현재 화면에서 숨기고,
+-- 보관함에서 복원하거나 관리자가 확인 후 영구 삭제
+-- ============================================
+
+-- ============================================
+-- 1. ORDERS 테이블에 보관 컬럼 추가
+-- ============================================
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS is_archived BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS archived_by UUID REFERENCES users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_orders_archived_date ON orders(is_archived, order_date);
+
+-- ============================================
+-- 2. 기간별 보관
+-- 발주일이 기간 안에 있는 보관되지 않은 주문을 보관 처리하고 건수를 반환
+-- 생산계획, 납품서 항목, 생산/출고 기록은 그대로 두며 복원하면 다시 보임
+-- ============================================
+CREATE OR REPLACE FUNCTION archive_orders(p_date_from DATE, p_date_to DATE)
+RETURNS INTEGER AS $$
+DECLARE
+  v_archived INTEGER;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION '관리자만 주문을 보관할 수 있습니다.';
+  END IF;
+
+  IF p_date_from IS NULL OR p_date_to IS NULL OR p_date_from > p_date_to THEN
+    RAISE EXCEPTION '보관할 기간이 올바르지 않습니다.';
+  END IF;
+
+  UPDATE orders
+  SET is_archived = true,
+      archived_at = NOW(),
+      archived_by = auth.uid()
+  WHERE order_date BETWEEN p_date_from AND p_date_to
+    AND is_archived = false;
+  GET DIAGNOSTICS v_archived = ROW_COUNT;
+
+  RETURN v_archived;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- 3. 복원
+-- ============================================
+CREATE OR REPLACE FUNCTION restore_orders(p_order_ids UUID[])
+RETURNS INTEGER AS $$
+DECLARE
+  v_restored INTEGER;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION '관리자만 주문을 복원할 수 있습니다.';
+  END IF;
+
+  UPDATE orders
+  SET is_archived = false,
+      archived_at = NULL,
+      archived_by = NULL
+  WHERE id = ANY(p_order_ids)
+    AND is_archived = true;
+  GET DIAGNOSTICS v_restored = ROW_COUNT;
+
+  RETURN v_restored;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- 4. 영구 삭제
+-- 보관된 주문만 삭제하며, 납품서 항목과 생산계획도 한 트랜잭션에서 함께 삭제
+-- 호출자 권한으로 실행되므로 각 테이블의 RLS 정책이 그대로 적용됨
+-- ============================================
+CREATE OR REPLACE FUNCTION purge_archived_orders(p_order_ids UUID[])
+RETURNS JSONB AS $$
+DECLARE
+  v_order_ids UUID[];
+  v_delivery_items INTEGER;
+  v_schedules INTEGER;
+  v_orders INTEGER;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION '관리자만 주문을 영구 삭제할 수 있습니다.';
+  END IF;
+
+  SELECT COALESCE(array_agg(id), '{}') INTO v_order_ids
+  FROM orders
+  WHERE id = ANY(p_order_ids)
+    AND is_archived = true;
+
+  DELETE FROM delivery_items WHERE order_id = ANY(v_order_ids);
+  GET DIAGNOSTICS v_delivery_items = ROW_COUNT;
+
+  DELETE FROM production_schedules WHERE order_id = ANY(v_order_ids);
+  GET DIAGNOSTICS v_schedules = ROW_COUNT;
+
+  DELETE FROM orders WHERE id = ANY(v_order_ids);
+  GET DIAGNOSTICS v_orders = ROW_COUNT;
+
+  RETURN jsonb_build_object(
+    'orders', v_orders,
+    'schedules', v_schedules,
+    'delivery_items', v_delivery_items
+  );
+END;
+$$ LANGUAGE plpgsql;
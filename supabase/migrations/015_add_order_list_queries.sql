@@ -0,0 +1,48 @@
+-- ============================================
+-- Migration 015: 주문 목록 서버 조회
+-- 주문 목록을 페이지 단위로 정렬/필터링해 불러오고,
+-- 외주처별 진행률은 전체 주문을 내려받지 않고 DB에서 집계
+-- ============================================
+
+-- ============================================
+-- 1. 목록 조회 인덱스
+-- 보관되지 않은 주문의 외주처/발주일 정렬과 품목명/제품코드 부분 일치 검색용
+-- ============================================
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS idx_orders_active_vendor_date
+  ON orders(vendor_id, order_date DESC)
+  WHERE is_archived = false;
+
+CREATE INDEX IF NOT EXISTS idx_orders_product_name_trgm
+  ON orders USING gin (product_name gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_orders_product_code_trgm
+  ON orders USING gin (product_code gin_trgm_ops);
+
+-- ============================================
+-- 2. 외주처별 주문 요약
+-- 보관되지 않은 주문의 건수와 수량 합계 (생산 수량은 주문별 발주 수량까지만 집계)
+-- 호출자 권한(RLS)으로 실행되며 활성 사용자는 모든 주문을 볼 수 있으므로 외주처 화면은 p_vendor_id로 좁힘
+-- ============================================
+CREATE OR REPLACE FUNCTION order_vendor_summary(p_vendor_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  vendor_id UUID,
+  order_count BIGINT,
+  completed_count BIGINT,
+  ordered_quantity BIGINT,
+  produced_quantity BIGINT,
+  shipped_quantity BIGINT
+) AS $$
+  SELECT
+    o.vendor_id,
+    COUNT(*),
+    COUNT(*) FILTER (WHERE o.is_completed),
+    COALESCE(SUM(o.quantity), 0),
+    COALESCE(SUM(LEAST(o.produced_quantity, o.quantity)), 0),
+    COALESCE(SUM(o.shipped_quantity), 0)
+  FROM orders o
+  WHERE o.is_archived = false
+    AND (p_vendor_id IS NULL OR o.vendor_id = p_vendor_id)
+  GROUP BY o.vendor_id;
+$$ LANGUAGE sql STABLE;
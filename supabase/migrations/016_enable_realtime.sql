@@ -0,0 +1,40 @@
+-- ============================================
+-- Migration 016: 실시간 변경 구독
+-- 주문, 생산계획, 외주 화면 테이블의 INSERT/UPDATE/DELETE를
+-- Supabase Realtime으로 전달해 열린 화면이 새로고침 없이 반영되도록 함
+-- ============================================
+
+-- ============================================
+-- 1. 변경 전 행 전체 전달
+-- 수정 이벤트의 이전 값으로 외주처별 요약을 증감 계산
+-- (RLS가 켜진 테이블의 삭제 이벤트는 기본키만 전달되므로 클라이언트가 요약을 다시 조회)
+-- ============================================
+ALTER TABLE orders REPLICA IDENTITY FULL;
+ALTER TABLE production_schedules REPLICA IDENTITY FULL;
+ALTER TABLE delivery_items REPLICA IDENTITY FULL;
+ALTER TABLE material_settlements REPLICA IDENTITY FULL;
+ALTER TABLE material_returns REPLICA IDENTITY FULL;
+
+-- ============================================
+-- 2. Realtime 발행 대상에 추가
+-- 구독자에게는 각 테이블의 RLS 정책상 조회 가능한 행만 전달됨
+-- ============================================
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    CREATE PUBLICATION supabase_realtime;
+  END IF;
+
+  FOREACH v_table IN ARRAY ARRAY['orders', 'production_schedules', 'delivery_items', 'material_settlements', 'material_returns']
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = v_table
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', v_table);
+    END IF;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,300 @@
+-- ============================================
+-- Migration 017: 주문 라인 분할/병합/외주처 변경
+-- 외주처 생산 능력이 부족할 때 엑셀 재업로드 없이 주문 라인을 나누거나 합치고 다른 외주처로 옮기며,
+-- 작업마다 원 주문 라인과의 관계(계보)를 남기고 영향받은 생산계획을 다시 만듦
+-- ============================================
+
+-- ============================================
+-- 1. ORDER_LINEAGE 테이블
+-- 병합으로 삭제된 원 주문도 추적할 수 있도록 source_order_id는 FK 없이 보관하고 작업 당시 행 전체를 스냅샷으로 저장
+-- ============================================
+CREATE TABLE IF NOT EXISTS order_lineage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  operation TEXT NOT NULL CHECK (operation IN ('split', 'merge', 'reassign')),
+  source_order_id UUID NOT NULL,
+  result_order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  from_vendor_id UUID REFERENCES vendors(id) ON DELETE SET NULL,
+  to_vendor_id UUID REFERENCES vendors(id) ON DELETE SET NULL,
+  source_snapshot JSONB NOT NULL,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_lineage_source ON order_lineage(source_order_id);
+CREATE INDEX IF NOT EXISTS idx_order_lineage_result ON order_lineage(result_order_id);
+
+COMMENT ON TABLE order_lineage IS '주문 라인 분할/병합/외주처 변경 계보 (source: 원 주문, result: 작업 결과 주문)';
+
+ALTER TABLE order_lineage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Active users can view order_lineage" ON order_lineage
+  FOR SELECT USING (EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND is_active = true));
+CREATE POLICY "Admin can manage order_lineage" ON order_lineage
+  FOR ALL USING (EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'));
+
+-- ============================================
+-- 2. 공통: 생산계획 교체
+-- 클라이언트가 배정 로직으로 계산한 생산계획(JSON)으로 주문의 기존 생산계획을 바꿈
+-- ============================================
+CREATE OR REPLACE FUNCTION replace_order_schedule(p_order_id UUID, p_schedule JSONB)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM production_schedules WHERE order_id = p_order_id;
+
+  IF p_schedule IS NULL OR jsonb_typeof(p_schedule) <> 'object' THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO production_schedules (
+    order_id, vendor_id, start_date, end_date, transfer_date,
+    earliest_production_date, status, is_manually_adjusted, notes
+  ) VALUES (
+    p_order_id,
+    (p_schedule->>'vendor_id')::UUID,
+    (p_schedule->>'start_date')::DATE,
+    (p_schedule->>'end_date')::DATE,
+    NULLIF(p_schedule->>'transfer_date', '')::DATE,
+    NULLIF(p_schedule->>'earliest_production_date', '')::DATE,
+    'planned',
+    false,
+    NULLIF(p_schedule->>'notes', '')
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- 3. 공통: 작업 대상 주문 잠금
+-- 불러올 때의 version과 다르면 충돌(40001)로 알려 클라이언트가 최신 내용을 다시 불러오게 함
+-- ============================================
+CREATE OR REPLACE FUNCTION lock_order_line(p_order_id UUID, p_expected_version INTEGER)
+RETURNS orders AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND OR v_order.is_archived THEN
+    RAISE EXCEPTION '주문을 찾을 수 없습니다.';
+  END IF;
+
+  IF v_order.version <> p_expected_version THEN
+    RAISE EXCEPTION '다른 사용자가 먼저 수정했습니다. 최신 내용을 불러온 뒤 다시 시도해 주세요.'
+      USING ERRCODE = '40001';
+  END IF;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- 4. 분할
+-- p_parts: [{ id, quantity, delivery_date, vendor_id, schedule }]
+-- 나눈 수량만큼 원 주문 수량을 줄이고, 새 라인은 원 주문의 나머지 항목을 그대로 복사
+-- (생산/출고 기록은 원 주문에 남음)
+-- ============================================
+CREATE OR REPLACE FUNCTION split_order_line(
+  p_order_id UUID,
+  p_expected_version INTEGER,
+  p_parts JSONB,
+  p_source_schedule JSONB DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_source orders%ROWTYPE;
+  v_part_row orders%ROWTYPE;
+  v_part JSONB;
+  v_moved INTEGER;
+  v_part_ids UUID[] := '{}';
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION '관리자만 주문 라인을 분할할 수 있습니다.';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_parts, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION '나눌 라인이 없습니다.';
+  END IF;
+
+  v_source := lock_order_line(p_order_id, p_expected_version);
+
+  SELECT COALESCE(SUM((part->>'quantity')::INTEGER), 0) INTO v_moved
+  FROM jsonb_array_elements(p_parts) AS part;
+
+  IF EXISTS (SELECT 1 FROM jsonb_array_elements(p_parts) AS part WHERE (part->>'quantity')::INTEGER <= 0) THEN
+    RAISE EXCEPTION '나눌 수량은 1 이상이어야 합니다.';
+  END IF;
+
+  IF v_moved >= v_source.quantity THEN
+    RAISE EXCEPTION '나눌 수량 합계(%)는 원 주문 수량(%)보다 작아야 합니다.', v_moved, v_source.quantity;
+  END IF;
+
+  FOR v_part IN SELECT * FROM jsonb_array_elements(p_parts)
+  LOOP
+    v_part_row := v_source;
+    v_part_row.id := COALESCE((v_part->>'id')::UUID, gen_random_uuid());
+    v_part_row.vendor_id := COALESCE((v_part->>'vendor_id')::UUID, v_source.vendor_id);
+    v_part_row.quantity := (v_part->>'quantity')::INTEGER;
+    v_part_row.delivery_date := COALESCE(NULLIF(v_part->>'delivery_date', '')::DATE, v_source.delivery_date);
+    v_part_row.produced_quantity := 0;
+    v_part_row.shipped_quantity := 0;
+    v_part_row.is_completed := false;
+    v_part_row.completed_at := NULL;
+    v_part_row.received_quantity := 0;
+    v_part_row.remaining_quantity := v_part_row.quantity;
+    v_part_row.version := 1;
+    v_part_row.created_at := NOW();
+    v_part_row.updated_at := NOW();
+
+    INSERT INTO orders SELECT (v_part_row).*;
+    v_part_ids := array_append(v_part_ids, v_part_row.id);
+
+    INSERT INTO order_lineage (
+      operation, source_order_id, result_order_id, quantity,
+      from_vendor_id, to_vendor_id, source_snapshot, created_by
+    ) VALUES (
+      'split', v_source.id, v_part_row.id, v_part_row.quantity,
+      v_source.vendor_id, v_part_row.vendor_id, to_jsonb(v_source), auth.uid()
+    );
+
+    PERFORM replace_order_schedule(v_part_row.id, v_part->'schedule');
+  END LOOP;
+
+  UPDATE orders
+  SET quantity = quantity - v_moved,
+      remaining_quantity = GREATEST(remaining_quantity - v_moved, 0),
+      updated_at = NOW()
+  WHERE id = v_source.id;
+
+  PERFORM replace_order_schedule(v_source.id, p_source_schedule);
+
+  RETURN jsonb_build_object('order_ids', to_jsonb(v_part_ids));
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- 5. 병합
+-- 같은 외주처/제품코드의 중복 라인을 대상 라인으로 합치고 원 라인은 삭제
+-- 납품서 항목과 생산/출고 기록은 대상 라인으로 옮김 (누적 수량은 기존 트리거가 다시 계산)
+-- p_versions: { "<주문 ID>": version } (대상 라인 포함)
+-- ============================================
+CREATE OR REPLACE FUNCTION merge_order_lines(
+  p_target_id UUID,
+  p_source_ids UUID[],
+  p_versions JSONB,
+  p_schedule JSONB DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_target orders%ROWTYPE;
+  v_source orders%ROWTYPE;
+  v_source_id UUID;
+  v_merged INTEGER := 0;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION '관리자만 주문 라인을 병합할 수 있습니다.';
+  END IF;
+
+  IF COALESCE(array_length(p_source_ids, 1), 0) = 0 OR p_target_id = ANY(p_source_ids) THEN
+    RAISE EXCEPTION '병합할 라인을 선택해 주세요.';
+  END IF;
+
+  v_target := lock_order_line(p_target_id, (p_versions->>p_target_id::TEXT)::INTEGER);
+
+  FOREACH v_source_id IN ARRAY p_source_ids
+  LOOP
+    v_source := lock_order_line(v_source_id, (p_versions->>v_source_id::TEXT)::INTEGER);
+
+    IF v_source.vendor_id <> v_target.vendor_id
+       OR v_source.product_code IS DISTINCT FROM v_target.product_code THEN
+      RAISE EXCEPTION '외주처와 제품코드가 같은 라인만 병합할 수 있습니다. (%)', v_source.product_name;
+    END IF;
+
+    INSERT INTO order_lineage (
+      operation, source_order_id, result_order_id, quantity,
+      from_vendor_id, to_vendor_id, source_snapshot, created_by
+    ) VALUES (
+      'merge', v_source.id, v_target.id, v_source.quantity,
+      v_source.vendor_id, v_target.vendor_id, to_jsonb(v_source), auth.uid()
+    );
+
+    UPDATE delivery_items SET order_id = v_target.id WHERE order_id = v_source.id;
+
+    -- 같은 작업일 기록은 대상 라인 기록에 더하고, 나머지는 대상 라인으로 옮김
+    UPDATE order_progress AS target_progress
+    SET produced_quantity = target_progress.produced_quantity + source_progress.produced_quantity,
+        shipped_quantity = target_progress.shipped_quantity + source_progress.shipped_quantity,
+        updated_at = NOW()
+    FROM order_progress AS source_progress
+    WHERE source_progress.order_id = v_source.id
+      AND target_progress.order_id = v_target.id
+      AND target_progress.work_date = source_progress.work_date;
+
+    DELETE FROM order_progress AS source_progress
+    WHERE source_progress.order_id = v_source.id
+      AND EXISTS (
+        SELECT 1 FROM order_progress AS target_progress
+        WHERE target_progress.order_id = v_target.id
+          AND target_progress.work_date = source_progress.work_date
+      );
+
+    UPDATE order_progress SET order_id = v_target.id WHERE order_id = v_source.id;
+    DELETE FROM production_schedules WHERE order_id = v_source.id;
+    DELETE FROM orders WHERE id = v_source.id;
+
+    v_merged := v_merged + v_source.quantity;
+  END LOOP;
+
+  UPDATE orders
+  SET quantity = quantity + v_merged,
+      remaining_quantity = remaining_quantity + v_merged,
+      updated_at = NOW()
+  WHERE id = v_target.id;
+
+  PERFORM replace_order_schedule(v_target.id, p_schedule);
+
+  RETURN jsonb_build_object('order_id', v_target.id, 'merged', array_length(p_source_ids, 1));
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- 6. 외주처 변경 (라인 전체)
+-- 일부 수량만 옮길 때는 분할에서 외주처를 지정
+-- ============================================
+CREATE OR REPLACE FUNCTION reassign_order_line(
+  p_order_id UUID,
+  p_expected_version INTEGER,
+  p_vendor_id UUID,
+  p_schedule JSONB DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION '관리자만 주문 라인의 외주처를 변경할 수 있습니다.';
+  END IF;
+
+  v_order := lock_order_line(p_order_id, p_expected_version);
+
+  IF v_order.vendor_id = p_vendor_id THEN
+    RAISE EXCEPTION '현재와 다른 외주처를 선택해 주세요.';
+  END IF;
+
+  INSERT INTO order_lineage (
+    operation, source_order_id, result_order_id, quantity,
+    from_vendor_id, to_vendor_id, source_snapshot, created_by
+  ) VALUES (
+    'reassign', v_order.id, v_order.id, v_order.quantity,
+    v_order.vendor_id, p_vendor_id, to_jsonb(v_order), auth.uid()
+  );
+
+  UPDATE orders
+  SET vendor_id = p_vendor_id,
+      updated_at = NOW()
+  WHERE id = v_order.id;
+
+  PERFORM replace_order_schedule(v_order.id, p_schedule);
+
+  RETURN jsonb_build_object('order_id', v_order.id);
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,57 @@
+-- ============================================
+-- Migration 018: 통합 검색 인덱스
+-- 발주/BOM/납품/자재 화면을 열지 않고 제품코드, 품목명, PO번호, 납품번호, LOT번호, 자재코드로
+-- 한 번에 찾을 수 있도록 부분 일치(ilike) 검색 컬럼에 trigram 인덱스 추가 (pg_trgm은 015에서 활성화)
+-- ============================================
+
+-- ============================================
+-- 1. 발주 (품목명/제품코드는 015에서 추가)
+-- ============================================
+CREATE INDEX IF NOT EXISTS idx_orders_po_number_trgm
+  ON orders USING gin (po_number gin_trgm_ops);
+
+-- ============================================
+-- 2. BOM
+-- ============================================
+CREATE INDEX IF NOT EXISTS idx_bom_items_search_trgm
+  ON bom_items USING gin (
+    parent_material_code gin_trgm_ops,
+    parent_material_name gin_trgm_ops,
+    child_material_code gin_trgm_ops,
+    child_material_name gin_trgm_ops,
+    purchase_document gin_trgm_ops
+  );
+
+-- ============================================
+-- 3. 납품서 / 납품 항목
+-- ============================================
+CREATE INDEX IF NOT EXISTS idx_delivery_notes_number_trgm
+  ON delivery_notes USING gin (delivery_number gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_delivery_items_search_trgm
+  ON delivery_items USING gin (
+    product_code gin_trgm_ops,
+    product_name gin_trgm_ops,
+    po_number gin_trgm_ops,
+    lot_number gin_trgm_ops
+  );
+
+-- ============================================
+-- 4. 자재정산 / 자재환입
+-- ============================================
+CREATE INDEX IF NOT EXISTS idx_material_settlements_search_trgm
+  ON material_settlements USING gin (
+    product_code gin_trgm_ops,
+    product_name gin_trgm_ops,
+    po_number gin_trgm_ops,
+    material_code gin_trgm_ops,
+    material_name gin_trgm_ops,
+    lot_number gin_trgm_ops
+  );
+
+CREATE INDEX IF NOT EXISTS idx_material_returns_search_trgm
+  ON material_returns USING gin (
+    material_code gin_trgm_ops,
+    material_name gin_trgm_ops,
+    lot_number gin_trgm_ops
+  );
@@ -0,0 +1,167 @@
+-- ============================================
+-- Migration 019: 주문 댓글 스레드
+-- 전화/메신저로 오가던 주문 관련 대화를 주문(PO 라인)과 납품 항목별 댓글 스레드로 남기고,
+-- 작성자/작성 시각/첨부파일과 사용자별 읽음 위치를 기록해 안 읽은 댓글을 표시
+-- ============================================
+
+-- ============================================
+-- 1. ORDER_COMMENTS 테이블
+-- delivery_item_id가 없으면 주문(PO 라인) 스레드, 있으면 해당 납품 항목 스레드
+-- parent_id는 답글 대상 댓글, author_vendor_id는 외주처 포털에서 작성한 경우의 외주처
+-- attachments: [{ path, name, size, content_type }] (order-comment-attachments 버킷 경로)
+-- ============================================
+CREATE TABLE IF NOT EXISTS order_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  delivery_item_id UUID REFERENCES delivery_items(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES order_comments(id) ON DELETE CASCADE,
+  author_id UUID NOT NULL DEFAULT auth.uid() REFERENCES users(id) ON DELETE CASCADE,
+  author_vendor_id UUID REFERENCES vendors(id) ON DELETE SET NULL,
+  body TEXT NOT NULL DEFAULT '',
+  attachments JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (btrim(body) <> '' OR jsonb_array_length(attachments) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_comments_thread ON order_comments(order_id, delivery_item_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_order_comments_delivery_item ON order_comments(delivery_item_id) WHERE delivery_item_id IS NOT NULL;
+
+COMMENT ON TABLE order_comments IS '주문(PO 라인)/납품 항목 댓글 스레드';
+
+ALTER TABLE order_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Active users can view order_comments" ON order_comments
+  FOR SELECT USING (EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND is_active = true));
+CREATE POLICY "Active users can insert own order_comments" ON order_comments
+  FOR INSERT WITH CHECK (
+    author_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND is_active = true)
+  );
+CREATE POLICY "Admin can manage order_comments" ON order_comments
+  FOR ALL USING (EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'));
+
+-- ============================================
+-- 2. ORDER_COMMENT_READS 테이블
+-- 사용자별 스레드 마지막 읽은 시각 (이후 다른 사람이 쓴 댓글이 안 읽은 댓글)
+-- ============================================
+CREATE TABLE IF NOT EXISTS order_comment_reads (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  delivery_item_id UUID REFERENCES delivery_items(id) ON DELETE CASCADE,
+  last_read_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_order_comment_reads_thread
+  ON order_comment_reads(user_id, order_id, COALESCE(delivery_item_id, '00000000-0000-0000-0000-000000000000'::UUID));
+
+ALTER TABLE order_comment_reads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own order_comment_reads" ON order_comment_reads
+  FOR ALL USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+-- ============================================
+-- 3. 스레드 읽음 처리
+-- ============================================
+CREATE OR REPLACE FUNCTION mark_comment_thread_read(p_order_id UUID, p_delivery_item_id UUID DEFAULT NULL)
+RETURNS VOID AS $$
+  INSERT INTO order_comment_reads (user_id, order_id, delivery_item_id, last_read_at)
+  VALUES (auth.uid(), p_order_id, p_delivery_item_id, NOW())
+  ON CONFLICT (user_id, order_id, COALESCE(delivery_item_id, '00000000-0000-0000-0000-000000000000'::UUID))
+  DO UPDATE SET last_read_at = EXCLUDED.last_read_at;
+$$ LANGUAGE sql;
+
+-- ============================================
+-- 4. 스레드별 댓글/안 읽은 댓글 수
+-- p_delivery_item_ids가 있으면 해당 납품 항목 스레드, 없으면 p_order_ids의 주문(PO 라인) 스레드
+-- p_vendor_id가 있으면 그 외주처 주문의 스레드만 집계
+-- 호출자 권한으로 실행되므로 읽음 위치는 호출자 기준
+-- ============================================
+CREATE OR REPLACE FUNCTION comment_thread_summary(
+  p_order_ids UUID[] DEFAULT NULL,
+  p_delivery_item_ids UUID[] DEFAULT NULL,
+  p_vendor_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  order_id UUID,
+  delivery_item_id UUID,
+  comment_count BIGINT,
+  unread_count BIGINT,
+  last_comment_at TIMESTAMPTZ
+) AS $$
+  SELECT
+    c.order_id,
+    c.delivery_item_id,
+    COUNT(*),
+    COUNT(*) FILTER (
+      WHERE c.author_id <> auth.uid()
+        AND (r.last_read_at IS NULL OR c.created_at > r.last_read_at)
+    ),
+    MAX(c.created_at)
+  FROM order_comments c
+  JOIN orders o ON o.id = c.order_id
+  LEFT JOIN order_comment_reads r
+    ON r.user_id = auth.uid()
+   AND r.order_id = c.order_id
+   AND r.delivery_item_id IS NOT DISTINCT FROM c.delivery_item_id
+  WHERE (p_vendor_id IS NULL OR o.vendor_id = p_vendor_id)
+    AND CASE
+      WHEN p_delivery_item_ids IS NOT NULL THEN c.delivery_item_id = ANY(p_delivery_item_ids)
+      ELSE c.delivery_item_id IS NULL AND c.order_id = ANY(p_order_ids)
+    END
+  GROUP BY c.order_id, c.delivery_item_id;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================
+-- 5. 병합된 주문 라인의 댓글 이동
+-- merge_order_lines가 원 라인을 삭제하기 전에 계보를 남기므로 그 시점에 댓글을 대상 라인으로 옮김
+-- ============================================
+CREATE OR REPLACE FUNCTION move_merged_order_comments()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE order_comments SET order_id = NEW.result_order_id WHERE order_id = NEW.source_order_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER order_lineage_move_comments
+  AFTER INSERT ON order_lineage
+  FOR EACH ROW
+  WHEN (NEW.operation = 'merge')
+  EXECUTE FUNCTION move_merged_order_comments();
+
+-- ============================================
+-- 6. 첨부파일 버킷
+-- 비공개 버킷으로 두고 클라이언트는 서명된 URL로 내려받음
+-- ============================================
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('order-comment-attachments', 'order-comment-attachments', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Active users can view order comment attachments" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'order-comment-attachments'
+    AND EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND is_active = true)
+  );
+CREATE POLICY "Active users can upload order comment attachments" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'order-comment-attachments'
+    AND EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND is_active = true)
+  );
+CREATE POLICY "Active users can delete own order comment attachments" ON storage.objects
+  FOR DELETE USING (bucket_id = 'order-comment-attachments' AND owner = auth.uid());
+
+-- ============================================
+-- 7. Realtime 발행 대상에 추가
+-- 열린 스레드와 안 읽은 댓글 표시를 새로고침 없이 갱신
+-- ============================================
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'order_comments'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.order_comments;
+  END IF;
+END;
+$$;
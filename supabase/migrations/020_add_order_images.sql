@@ -0,0 +1,84 @@
+-- ============================================
+-- Migration 020: 주문 포장/제품 이미지
+-- 외주처가 어떤 포장 버전을 써야 하는지 알 수 있도록 관리자가 주문별 이미지를 올리고,
+-- 제품코드 기본 이미지로 지정하면 이후 등록되는 같은 제품코드 주문에 자동으로 붙임
+-- ============================================
+
+-- ============================================
+-- 1. PRODUCT_IMAGES 테이블
+-- 제품코드별 기본 포장/제품 이미지 (이미지 종류마다 하나)
+-- ============================================
+CREATE TABLE IF NOT EXISTS product_images (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_code TEXT NOT NULL,
+  image_type TEXT NOT NULL CHECK (image_type IN ('packaging', 'product')),
+  image_url TEXT NOT NULL,
+  storage_path TEXT NOT NULL,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (product_code, image_type)
+);
+
+COMMENT ON TABLE product_images IS '제품코드별 기본 포장/제품 이미지 (이후 등록되는 주문에 자동 적용)';
+
+ALTER TABLE product_images ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Active users can view product_images" ON product_images
+  FOR SELECT USING (EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND is_active = true));
+CREATE POLICY "Admin can manage product_images" ON product_images
+  FOR ALL USING (EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'));
+
+-- ============================================
+-- 2. 새 주문에 제품코드 기본 이미지 적용
+-- 업로드/분할 등으로 등록되는 주문에 이미지가 없으면 기본 이미지 URL을 채움
+-- ============================================
+CREATE OR REPLACE FUNCTION apply_product_images()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.product_code IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.packaging_image_url IS NULL THEN
+    SELECT image_url INTO NEW.packaging_image_url
+    FROM product_images
+    WHERE product_code = NEW.product_code AND image_type = 'packaging';
+  END IF;
+
+  IF NEW.product_image_url IS NULL THEN
+    SELECT image_url INTO NEW.product_image_url
+    FROM product_images
+    WHERE product_code = NEW.product_code AND image_type = 'product';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER orders_apply_product_images
+  BEFORE INSERT ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_product_images();
+
+-- ============================================
+-- 3. 이미지 버킷
+-- 썸네일을 URL 그대로 보여줄 수 있도록 공개 버킷으로 두고 업로드/삭제는 관리자만
+-- 교체된 파일은 다른 주문이 같은 URL을 쓰고 있을 수 있으므로 지우지 않음
+-- ============================================
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('order-images', 'order-images', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Anyone can view order images" ON storage.objects
+  FOR SELECT USING (bucket_id = 'order-images');
+CREATE POLICY "Admin can upload order images" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'order-images'
+    AND EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+  );
+CREATE POLICY "Admin can delete order images" ON storage.objects
+  FOR DELETE USING (
+    bucket_id = 'order-images'
+    AND EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+  );
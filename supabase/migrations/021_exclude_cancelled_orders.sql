@@ -0,0 +1,43 @@
+-- ============================================
+-- Migration 021: 취소된 주문 집계 제외
+-- 수정 발주로 취소된 주문(po_status = 'cancelled')은 진행 중 목록과 외주처별 요약에서 제외
+-- (목록/리포트 조회는 앱에서 같은 조건으로 필터링)
+-- ============================================
+
+-- ============================================
+-- 1. 목록 조회 인덱스
+-- 보관/취소되지 않은 주문의 외주처/발주일 정렬용 (015의 인덱스를 대체)
+-- ============================================
+DROP INDEX IF EXISTS idx_orders_active_vendor_date;
+
+CREATE INDEX IF NOT EXISTS idx_orders_active_vendor_date
+  ON orders(vendor_id, order_date DESC)
+  WHERE is_archived = false AND po_status IS DISTINCT FROM 'cancelled';
+
+-- ============================================
+-- 2. 외주처별 주문 요약
+-- 보관/취소되지 않은 주문의 건수와 수량 합계 (생산 수량은 주문별 발주 수량까지만 집계)
+-- 호출자 권한(RLS)으로 실행되며 활성 사용자는 모든 주문을 볼 수 있으므로 외주처 화면은 p_vendor_id로 좁힘
+-- ============================================
+CREATE OR REPLACE FUNCTION order_vendor_summary(p_vendor_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  vendor_id UUID,
+  order_count BIGINT,
+  completed_count BIGINT,
+  ordered_quantity BIGINT,
+  produced_quantity BIGINT,
+  shipped_quantity BIGINT
+) AS $$
+  SELECT
+    o.vendor_id,
+    COUNT(*),
+    COUNT(*) FILTER (WHERE o.is_completed),
+    COALESCE(SUM(o.quantity), 0),
+    COALESCE(SUM(LEAST(o.produced_quantity, o.quantity)), 0),
+    COALESCE(SUM(o.shipped_quantity), 0)
+  FROM orders o
+  WHERE o.is_archived = false
+    AND o.po_status IS DISTINCT FROM 'cancelled'
+    AND (p_vendor_id IS NULL OR o.vendor_id = p_vendor_id)
+  GROUP BY o.vendor_id;
+$$ LANGUAGE sql STABLE;
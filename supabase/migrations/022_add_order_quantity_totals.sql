@@ -0,0 +1,29 @@
+-- ============================================
+-- Migration 022: 리포트 수량 서버 집계
+-- 리포트용 발주 수량을 주문 행 전체로 내려받지 않고 DB에서 외주처/제품코드/발주월별 합계로 집계
+-- (행 수 제한에 걸려 일부 주문이 빠지던 문제 해결)
+-- ============================================
+
+-- ============================================
+-- 1. 외주처/제품코드/발주월별 발주 수량
+-- 보관/취소되지 않은 주문만 집계, 목표 집계 대상 제품코드 판정은 앱의 제품코드 규칙으로 함
+-- 호출자 권한(RLS)으로 실행되며 활성 사용자는 모든 주문을 볼 수 있으므로 외주처 화면은 p_vendor_id로 좁힘
+-- ============================================
+CREATE OR REPLACE FUNCTION order_quantity_totals(p_vendor_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  vendor_id UUID,
+  product_code TEXT,
+  order_month TEXT,
+  quantity BIGINT
+) AS $$
+  SELECT
+    o.vendor_id,
+    o.product_code,
+    to_char(o.order_date, 'YYYY-MM'),
+    COALESCE(SUM(o.quantity), 0)
+  FROM orders o
+  WHERE o.is_archived = false
+    AND o.po_status IS DISTINCT FROM 'cancelled'
+    AND (p_vendor_id IS NULL OR o.vendor_id = p_vendor_id)
+  GROUP BY o.vendor_id, o.product_code, to_char(o.order_date, 'YYYY-MM');
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,156 @@
+-- ============================================
+-- Migration 023: 주문 댓글 외주처별 접근 제한
+-- 외주처 사용자가 다른 외주처 주문의 댓글/첨부파일을 보거나 쓰지 못하도록
+-- 관리자가 사용자 계정을 외주처에 연결하고, 댓글/첨부파일 권한을 그 연결 기준으로 DB에서 검사
+-- (업체번호 입력 방식은 그대로이며, 연결되지 않은 사용자는 외주처 포털에서 댓글을 볼 수 없음)
+-- ============================================
+
+-- ============================================
+-- 1. 사용자 - 외주처 연결
+-- 관리자가 사용자 관리 화면에서 지정 (users 정책상 사용자는 자기 행을 수정할 수 없음)
+-- ============================================
+ALTER TABLE users ADD COLUMN IF NOT EXISTS vendor_id UUID REFERENCES vendors(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_users_vendor ON users(vendor_id) WHERE vendor_id IS NOT NULL;
+
+COMMENT ON COLUMN users.vendor_id IS '외주처 포털 사용자가 속한 외주처 (관리자가 지정, 이 외주처 주문의 댓글만 볼 수 있음)';
+
+-- ============================================
+-- 2. 댓글 접근 권한
+-- 관리자는 모든 주문, 그 외 활성 사용자는 연결된 외주처의 주문 댓글만
+-- 첨부파일은 경로 첫 폴더({주문}/{댓글}/...)의 주문으로 판단
+-- ============================================
+CREATE OR REPLACE FUNCTION can_access_order_comments(p_order_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM users u
+    WHERE u.id = auth.uid()
+      AND u.is_active = true
+      AND (
+        u.role = 'admin'
+        OR EXISTS (SELECT 1 FROM orders o WHERE o.id = p_order_id AND o.vendor_id = u.vendor_id)
+      )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION can_access_comment_attachment(p_name TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_order_id UUID;
+BEGIN
+  BEGIN
+    v_order_id := (storage.foldername(p_name))[1]::UUID;
+  EXCEPTION WHEN invalid_text_representation THEN
+    RETURN false;
+  END;
+
+  RETURN can_access_order_comments(v_order_id);
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+-- ============================================
+-- 3. ORDER_COMMENTS 정책 교체
+-- 작성 시 외주처 표시(author_vendor_id)는 관리자가 아니면 연결된 외주처여야 하고, 항상 주문의 외주처와 같아야 함
+-- 납품 항목 스레드는 해당 주문의 납품 항목만
+-- ============================================
+DROP POLICY IF EXISTS "Active users can view order_comments" ON order_comments;
+DROP POLICY IF EXISTS "Active users can insert own order_comments" ON order_comments;
+DROP POLICY IF EXISTS "Admin can manage order_comments" ON order_comments;
+
+CREATE POLICY "Users can view accessible order_comments" ON order_comments
+  FOR SELECT USING (can_access_order_comments(order_id));
+
+CREATE POLICY "Users can insert own accessible order_comments" ON order_comments
+  FOR INSERT WITH CHECK (
+    author_id = auth.uid()
+    AND can_access_order_comments(order_id)
+    AND (
+      delivery_item_id IS NULL
+      OR EXISTS (SELECT 1 FROM delivery_items di WHERE di.id = delivery_item_id AND di.order_id = order_comments.order_id)
+    )
+    AND (
+      author_vendor_id IS NULL
+      OR author_vendor_id = (SELECT o.vendor_id FROM orders o WHERE o.id = order_comments.order_id)
+    )
+    AND (
+      EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+      OR author_vendor_id = (SELECT vendor_id FROM users WHERE id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Admin can update order_comments" ON order_comments
+  FOR UPDATE USING (EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'));
+CREATE POLICY "Admin can delete order_comments" ON order_comments
+  FOR DELETE USING (EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'));
+
+-- ============================================
+-- 4. 스레드 댓글 조회 (작성자 표시 이름 포함)
+-- users 정책상 외주처 사용자는 다른 사용자 행을 볼 수 없으므로 SECURITY DEFINER로 이름/권한만 함께 반환
+-- p_vendor_id가 있으면 그 외주처 주문의 스레드만 (관리자 미리보기)
+-- ============================================
+CREATE OR REPLACE FUNCTION get_order_comments(
+  p_order_id UUID,
+  p_delivery_item_id UUID DEFAULT NULL,
+  p_vendor_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  order_id UUID,
+  delivery_item_id UUID,
+  parent_id UUID,
+  author_id UUID,
+  author_vendor_id UUID,
+  body TEXT,
+  attachments JSONB,
+  created_at TIMESTAMPTZ,
+  author JSONB,
+  author_vendor JSONB
+) AS $$
+BEGIN
+  IF NOT can_access_order_comments(p_order_id) THEN
+    RAISE EXCEPTION '댓글을 볼 수 있는 권한이 없습니다. 관리자에게 외주처 연결을 요청하세요.';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.order_id,
+    c.delivery_item_id,
+    c.parent_id,
+    c.author_id,
+    c.author_vendor_id,
+    c.body,
+    c.attachments,
+    c.created_at,
+    CASE WHEN u.id IS NULL THEN NULL
+      ELSE jsonb_build_object('name', COALESCE(u.name, split_part(u.email, '@', 1)), 'role', u.role)
+    END,
+    CASE WHEN v.id IS NULL THEN NULL ELSE jsonb_build_object('name', v.name) END
+  FROM order_comments c
+  JOIN orders o ON o.id = c.order_id
+  LEFT JOIN users u ON u.id = c.author_id
+  LEFT JOIN vendors v ON v.id = c.author_vendor_id
+  WHERE c.order_id = p_order_id
+    AND c.delivery_item_id IS NOT DISTINCT FROM p_delivery_item_id
+    AND (p_vendor_id IS NULL OR o.vendor_id = p_vendor_id)
+  ORDER BY c.created_at;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- 5. 첨부파일 버킷 정책 교체
+-- ============================================
+DROP POLICY IF EXISTS "Active users can view order comment attachments" ON storage.objects;
+DROP POLICY IF EXISTS "Active users can upload order comment attachments" ON storage.objects;
+
+CREATE POLICY "Users can view accessible order comment attachments" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'order-comment-attachments'
+    AND can_access_comment_attachment(name)
+  );
+CREATE POLICY "Users can upload accessible order comment attachments" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'order-comment-attachments'
+    AND can_access_comment_attachment(name)
+  );
@@ -0,0 +1,181 @@
+-- ============================================
+-- Migration 024: 주문 라인 계보/수정 발주 이력 보존
+-- 병합으로 원 라인이 삭제되어도 이전 분할/외주처 변경 계보와 수정 발주 이력이 지워지지 않도록 하고,
+-- 분할로 만든 라인은 업로드 배치에서 떼어 업로드 롤백 대상에서 제외
+-- ============================================
+
+-- ============================================
+-- 1. ORDER_LINEAGE 외래키 제거
+-- result_order_id도 source_order_id처럼 FK 없이 보관 (삭제된 라인은 source_snapshot으로 확인)
+-- ============================================
+ALTER TABLE order_lineage DROP CONSTRAINT IF EXISTS order_lineage_result_order_id_fkey;
+
+COMMENT ON TABLE order_lineage IS '주문 라인 분할/병합/외주처 변경 계보 (source: 원 주문, result: 작업 결과 주문, 라인이 삭제되어도 남음)';
+
+-- ============================================
+-- 2. 분할
+-- 새 라인은 업로드 배치(file_upload_id)에 속하지 않음: 업로드와의 관계는 계보로만 추적하므로
+-- 원 업로드를 롤백해도 나눈 라인은 남음 (PO 번호/항번은 수정 발주 매칭을 위해 그대로 복사)
+-- ============================================
+CREATE OR REPLACE FUNCTION split_order_line(
+  p_order_id UUID,
+  p_expected_version INTEGER,
+  p_parts JSONB,
+  p_source_schedule JSONB DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_source orders%ROWTYPE;
+  v_part_row orders%ROWTYPE;
+  v_part JSONB;
+  v_moved INTEGER;
+  v_part_ids UUID[] := '{}';
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION '관리자만 주문 라인을 분할할 수 있습니다.';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_parts, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION '나눌 라인이 없습니다.';
+  END IF;
+
+  v_source := lock_order_line(p_order_id, p_expected_version);
+
+  SELECT COALESCE(SUM((part->>'quantity')::INTEGER), 0) INTO v_moved
+  FROM jsonb_array_elements(p_parts) AS part;
+
+  IF EXISTS (SELECT 1 FROM jsonb_array_elements(p_parts) AS part WHERE (part->>'quantity')::INTEGER <= 0) THEN
+    RAISE EXCEPTION '나눌 수량은 1 이상이어야 합니다.';
+  END IF;
+
+  IF v_moved >= v_source.quantity THEN
+    RAISE EXCEPTION '나눌 수량 합계(%)는 원 주문 수량(%)보다 작아야 합니다.', v_moved, v_source.quantity;
+  END IF;
+
+  FOR v_part IN SELECT * FROM jsonb_array_elements(p_parts)
+  LOOP
+    v_part_row := v_source;
+    v_part_row.id := COALESCE((v_part->>'id')::UUID, gen_random_uuid());
+    v_part_row.vendor_id := COALESCE((v_part->>'vendor_id')::UUID, v_source.vendor_id);
+    v_part_row.quantity := (v_part->>'quantity')::INTEGER;
+    v_part_row.delivery_date := COALESCE(NULLIF(v_part->>'delivery_date', '')::DATE, v_source.delivery_date);
+    v_part_row.produced_quantity := 0;
+    v_part_row.shipped_quantity := 0;
+    v_part_row.is_completed := false;
+    v_part_row.completed_at := NULL;
+    v_part_row.received_quantity := 0;
+    v_part_row.remaining_quantity := v_part_row.quantity;
+    v_part_row.file_upload_id := NULL;
+    v_part_row.version := 1;
+    v_part_row.created_at := NOW();
+    v_part_row.updated_at := NOW();
+
+    INSERT INTO orders SELECT (v_part_row).*;
+    v_part_ids := array_append(v_part_ids, v_part_row.id);
+
+    INSERT INTO order_lineage (
+      operation, source_order_id, result_order_id, quantity,
+      from_vendor_id, to_vendor_id, source_snapshot, created_by
+    ) VALUES (
+      'split', v_source.id, v_part_row.id, v_part_row.quantity,
+      v_source.vendor_id, v_part_row.vendor_id, to_jsonb(v_source), auth.uid()
+    );
+
+    PERFORM replace_order_schedule(v_part_row.id, v_part->'schedule');
+  END LOOP;
+
+  UPDATE orders
+  SET quantity = quantity - v_moved,
+      remaining_quantity = GREATEST(remaining_quantity - v_moved, 0),
+      updated_at = NOW()
+  WHERE id = v_source.id;
+
+  PERFORM replace_order_schedule(v_source.id, p_source_schedule);
+
+  RETURN jsonb_build_object('order_ids', to_jsonb(v_part_ids));
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- 3. 병합
+-- 원 라인의 수정 발주 이력(order_amendments)도 대상 라인으로 옮긴 뒤 원 라인 삭제
+-- ============================================
+CREATE OR REPLACE FUNCTION merge_order_lines(
+  p_target_id UUID,
+  p_source_ids UUID[],
+  p_versions JSONB,
+  p_schedule JSONB DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_target orders%ROWTYPE;
+  v_source orders%ROWTYPE;
+  v_source_id UUID;
+  v_merged INTEGER := 0;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION '관리자만 주문 라인을 병합할 수 있습니다.';
+  END IF;
+
+  IF COALESCE(array_length(p_source_ids, 1), 0) = 0 OR p_target_id = ANY(p_source_ids) THEN
+    RAISE EXCEPTION '병합할 라인을 선택해 주세요.';
+  END IF;
+
+  v_target := lock_order_line(p_target_id, (p_versions->>p_target_id::TEXT)::INTEGER);
+
+  FOREACH v_source_id IN ARRAY p_source_ids
+  LOOP
+    v_source := lock_order_line(v_source_id, (p_versions->>v_source_id::TEXT)::INTEGER);
+
+    IF v_source.vendor_id <> v_target.vendor_id
+       OR v_source.product_code IS DISTINCT FROM v_target.product_code THEN
+      RAISE EXCEPTION '외주처와 제품코드가 같은 라인만 병합할 수 있습니다. (%)', v_source.product_name;
+    END IF;
+
+    INSERT INTO order_lineage (
+      operation, source_order_id, result_order_id, quantity,
+      from_vendor_id, to_vendor_id, source_snapshot, created_by
+    ) VALUES (
+      'merge', v_source.id, v_target.id, v_source.quantity,
+      v_source.vendor_id, v_target.vendor_id, to_jsonb(v_source), auth.uid()
+    );
+
+    UPDATE delivery_items SET order_id = v_target.id WHERE order_id = v_source.id;
+    UPDATE order_amendments SET order_id = v_target.id WHERE order_id = v_source.id;
+
+    -- 같은 작업일 기록은 대상 라인 기록에 더하고, 나머지는 대상 라인으로 옮김
+    UPDATE order_progress AS target_progress
+    SET produced_quantity = target_progress.produced_quantity + source_progress.produced_quantity,
+        shipped_quantity = target_progress.shipped_quantity + source_progress.shipped_quantity,
+        updated_at = NOW()
+    FROM order_progress AS source_progress
+    WHERE source_progress.order_id = v_source.id
+      AND target_progress.order_id = v_target.id
+      AND target_progress.work_date = source_progress.work_date;
+
+    DELETE FROM order_progress AS source_progress
+    WHERE source_progress.order_id = v_source.id
+      AND EXISTS (
+        SELECT 1 FROM order_progress AS target_progress
+        WHERE target_progress.order_id = v_target.id
+          AND target_progress.work_date = source_progress.work_date
+      );
+
+    UPDATE order_progress SET order_id = v_target.id WHERE order_id = v_source.id;
+    DELETE FROM production_schedules WHERE order_id = v_source.id;
+    DELETE FROM orders WHERE id = v_source.id;
+
+    v_merged := v_merged + v_source.quantity;
+  END LOOP;
+
+  UPDATE orders
+  SET quantity = quantity + v_merged,
+      remaining_quantity = remaining_quantity + v_merged,
+      updated_at = NOW()
+  WHERE id = v_target.id;
+
+  PERFORM replace_order_schedule(v_target.id, p_schedule);
+
+  RETURN jsonb_build_object('order_id', v_target.id, 'merged', array_length(p_source_ids, 1));
+END;
+$$ LANGUAGE plpgsql;